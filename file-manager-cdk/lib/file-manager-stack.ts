@@ -4,6 +4,10 @@ import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
+import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
 import { Construct } from 'constructs';
 
 export class FileManagerStack extends cdk.Stack {
@@ -15,6 +19,12 @@ export class FileManagerStack extends cdk.Stack {
       bucketName: `file-manager-${this.account}-${this.region}`,
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       autoDeleteObjects: true,
+      lifecycleRules: [
+        {
+          // Clean up parts from multipart uploads that were never completed or aborted
+          abortIncompleteMultipartUploadAfter: cdk.Duration.days(7),
+        },
+      ],
       cors: [
         {
           allowedMethods: [
@@ -25,6 +35,8 @@ export class FileManagerStack extends cdk.Stack {
           ],
           allowedOrigins: ['*'],
           allowedHeaders: ['*'],
+          // Lets browser clients make ranged requests against presigned download URLs
+          exposedHeaders: ['Content-Range', 'Accept-Ranges', 'Content-Length', 'Content-Disposition'],
         },
       ],
     });
@@ -37,6 +49,114 @@ export class FileManagerStack extends cdk.Stack {
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
     });
 
+    // Look up files by SHA-256 of their content, oldest first
+    metadataTable.addGlobalSecondaryIndex({
+      indexName: 'content-hash-index',
+      partitionKey: { name: 'content_hash', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'upload_date', type: dynamodb.AttributeType.STRING },
+    });
+
+    // List files by status, newest first
+    metadataTable.addGlobalSecondaryIndex({
+      indexName: 'status-index',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'upload_date', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Indexes added after status-index, oldest first. DynamoDB creates one index per table update,
+    // so a table that predates several of them is upgraded one deploy at a time: `-c indexRollout=N`
+    // adds only the first N, and a deploy without it adds the rest
+    const laterIndexes: dynamodb.GlobalSecondaryIndexProps[] = [
+      // List processed files by detected type, newest first
+      {
+        indexName: 'file-type-index',
+        partitionKey: { name: 'extracted_file_type', type: dynamodb.AttributeType.STRING },
+        sortKey: { name: 'upload_date', type: dynamodb.AttributeType.STRING },
+      },
+      // List files by status in size order
+      {
+        indexName: 'status-size-index',
+        partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+        sortKey: { name: 'file_size', type: dynamodb.AttributeType.NUMBER },
+      },
+      // List files by status in name order
+      {
+        indexName: 'status-name-index',
+        partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+        sortKey: { name: 'file_name', type: dynamodb.AttributeType.STRING },
+      },
+    ];
+    const indexRollout = this.node.tryGetContext('indexRollout');
+    const indexCount = indexRollout === undefined ? laterIndexes.length : Number(indexRollout);
+    if (!Number.isInteger(indexCount) || indexCount < 0) {
+      throw new Error(`indexRollout must be a non-negative integer, got ${indexRollout}`);
+    }
+    laterIndexes.slice(0, indexCount).forEach(index => metadataTable.addGlobalSecondaryIndex(index));
+
+    // Create DynamoDB table remembering responses to POST /upload per Idempotency-Key
+    const idempotencyTable = new dynamodb.Table(this, 'IdempotencyTable', {
+      tableName: 'file-upload-idempotency',
+      partitionKey: { name: 'idempotency_key', type: dynamodb.AttributeType.STRING },
+      timeToLiveAttribute: 'expires_at',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // Create DynamoDB table holding the full-text search index: postings per field and token
+    const searchIndexTable = new dynamodb.Table(this, 'SearchIndexTable', {
+      tableName: 'file-search-index',
+      partitionKey: { name: 'term_bucket', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'entry', type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // Create DynamoDB table of usage counters: files and bytes per status, type, size class and upload day/month
+    const usageStatsTable = new dynamodb.Table(this, 'UsageStatsTable', {
+      tableName: 'file-usage-stats',
+      partitionKey: { name: 'dimension', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'value', type: dynamodb.AttributeType.STRING },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // Create DynamoDB table of the entries listed inside uploaded archives, in archive order
+    const archiveEntriesTable = new dynamodb.Table(this, 'ArchiveEntriesTable', {
+      tableName: 'file-archive-entries',
+      partitionKey: { name: 'file_id', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'entry_index', type: dynamodb.AttributeType.NUMBER },
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // Create DynamoDB table of queued reprocess batches; each insert is streamed to the reprocess worker
+    const reprocessJobsTable = new dynamodb.Table(this, 'ReprocessJobsTable', {
+      tableName: 'file-reprocess-jobs',
+      partitionKey: { name: 'batch_id', type: dynamodb.AttributeType.STRING },
+      timeToLiveAttribute: 'expires_at',
+      stream: dynamodb.StreamViewType.KEYS_ONLY,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+    });
+
+    // Optional upload policy override, e.g. `cdk deploy -c uploadPolicy='{"size_limits":{"image/*":52428800}}'`
+    const uploadPolicy = this.node.tryGetContext('uploadPolicy');
+    const uploadPolicyEnvironment: Record<string, string> = uploadPolicy ? {
+      UPLOAD_POLICY: typeof uploadPolicy === 'string' ? uploadPolicy : JSON.stringify(uploadPolicy),
+    } : {};
+
+    // HMAC key for pagination cursors; the functions read it at runtime so it never appears in the template
+    const cursorSigningSecret = new secretsmanager.Secret(this, 'CursorSigningSecret', {
+      description: 'Signs pagination cursors returned by list endpoints',
+      generateSecretString: {
+        passwordLength: 64,
+        excludePunctuation: true,
+      },
+    });
+
+    // Days deleted files stay in the trash, e.g. `cdk deploy -c trashRetentionDays=7`
+    const trashRetentionDays = String(this.node.tryGetContext('trashRetentionDays') ?? 30);
+
     // Create Lambda function for file upload
     const uploadFunction = new lambda.Function(this, 'UploadFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -46,10 +166,88 @@ export class FileManagerStack extends cdk.Stack {
       memorySize: 512,
       environment: {
         DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+        IDEMPOTENCY_TABLE_NAME: idempotencyTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+        SEARCH_INDEX_TABLE_NAME: searchIndexTable.tableName,
+        ...uploadPolicyEnvironment,
+      },
+    });
+
+    // Create Lambda function for starting presigned direct-to-S3 uploads
+    const initiateUploadFunction = new lambda.Function(this, 'InitiateUploadFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'initiate-upload.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
         S3_BUCKET_NAME: bucket.bucketName,
+        ...uploadPolicyEnvironment,
       },
     });
 
+    // Create Lambda function for confirming presigned uploads
+    const completeUploadFunction = new lambda.Function(this, 'CompleteUploadFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'complete-upload.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+        ...uploadPolicyEnvironment,
+      },
+    });
+
+    // Create Lambda function for presigning multipart upload parts
+    const presignUploadPartsFunction = new lambda.Function(this, 'PresignUploadPartsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'presign-upload-parts.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+      },
+    });
+
+    // Create Lambda function for listing received multipart upload parts
+    const listUploadPartsFunction = new lambda.Function(this, 'ListUploadPartsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'list-upload-parts.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+      },
+    });
+
+    // Create Lambda function for aborting pending uploads
+    const abortUploadFunction = new lambda.Function(this, 'AbortUploadFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'abort-upload.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+      },
+    });
+
+    // Create Lambda function for publishing the upload policy
+    const uploadPolicyFunction = new lambda.Function(this, 'UploadPolicyFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'upload-policy.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: uploadPolicyEnvironment,
+    });
+
     // Create Lambda function for listing files
     const listFilesFunction = new lambda.Function(this, 'ListFilesFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -58,6 +256,44 @@ export class FileManagerStack extends cdk.Stack {
       timeout: cdk.Duration.seconds(30),
       environment: {
         DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        CURSOR_SIGNING_SECRET_ARN: cursorSigningSecret.secretArn,
+      },
+    });
+
+    // Create Lambda function for the storage usage report
+    const statsFunction = new lambda.Function(this, 'StatsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'stats.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+      },
+    });
+
+    // Create Lambda function for full-text search
+    const searchFunction = new lambda.Function(this, 'SearchFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'search.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        SEARCH_INDEX_TABLE_NAME: searchIndexTable.tableName,
+        CURSOR_SIGNING_SECRET_ARN: cursorSigningSecret.secretArn,
+      },
+    });
+
+    // Create Lambda function for editing metadata and renaming files
+    const updateMetadataFunction = new lambda.Function(this, 'UpdateMetadataFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'update-metadata.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(60),
+      environment: {
+        S3_BUCKET_NAME: bucket.bucketName,
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        SEARCH_INDEX_TABLE_NAME: searchIndexTable.tableName,
       },
     });
 
@@ -72,26 +308,219 @@ export class FileManagerStack extends cdk.Stack {
       },
     });
 
+    // Create Lambda function for listing files with identical content
+    const listDuplicatesFunction = new lambda.Function(this, 'ListDuplicatesFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'list-duplicates.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+      },
+    });
+
+    // Create Lambda function for listing the entries inside an archive
+    const listArchiveEntriesFunction = new lambda.Function(this, 'ListArchiveEntriesFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'list-archive-entries.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        ARCHIVE_ENTRIES_TABLE_NAME: archiveEntriesTable.tableName,
+        CURSOR_SIGNING_SECRET_ARN: cursorSigningSecret.secretArn,
+      },
+    });
+
+    // Create Lambda function for issuing presigned download URLs
+    const downloadFileFunction = new lambda.Function(this, 'DownloadFileFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'download-file.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+      },
+    });
+
+    // Create Lambda function for moving files to the trash
+    const deleteFileFunction = new lambda.Function(this, 'DeleteFileFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'delete-file.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+        TRASH_RETENTION_DAYS: trashRetentionDays,
+      },
+    });
+
+    // Create Lambda function for restoring files from the trash
+    const restoreFileFunction = new lambda.Function(this, 'RestoreFileFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'restore-file.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+        REPROCESS_JOBS_TABLE_NAME: reprocessJobsTable.tableName,
+      },
+    });
+
+    // Create Lambda function for permanently removing files past the trash retention window
+    const purgeDeletedFilesFunction = new lambda.Function(this, 'PurgeDeletedFilesFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'purge-deleted-files.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.minutes(15),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+        TRASH_RETENTION_DAYS: trashRetentionDays,
+        SEARCH_INDEX_TABLE_NAME: searchIndexTable.tableName,
+        ARCHIVE_ENTRIES_TABLE_NAME: archiveEntriesTable.tableName,
+      },
+    });
+
+    new events.Rule(this, 'PurgeDeletedFilesSchedule', {
+      schedule: events.Schedule.rate(cdk.Duration.days(1)),
+      targets: [new targets.LambdaFunction(purgeDeletedFilesFunction)],
+    });
+
     // Create Lambda function for file processing
     const processorFunction = new lambda.Function(this, 'ProcessorFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'processor.handler',
       code: lambda.Code.fromAsset('../lambda-functions/dist'),
-      timeout: cdk.Duration.minutes(5),
+      // Presigned uploads are read in full to hash them, and TAR/gzip archives to list them
+      timeout: cdk.Duration.minutes(15),
       memorySize: 1024,
       environment: {
         DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
         S3_BUCKET_NAME: bucket.bucketName,
+        SEARCH_INDEX_TABLE_NAME: searchIndexTable.tableName,
+        ARCHIVE_ENTRIES_TABLE_NAME: archiveEntriesTable.tableName,
+        ...uploadPolicyEnvironment,
       },
     });
 
+    // Create Lambda function for queueing one file for re-extraction
+    const reprocessFileFunction = new lambda.Function(this, 'ReprocessFileFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'reprocess-file.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        REPROCESS_JOBS_TABLE_NAME: reprocessJobsTable.tableName,
+      },
+    });
+
+    // Create Lambda function for queueing every file matching a filter for re-extraction
+    const adminReprocessFunction = new lambda.Function(this, 'AdminReprocessFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin-reprocess.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.seconds(30),
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        REPROCESS_JOBS_TABLE_NAME: reprocessJobsTable.tableName,
+      },
+    });
+
+    // Create Lambda function that re-extracts the files of each queued reprocess batch
+    const reprocessWorkerFunction = new lambda.Function(this, 'ReprocessWorkerFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'reprocess-worker.handler',
+      code: lambda.Code.fromAsset('../lambda-functions/dist'),
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 1024,
+      environment: {
+        DYNAMODB_TABLE_NAME: metadataTable.tableName,
+        USAGE_STATS_TABLE_NAME: usageStatsTable.tableName,
+        S3_BUCKET_NAME: bucket.bucketName,
+        SEARCH_INDEX_TABLE_NAME: searchIndexTable.tableName,
+        ARCHIVE_ENTRIES_TABLE_NAME: archiveEntriesTable.tableName,
+        REPROCESS_JOBS_TABLE_NAME: reprocessJobsTable.tableName,
+      },
+    });
+
+    // Batch items have unique keys, so the parallelization factor lets a job's batches run side by side
+    reprocessWorkerFunction.addEventSource(new lambdaEventSources.DynamoEventSource(reprocessJobsTable, {
+      startingPosition: lambda.StartingPosition.TRIM_HORIZON,
+      batchSize: 1,
+      parallelizationFactor: 4,
+      retryAttempts: 2,
+      filters: [lambda.FilterCriteria.filter({ eventName: lambda.FilterRule.isEqual('INSERT') })],
+    }));
+
     // Grant permissions
     bucket.grantReadWrite(uploadFunction);
+    bucket.grantPut(initiateUploadFunction);
+    bucket.grantReadWrite(completeUploadFunction);
+    bucket.grantDelete(completeUploadFunction);
+    bucket.grantPut(presignUploadPartsFunction);
+    bucket.grantRead(listUploadPartsFunction);
+    bucket.grantPut(abortUploadFunction);
+    bucket.grantRead(downloadFileFunction);
+    bucket.grantDelete(purgeDeletedFilesFunction);
+    bucket.grantReadWrite(updateMetadataFunction);
     bucket.grantRead(processorFunction);
+    bucket.grantDelete(processorFunction);
+    bucket.grantRead(reprocessWorkerFunction);
     metadataTable.grantReadWriteData(uploadFunction);
+    idempotencyTable.grantReadWriteData(uploadFunction);
+    metadataTable.grantWriteData(initiateUploadFunction);
+    metadataTable.grantReadWriteData(completeUploadFunction);
+    metadataTable.grantReadData(presignUploadPartsFunction);
+    metadataTable.grantReadWriteData(listUploadPartsFunction);
+    metadataTable.grantReadWriteData(abortUploadFunction);
     metadataTable.grantReadData(listFilesFunction);
     metadataTable.grantReadData(metadataFunction);
+    metadataTable.grantReadWriteData(updateMetadataFunction);
+    metadataTable.grantReadData(listDuplicatesFunction);
+    metadataTable.grantReadData(listArchiveEntriesFunction);
+    metadataTable.grantReadData(downloadFileFunction);
+    metadataTable.grantReadWriteData(deleteFileFunction);
+    metadataTable.grantReadWriteData(restoreFileFunction);
+    metadataTable.grantReadWriteData(purgeDeletedFilesFunction);
     metadataTable.grantReadWriteData(processorFunction);
+    metadataTable.grantReadData(searchFunction);
+    metadataTable.grantReadData(reprocessFileFunction);
+    metadataTable.grantReadData(adminReprocessFunction);
+    metadataTable.grantReadWriteData(reprocessWorkerFunction);
+    searchIndexTable.grantReadWriteData(uploadFunction);
+    searchIndexTable.grantReadWriteData(updateMetadataFunction);
+    searchIndexTable.grantReadWriteData(purgeDeletedFilesFunction);
+    searchIndexTable.grantReadWriteData(processorFunction);
+    searchIndexTable.grantReadData(searchFunction);
+    searchIndexTable.grantReadWriteData(reprocessWorkerFunction);
+    archiveEntriesTable.grantReadWriteData(purgeDeletedFilesFunction);
+    archiveEntriesTable.grantReadWriteData(processorFunction);
+    archiveEntriesTable.grantReadData(listArchiveEntriesFunction);
+    archiveEntriesTable.grantReadWriteData(reprocessWorkerFunction);
+    usageStatsTable.grantReadWriteData(uploadFunction);
+    usageStatsTable.grantReadWriteData(initiateUploadFunction);
+    usageStatsTable.grantReadWriteData(completeUploadFunction);
+    usageStatsTable.grantReadWriteData(abortUploadFunction);
+    usageStatsTable.grantReadWriteData(deleteFileFunction);
+    usageStatsTable.grantReadWriteData(restoreFileFunction);
+    usageStatsTable.grantReadWriteData(purgeDeletedFilesFunction);
+    usageStatsTable.grantReadWriteData(processorFunction);
+    usageStatsTable.grantReadData(statsFunction);
+    usageStatsTable.grantReadWriteData(reprocessWorkerFunction);
+    reprocessJobsTable.grantWriteData(reprocessFileFunction);
+    reprocessJobsTable.grantWriteData(adminReprocessFunction);
+    reprocessJobsTable.grantWriteData(restoreFileFunction);
+    reprocessJobsTable.grantReadWriteData(reprocessWorkerFunction);
+    cursorSigningSecret.grantRead(listFilesFunction);
+    cursorSigningSecret.grantRead(searchFunction);
+    cursorSigningSecret.grantRead(listArchiveEntriesFunction);
 
     // Add S3 event notification to trigger processor function
     bucket.addEventNotification(
@@ -107,16 +536,46 @@ export class FileManagerStack extends cdk.Stack {
       defaultCorsPreflightOptions: {
         allowOrigins: apigateway.Cors.ALL_ORIGINS,
         allowMethods: apigateway.Cors.ALL_METHODS,
-        allowHeaders: ['Content-Type', 'X-Amz-Date', 'Authorization', 'X-Api-Key'],
+        allowHeaders: ['Content-Type', 'X-Amz-Date', 'Authorization', 'X-Api-Key', 'Idempotency-Key', 'If-Match'],
       },
     });
 
     // Add API Gateway endpoints
     api.root.addResource('upload').addMethod('POST', new apigateway.LambdaIntegration(uploadFunction));
-    api.root.addResource('files').addMethod('GET', new apigateway.LambdaIntegration(listFilesFunction));
+    const filesResource = api.root.addResource('files');
+    filesResource.addMethod('GET', new apigateway.LambdaIntegration(listFilesFunction));
+    const fileResource = filesResource.addResource('{file_id}');
+    fileResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteFileFunction));
+    fileResource.addResource('restore').addMethod('POST', new apigateway.LambdaIntegration(restoreFileFunction));
+    fileResource.addResource('duplicates').addMethod('GET', new apigateway.LambdaIntegration(listDuplicatesFunction));
+    fileResource.addResource('archive-entries').addMethod('GET', new apigateway.LambdaIntegration(listArchiveEntriesFunction));
+    fileResource.addResource('download').addMethod('GET', new apigateway.LambdaIntegration(downloadFileFunction));
+    fileResource.addResource('reprocess').addMethod('POST', new apigateway.LambdaIntegration(reprocessFileFunction));
+
+    api.root.addResource('search').addMethod('GET', new apigateway.LambdaIntegration(searchFunction));
+    api.root.addResource('stats').addMethod('GET', new apigateway.LambdaIntegration(statsFunction));
+    // Admin routes take SigV4-signed requests from IAM principals allowed execute-api:Invoke
+    api.root.addResource('admin').addResource('reprocess')
+      .addMethod('POST', new apigateway.LambdaIntegration(adminReprocessFunction), {
+        authorizationType: apigateway.AuthorizationType.IAM,
+      });
+
+    const uploadsResource = api.root.addResource('uploads');
+    uploadsResource.addResource('initiate').addMethod('POST', new apigateway.LambdaIntegration(initiateUploadFunction));
+    const pendingUploadResource = uploadsResource.addResource('{file_id}');
+    pendingUploadResource.addMethod('DELETE', new apigateway.LambdaIntegration(abortUploadFunction));
+    pendingUploadResource.addResource('complete').addMethod('POST', new apigateway.LambdaIntegration(completeUploadFunction));
+    const uploadPartsResource = pendingUploadResource.addResource('parts');
+    uploadPartsResource.addMethod('GET', new apigateway.LambdaIntegration(listUploadPartsFunction));
+    uploadPartsResource.addMethod('POST', new apigateway.LambdaIntegration(presignUploadPartsFunction));
     
+    api.root.addResource('config').addResource('upload-policy')
+      .addMethod('GET', new apigateway.LambdaIntegration(uploadPolicyFunction));
+
     const metadataResource = api.root.addResource('metadata');
-    metadataResource.addResource('{file_id}').addMethod('GET', new apigateway.LambdaIntegration(metadataFunction));
+    const fileMetadataResource = metadataResource.addResource('{file_id}');
+    fileMetadataResource.addMethod('GET', new apigateway.LambdaIntegration(metadataFunction));
+    fileMetadataResource.addMethod('PATCH', new apigateway.LambdaIntegration(updateMetadataFunction));
 
     // Output the API Gateway URL
     new cdk.CfnOutput(this, 'ApiGatewayUrl', {
@@ -0,0 +1,121 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, AbortMultipartUploadCommand } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { recordUsageChange } from './utils/usage-stats';
+import {
+  FileMetadata,
+  FileStatus
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'abort-upload',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for abandoning a pending presigned or multipart upload
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Abort upload request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        if (record.status !== FileStatus.PENDING) {
+            logger.warn('Upload is no longer pending', { fileId, status: record.status });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.UPLOAD_NOT_PENDING,
+                [`File ${fileId} has status ${record.status}`]
+            );
+        }
+
+        if (record.multipart_upload_id) {
+            try {
+                await s3Client.send(new AbortMultipartUploadCommand({
+                    Bucket: process.env.S3_BUCKET_NAME!,
+                    Key: record.s3_key,
+                    UploadId: record.multipart_upload_id
+                }));
+            } catch (error: any) {
+                // Already aborted or completed uploads are fine to forget about
+                if (error.name !== 'NoSuchUpload') {
+                    throw error;
+                }
+                logger.info('Multipart upload already gone', { fileId });
+            }
+        }
+
+        const deleted = await docClient.send(new DeleteCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            },
+            ConditionExpression: '#status = :pending',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':pending': FileStatus.PENDING
+            },
+            ReturnValues: 'ALL_OLD'
+        }));
+
+        await recordUsageChange(docClient, deleted.Attributes as FileMetadata, undefined, logger);
+
+        logger.info('Upload aborted', { fileId });
+
+        return createSuccessResponse({
+            file_id: fileId,
+            message: 'Upload aborted'
+        });
+
+    } catch (error) {
+        logger.error('Error aborting upload', error as Error);
+        return createInternalError(error as Error);
+    }
+};
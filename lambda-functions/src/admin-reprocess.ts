@@ -0,0 +1,151 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createInternalError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { parseJsonBody } from './utils/request';
+import { parseDateParam } from './utils/list-query';
+import { queueReprocessBatch, REPROCESSABLE_STATUSES } from './utils/reprocess-jobs';
+import {
+  ExtractedFileType,
+  FileStatus,
+  ReprocessFilter,
+  ReprocessResponse,
+  isValidExtractedFileType
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'admin-reprocess',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+const FILTER_FIELDS = ['status', 'file_type', 'uploaded_from', 'uploaded_to'];
+
+/**
+ * Main Lambda handler for queueing every file matching a filter for metadata re-extraction
+ *
+ * Only the first batch is queued here; the worker finds the files one page at a time.
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Admin reprocess request received');
+
+    try {
+        // API Gateway only sets the caller's ARN on IAM-signed requests; this guards the route
+        // should it ever be deployed without its IAM authorizer
+        const callerArn = event.requestContext.identity?.userArn;
+        if (!callerArn) {
+            logger.warn('Admin request without an IAM identity');
+            return createErrorResponse(
+                HTTP_STATUS.FORBIDDEN,
+                ERROR_MESSAGES.ADMIN_ACCESS_REQUIRED,
+                ['Sign the request with AWS credentials allowed to invoke this API']
+            );
+        }
+
+        let body: Record<string, any>;
+        try {
+            body = parseJsonBody<Record<string, any>>(event);
+        } catch (parseError) {
+            logger.warn('Invalid request body', { error: (parseError as Error).message });
+            return createValidationError([(parseError as Error).message]);
+        }
+
+        const { filter, errors } = parseReprocessFilter(body);
+        if (errors.length > 0) {
+            logger.warn('Invalid reprocess filter', { errors });
+            return createValidationError(errors);
+        }
+
+        const jobId = uuidv4();
+        await queueReprocessBatch(docClient, {
+            job_id: jobId,
+            batch_index: 0,
+            filter
+        });
+
+        logger.info('Reprocess job queued', { jobId, filter, callerArn });
+
+        return createSuccessResponse<ReprocessResponse>({
+            job_id: jobId,
+            filter
+        }, HTTP_STATUS.ACCEPTED);
+
+    } catch (error) {
+        logger.error('Error queueing reprocess job', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Validate the request body; an empty object selects every reprocessable file
+ */
+function parseReprocessFilter(body: Record<string, any>): { filter: ReprocessFilter; errors: string[] } {
+    const filter: ReprocessFilter = {};
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { filter, errors: ['Request body must be a JSON object'] };
+    }
+
+    const errors = Object.keys(body)
+        .filter(key => !FILTER_FIELDS.includes(key))
+        .map(key => `Unknown filter field: ${key}`);
+
+    for (const field of FILTER_FIELDS) {
+        if (body[field] !== undefined && typeof body[field] !== 'string') {
+            errors.push(`${field} must be a string`);
+        }
+    }
+    if (errors.length > 0) {
+        return { filter, errors };
+    }
+
+    if (body.status !== undefined) {
+        if (!REPROCESSABLE_STATUSES.includes(body.status as FileStatus)) {
+            errors.push(`status must be one of: ${REPROCESSABLE_STATUSES.join(', ')}`);
+        } else {
+            filter.status = body.status as FileStatus;
+        }
+    }
+
+    if (body.file_type !== undefined) {
+        if (!isValidExtractedFileType(body.file_type)) {
+            errors.push(`file_type must be one of: ${Object.values(ExtractedFileType).join(', ')}`);
+        } else {
+            filter.file_type = body.file_type;
+        }
+    }
+
+    const uploadedFrom = parseDateParam('uploaded_from', body.uploaded_from, errors, { bound: 'lower' });
+    const uploadedTo = parseDateParam('uploaded_to', body.uploaded_to, errors, { bound: 'upper' });
+    if (uploadedFrom) {
+        filter.uploaded_from = uploadedFrom;
+    }
+    if (uploadedTo) {
+        filter.uploaded_to = uploadedTo;
+    }
+    if (uploadedFrom && uploadedTo && uploadedFrom > uploadedTo) {
+        errors.push('uploaded_from must not be after uploaded_to');
+    }
+
+    return { filter, errors };
+}
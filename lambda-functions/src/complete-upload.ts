@@ -0,0 +1,325 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  S3Client,
+  HeadObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  CompleteMultipartUploadCommand
+} from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createFileSizeError,
+  createUnsupportedMediaTypeError,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { listUploadedParts, findMissingParts } from './utils/multipart';
+import { detectFileType, SIGNATURE_SNIFF_BYTES } from './utils/file-signature';
+import { loadUploadPolicy, evaluateUploadPolicy } from './utils/upload-policy';
+import { recordUsageChange } from './utils/usage-stats';
+import {
+  FileMetadata,
+  FileStatus,
+  ProcessingErrorCode,
+  UploadResponse,
+  UploadedPart,
+  FILE_SIZE_LIMITS,
+  MULTIPART_UPLOAD_LIMITS
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'complete-upload',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for confirming a presigned upload landed in S3
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Complete upload request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        // The processor got to a presigned upload first and turned it away as a duplicate
+        if (record.status === FileStatus.ERROR && record.duplicate_of) {
+            logger.info('Upload was rejected as a duplicate', { fileId, duplicateOf: record.duplicate_of });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.DUPLICATE_FILE,
+                [`Content is identical to file ${record.duplicate_of}`],
+                { duplicate_of: record.duplicate_of }
+            );
+        }
+
+        // Or it checked the upload against the policy first and removed it
+        if (record.status === FileStatus.ERROR && record.processing_error?.code === ProcessingErrorCode.UNSUPPORTED_FILE_TYPE) {
+            logger.info('Upload was rejected by upload policy', { fileId, reason: record.processing_error.message });
+            return createUnsupportedMediaTypeError([record.processing_error.message]);
+        }
+        if (record.status === FileStatus.ERROR && record.processing_error?.code === ProcessingErrorCode.FILE_TOO_LARGE) {
+            logger.info('Upload was rejected by upload policy', { fileId, reason: record.processing_error.message });
+            return createErrorResponse(HTTP_STATUS.REQUEST_TOO_LONG, ERROR_MESSAGES.FILE_TOO_LARGE, [record.processing_error.message]);
+        }
+
+        if (record.status === FileStatus.PENDING && record.multipart_upload_id) {
+            const multipartError = await completeMultipartUpload(record, logger);
+            if (multipartError) {
+                return multipartError;
+            }
+        }
+
+        // Look the object up to make sure the client's PUT actually succeeded
+        let actualSize: number;
+        try {
+            const head = await s3Client.send(new HeadObjectCommand({
+                Bucket: process.env.S3_BUCKET_NAME!,
+                Key: record.s3_key
+            }));
+            actualSize = head.ContentLength ?? 0;
+        } catch (error: any) {
+            if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === HTTP_STATUS.NOT_FOUND) {
+                logger.warn('Uploaded object not found in S3', { fileId, s3Key: record.s3_key });
+                return createErrorResponse(
+                    HTTP_STATUS.CONFLICT,
+                    ERROR_MESSAGES.UPLOAD_NOT_COMPLETED,
+                    [`No object found at ${record.s3_key}`]
+                );
+            }
+            throw error;
+        }
+
+        const maxSize = record.multipart_upload_id ?
+            MULTIPART_UPLOAD_LIMITS.MAX_FILE_SIZE :
+            FILE_SIZE_LIMITS.MAX_PRESIGNED_FILE_SIZE;
+
+        if (actualSize > maxSize) {
+            logger.warn('Uploaded object exceeds size limit, removing it', { fileId, actualSize });
+            await s3Client.send(new DeleteObjectCommand({
+                Bucket: process.env.S3_BUCKET_NAME!,
+                Key: record.s3_key
+            }));
+            return createFileSizeError(actualSize, maxSize);
+        }
+
+        // The declared type was checked at initiate time; now check what was actually uploaded
+        const detectedType = actualSize > 0 ? await sniffContentType(record.s3_key) : undefined;
+        const policyDecision = evaluateUploadPolicy(loadUploadPolicy(), {
+            fileName: record.file_name,
+            fileSize: actualSize,
+            declaredContentType: record.content_type,
+            detectedContentType: detectedType
+        });
+
+        if (!policyDecision.allowed) {
+            logger.warn('Uploaded object rejected by upload policy, removing it', {
+                fileId,
+                detectedType,
+                reason: policyDecision.reason
+            });
+            await discardRejectedUpload(record, logger);
+            return policyDecision.status_code === HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE ?
+                createUnsupportedMediaTypeError([policyDecision.reason!]) :
+                createFileSizeError(actualSize, policyDecision.max_size);
+        }
+
+        if (actualSize !== record.file_size) {
+            logger.warn('Uploaded size differs from declared size', {
+                fileId,
+                declaredSize: record.file_size,
+                actualSize
+            });
+        }
+
+        await markUploadCompleted(fileId, actualSize, logger);
+
+        logger.info('Upload completed successfully', { fileId });
+
+        return createSuccessResponse<UploadResponse>({
+            file_id: fileId,
+            message: 'File uploaded successfully',
+            s3_key: record.s3_key,
+            file_name: record.file_name,
+            file_size: actualSize,
+            metadata_fields_stored: Object.keys(record.client_metadata || {}).length
+        });
+
+    } catch (error) {
+        logger.error('Error completing upload', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Assemble the parts S3 has received into the final object
+ *
+ * Returns an error response if parts are still missing, otherwise undefined.
+ */
+async function completeMultipartUpload(record: FileMetadata, logger: Logger): Promise<APIGatewayProxyResult | undefined> {
+    let parts: UploadedPart[];
+    try {
+        parts = await listUploadedParts(
+            s3Client,
+            process.env.S3_BUCKET_NAME!,
+            record.s3_key,
+            record.multipart_upload_id!
+        );
+    } catch (error: any) {
+        // A retried complete call finds the upload already assembled; the HEAD check below confirms it
+        if (error.name === 'NoSuchUpload') {
+            logger.info('Multipart upload no longer active', { fileId: record.file_id });
+            return undefined;
+        }
+        throw error;
+    }
+    const missingParts = findMissingParts(parts, record.multipart_part_count || parts.length);
+
+    if (missingParts.length > 0) {
+        logger.warn('Multipart upload is missing parts', {
+            fileId: record.file_id,
+            missingCount: missingParts.length
+        });
+        return createErrorResponse(
+            HTTP_STATUS.CONFLICT,
+            ERROR_MESSAGES.MISSING_UPLOAD_PARTS,
+            [`${missingParts.length} of ${record.multipart_part_count} parts have not been uploaded`],
+            { missing_parts: missingParts.slice(0, 100) }
+        );
+    }
+
+    await s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: process.env.S3_BUCKET_NAME!,
+        Key: record.s3_key,
+        UploadId: record.multipart_upload_id!,
+        MultipartUpload: {
+            Parts: parts.map(part => ({
+                PartNumber: part.part_number,
+                ETag: part.etag
+            }))
+        }
+    }));
+
+    logger.info('Multipart upload assembled', { fileId: record.file_id, partCount: parts.length });
+    return undefined;
+}
+
+/**
+ * Read the start of the uploaded object and detect its type from magic bytes
+ */
+async function sniffContentType(s3Key: string): Promise<string | undefined> {
+    const response = await s3Client.send(new GetObjectCommand({
+        Bucket: process.env.S3_BUCKET_NAME!,
+        Key: s3Key,
+        Range: `bytes=0-${SIGNATURE_SNIFF_BYTES - 1}`
+    }));
+
+    const header = await response.Body!.transformToByteArray();
+    return detectFileType(Buffer.from(header))?.mime;
+}
+
+/**
+ * Remove an upload that failed the policy check, along with its pending record
+ */
+async function discardRejectedUpload(record: FileMetadata, logger: Logger): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({
+        Bucket: process.env.S3_BUCKET_NAME!,
+        Key: record.s3_key
+    }));
+
+    try {
+        const result = await docClient.send(new DeleteCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: record.file_id
+            },
+            ConditionExpression: '#status = :pending',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':pending': FileStatus.PENDING
+            },
+            ReturnValues: 'ALL_OLD'
+        }));
+        await recordUsageChange(docClient, result.Attributes as FileMetadata, undefined, logger);
+    } catch (error: any) {
+        if (error.name !== 'ConditionalCheckFailedException') {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Move a pending record to uploaded, recording the size S3 reports
+ */
+async function markUploadCompleted(fileId: string, actualSize: number, logger: Logger): Promise<void> {
+    try {
+        const result = await docClient.send(new UpdateCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            },
+            UpdateExpression: 'SET #status = :uploaded, file_size = :file_size, uploaded_bytes = :file_size',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':uploaded': FileStatus.UPLOADED,
+                ':pending': FileStatus.PENDING,
+                ':file_size': actualSize
+            },
+            // The processor may already have picked the object up; never move it backwards
+            ConditionExpression: '#status = :pending',
+            ReturnValues: 'ALL_OLD'
+        }));
+
+        const before = result.Attributes as FileMetadata;
+        await recordUsageChange(docClient, before, { ...before, status: FileStatus.UPLOADED, file_size: actualSize }, logger);
+    } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+            logger.info('Upload already completed or processed', { fileId });
+            return;
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,136 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { recordUsageChange } from './utils/usage-stats';
+import { getPurgeAfter } from './utils/trash';
+import {
+  FileMetadata,
+  FileStatus,
+  DeleteFileResponse
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'delete-file',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for moving a file to the trash
+ *
+ * The S3 object is kept until the purge handler runs after the retention window.
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Delete file request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        if (record.status === FileStatus.DELETED) {
+            logger.info('File already deleted', { fileId });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.FILE_ALREADY_DELETED,
+                [`File ${fileId} was deleted at ${record.deleted_at}`]
+            );
+        }
+
+        if (record.status === FileStatus.PENDING) {
+            logger.warn('Cannot delete a pending upload', { fileId });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.FILE_NOT_DELETABLE,
+                [`Upload ${fileId} is still pending; abort it with DELETE /uploads/${fileId}`]
+            );
+        }
+
+        const deletedAt = new Date().toISOString();
+
+        try {
+            const result = await docClient.send(new UpdateCommand({
+                TableName: process.env.DYNAMODB_TABLE_NAME!,
+                Key: {
+                    file_id: fileId
+                },
+                UpdateExpression: 'SET #status = :deleted, deleted_at = :deleted_at, status_before_delete = :previous_status',
+                ExpressionAttributeNames: {
+                    '#status': 'status'
+                },
+                ExpressionAttributeValues: {
+                    ':deleted': FileStatus.DELETED,
+                    ':deleted_at': deletedAt,
+                    ':previous_status': record.status
+                },
+                // Fail if the status moved since we read it, e.g. a concurrent delete
+                ConditionExpression: '#status = :previous_status',
+                ReturnValues: 'ALL_OLD'
+            }));
+
+            const before = result.Attributes as FileMetadata;
+            await recordUsageChange(docClient, before, { ...before, status: FileStatus.DELETED }, logger);
+        } catch (error: any) {
+            if (error.name === 'ConditionalCheckFailedException') {
+                logger.warn('File status changed during delete', { fileId });
+                return createErrorResponse(
+                    HTTP_STATUS.CONFLICT,
+                    ERROR_MESSAGES.FILE_NOT_DELETABLE,
+                    ['File status changed while deleting; retry the request']
+                );
+            }
+            throw error;
+        }
+
+        logger.info('File moved to trash', { fileId });
+
+        return createSuccessResponse<DeleteFileResponse>({
+            file_id: fileId,
+            message: 'File moved to trash',
+            deleted_at: deletedAt,
+            purge_after: getPurgeAfter(deletedAt)
+        });
+
+    } catch (error) {
+        logger.error('Error deleting file', error as Error);
+        return createInternalError(error as Error);
+    }
+};
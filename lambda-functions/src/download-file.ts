@@ -0,0 +1,168 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createRedirectResponse,
+  createValidationError,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { buildContentDisposition } from './utils/content-disposition';
+import { normalizeContentType } from './utils/file-signature';
+import {
+  FileMetadata,
+  FileStatus,
+  DownloadDisposition,
+  DownloadResponse,
+  INLINE_PREVIEW_TYPES,
+  PRESIGNED_URL_EXPIRY_SECONDS
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'download-file',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for issuing a presigned download URL
+ *
+ * Query parameters:
+ * - disposition: `attachment` (default) or `inline` for in-browser preview
+ * - redirect: `true` to answer with a 302 to the URL instead of JSON
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Download request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const requestedDisposition = event.queryStringParameters?.disposition || DownloadDisposition.ATTACHMENT;
+        if (!Object.values(DownloadDisposition).includes(requestedDisposition as DownloadDisposition)) {
+            logger.warn('Invalid disposition parameter', { requestedDisposition });
+            return createValidationError([`disposition must be one of: ${Object.values(DownloadDisposition).join(', ')}`]);
+        }
+        const redirect = event.queryStringParameters?.redirect === 'true';
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        const refusal = getDownloadRefusal(record);
+        if (refusal) {
+            logger.warn('Download refused', { fileId, status: record.status, statusCode: refusal.statusCode });
+            return refusal;
+        }
+
+        // Serve the sniffed type when we have one so the browser doesn't trust a wrong declaration
+        const contentType = normalizeContentType(record.detected_content_type || record.content_type) || 'application/octet-stream';
+        const disposition = requestedDisposition === DownloadDisposition.INLINE &&
+            (INLINE_PREVIEW_TYPES as readonly string[]).includes(contentType) ?
+            DownloadDisposition.INLINE :
+            DownloadDisposition.ATTACHMENT;
+
+        // S3 honours Range headers on presigned GETs, so large files can be fetched in pieces
+        const downloadUrl = await getSignedUrl(s3Client, new GetObjectCommand({
+            Bucket: process.env.S3_BUCKET_NAME!,
+            Key: record.s3_key,
+            ResponseContentDisposition: buildContentDisposition(disposition, record.file_name),
+            ResponseContentType: contentType
+        }), { expiresIn: PRESIGNED_URL_EXPIRY_SECONDS.DOWNLOAD });
+
+        logger.info('Presigned download URL issued', { fileId, disposition, redirect });
+
+        if (redirect) {
+            return createRedirectResponse(downloadUrl);
+        }
+
+        return createSuccessResponse<DownloadResponse>({
+            file_id: fileId,
+            file_name: record.file_name,
+            download_url: downloadUrl,
+            disposition,
+            content_type: contentType,
+            file_size: record.file_size,
+            expires_in: PRESIGNED_URL_EXPIRY_SECONDS.DOWNLOAD
+        });
+
+    } catch (error) {
+        logger.error('Error issuing download URL', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Explain why a file may not be downloaded, or return undefined if it may
+ */
+function getDownloadRefusal(record: FileMetadata): APIGatewayProxyResult | undefined {
+    if (record.status === FileStatus.PENDING) {
+        return createErrorResponse(
+            HTTP_STATUS.CONFLICT,
+            ERROR_MESSAGES.FILE_NOT_DOWNLOADABLE,
+            ['Upload has not been completed']
+        );
+    }
+
+    if (record.status === FileStatus.DELETED) {
+        return createErrorResponse(
+            HTTP_STATUS.CONFLICT,
+            ERROR_MESSAGES.FILE_NOT_DOWNLOADABLE,
+            ['File is in the trash; restore it first']
+        );
+    }
+
+    if (record.status === FileStatus.ERROR) {
+        return createErrorResponse(
+            HTTP_STATUS.CONFLICT,
+            ERROR_MESSAGES.FILE_NOT_DOWNLOADABLE,
+            ['File failed processing']
+        );
+    }
+
+    // Contents that don't match the declared type are held back as possibly disguised
+    if (record.content_type_mismatch) {
+        return createErrorResponse(
+            HTTP_STATUS.FORBIDDEN,
+            ERROR_MESSAGES.FILE_FLAGGED,
+            [`Declared as ${record.declared_content_type || record.content_type} but detected as ${record.detected_content_type}`]
+        );
+    }
+
+    return undefined;
+}
@@ -0,0 +1,12 @@
+import { MetadataExtractor } from '../types';
+
+/**
+ * Extractors for formats of your own, run by the processor after the built-in ones match
+ *
+ * Add a module to this directory exporting a MetadataExtractor and list it here, e.g.
+ *
+ *     export const CUSTOM_EXTRACTORS: MetadataExtractor[] = [dicomExtractor];
+ *
+ * Each extractor's fields are stored on the record under extractor_results.<name>.
+ */
+export const CUSTOM_EXTRACTORS: MetadataExtractor[] = [];
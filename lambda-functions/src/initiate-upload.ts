@@ -0,0 +1,284 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, PutObjectCommand, CreateMultipartUploadCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  createSuccessResponse,
+  createFileSizeError,
+  createValidationError,
+  createUnsupportedMediaTypeError,
+  createInternalError,
+  HTTP_STATUS,
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { recordUsageChange } from './utils/usage-stats';
+import { parseJsonBody } from './utils/request';
+import { validateMetadata, validateFileName } from './utils/validation';
+import { computePartSize, computePartCount } from './utils/multipart';
+import { loadUploadPolicy, evaluateUploadPolicy } from './utils/upload-policy';
+import {
+  FileMetadata,
+  FileStatus,
+  InitiateUploadRequest,
+  InitiateUploadResponse,
+  DedupeMode,
+  isValidDedupeMode,
+  FILE_SIZE_LIMITS,
+  MULTIPART_UPLOAD_LIMITS,
+  PRESIGNED_URL_EXPIRY_SECONDS,
+  S3_KEY_PATTERNS
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'initiate-upload',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for starting a presigned direct-to-S3 upload
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Initiate upload request received');
+
+    try {
+        let request: InitiateUploadRequest;
+        try {
+            request = parseJsonBody<InitiateUploadRequest>(event);
+        } catch (parseError) {
+            logger.warn('Invalid request body', { error: (parseError as Error).message });
+            return createValidationError([(parseError as Error).message]);
+        }
+
+        const errors = validateInitiateRequest(request);
+        if (errors.length > 0) {
+            logger.warn('Invalid initiate upload request', { errors });
+            return createValidationError(errors);
+        }
+
+        const maxSize = request.multipart ?
+            MULTIPART_UPLOAD_LIMITS.MAX_FILE_SIZE :
+            FILE_SIZE_LIMITS.MAX_PRESIGNED_FILE_SIZE;
+
+        if (request.file_size > maxSize) {
+            logger.warn('File too large', {
+                actualSize: request.file_size,
+                maxSize,
+                multipart: !!request.multipart
+            });
+            return createFileSizeError(request.file_size, maxSize);
+        }
+
+        const metadataValidation = validateMetadata(request.metadata || {});
+        if (!metadataValidation.isValid) {
+            logger.warn('Invalid metadata format', { errors: metadataValidation.errors });
+            return createValidationError(metadataValidation.errors);
+        }
+
+        const fileName = request.file_name.trim();
+        const contentType = request.content_type || 'application/octet-stream';
+
+        // Only the declared type is known here; complete-upload checks the bytes once they land
+        const policyDecision = evaluateUploadPolicy(loadUploadPolicy(), {
+            fileName,
+            fileSize: request.file_size,
+            declaredContentType: contentType
+        });
+
+        if (!policyDecision.allowed) {
+            logger.warn('File rejected by upload policy', { fileName, contentType, reason: policyDecision.reason });
+            return policyDecision.status_code === HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE ?
+                createUnsupportedMediaTypeError([policyDecision.reason!]) :
+                createFileSizeError(request.file_size, policyDecision.max_size);
+        }
+
+        const fileId = uuidv4();
+        const s3Key = `${S3_KEY_PATTERNS.UPLOAD_PREFIX}${fileId}/${fileName}`;
+
+        logger.info('Creating pending upload', {
+            fileId,
+            fileName,
+            size: request.file_size,
+            contentType,
+            multipart: !!request.multipart
+        });
+
+        if (request.multipart) {
+            return await initiateMultipartUpload(fileId, fileName, contentType, s3Key, request, metadataValidation.cleanedMetadata, logger);
+        }
+
+        // Create the record before handing out the URL so the processor always finds it
+        const item: FileMetadata = {
+            file_id: fileId,
+            file_name: fileName,
+            content_type: contentType,
+            s3_key: s3Key,
+            upload_date: new Date().toISOString(),
+            file_size: request.file_size,
+            status: FileStatus.PENDING,
+            client_metadata: metadataValidation.cleanedMetadata
+        };
+
+        // Applied by the processor once the uploaded content has been hashed
+        if (request.dedupe) {
+            item.dedupe_mode = request.dedupe;
+        }
+
+        await docClient.send(new PutCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Item: item,
+            ConditionExpression: 'attribute_not_exists(file_id)'
+        }));
+
+        await recordUsageChange(docClient, undefined, item, logger);
+
+        // Content-Length is signed, so S3 refuses a body of any other size than the one the policy allowed
+        const uploadUrl = await getSignedUrl(s3Client, new PutObjectCommand({
+            Bucket: process.env.S3_BUCKET_NAME!,
+            Key: s3Key,
+            ContentType: contentType,
+            ContentLength: request.file_size,
+            Metadata: {
+                'original-name': encodeURIComponent(fileName),
+                'file-id': fileId,
+                'upload-timestamp': item.upload_date
+            }
+        }), { expiresIn: PRESIGNED_URL_EXPIRY_SECONDS.UPLOAD });
+
+        logger.info('Presigned upload URL issued', { fileId });
+
+        return createSuccessResponse<InitiateUploadResponse>({
+            file_id: fileId,
+            s3_key: s3Key,
+            upload_url: uploadUrl,
+            upload_method: 'PUT',
+            upload_headers: {
+                'Content-Type': contentType
+            },
+            expires_in: PRESIGNED_URL_EXPIRY_SECONDS.UPLOAD
+        }, HTTP_STATUS.CREATED);
+
+    } catch (error) {
+        logger.error('Error initiating upload', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Start an S3 multipart upload and record it on a pending file record
+ */
+async function initiateMultipartUpload(
+    fileId: string,
+    fileName: string,
+    contentType: string,
+    s3Key: string,
+    request: InitiateUploadRequest,
+    clientMetadata: Record<string, string | number | boolean>,
+    logger: Logger
+): Promise<APIGatewayProxyResult> {
+    const uploadDate = new Date().toISOString();
+    const partSize = computePartSize(request.file_size);
+    const partCount = computePartCount(request.file_size, partSize);
+
+    const multipartUpload = await s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: process.env.S3_BUCKET_NAME!,
+        Key: s3Key,
+        ContentType: contentType,
+        Metadata: {
+            'original-name': encodeURIComponent(fileName),
+            'file-id': fileId,
+            'upload-timestamp': uploadDate
+        }
+    }));
+
+    const uploadId = multipartUpload.UploadId!;
+
+    const item: FileMetadata = {
+        file_id: fileId,
+        file_name: fileName,
+        content_type: contentType,
+        s3_key: s3Key,
+        upload_date: uploadDate,
+        file_size: request.file_size,
+        status: FileStatus.PENDING,
+        client_metadata: clientMetadata,
+        multipart_upload_id: uploadId,
+        multipart_part_size: partSize,
+        multipart_part_count: partCount,
+        uploaded_parts: 0,
+        uploaded_bytes: 0,
+        upload_progress_date: uploadDate
+    };
+
+    if (request.dedupe) {
+        item.dedupe_mode = request.dedupe;
+    }
+
+    await docClient.send(new PutCommand({
+        TableName: process.env.DYNAMODB_TABLE_NAME!,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(file_id)'
+    }));
+
+    await recordUsageChange(docClient, undefined, item, logger);
+
+    logger.info('Multipart upload created', { fileId, uploadId, partSize, partCount });
+
+    return createSuccessResponse<InitiateUploadResponse>({
+        file_id: fileId,
+        s3_key: s3Key,
+        upload_method: 'MULTIPART',
+        upload_id: uploadId,
+        part_size: partSize,
+        part_count: partCount
+    }, HTTP_STATUS.CREATED);
+}
+
+/**
+ * Validate the shape of an initiate upload request
+ */
+function validateInitiateRequest(request: InitiateUploadRequest): string[] {
+    if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+        return ['Request body must be a JSON object'];
+    }
+
+    const errors: string[] = [...validateFileName(request.file_name)];
+
+    if (typeof request.file_size !== 'number' || !Number.isInteger(request.file_size) || request.file_size < 0) {
+        errors.push('file_size must be a non-negative integer');
+    }
+
+    if (request.content_type !== undefined && (typeof request.content_type !== 'string' || request.content_type.trim() === '')) {
+        errors.push('content_type must be a non-empty string');
+    }
+
+    if (request.multipart !== undefined && typeof request.multipart !== 'boolean') {
+        errors.push('multipart must be a boolean');
+    }
+
+    if (request.dedupe !== undefined && (typeof request.dedupe !== 'string' || !isValidDedupeMode(request.dedupe))) {
+        errors.push(`dedupe must be one of: ${Object.values(DedupeMode).join(', ')}`);
+    }
+
+    if (request.metadata !== undefined &&
+        (typeof request.metadata !== 'object' || request.metadata === null || Array.isArray(request.metadata))) {
+        errors.push('metadata must be an object');
+    }
+
+    return errors;
+}
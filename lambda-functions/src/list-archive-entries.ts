@@ -0,0 +1,160 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  createValidationError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { listArchiveEntries } from './utils/archive-entries';
+import { encodeCursor, decodeCursor, CursorError } from './utils/cursor';
+import {
+  ArchiveEntriesResponse,
+  ArchiveEntry,
+  ExtractedFileType,
+  FileMetadata,
+  ARCHIVE_LIMITS
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'list-archive-entries',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+const CURSOR_SCOPE = 'archive-entries';
+
+const LIST_PARAMS = ['limit', 'cursor'];
+
+// Last entry returned for the file the cursor was issued for
+interface ArchiveEntriesCursor {
+    entry_index: number;
+}
+
+/**
+ * Main Lambda handler for listing the entries inside an archive
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('List archive entries request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const params = event.queryStringParameters || {};
+        const errors: string[] = [];
+
+        for (const name of Object.keys(params)) {
+            if (!LIST_PARAMS.includes(name)) {
+                errors.push(`Unknown query parameter: ${name}`);
+            }
+        }
+
+        let limit: number = ARCHIVE_LIMITS.DEFAULT_PAGE_SIZE;
+        if (params.limit !== undefined) {
+            limit = Number(params.limit);
+            if (!Number.isInteger(limit) || limit < 1 || limit > ARCHIVE_LIMITS.MAX_PAGE_SIZE) {
+                errors.push(`limit must be an integer between 1 and ${ARCHIVE_LIMITS.MAX_PAGE_SIZE}`);
+            }
+        }
+
+        if (errors.length > 0) {
+            logger.warn('Invalid archive entries request', { errors });
+            return createValidationError(errors);
+        }
+
+        let afterIndex: number | undefined;
+        if (params.cursor) {
+            try {
+                afterIndex = (await decodeCursor<ArchiveEntriesCursor>(params.cursor, CURSOR_SCOPE, { file_id: fileId })).entry_index;
+            } catch (error) {
+                if (error instanceof CursorError) {
+                    logger.warn('Rejected pagination cursor', { reason: error.message });
+                    return createErrorResponse(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_CURSOR, [error.message]);
+                }
+                throw error;
+            }
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        if (record.extracted_file_type && record.extracted_file_type !== ExtractedFileType.ARCHIVE) {
+            logger.warn('File is not an archive', { fileId, fileType: record.extracted_file_type });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.NOT_AN_ARCHIVE,
+                [`File was classified as ${record.extracted_file_type}`]
+            );
+        }
+
+        // Nothing is listed until the processor has read the file, or for formats it can't read
+        if (record.extracted_archive_entry_count === undefined) {
+            logger.info('Archive has no listed entries', { fileId, status: record.status });
+            return createSuccessResponse<ArchiveEntriesResponse>({
+                file_id: fileId,
+                entries: [],
+                total_count: 0,
+                listing_truncated: false
+            });
+        }
+
+        const page = await listArchiveEntries(docClient, fileId, limit, afterIndex);
+
+        const response: ArchiveEntriesResponse = {
+            file_id: fileId,
+            entries: page.entries.map(({ file_id, entry_index, ...entry }): ArchiveEntry => entry),
+            total_count: record.extracted_archive_entry_count,
+            listing_truncated: !!record.extracted_archive_listing_truncated
+        };
+
+        if (page.hasMore) {
+            const last = page.entries[page.entries.length - 1];
+            response.next_cursor = await encodeCursor<ArchiveEntriesCursor>(CURSOR_SCOPE, { file_id: fileId }, { entry_index: last.entry_index });
+        }
+
+        logger.info('Archive entries retrieved successfully', {
+            fileId,
+            returned: response.entries.length,
+            hasNextCursor: !!response.next_cursor
+        });
+
+        return createSuccessResponse<ArchiveEntriesResponse>(response);
+
+    } catch (error) {
+        logger.error('Error listing archive entries', error as Error);
+        return createInternalError(error as Error);
+    }
+};
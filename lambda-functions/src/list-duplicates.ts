@@ -0,0 +1,95 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { findDuplicates } from './utils/content-hash';
+import {
+  FileMetadata,
+  FileListItem,
+  DuplicatesResponse
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'list-duplicates',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for listing files with the same content as a given file
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('List duplicates request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        // Presigned uploads are only hashed once the processor has read them
+        if (!record.content_hash) {
+            logger.info('File has not been hashed yet', { fileId, status: record.status });
+            return createSuccessResponse<DuplicatesResponse>({
+                file_id: fileId,
+                duplicates: [],
+                total_count: 0
+            });
+        }
+
+        const duplicates: FileListItem[] = (await findDuplicates(docClient, record.content_hash, fileId)).map(item => ({
+            file_id: item.file_id,
+            file_name: item.file_name,
+            upload_date: item.upload_date,
+            file_size: item.file_size,
+            status: item.status,
+            content_type: item.content_type
+        }));
+
+        logger.info('Duplicates retrieved successfully', { fileId, count: duplicates.length });
+
+        return createSuccessResponse<DuplicatesResponse>({
+            file_id: fileId,
+            content_hash: record.content_hash,
+            duplicates,
+            total_count: duplicates.length
+        });
+
+    } catch (error) {
+        logger.error('Error listing duplicates', error as Error);
+        return createInternalError(error as Error);
+    }
+};
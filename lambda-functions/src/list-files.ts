@@ -1,16 +1,27 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { 
-  createSuccessResponse, 
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
   createInternalError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
 } from './utils/responses';
 import { createLogger, Logger } from './utils/logger';
+import { parseListFilesQuery } from './utils/list-query';
+import { encodeCursor, decodeCursor, CursorError } from './utils/cursor';
 import {
+  FileMetadata,
   FileListItem,
+  ListFilesQuery,
   ListFilesResponse,
+  ListSortField,
+  SortOrder,
   FileStatus,
-  isValidFileStatus
+  isValidFileStatus,
+  DYNAMODB_ATTRIBUTES
 } from './types';
 
 // Initialize AWS clients
@@ -24,73 +35,120 @@ const baseLogger = createLogger({
     dynamoTable: process.env.DYNAMODB_TABLE_NAME
 });
 
+const CURSOR_SCOPE = 'list-files';
+
+const LIST_PROJECTION = 'file_id, file_name, upload_date, file_size, #status, content_type, deleted_at, processing_error';
+
+// Position of the last file returned; the next page starts strictly after it
+interface ListCursor {
+    value: string | number;
+    file_id: string;
+}
+
+// One index partition to read in the requested sort order
+interface PartitionQuery {
+    indexName: string;
+    keyAttribute: string;
+    keyValue: string;
+    filterExpression?: string;
+    filterValues?: Record<string, any>;
+}
+
+// Filter conditions shared by every partition of one request
+interface QueryFilter {
+    expressions: string[];
+    names: Record<string, string>;
+    values: Record<string, any>;
+}
+
+type Comparator = (a: ListCursor, b: ListCursor) => number;
+
+// Each sort field is the sort key of the status index it is read from
+const STATUS_INDEXES: Record<ListSortField, string> = {
+    [ListSortField.UPLOAD_DATE]: DYNAMODB_ATTRIBUTES.GSI_STATUS,
+    [ListSortField.FILE_SIZE]: DYNAMODB_ATTRIBUTES.GSI_STATUS_SIZE,
+    [ListSortField.FILE_NAME]: DYNAMODB_ATTRIBUTES.GSI_STATUS_NAME
+};
+
 /**
  * Main Lambda handler for listing all files
  */
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-    const logger: Logger = baseLogger.addContext({ 
+    const logger: Logger = baseLogger.addContext({
         requestId: event.requestContext.requestId,
         httpMethod: event.httpMethod,
         path: event.path
     });
-    
+
     logger.info('List files request received');
-    
+
     try {
-        // Get query parameters for pagination (optional)
-        const limit = event.queryStringParameters?.limit ? 
-            parseInt(event.queryStringParameters.limit) : 100;
-        const lastEvaluatedKey = event.queryStringParameters?.lastKey;
+        const params = event.queryStringParameters || {};
+        const { query, errors } = parseListFilesQuery(params);
 
-        logger.info('Scanning DynamoDB for files', { limit, hasLastKey: !!lastEvaluatedKey });
+        if (errors.length > 0) {
+            logger.warn('Invalid list parameters', { errors });
+            return createValidationError(errors);
+        }
 
-        // Scan DynamoDB table to get all files
-        const scanParams: any = {
-            TableName: process.env.DYNAMODB_TABLE_NAME!,
-            Limit: Math.min(limit, 100), // Cap at 100 items per request
-            ProjectionExpression: 'file_id, file_name, upload_date, file_size, #status, content_type',
-            ExpressionAttributeNames: {
-                '#status': 'status'
-            }
-        };
+        // Page size may change between pages; everything else must match the cursor
+        const { limit, ...cursorBinding } = query;
 
-        // Add pagination if provided
-        if (lastEvaluatedKey) {
+        let cursor: ListCursor | undefined;
+        if (params.cursor) {
             try {
-                scanParams.ExclusiveStartKey = JSON.parse(decodeURIComponent(lastEvaluatedKey));
+                cursor = await decodeCursor<ListCursor>(params.cursor, CURSOR_SCOPE, cursorBinding);
             } catch (error) {
-                logger.warn('Invalid lastKey parameter', error as Error);
+                if (error instanceof CursorError) {
+                    logger.warn('Rejected pagination cursor', { reason: error.message });
+                    return createErrorResponse(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_CURSOR, [error.message]);
+                }
+                throw error;
             }
         }
 
-        const result = await docClient.send(new ScanCommand(scanParams));
+        const partitions = buildPartitionQueries(query);
+        const compare = createComparator(query.order);
+
+        logger.info('Querying file indexes', {
+            query,
+            hasCursor: !!cursor,
+            partitions: partitions.length
+        });
+
+        // Each partition is read in sort order, so merging them only needs a page from each
+        const results = await Promise.all(partitions.map(partition => queryPartition(partition, query, compare, cursor)));
+        const merged = results
+            .flatMap(result => result.items)
+            .sort((a, b) => compare(toPosition(a, query.sort), toPosition(b, query.sort)));
+        const page = merged.slice(0, limit);
+        const hasMore = merged.length > limit || results.some(result => !result.exhausted);
 
         // Format the response
-        const files: FileListItem[] = (result.Items || []).map(item => ({
+        const files: FileListItem[] = page.map(item => ({
             file_id: item.file_id,
             file_name: item.file_name,
             upload_date: item.upload_date,
             file_size: item.file_size,
             status: isValidFileStatus(item.status) ? item.status : FileStatus.UPLOADED,
-            content_type: item.content_type
+            content_type: item.content_type,
+            ...(item.deleted_at ? { deleted_at: item.deleted_at } : {}),
+            ...(item.processing_error ? { processing_error: item.processing_error } : {})
         }));
 
-        // Sort by upload date (newest first)
-        files.sort((a, b) => new Date(b.upload_date).getTime() - new Date(a.upload_date).getTime());
-
         const response: ListFilesResponse = {
             files: files,
-            total_count: result.Count || 0
+            total_count: files.length
         };
 
         // Add pagination info if there are more items
-        if (result.LastEvaluatedKey) {
-            response.next_key = encodeURIComponent(JSON.stringify(result.LastEvaluatedKey));
+        if (hasMore && page.length > 0) {
+            response.next_cursor = await encodeCursor(CURSOR_SCOPE, cursorBinding, toPosition(page[page.length - 1], query.sort));
         }
 
-        logger.info('Files retrieved successfully', { 
+        logger.info('Files retrieved successfully', {
             count: files.length,
-            hasNextKey: !!response.next_key 
+            hasNextCursor: !!response.next_cursor
         });
 
         return createSuccessResponse<ListFilesResponse>(response);
@@ -100,3 +158,241 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
         return createInternalError(error as Error);
     }
 };
+
+/**
+ * Pick the index partitions that together hold every file matching the filters
+ *
+ * A file type filter sorted by upload date reads one file-type-index partition;
+ * otherwise each wanted status is its own partition of the status index sorted
+ * by the requested field, and the file type is filtered on.
+ */
+function buildPartitionQueries(query: ListFilesQuery): PartitionQuery[] {
+    if (query.file_type && query.sort === ListSortField.UPLOAD_DATE) {
+        return [{
+            indexName: DYNAMODB_ATTRIBUTES.GSI_FILE_TYPE,
+            keyAttribute: 'extracted_file_type',
+            keyValue: query.file_type,
+            filterExpression: query.status ? '#status = :status' : '#status <> :status',
+            filterValues: { ':status': query.status || FileStatus.DELETED }
+        }];
+    }
+
+    const statuses = query.status ?
+        [query.status] :
+        Object.values(FileStatus).filter(value => value !== FileStatus.DELETED);
+
+    return statuses.map(value => ({
+        indexName: STATUS_INDEXES[query.sort],
+        keyAttribute: 'status',
+        keyValue: value,
+        ...(query.file_type ? {
+            filterExpression: 'extracted_file_type = :file_type',
+            filterValues: { ':file_type': query.file_type }
+        } : {})
+    }));
+}
+
+/**
+ * The range filters on the sort field, which are key conditions rather than filters
+ */
+function sortKeyRange(query: ListFilesQuery): { lower?: string | number; upper?: string | number } {
+    switch (query.sort) {
+        case ListSortField.FILE_SIZE:
+            return { lower: query.min_size, upper: query.max_size };
+        case ListSortField.FILE_NAME:
+            return {};
+        default:
+            return { lower: query.uploaded_from, upper: query.uploaded_to };
+    }
+}
+
+/**
+ * Translate the non-key filters into a DynamoDB filter expression
+ */
+function buildQueryFilter(query: ListFilesQuery): QueryFilter {
+    const filter: QueryFilter = { expressions: [], names: {}, values: {} };
+
+    if (query.category) {
+        filter.expressions.push('extracted_category = :category');
+        filter.values[':category'] = query.category;
+    }
+
+    if (query.content_type?.endsWith('/*')) {
+        filter.expressions.push('begins_with(content_type, :content_type)');
+        filter.values[':content_type'] = query.content_type.slice(0, -1);
+    } else if (query.content_type) {
+        filter.expressions.push('content_type = :content_type');
+        filter.values[':content_type'] = query.content_type;
+    }
+
+    // Ranges on the sort field itself are applied by sortKeyRange
+    if (query.sort !== ListSortField.UPLOAD_DATE && query.uploaded_from) {
+        filter.expressions.push('upload_date >= :uploaded_from');
+        filter.values[':uploaded_from'] = query.uploaded_from;
+    }
+
+    if (query.sort !== ListSortField.UPLOAD_DATE && query.uploaded_to) {
+        filter.expressions.push('upload_date <= :uploaded_to');
+        filter.values[':uploaded_to'] = query.uploaded_to;
+    }
+
+    if (query.sort !== ListSortField.FILE_SIZE && query.min_size !== undefined) {
+        filter.expressions.push('file_size >= :min_size');
+        filter.values[':min_size'] = query.min_size;
+    }
+
+    if (query.sort !== ListSortField.FILE_SIZE && query.max_size !== undefined) {
+        filter.expressions.push('file_size <= :max_size');
+        filter.values[':max_size'] = query.max_size;
+    }
+
+    // Query strings are untyped, so match the stored value as a string, number or boolean
+    Object.entries(query.metadata).forEach(([key, value], index) => {
+        const candidates: Array<string | number | boolean> = [value];
+        if (value.trim() !== '' && isFinite(Number(value))) {
+            candidates.push(Number(value));
+        }
+        if (value === 'true' || value === 'false') {
+            candidates.push(value === 'true');
+        }
+
+        const placeholders = candidates.map((candidate, candidateIndex) => {
+            const placeholder = `:metadata_${index}_${candidateIndex}`;
+            filter.values[placeholder] = candidate;
+            return placeholder;
+        });
+
+        filter.names[`#metadata_${index}`] = key;
+        filter.expressions.push(`client_metadata.#metadata_${index} IN (${placeholders.join(', ')})`);
+    });
+
+    return filter;
+}
+
+/**
+ * Read matching files after the cursor from one partition, in the requested order
+ *
+ * Stops once a page's worth is found.
+ */
+async function queryPartition(
+    partition: PartitionQuery,
+    query: ListFilesQuery,
+    compare: Comparator,
+    cursor?: ListCursor
+): Promise<{ items: FileMetadata[]; exhausted: boolean }> {
+    const ascending = query.order === SortOrder.ASC;
+    const filter = buildQueryFilter(query);
+    const sortKey: string = query.sort;
+
+    // Files sharing the cursor's sort value are re-read and skipped below
+    let { lower: lowerBound, upper: upperBound } = sortKeyRange(query);
+    if (cursor) {
+        if (ascending) {
+            lowerBound = lowerBound !== undefined && compareSortValues(lowerBound, cursor.value) > 0 ? lowerBound : cursor.value;
+        } else {
+            upperBound = upperBound !== undefined && compareSortValues(upperBound, cursor.value) < 0 ? upperBound : cursor.value;
+        }
+    }
+
+    const keyConditions = ['#key = :key'];
+    const expressionValues: Record<string, any> = {
+        ':key': partition.keyValue,
+        ...partition.filterValues,
+        ...filter.values
+    };
+    if (lowerBound !== undefined && upperBound !== undefined) {
+        keyConditions.push(`${sortKey} BETWEEN :lower_bound AND :upper_bound`);
+    } else if (lowerBound !== undefined) {
+        keyConditions.push(`${sortKey} >= :lower_bound`);
+    } else if (upperBound !== undefined) {
+        keyConditions.push(`${sortKey} <= :upper_bound`);
+    }
+    if (lowerBound !== undefined) {
+        expressionValues[':lower_bound'] = lowerBound;
+    }
+    if (upperBound !== undefined) {
+        expressionValues[':upper_bound'] = upperBound;
+    }
+
+    const filterExpressions = [
+        ...(partition.filterExpression ? [partition.filterExpression] : []),
+        ...filter.expressions
+    ];
+
+    const items: FileMetadata[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    if (lowerBound !== undefined && upperBound !== undefined && compareSortValues(lowerBound, upperBound) > 0) {
+        return { items, exhausted: true };
+    }
+
+    do {
+        const result = await docClient.send(new QueryCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            IndexName: partition.indexName,
+            KeyConditionExpression: keyConditions.join(' AND '),
+            FilterExpression: filterExpressions.length > 0 ? filterExpressions.join(' AND ') : undefined,
+            ProjectionExpression: LIST_PROJECTION,
+            ExpressionAttributeNames: {
+                '#key': partition.keyAttribute,
+                '#status': 'status',
+                ...filter.names
+            },
+            ExpressionAttributeValues: expressionValues,
+            ScanIndexForward: ascending,
+            Limit: query.limit,
+            ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        for (const item of (result.Items || []) as FileMetadata[]) {
+            if (!cursor || compare(toPosition(item, query.sort), cursor) > 0) {
+                items.push(item);
+            }
+        }
+
+        exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey && items.length < query.limit);
+
+    return { items, exhausted: !exclusiveStartKey };
+}
+
+/**
+ * Where a file sits in the requested sort order
+ */
+function toPosition(item: FileMetadata, sort: ListSortField): ListCursor {
+    switch (sort) {
+        case ListSortField.FILE_SIZE:
+            return { value: item.file_size, file_id: item.file_id };
+        case ListSortField.FILE_NAME:
+            return { value: item.file_name, file_id: item.file_id };
+        default:
+            return { value: item.upload_date, file_id: item.file_id };
+    }
+}
+
+/**
+ * Compare sort values the way DynamoDB orders index keys: numbers by value, strings by UTF-8 bytes
+ */
+function compareSortValues(a: string | number, b: string | number): number {
+    if (typeof a === 'number' && typeof b === 'number') {
+        return a - b;
+    }
+    return Buffer.compare(Buffer.from(String(a), 'utf8'), Buffer.from(String(b), 'utf8'));
+}
+
+/**
+ * Order by sort value, breaking ties by file_id so pages never overlap
+ */
+function createComparator(order: SortOrder): Comparator {
+    const direction = order === SortOrder.ASC ? 1 : -1;
+
+    return (a, b) => {
+        if (a.value !== b.value) {
+            return compareSortValues(a.value, b.value) < 0 ? -direction : direction;
+        }
+        if (a.file_id !== b.file_id) {
+            return a.file_id < b.file_id ? -direction : direction;
+        }
+        return 0;
+    };
+}
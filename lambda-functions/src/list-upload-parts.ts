@@ -0,0 +1,116 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { listUploadedParts } from './utils/multipart';
+import {
+  FileMetadata,
+  FileStatus,
+  ListPartsResponse
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'list-upload-parts',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for listing the parts already received for a multipart upload
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('List upload parts request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        if (record.status !== FileStatus.PENDING || !record.multipart_upload_id) {
+            logger.warn('File has no active multipart upload', { fileId, status: record.status });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.NO_ACTIVE_MULTIPART_UPLOAD,
+                [`File ${fileId} is not awaiting multipart upload parts`]
+            );
+        }
+
+        const parts = await listUploadedParts(
+            s3Client,
+            process.env.S3_BUCKET_NAME!,
+            record.s3_key,
+            record.multipart_upload_id
+        );
+        const uploadedBytes = parts.reduce((sum, part) => sum + part.size, 0);
+
+        // Checkpoint progress on the record so it is visible through the metadata API
+        await docClient.send(new UpdateCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            },
+            UpdateExpression: 'SET uploaded_parts = :parts, uploaded_bytes = :bytes, upload_progress_date = :now',
+            ExpressionAttributeValues: {
+                ':parts': parts.length,
+                ':bytes': uploadedBytes,
+                ':now': new Date().toISOString()
+            },
+            ConditionExpression: 'attribute_exists(file_id)'
+        }));
+
+        logger.info('Upload parts listed', { fileId, partCount: parts.length, uploadedBytes });
+
+        return createSuccessResponse<ListPartsResponse>({
+            file_id: fileId,
+            upload_id: record.multipart_upload_id,
+            part_size: record.multipart_part_size!,
+            part_count: record.multipart_part_count!,
+            parts,
+            uploaded_bytes: uploadedBytes
+        });
+
+    } catch (error) {
+        logger.error('Error listing upload parts', error as Error);
+        return createInternalError(error as Error);
+    }
+};
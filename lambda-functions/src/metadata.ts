@@ -8,6 +8,7 @@ import {
   createMissingParameterError,
 } from './utils/responses';
 import { createLogger, Logger } from './utils/logger';
+import { getRecordVersion, withVersionETag } from './utils/version';
 import {
   FileMetadata,
   MetadataResponse
@@ -62,11 +63,16 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
 
         logger.info('Metadata retrieved successfully', { fileId });
 
-        // Return the metadata
-        return createSuccessResponse<MetadataResponse>({
-            file_id: fileId,
-            metadata: result.Item as FileMetadata
-        });
+        const metadata = result.Item as FileMetadata;
+
+        // Return the metadata, with its version as the ETag for PATCH
+        return withVersionETag(
+            createSuccessResponse<MetadataResponse>({
+                file_id: fileId,
+                metadata
+            }),
+            getRecordVersion(metadata)
+        );
 
     } catch (error) {
         logger.error('Error retrieving metadata', error as Error);
@@ -0,0 +1,147 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, UploadPartCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { parseJsonBody } from './utils/request';
+import {
+  FileMetadata,
+  FileStatus,
+  PresignPartsRequest,
+  PresignPartsResponse,
+  MULTIPART_UPLOAD_LIMITS,
+  PRESIGNED_URL_EXPIRY_SECONDS
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'presign-upload-parts',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for issuing presigned URLs for multipart upload parts
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Presign upload parts request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        let request: PresignPartsRequest;
+        try {
+            request = parseJsonBody<PresignPartsRequest>(event);
+        } catch (parseError) {
+            logger.warn('Invalid request body', { error: (parseError as Error).message });
+            return createValidationError([(parseError as Error).message]);
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        if (record.status !== FileStatus.PENDING || !record.multipart_upload_id || !record.multipart_part_count) {
+            logger.warn('File has no active multipart upload', { fileId, status: record.status });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.NO_ACTIVE_MULTIPART_UPLOAD,
+                [`File ${fileId} is not awaiting multipart upload parts`]
+            );
+        }
+
+        const errors = validatePartNumbers(request, record.multipart_part_count);
+        if (errors.length > 0) {
+            logger.warn('Invalid part numbers', { errors });
+            return createValidationError(errors);
+        }
+
+        const uploadId = record.multipart_upload_id;
+        const parts = await Promise.all(request.part_numbers.map(async partNumber => ({
+            part_number: partNumber,
+            upload_url: await getSignedUrl(s3Client, new UploadPartCommand({
+                Bucket: process.env.S3_BUCKET_NAME!,
+                Key: record.s3_key,
+                UploadId: uploadId,
+                PartNumber: partNumber
+            }), { expiresIn: PRESIGNED_URL_EXPIRY_SECONDS.UPLOAD_PART })
+        })));
+
+        logger.info('Presigned part URLs issued', { fileId, partCount: parts.length });
+
+        return createSuccessResponse<PresignPartsResponse>({
+            file_id: fileId,
+            upload_id: uploadId,
+            parts,
+            expires_in: PRESIGNED_URL_EXPIRY_SECONDS.UPLOAD_PART
+        });
+
+    } catch (error) {
+        logger.error('Error presigning upload parts', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Validate requested part numbers against the upload's part count
+ */
+function validatePartNumbers(request: PresignPartsRequest, partCount: number): string[] {
+    if (typeof request !== 'object' || request === null || !Array.isArray(request.part_numbers)) {
+        return ['part_numbers must be an array of integers'];
+    }
+
+    if (request.part_numbers.length === 0) {
+        return ['part_numbers must not be empty'];
+    }
+
+    if (request.part_numbers.length > MULTIPART_UPLOAD_LIMITS.MAX_PARTS_PER_PRESIGN_REQUEST) {
+        return [`At most ${MULTIPART_UPLOAD_LIMITS.MAX_PARTS_PER_PRESIGN_REQUEST} parts can be presigned per request`];
+    }
+
+    const errors: string[] = [];
+    for (const partNumber of request.part_numbers) {
+        if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > partCount) {
+            errors.push(`Invalid part number: ${partNumber} - must be between 1 and ${partCount}`);
+        }
+    }
+
+    return errors;
+}
@@ -1,15 +1,52 @@
 import { S3Event } from 'aws-lambda';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { StatusCodes } from 'http-status-codes';
+import { S3Client, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
-import { createLogger, logger } from './utils/logger';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { createLogger, Logger } from './utils/logger';
+import { readStreamHeader, findDuplicates, findOriginal } from './utils/content-hash';
+import { indexFile } from './utils/search-index';
+import { isTextSource, extractSearchText } from './utils/search-text';
+import { recordUsageChange } from './utils/usage-stats';
+import { createTextAnalyzer, getTextFormat, TextAnalyzer } from './utils/text-analysis';
 import {
+  createArchiveAnalyzer,
+  inspectZip,
+  isStreamedArchive,
+  ArchiveAnalyzer,
+  ArchiveInspection
+} from './utils/archive-inspection';
+import { replaceArchiveEntries } from './utils/archive-entries';
+import { runExtractors } from './utils/extractor-registry';
+import { loadUploadPolicy, evaluateUploadPolicy } from './utils/upload-policy';
+import {
+  detectFileType,
+  isContentTypeMismatch,
+  normalizeContentType,
+  DetectedFileType,
+  SIGNATURE_SNIFF_BYTES
+} from './utils/file-signature';
+import {
+  ArchiveEntry,
+  ArchiveMetadata,
+  ContentTypeDetection,
+  DedupeMode,
+  FileMetadata,
   ExtractedMetadata,
   ExtractedFileType,
   ExtractedCategory,
   ExtractedSizeCategory,
+  ExtractorResult,
   FileStatus,
+  ProcessingError,
+  ProcessingErrorCode,
+  RangeReader,
+  TextMetadata,
   FILE_SIZE_LIMITS,
+  SEARCH_INDEX_LIMITS,
+  METADATA_EXTRACTION_LIMITS,
+  PROCESSOR_VERSION,
 } from './types';
 
 // Initialize AWS clients
@@ -17,6 +54,25 @@ const s3Client = new S3Client({ region: process.env.AWS_REGION });
 const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
 const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
 
+// Writes that end an attempt only apply while the record is still processing for that attempt
+const PROCESSING_ATTEMPT_CONDITION = '#status = :processing AND processing_attempts = :attempt';
+
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+
+// S3 sequencers vary in length; right-padded with zeros they compare as plain strings
+const SEQUENCER_LENGTH = 32;
+
+// The object a processing attempt reads
+interface ProcessingTarget {
+    fileId: string;
+    fileName: string;
+    bucketName: string;
+    objectKey: string;
+    objectSize: number;
+    // A presigned upload the complete call hasn't checked against the upload policy yet
+    uploadPending?: boolean;
+}
+
 /**
  * Main Lambda handler for file processing and metadata extraction
  */
@@ -38,6 +94,12 @@ export const handler = async (event: S3Event): Promise<any> => {
                 objectSize 
             });
             
+            // Renames rewrite headers with an in-place copy; the content is unchanged
+            if (record.eventName === 'ObjectCreated:Copy') {
+                recordLogger.info('Skipping copy event - content unchanged');
+                continue;
+            }
+
             recordLogger.info('Processing file');
             
             // Extract file_id from S3 key (assuming format: uploads/{file_id}/{filename})
@@ -51,26 +113,19 @@ export const handler = async (event: S3Event): Promise<any> => {
             const fileName = keyParts.slice(2).join('/');
             
             const fileLogger = recordLogger.addContext({ fileId, fileName });
+
+            const before = await startProcessing(fileId, normalizeSequencer(record.s3.object.sequencer), fileLogger);
+            if (!before) {
+                continue;
+            }
+            const attempt = (before.processing_attempts ?? 0) + 1;
+            const uploadPending = before.status === FileStatus.PENDING;
             
             try {
-                // Get file from S3 to analyze
-                const s3Object = await s3Client.send(new GetObjectCommand({
-                    Bucket: bucketName,
-                    Key: objectKey
-                }));
-                
-                // Extract metadata based on file type
-                const extractedMetadata = await extractFileMetadata(s3Object, fileName, objectSize);
-                
-                fileLogger.info('Extracted metadata', { extractedMetadata });
-                
-                // Update DynamoDB with flattened extracted metadata
-                await updateDynamoDBWithMetadata(fileId, extractedMetadata);
-                
-                fileLogger.info('File processing completed successfully');
-                
+                await processObject({ fileId, fileName, bucketName, objectKey, objectSize, uploadPending }, attempt, fileLogger);
             } catch (fileError) {
                 fileLogger.error('Error processing individual file', fileError as Error);
+                await failProcessing(fileId, attempt, fileError as Error, fileLogger);
                 // Continue processing other files even if one fails
                 continue;
             }
@@ -91,10 +146,520 @@ export const handler = async (event: S3Event): Promise<any> => {
     }
 };
 
+/**
+ * Extract a stored file's metadata again, outside of any S3 event
+ *
+ * Files that aren't in a reprocessable status when claimed, or that this job already
+ * claimed, are skipped. Failures are recorded on the record the same way as for
+ * event-driven processing.
+ */
+export async function reprocessFile(fileId: string, bucketName: string, fileLogger: Logger, jobId: string): Promise<void> {
+    const previous = await startReprocessing(fileId, jobId, fileLogger);
+    if (!previous) {
+        return;
+    }
+    const attempt = (previous.processing_attempts ?? 0) + 1;
+
+    try {
+        await processObject({
+            fileId,
+            fileName: previous.file_name,
+            bucketName,
+            objectKey: previous.s3_key,
+            objectSize: previous.file_size
+        }, attempt, fileLogger, previous);
+    } catch (error) {
+        fileLogger.error('Error reprocessing file', error as Error);
+        await failProcessing(fileId, attempt, error as Error, fileLogger);
+    }
+}
+
+/**
+ * Read the object, extract its metadata and store it on the record
+ *
+ * `previous` is the record as it was before a reprocess: its content hash is reused rather
+ * than read again and the dedupe mode isn't applied a second time.
+ */
+async function processObject(
+    target: ProcessingTarget,
+    attempt: number,
+    fileLogger: Logger,
+    previous?: FileMetadata
+): Promise<void> {
+    const { fileId, fileName, bucketName, objectKey, objectSize } = target;
+
+    const s3Object = await s3Client.send(new GetObjectCommand({
+        Bucket: bucketName,
+        Key: objectKey
+    }));
+
+    // Read past the signature for files whose contents are analysed or indexed
+    const declaredClassification = classifyByDeclaredType(s3Object.ContentType || '', getFileExtension(fileName));
+    const headerBytes = getContentReadLimit(declaredClassification?.file_type);
+
+    // Text files are read in full so their lines and words can be counted exactly
+    const textAnalyzer = declaredClassification?.file_type === ExtractedFileType.TEXT ?
+        createTextAnalyzer(getTextFormat(s3Object.ContentType || '', getFileExtension(fileName))) :
+        undefined;
+
+    // TAR and gzip have no directory, so they are listed while the stream goes by
+    const archiveAnalyzer = isStreamedArchive(s3Object.ContentType || '', getFileExtension(fileName)) ?
+        createArchiveAnalyzer(fileName, objectSize) :
+        undefined;
+
+    // Direct uploads are hashed by the upload Lambda; presigned ones have to be read in full here
+    const knownHash = s3Object.Metadata?.['content-sha256'] || previous?.content_hash;
+    const { header, contentHash: computedHash } = s3Object.Body ?
+        await readStreamHeader(s3Object.Body as Readable, headerBytes, !knownHash, getChunkHandler(textAnalyzer, archiveAnalyzer)) :
+        { header: Buffer.alloc(0), contentHash: undefined };
+    const contentHash = knownHash || computedHash!;
+
+    const declaredContentType = s3Object.ContentType || '';
+    const detectedType = detectFileType(header);
+
+    // S3's event usually beats the client's complete call, so the policy is checked here as well
+    if (target.uploadPending) {
+        const allowed = await enforceUploadPolicy(target, attempt, declaredContentType, detectedType?.mime, fileLogger);
+        if (!allowed) {
+            return;
+        }
+    }
+
+    // Dedupe modes apply to new uploads, not to files being reprocessed
+    let dedupeApplied: DedupeMode | undefined | false;
+    if (computedHash && !previous) {
+        dedupeApplied = await applyDedupeMode(fileId, attempt, computedHash, fileLogger);
+        if (dedupeApplied === false) {
+            return;
+        }
+        if (dedupeApplied === DedupeMode.REJECT) {
+            await deleteObject(bucketName, objectKey);
+            return;
+        }
+    }
+    
+    try {
+        // Compare the sniffed type with what the client declared
+        const contentDetection: ContentTypeDetection = {
+            declared_content_type: declaredContentType,
+            content_type_mismatch: isContentTypeMismatch(declaredContentType, detectedType)
+        };
+        if (detectedType) {
+            contentDetection.detected_content_type = detectedType.mime;
+        }
+    
+        if (contentDetection.content_type_mismatch) {
+            fileLogger.warn('Declared content type does not match file contents', { ...contentDetection });
+        }
+    
+        // Parsers that need more than the leading bytes fetch the rest of the same object version
+        const readRange: RangeReader = (offset, length, signal) =>
+            readObjectRange(bucketName, objectKey, s3Object.ETag, offset, length, signal);
+
+        const archive = await inspectArchive(detectedType, header, objectSize, readRange, archiveAnalyzer, fileLogger);
+
+        // Extractors that want the whole object stream it again, from the same version
+        const openStream = async (signal?: AbortSignal): Promise<Readable> => {
+            const response = await s3Client.send(new GetObjectCommand({
+                Bucket: bucketName,
+                Key: objectKey,
+                IfMatch: s3Object.ETag
+            }), { abortSignal: signal });
+            return response.Body as Readable;
+        };
+
+        // Extract metadata based on file type
+        const { metadata: extractedMetadata, extractorResults } = await extractFileMetadata(
+            detectedType,
+            declaredContentType,
+            fileName,
+            objectSize,
+            header,
+            readRange,
+            openStream,
+            fileLogger,
+            textAnalyzer?.finish(),
+            archive?.metadata
+        );
+    
+        fileLogger.info('Extracted metadata', { extractedMetadata, extractorResults });
+    
+        // Update DynamoDB with flattened extracted metadata
+        const applied = await updateDynamoDBWithMetadata(
+            fileId,
+            attempt,
+            extractedMetadata,
+            extractorResults,
+            contentDetection,
+            contentHash,
+            fileLogger,
+            previous
+        );
+        if (!applied) {
+            return;
+        }
+
+        await updateSearchIndex(fileId, extractedMetadata.file_type, header, fileLogger);
+
+        if (archive) {
+            await updateArchiveEntries(fileId, archive.entries, fileLogger);
+        }
+    
+        fileLogger.info('File processing completed successfully');
+    } finally {
+        // A linked record already points at the original's object; this copy was only kept to be read
+        if (dedupeApplied === DedupeMode.LINK) {
+            await deleteObject(bucketName, objectKey);
+        }
+    }
+}
+
+/**
+ * Claim the record for this event by moving it to processing
+ *
+ * A record already processed for the same S3 event is a duplicate delivery, and one
+ * recorded for a later event makes this one stale; both are skipped, as are deleted
+ * records. Returns the record as it was, or undefined when the event is skipped.
+ */
+async function startProcessing(fileId: string, sequencer: string, fileLogger: Logger): Promise<FileMetadata | undefined> {
+    try {
+        const result = await docClient.send(new UpdateCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            },
+            UpdateExpression: 'SET #status = :processing, processing_started_at = :started_at, s3_event_sequencer = :sequencer, ' +
+                'processing_attempts = if_not_exists(processing_attempts, :zero) + :one REMOVE processing_error',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':processing': FileStatus.PROCESSING,
+                ':processed': FileStatus.PROCESSED,
+                ':deleted': FileStatus.DELETED,
+                ':started_at': new Date().toISOString(),
+                ':sequencer': sequencer,
+                ':zero': 0,
+                ':one': 1
+            },
+            ConditionExpression: 'attribute_exists(file_id) AND #status <> :deleted AND (' +
+                'attribute_not_exists(s3_event_sequencer) OR s3_event_sequencer < :sequencer OR ' +
+                '(s3_event_sequencer = :sequencer AND #status <> :processed))',
+            ReturnValues: 'ALL_OLD'
+        }));
+
+        const before = result.Attributes as FileMetadata;
+        await recordUsageChange(docClient, before, { ...before, status: FileStatus.PROCESSING }, fileLogger);
+
+        return before;
+    } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+            fileLogger.info('Skipping file - record missing, deleted, or already processed for this or a later event');
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Claim a stored file for reprocessing by moving it to processing
+ *
+ * The S3 event sequencer is left alone, so a later upload over the same file still
+ * wins over the reprocess. The job is stamped on the record, so a batch delivered
+ * again skips it. Returns the record as it was, or undefined when skipped.
+ */
+async function startReprocessing(fileId: string, jobId: string, fileLogger: Logger): Promise<FileMetadata | undefined> {
+    try {
+        const result = await docClient.send(new UpdateCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            },
+            UpdateExpression: 'SET #status = :processing, processing_started_at = :started_at, reprocess_job_id = :job_id, ' +
+                'processing_attempts = if_not_exists(processing_attempts, :zero) + :one REMOVE processing_error',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':processing': FileStatus.PROCESSING,
+                ':uploaded': FileStatus.UPLOADED,
+                ':processed': FileStatus.PROCESSED,
+                ':error': FileStatus.ERROR,
+                ':started_at': new Date().toISOString(),
+                ':job_id': jobId,
+                ':zero': 0,
+                ':one': 1
+            },
+            ConditionExpression: '#status IN (:uploaded, :processed, :error) AND ' +
+                '(attribute_not_exists(reprocess_job_id) OR reprocess_job_id <> :job_id)',
+            ReturnValues: 'ALL_OLD'
+        }));
+
+        const before = result.Attributes as FileMetadata;
+        await recordUsageChange(docClient, before, { ...before, status: FileStatus.PROCESSING }, fileLogger);
+
+        return before;
+    } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+            fileLogger.info('Skipping reprocess - record missing, not in a reprocessable status or already claimed by this job');
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Move the record to error with the reason, unless another attempt or a delete took it over
+ *
+ * The record is left as it was if this write fails; the failure itself is already logged.
+ */
+async function failProcessing(fileId: string, attempt: number, error: Error, fileLogger: Logger): Promise<void> {
+    const processingError: ProcessingError = {
+        code: getProcessingErrorCode(error),
+        message: (error.message || String(error)).slice(0, MAX_ERROR_MESSAGE_LENGTH),
+        attempt_count: attempt
+    };
+
+    try {
+        const result = await docClient.send(new UpdateCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            },
+            UpdateExpression: 'SET #status = :error, processing_error = :processing_error, processing_date = :processing_date, ' +
+                'processor_version = :processor_version',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':error': FileStatus.ERROR,
+                ':processing': FileStatus.PROCESSING,
+                ':processing_error': processingError,
+                ':processing_date': new Date().toISOString(),
+                ':processor_version': PROCESSOR_VERSION,
+                ':attempt': attempt
+            },
+            ConditionExpression: PROCESSING_ATTEMPT_CONDITION,
+            ReturnValues: 'ALL_OLD'
+        }));
+
+        const before = result.Attributes as FileMetadata;
+        await recordUsageChange(docClient, before, { ...before, status: FileStatus.ERROR }, fileLogger);
+        fileLogger.info('File marked as failed', { processingError });
+    } catch (updateError: any) {
+        if (updateError.name === 'ConditionalCheckFailedException') {
+            fileLogger.warn('File is no longer held by this processing attempt; failure not recorded', { attempt });
+            return;
+        }
+        fileLogger.error('Failed to record processing error', updateError as Error);
+    }
+}
+
+/**
+ * Check a presigned upload against the upload policy, as the complete call would
+ *
+ * A rejected upload's object is removed and the record moved to error with the reason,
+ * which the complete call reports back. Returns false when the upload was rejected.
+ */
+async function enforceUploadPolicy(
+    target: ProcessingTarget,
+    attempt: number,
+    declaredContentType: string,
+    detectedContentType: string | undefined,
+    fileLogger: Logger
+): Promise<boolean> {
+    const decision = evaluateUploadPolicy(loadUploadPolicy(), {
+        fileName: target.fileName,
+        fileSize: target.objectSize,
+        declaredContentType,
+        detectedContentType
+    });
+    if (decision.allowed) {
+        return true;
+    }
+
+    fileLogger.warn('Uploaded object rejected by upload policy, removing it', { detectedContentType, reason: decision.reason });
+
+    await deleteObject(target.bucketName, target.objectKey);
+
+    const processingError: ProcessingError = {
+        code: decision.status_code === StatusCodes.REQUEST_TOO_LONG ?
+            ProcessingErrorCode.FILE_TOO_LARGE :
+            ProcessingErrorCode.UNSUPPORTED_FILE_TYPE,
+        message: decision.reason!,
+        attempt_count: attempt
+    };
+
+    try {
+        const result = await docClient.send(new UpdateCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: target.fileId
+            },
+            UpdateExpression: 'SET #status = :error, processing_error = :processing_error, processing_date = :processing_date',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':error': FileStatus.ERROR,
+                ':processing': FileStatus.PROCESSING,
+                ':processing_error': processingError,
+                ':processing_date': new Date().toISOString(),
+                ':attempt': attempt
+            },
+            ConditionExpression: PROCESSING_ATTEMPT_CONDITION,
+            ReturnValues: 'ALL_OLD'
+        }));
+
+        const before = result.Attributes as FileMetadata;
+        await recordUsageChange(docClient, before, { ...before, status: FileStatus.ERROR }, fileLogger);
+    } catch (error: any) {
+        if (error.name !== 'ConditionalCheckFailedException') {
+            throw error;
+        }
+        fileLogger.warn('File is no longer held by this processing attempt; rejection not recorded', { attempt });
+    }
+
+    return false;
+}
+
+/**
+ * Apply the dedupe mode chosen at initiate time to a presigned upload
+ *
+ * Returns the mode applied, or undefined when the content isn't a duplicate or the mode
+ * allows it, or false when the record was deleted or taken over by a later attempt meanwhile.
+ * The uploaded object is left for the caller to remove once it's done with it.
+ */
+async function applyDedupeMode(
+    fileId: string,
+    attempt: number,
+    contentHash: string,
+    fileLogger: Logger
+): Promise<DedupeMode | undefined | false> {
+    const result = await docClient.send(new GetCommand({
+        TableName: process.env.DYNAMODB_TABLE_NAME!,
+        Key: {
+            file_id: fileId
+        }
+    }));
+    const dedupeMode = (result.Item as FileMetadata | undefined)?.dedupe_mode;
+
+    if (!dedupeMode || dedupeMode === DedupeMode.ALLOW) {
+        return undefined;
+    }
+
+    const original = findOriginal(await findDuplicates(docClient, contentHash, fileId));
+    if (!original) {
+        return undefined;
+    }
+
+    try {
+        if (dedupeMode === DedupeMode.REJECT) {
+            await rejectDuplicate(fileId, attempt, contentHash, original, fileLogger);
+        } else {
+            await linkDuplicate(fileId, attempt, original, fileLogger);
+        }
+    } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+            fileLogger.warn('File is no longer held by this processing attempt; dedupe not applied', { attempt });
+            return false;
+        }
+        throw error;
+    }
+
+    return dedupeMode;
+}
+
+/**
+ * Move a duplicate presigned upload to error, pointing at the file it duplicates
+ */
+async function rejectDuplicate(
+    fileId: string,
+    attempt: number,
+    contentHash: string,
+    original: FileMetadata,
+    fileLogger: Logger
+): Promise<void> {
+    fileLogger.info('Duplicate content rejected', { duplicateOf: original.file_id });
+    const rejected = await docClient.send(new UpdateCommand({
+        TableName: process.env.DYNAMODB_TABLE_NAME!,
+        Key: {
+            file_id: fileId
+        },
+        UpdateExpression: 'SET #status = :error, content_hash = :content_hash, duplicate_of = :duplicate_of, ' +
+            'processing_error = :processing_error',
+        ExpressionAttributeNames: {
+            '#status': 'status'
+        },
+        ExpressionAttributeValues: {
+            ':error': FileStatus.ERROR,
+            ':processing': FileStatus.PROCESSING,
+            ':attempt': attempt,
+            ':content_hash': contentHash,
+            ':duplicate_of': original.file_id,
+            ':processing_error': {
+                code: ProcessingErrorCode.DUPLICATE_CONTENT,
+                message: `Content is identical to file ${original.file_id}`,
+                attempt_count: attempt
+            } as ProcessingError
+        },
+        ConditionExpression: PROCESSING_ATTEMPT_CONDITION,
+        ReturnValues: 'ALL_OLD'
+    }));
+
+    const before = rejected.Attributes as FileMetadata;
+    await recordUsageChange(docClient, before, { ...before, status: FileStatus.ERROR }, fileLogger);
+}
+
+/**
+ * Point a duplicate presigned upload at the existing object
+ *
+ * The content is identical, so extraction carries on from the uploaded copy, which is removed afterwards.
+ */
+async function linkDuplicate(fileId: string, attempt: number, original: FileMetadata, fileLogger: Logger): Promise<void> {
+    fileLogger.info('Duplicate content linked to existing file', { duplicateOf: original.file_id });
+    await docClient.send(new UpdateCommand({
+        TableName: process.env.DYNAMODB_TABLE_NAME!,
+        Key: {
+            file_id: fileId
+        },
+        UpdateExpression: 'SET s3_key = :s3_key, duplicate_of = :duplicate_of',
+        ExpressionAttributeNames: {
+            '#status': 'status'
+        },
+        ExpressionAttributeValues: {
+            ':processing': FileStatus.PROCESSING,
+            ':attempt': attempt,
+            ':s3_key': original.s3_key,
+            ':duplicate_of': original.file_id
+        },
+        ConditionExpression: PROCESSING_ATTEMPT_CONDITION
+    }));
+}
+
+async function deleteObject(bucketName: string, objectKey: string): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({
+        Bucket: bucketName,
+        Key: objectKey
+    }));
+}
+
 /**
  * Update DynamoDB with flattened extracted metadata
+ *
+ * Extracted fields of the previous record that this run didn't produce are removed.
+ * Returns false when the record was deleted or taken over by a later attempt meanwhile.
  */
-async function updateDynamoDBWithMetadata(fileId: string, extractedMetadata: ExtractedMetadata): Promise<void> {
+async function updateDynamoDBWithMetadata(
+    fileId: string,
+    attempt: number,
+    extractedMetadata: ExtractedMetadata,
+    extractorResults: Record<string, ExtractorResult>,
+    contentDetection: ContentTypeDetection,
+    contentHash: string,
+    fileLogger: Logger,
+    previous?: FileMetadata
+): Promise<boolean> {
     // Build update expression for flattened metadata
     const updateExpressions: string[] = [];
     const expressionAttributeNames: Record<string, string> = {};
@@ -107,9 +672,31 @@ async function updateDynamoDBWithMetadata(fileId: string, extractedMetadata: Ext
     expressionAttributeNames['#processing_date'] = 'processing_date';
     expressionAttributeValues[':status'] = FileStatus.PROCESSED;
     expressionAttributeValues[':processing_date'] = new Date().toISOString();
+    expressionAttributeValues[':processing'] = FileStatus.PROCESSING;
+    expressionAttributeValues[':attempt'] = attempt;
+
+    updateExpressions.push('#content_hash = :content_hash');
+    expressionAttributeNames['#content_hash'] = 'content_hash';
+    expressionAttributeValues[':content_hash'] = contentHash;
+
+    updateExpressions.push('#processor_version = :processor_version');
+    expressionAttributeNames['#processor_version'] = 'processor_version';
+    expressionAttributeValues[':processor_version'] = PROCESSOR_VERSION;
+
+    // Replaced as a whole, so extractors that no longer match leave nothing behind
+    updateExpressions.push('#extractor_results = :extractor_results');
+    expressionAttributeNames['#extractor_results'] = 'extractor_results';
+    expressionAttributeValues[':extractor_results'] = extractorResults;
+    
+    // Record declared vs. detected content type at the top level
+    Object.entries(contentDetection).forEach(([key, value]) => {
+        updateExpressions.push(`#${key} = :${key}`);
+        expressionAttributeNames[`#${key}`] = key;
+        expressionAttributeValues[`:${key}`] = value;
+    });
     
-    // Add each extracted metadata field as individual column
-    Object.entries(extractedMetadata).forEach(([key, value]) => {
+    // Add each extracted metadata field as individual column; parsers leave out what a file doesn't carry
+    Object.entries(extractedMetadata).filter(([, value]) => value !== undefined).forEach(([key, value]) => {
         const attrName = `#extracted_${key}`;
         const attrValue = `:extracted_${key}`;
         
@@ -118,129 +705,359 @@ async function updateDynamoDBWithMetadata(fileId: string, extractedMetadata: Ext
         expressionAttributeValues[attrValue] = value;
     });
     
+    const staleAttributes = Object.keys(previous ?? {}).filter(name =>
+        name.startsWith('extracted_') && !expressionAttributeNames[`#${name}`]);
+    staleAttributes.forEach(name => {
+        expressionAttributeNames[`#${name}`] = name;
+    });
+    const removeExpression = staleAttributes.length > 0 ?
+        ` REMOVE ${staleAttributes.map(name => `#${name}`).join(', ')}` :
+        '';
+
     // Update DynamoDB with flattened extracted metadata
     const updateParams = {
         TableName: process.env.DYNAMODB_TABLE_NAME!,
         Key: {
             file_id: fileId
         },
-        UpdateExpression: `SET ${updateExpressions.join(', ')}`,
+        UpdateExpression: `SET ${updateExpressions.join(', ')}${removeExpression}`,
         ExpressionAttributeNames: expressionAttributeNames,
         ExpressionAttributeValues: expressionAttributeValues,
-        // Ensure the record exists before updating
-        ConditionExpression: 'attribute_exists(file_id)'
+        ConditionExpression: PROCESSING_ATTEMPT_CONDITION,
+        // The previous state tells the usage counters what to move, and makes retries a no-op for them
+        ReturnValues: 'ALL_OLD' as const
     };
     
     try {
-        await docClient.send(new UpdateCommand(updateParams));
-        logger.info('Metadata extraction completed successfully');
+        const result = await docClient.send(new UpdateCommand(updateParams));
+        fileLogger.info('Metadata extraction completed successfully');
+
+        const before = result.Attributes as FileMetadata;
+        await recordUsageChange(docClient, before, {
+            ...before,
+            status: FileStatus.PROCESSED,
+            extracted_file_type: extractedMetadata.file_type,
+            extracted_category: extractedMetadata.category,
+            extracted_size_category: extractedMetadata.size_category
+        }, fileLogger);
+        return true;
     } catch (error: any) {
         if (error.name === 'ConditionalCheckFailedException') {
-            logger.error('File record not found in DynamoDB - possible race condition', { 
+            fileLogger.warn('File is no longer held by this processing attempt; metadata not stored', {
                 fileId,
-                suggestion: 'Upload Lambda may have failed to create initial record'
+                attempt
             });
-            // Don't throw - this prevents infinite retries for a legitimate issue
+            // Don't throw - the record was deleted or a later event is processing it
+            return false;
+        }
+        throw error; // Caught per record and recorded as a processing error
+    }
+}
+
+/**
+ * Add the file to the search index, with its contents for text and PDF files
+ *
+ * Search is secondary to processing, so failures are logged rather than retried.
+ */
+async function updateSearchIndex(
+    fileId: string,
+    fileType: ExtractedFileType,
+    content: Buffer,
+    fileLogger: Logger
+): Promise<void> {
+    try {
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: { file_id: fileId }
+        }));
+
+        if (!result.Item) {
             return;
         }
-        throw error; // Re-throw other errors for Lambda retry mechanism
+
+        const text = isTextSource(fileType) ? extractSearchText(fileType, content) : undefined;
+        await indexFile(docClient, result.Item as FileMetadata, text);
+
+        fileLogger.info('File indexed for search', { indexedTextLength: text?.length ?? 0 });
+    } catch (error) {
+        fileLogger.error('Failed to index file for search', error as Error);
+    }
+}
+
+/**
+ * Feed streamed chunks to whichever analyzers the file needs
+ */
+function getChunkHandler(
+    textAnalyzer: TextAnalyzer | undefined,
+    archiveAnalyzer: ArchiveAnalyzer | undefined
+): ((chunk: Buffer) => Promise<void>) | undefined {
+    if (!textAnalyzer && !archiveAnalyzer) {
+        return undefined;
+    }
+
+    return async (chunk: Buffer) => {
+        textAnalyzer?.update(chunk);
+        await archiveAnalyzer?.update(chunk);
+    };
+}
+
+/**
+ * List the archive's entries: streamed TAR and gzip files are already read, ZIP files
+ * are read from their central directory
+ *
+ * A listing is a bonus on top of classification, so a damaged archive is logged and skipped.
+ */
+async function inspectArchive(
+    detectedType: DetectedFileType | null,
+    header: Buffer,
+    fileSize: number,
+    readRange: RangeReader,
+    archiveAnalyzer: ArchiveAnalyzer | undefined,
+    fileLogger: Logger
+): Promise<ArchiveInspection | undefined> {
+    try {
+        const streamed = await archiveAnalyzer?.finish();
+        if (streamed) {
+            return streamed;
+        }
+        if (detectedType?.mime === 'application/zip') {
+            return await inspectZip(header, fileSize, readRange);
+        }
+    } catch (error) {
+        fileLogger.error('Failed to inspect archive', error as Error);
+    }
+    return undefined;
+}
+
+/**
+ * Store the archive's entry listing for GET /files/{file_id}/archive-entries
+ *
+ * Failures are logged rather than retried; the summary fields are already on the record.
+ */
+async function updateArchiveEntries(fileId: string, entries: ArchiveEntry[], fileLogger: Logger): Promise<void> {
+    try {
+        await replaceArchiveEntries(docClient, fileId, entries);
+        fileLogger.info('Archive entries stored', { entryCount: entries.length });
+    } catch (error) {
+        fileLogger.error('Failed to store archive entries', error as Error);
     }
 }
 
 /**
- * Extract metadata from file based on its type and content
+ * Classify the file and run the registered extractors over it
+ *
+ * Built-in extractors' fields are flattened into the returned metadata; the results of
+ * every extractor that ran come back separately.
  */
-async function extractFileMetadata(s3Object: any, fileName: string, fileSize: number): Promise<ExtractedMetadata> {
-    const contentType = s3Object.ContentType || '';
-    const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
+async function extractFileMetadata(
+    detectedType: DetectedFileType | null,
+    declaredContentType: string,
+    fileName: string,
+    fileSize: number,
+    header: Buffer,
+    readRange: RangeReader,
+    openStream: (signal?: AbortSignal) => Promise<Readable>,
+    fileLogger: Logger,
+    textMetadata?: TextMetadata,
+    archiveMetadata?: ArchiveMetadata
+): Promise<{ metadata: ExtractedMetadata; extractorResults: Record<string, ExtractorResult> }> {
+    const fileExtension = getFileExtension(fileName);
     
     const metadata: ExtractedMetadata = {
         file_size: fileSize,
-        content_type: contentType,
+        content_type: declaredContentType,
         file_extension: fileExtension,
         processing_timestamp: new Date().toISOString(),
         file_type: ExtractedFileType.UNKNOWN,
         category: ExtractedCategory.OTHER,
         size_category: getSizeCategory(fileSize)
     };
-    
-    // Basic file type detection and metadata extraction
-    if (contentType.startsWith('image/')) {
-        metadata.file_type = ExtractedFileType.IMAGE;
-        metadata.category = ExtractedCategory.MEDIA;
-        
-        if (contentType.includes('jpeg') || contentType.includes('jpg')) {
-            metadata.format = 'JPEG';
-        } else if (contentType.includes('png')) {
-            metadata.format = 'PNG';
-        } else if (contentType.includes('gif')) {
-            metadata.format = 'GIF';
-        } else if (contentType.includes('webp')) {
-            metadata.format = 'WebP';
-        } else if (contentType.includes('svg')) {
-            metadata.format = 'SVG';
-        }
-        
-    } else if (contentType === 'application/pdf' || fileExtension === 'pdf') {
-        metadata.file_type = ExtractedFileType.PDF;
-        metadata.category = ExtractedCategory.DOCUMENT;
-        
-        // Rough estimate of pages based on file size
-        // This is a simplified approach - for accurate page count, you'd need a PDF parsing library
-        metadata.estimated_pages = Math.max(1, Math.ceil(fileSize / 50000));
-        
-    } else if (contentType.startsWith('text/') || ['txt', 'md', 'csv', 'json', 'xml', 'html', 'css', 'js', 'ts'].includes(fileExtension)) {
-        metadata.file_type = ExtractedFileType.TEXT;
-        metadata.category = ExtractedCategory.DOCUMENT;
-        
-        // Rough estimate of lines based on file size
-        if (fileSize > 0) {
-            metadata.estimated_lines = Math.max(1, Math.ceil(fileSize / 50));
-        }
-        
-    } else if (contentType.startsWith('video/') || ['mp4', 'avi', 'mov', 'wmv', 'flv', 'webm', 'mkv'].includes(fileExtension)) {
-        metadata.file_type = ExtractedFileType.VIDEO;
-        metadata.category = ExtractedCategory.MEDIA;
-        
-        if (contentType.includes('mp4') || fileExtension === 'mp4') {
-            metadata.format = 'MP4';
-        } else if (contentType.includes('webm') || fileExtension === 'webm') {
-            metadata.format = 'WebM';
-        } else if (fileExtension === 'avi') {
-            metadata.format = 'AVI';
-        }
-        
-    } else if (contentType.startsWith('audio/') || ['mp3', 'wav', 'flac', 'aac', 'ogg', 'm4a'].includes(fileExtension)) {
-        metadata.file_type = ExtractedFileType.AUDIO;
-        metadata.category = ExtractedCategory.MEDIA;
-        
-        if (contentType.includes('mpeg') || fileExtension === 'mp3') {
-            metadata.format = 'MP3';
-        } else if (contentType.includes('wav') || fileExtension === 'wav') {
-            metadata.format = 'WAV';
-        } else if (fileExtension === 'flac') {
-            metadata.format = 'FLAC';
-        }
-        
-    } else if (['doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx'].includes(fileExtension)) {
-        metadata.file_type = ExtractedFileType.DOCUMENT;
-        metadata.category = ExtractedCategory.DOCUMENT;
-        
-        if (['doc', 'docx'].includes(fileExtension)) {
-            metadata.format = 'Word Document';
-        } else if (['xls', 'xlsx'].includes(fileExtension)) {
-            metadata.format = 'Excel Spreadsheet';
-        } else if (['ppt', 'pptx'].includes(fileExtension)) {
-            metadata.format = 'PowerPoint Presentation';
+
+    // Magic bytes win; the declared type and extension are only a fallback
+    const classification = detectedType || classifyByDeclaredType(declaredContentType, fileExtension);
+    if (classification) {
+        metadata.file_type = classification.file_type;
+        metadata.category = classification.category;
+        if (classification.format) {
+            metadata.format = classification.format;
         }
-        
-    } else if (['zip', 'rar', '7z', 'tar', 'gz'].includes(fileExtension)) {
-        metadata.file_type = ExtractedFileType.ARCHIVE;
-        metadata.category = ExtractedCategory.COMPRESSED;
-        metadata.format = fileExtension.toUpperCase();
     }
-    
-    return metadata;
+
+    const outcome = await runExtractors({
+        fileName,
+        fileExtension,
+        fileSize,
+        declaredContentType,
+        detectedContentType: detectedType?.mime,
+        fileType: metadata.file_type,
+        category: metadata.category,
+        header,
+        readRange,
+        textMetadata,
+        archiveMetadata
+    }, openStream, isObjectError, fileLogger);
+
+    return {
+        metadata: { ...outcome.fields, ...metadata },
+        extractorResults: outcome.results
+    };
+}
+
+/**
+ * Fetch a byte range of the object, failing if it changed since the first read
+ */
+async function readObjectRange(
+    bucketName: string,
+    objectKey: string,
+    etag: string | undefined,
+    offset: number,
+    length: number,
+    signal?: AbortSignal
+): Promise<Buffer> {
+    const response = await s3Client.send(new GetObjectCommand({
+        Bucket: bucketName,
+        Key: objectKey,
+        Range: `bytes=${offset}-${offset + length - 1}`,
+        IfMatch: etag
+    }), { abortSignal: signal });
+
+    return Buffer.from(await response.Body!.transformToByteArray());
+}
+
+/**
+ * Classification derived from the declared content type or file extension
+ */
+interface DeclaredClassification {
+    file_type: ExtractedFileType;
+    category: ExtractedCategory;
+    format?: string;
+}
+
+const EXTENSION_CLASSIFICATIONS: Record<string, DeclaredClassification> = {
+    pdf: { file_type: ExtractedFileType.PDF, category: ExtractedCategory.DOCUMENT, format: 'PDF' },
+    jpg: { file_type: ExtractedFileType.IMAGE, category: ExtractedCategory.MEDIA, format: 'JPEG' },
+    jpeg: { file_type: ExtractedFileType.IMAGE, category: ExtractedCategory.MEDIA, format: 'JPEG' },
+    png: { file_type: ExtractedFileType.IMAGE, category: ExtractedCategory.MEDIA, format: 'PNG' },
+    gif: { file_type: ExtractedFileType.IMAGE, category: ExtractedCategory.MEDIA, format: 'GIF' },
+    webp: { file_type: ExtractedFileType.IMAGE, category: ExtractedCategory.MEDIA, format: 'WebP' },
+    svg: { file_type: ExtractedFileType.IMAGE, category: ExtractedCategory.MEDIA, format: 'SVG' },
+    txt: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    md: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    csv: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT, format: 'CSV' },
+    tsv: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT, format: 'TSV' },
+    json: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT, format: 'JSON' },
+    xml: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    html: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    css: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    js: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    ts: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    mp4: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA, format: 'MP4' },
+    avi: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA, format: 'AVI' },
+    mov: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA },
+    wmv: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA },
+    flv: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA },
+    webm: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA, format: 'WebM' },
+    mkv: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA },
+    mp3: { file_type: ExtractedFileType.AUDIO, category: ExtractedCategory.MEDIA, format: 'MP3' },
+    wav: { file_type: ExtractedFileType.AUDIO, category: ExtractedCategory.MEDIA, format: 'WAV' },
+    flac: { file_type: ExtractedFileType.AUDIO, category: ExtractedCategory.MEDIA, format: 'FLAC' },
+    aac: { file_type: ExtractedFileType.AUDIO, category: ExtractedCategory.MEDIA },
+    ogg: { file_type: ExtractedFileType.AUDIO, category: ExtractedCategory.MEDIA },
+    m4a: { file_type: ExtractedFileType.AUDIO, category: ExtractedCategory.MEDIA },
+    doc: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'Word Document' },
+    docx: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'Word Document' },
+    docm: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'Word Document' },
+    xls: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'Excel Spreadsheet' },
+    xlsx: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'Excel Spreadsheet' },
+    xlsm: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'Excel Spreadsheet' },
+    ppt: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'PowerPoint Presentation' },
+    pptx: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'PowerPoint Presentation' },
+    pptm: { file_type: ExtractedFileType.DOCUMENT, category: ExtractedCategory.DOCUMENT, format: 'PowerPoint Presentation' },
+    zip: { file_type: ExtractedFileType.ARCHIVE, category: ExtractedCategory.COMPRESSED, format: 'ZIP' },
+    rar: { file_type: ExtractedFileType.ARCHIVE, category: ExtractedCategory.COMPRESSED, format: 'RAR' },
+    '7z': { file_type: ExtractedFileType.ARCHIVE, category: ExtractedCategory.COMPRESSED, format: '7Z' },
+    tar: { file_type: ExtractedFileType.ARCHIVE, category: ExtractedCategory.COMPRESSED, format: 'TAR' },
+    gz: { file_type: ExtractedFileType.ARCHIVE, category: ExtractedCategory.COMPRESSED, format: 'GZ' },
+    tgz: { file_type: ExtractedFileType.ARCHIVE, category: ExtractedCategory.COMPRESSED, format: 'TGZ' },
+};
+
+const MEDIA_TYPE_CLASSIFICATIONS: Record<string, DeclaredClassification> = {
+    image: { file_type: ExtractedFileType.IMAGE, category: ExtractedCategory.MEDIA },
+    text: { file_type: ExtractedFileType.TEXT, category: ExtractedCategory.DOCUMENT },
+    video: { file_type: ExtractedFileType.VIDEO, category: ExtractedCategory.MEDIA },
+    audio: { file_type: ExtractedFileType.AUDIO, category: ExtractedCategory.MEDIA },
+};
+
+/**
+ * Classify a file whose bytes matched no known signature (plain text, CSV, ...)
+ */
+function classifyByDeclaredType(contentType: string, fileExtension: string): DeclaredClassification | null {
+    const normalized = normalizeContentType(contentType);
+
+    if (normalized === 'application/pdf') {
+        return EXTENSION_CLASSIFICATIONS.pdf;
+    }
+    if (normalized === 'application/json' || normalized.endsWith('+json')) {
+        return EXTENSION_CLASSIFICATIONS.json;
+    }
+
+    const byExtension = EXTENSION_CLASSIFICATIONS[fileExtension];
+    const byMediaType = MEDIA_TYPE_CLASSIFICATIONS[normalized.split('/')[0]];
+
+    // Prefer the extension entry when it agrees, since it also carries a format label
+    if (byMediaType && (!byExtension || byExtension.file_type !== byMediaType.file_type)) {
+        return byMediaType;
+    }
+
+    return byExtension || null;
+}
+
+/**
+ * How much of the object to read, going by the type the client declared
+ */
+function getContentReadLimit(fileType?: ExtractedFileType): number {
+    if (fileType && isTextSource(fileType)) {
+        return SEARCH_INDEX_LIMITS.MAX_TEXT_SOURCE_BYTES;
+    }
+    if (fileType === ExtractedFileType.IMAGE) {
+        return METADATA_EXTRACTION_LIMITS.IMAGE_HEADER_BYTES;
+    }
+    if (fileType === ExtractedFileType.AUDIO || fileType === ExtractedFileType.VIDEO) {
+        return METADATA_EXTRACTION_LIMITS.MEDIA_HEADER_BYTES;
+    }
+    return SIGNATURE_SNIFF_BYTES;
+}
+
+function normalizeSequencer(sequencer: string | undefined): string {
+    return (sequencer || '').toUpperCase().padEnd(SEQUENCER_LENGTH, '0');
+}
+
+/**
+ * Errors about the object itself rather than its contents, which fail the whole file
+ */
+function isObjectError(error: Error): boolean {
+    return getProcessingErrorCode(error) !== ProcessingErrorCode.PROCESSING_FAILED;
+}
+
+/**
+ * Map a failure to the code stored on the record, going by the AWS error name
+ */
+function getProcessingErrorCode(error: Error): ProcessingErrorCode {
+    switch (error.name) {
+        case 'NoSuchKey':
+        case 'NotFound':
+            return ProcessingErrorCode.OBJECT_NOT_FOUND;
+        case 'PreconditionFailed':
+            return ProcessingErrorCode.OBJECT_CHANGED;
+        case 'AccessDenied':
+            return ProcessingErrorCode.ACCESS_DENIED;
+        default:
+            return ProcessingErrorCode.PROCESSING_FAILED;
+    }
+}
+
+function getFileExtension(fileName: string): string {
+    return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
 }
 
 /**
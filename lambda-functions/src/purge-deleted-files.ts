@@ -0,0 +1,144 @@
+import { ScheduledEvent } from 'aws-lambda';
+import { S3Client, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { createLogger, Logger } from './utils/logger';
+import { isObjectShared } from './utils/content-hash';
+import { removeFromSearchIndex } from './utils/search-index';
+import { removeArchiveEntries } from './utils/archive-entries';
+import { recordUsageChange } from './utils/usage-stats';
+import { getTrashRetentionDays } from './utils/trash';
+import {
+  FileMetadata,
+  FileStatus,
+  PurgeResult,
+  DYNAMODB_ATTRIBUTES
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'purge-deleted-files',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Scheduled handler that permanently removes files left in the trash past the retention window
+ */
+export const handler = async (event: ScheduledEvent): Promise<PurgeResult> => {
+    const retentionDays = getTrashRetentionDays();
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const logger: Logger = baseLogger.addContext({ scheduledTime: event.time, retentionDays, cutoff });
+
+    logger.info('Purge of deleted files started');
+
+    const result: PurgeResult = { purged: 0, objects_deleted: 0, failed: 0 };
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const page = await docClient.send(new QueryCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            IndexName: DYNAMODB_ATTRIBUTES.GSI_STATUS,
+            KeyConditionExpression: '#status = :deleted',
+            FilterExpression: 'deleted_at < :cutoff',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':deleted': FileStatus.DELETED,
+                ':cutoff': cutoff
+            },
+            ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        for (const record of (page.Items || []) as FileMetadata[]) {
+            try {
+                const purged = await purgeFile(record, cutoff, logger);
+                if (purged) {
+                    result.purged++;
+                    if (purged.objectDeleted) {
+                        result.objects_deleted++;
+                    }
+                }
+            } catch (error) {
+                result.failed++;
+                logger.error('Failed to purge file', error as Error, { fileId: record.file_id });
+            }
+        }
+
+        exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    logger.info('Purge of deleted files finished', { ...result });
+
+    return result;
+};
+
+/**
+ * Remove one file's record and, unless another record still uses it, its S3 object
+ *
+ * The record goes first so a restore racing the purge either wins outright or finds nothing.
+ */
+async function purgeFile(
+    record: FileMetadata,
+    cutoff: string,
+    logger: Logger
+): Promise<{ objectDeleted: boolean } | undefined> {
+    try {
+        const result = await docClient.send(new DeleteCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: record.file_id
+            },
+            ConditionExpression: '#status = :deleted AND deleted_at < :cutoff',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':deleted': FileStatus.DELETED,
+                ':cutoff': cutoff
+            },
+            ReturnValues: 'ALL_OLD'
+        }));
+
+        await recordUsageChange(docClient, result.Attributes as FileMetadata, undefined, logger);
+    } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+            logger.info('File was restored before it could be purged', { fileId: record.file_id });
+            return undefined;
+        }
+        throw error;
+    }
+
+    try {
+        await removeFromSearchIndex(docClient, record.file_id);
+    } catch (error) {
+        logger.error('Failed to remove file from search index', error as Error, { fileId: record.file_id });
+    }
+
+    try {
+        await removeArchiveEntries(docClient, record.file_id);
+    } catch (error) {
+        logger.error('Failed to remove archive entries', error as Error, { fileId: record.file_id });
+    }
+
+    // Records linked by dedupe share the original's object
+    if (await isObjectShared(docClient, record)) {
+        logger.info('Keeping S3 object still used by another file', { fileId: record.file_id, s3Key: record.s3_key });
+        return { objectDeleted: false };
+    }
+
+    await s3Client.send(new DeleteObjectCommand({
+        Bucket: process.env.S3_BUCKET_NAME!,
+        Key: record.s3_key
+    }));
+
+    logger.info('File purged', { fileId: record.file_id, s3Key: record.s3_key });
+    return { objectDeleted: true };
+}
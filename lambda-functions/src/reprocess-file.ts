@@ -0,0 +1,94 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { queueReprocessBatch, REPROCESSABLE_STATUSES } from './utils/reprocess-jobs';
+import {
+  FileMetadata,
+  ReprocessResponse
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'reprocess-file',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for queueing one file for metadata re-extraction
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Reprocess file request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        // The worker checks again when it claims the file; this only turns away requests that can't succeed
+        if (!REPROCESSABLE_STATUSES.includes(record.status)) {
+            logger.warn('File is not reprocessable', { fileId, status: record.status });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.FILE_NOT_REPROCESSABLE,
+                [`File ${fileId} has status ${record.status}`]
+            );
+        }
+
+        const jobId = uuidv4();
+        await queueReprocessBatch(docClient, {
+            job_id: jobId,
+            batch_index: 0,
+            file_ids: [fileId]
+        });
+
+        logger.info('File queued for reprocessing', { fileId, jobId });
+
+        return createSuccessResponse<ReprocessResponse>({
+            job_id: jobId,
+            file_id: fileId
+        }, HTTP_STATUS.ACCEPTED);
+
+    } catch (error) {
+        logger.error('Error queueing file for reprocessing', error as Error);
+        return createInternalError(error as Error);
+    }
+};
@@ -0,0 +1,103 @@
+import { DynamoDBStreamEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { createLogger, Logger } from './utils/logger';
+import { findReprocessPage, getReprocessBatch, queueReprocessBatch } from './utils/reprocess-jobs';
+import { reprocessFile } from './processor';
+import { ReprocessBatch, REPROCESS_LIMITS } from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'reprocess-worker',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Stream handler that works through each newly queued reprocess batch
+ *
+ * A bulk job's pages only list files: each queues its matches as batches of file ids,
+ * then the page after it, so a job's batches run in parallel across stream shards.
+ * Records remember the job that claimed them, so a batch delivered again skips the
+ * files it already reprocessed.
+ */
+export const handler = async (event: DynamoDBStreamEvent): Promise<void> => {
+    for (const record of event.Records) {
+        const batchId = record.dynamodb?.Keys?.batch_id?.S;
+        if (record.eventName !== 'INSERT' || !batchId) {
+            continue;
+        }
+
+        const logger: Logger = baseLogger.addContext({ batchId });
+
+        const batch = await getReprocessBatch(docClient, batchId);
+        if (!batch) {
+            logger.warn('Reprocess batch no longer exists');
+            continue;
+        }
+
+        if (batch.filter) {
+            await queueJobPage(batch, logger);
+            continue;
+        }
+
+        const fileIds = batch.file_ids || [];
+        logger.info('Reprocessing batch', { jobId: batch.job_id, fileCount: fileIds.length });
+
+        // A failed file is recorded on its record; one file never holds up the rest of the job
+        for (const fileId of fileIds) {
+            const fileLogger = logger.addContext({ jobId: batch.job_id, fileId });
+            try {
+                await reprocessFile(fileId, process.env.S3_BUCKET_NAME!, fileLogger, batch.job_id);
+            } catch (error) {
+                fileLogger.error('Failed to reprocess file', error as Error);
+            }
+        }
+
+        logger.info('Reprocess batch finished', { jobId: batch.job_id });
+    }
+};
+
+/**
+ * Queue one listed page of a bulk job as batches of files, then the page after it
+ */
+async function queueJobPage(batch: ReprocessBatch, logger: Logger): Promise<void> {
+    const page = await findReprocessPage(docClient, batch.filter!, batch.start_key);
+    logger.info('Reprocess page listed', { jobId: batch.job_id, fileCount: page.fileIds.length });
+
+    for (let offset = 0; offset < page.fileIds.length; offset += REPROCESS_LIMITS.BATCH_SIZE) {
+        await queueBatchOnce({
+            job_id: batch.job_id,
+            batch_index: batch.batch_index,
+            chunk_index: offset / REPROCESS_LIMITS.BATCH_SIZE,
+            file_ids: page.fileIds.slice(offset, offset + REPROCESS_LIMITS.BATCH_SIZE)
+        });
+    }
+
+    if (page.next) {
+        await queueBatchOnce({
+            job_id: batch.job_id,
+            batch_index: batch.batch_index + 1,
+            filter: batch.filter,
+            start_key: page.next
+        });
+    } else {
+        logger.info('Reprocess job fully queued', { jobId: batch.job_id, pages: batch.batch_index + 1 });
+    }
+}
+
+async function queueBatchOnce(batch: Omit<ReprocessBatch, 'batch_id' | 'created_at' | 'expires_at'>): Promise<void> {
+    try {
+        await queueReprocessBatch(docClient, batch);
+    } catch (error: any) {
+        // Queued already by an earlier delivery of this page
+        if (error.name !== 'ConditionalCheckFailedException') {
+            throw error;
+        }
+    }
+}
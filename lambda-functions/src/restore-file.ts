@@ -0,0 +1,148 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { recordUsageChange } from './utils/usage-stats';
+import { queueReprocessBatch } from './utils/reprocess-jobs';
+import {
+  FileMetadata,
+  FileStatus,
+  RestoreFileResponse
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'restore-file',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+/**
+ * Main Lambda handler for taking a file back out of the trash
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Restore file request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            // Purged files are gone for good
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+
+        if (record.status !== FileStatus.DELETED) {
+            logger.warn('File is not in the trash', { fileId, status: record.status });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.FILE_NOT_DELETED,
+                [`File ${fileId} has status ${record.status}`]
+            );
+        }
+
+        // Processing stops for a deleted file, so one deleted mid-way comes back unprocessed
+        const restoredStatus = !record.status_before_delete || record.status_before_delete === FileStatus.PROCESSING ?
+            FileStatus.UPLOADED :
+            record.status_before_delete;
+
+        try {
+            const result = await docClient.send(new UpdateCommand({
+                TableName: process.env.DYNAMODB_TABLE_NAME!,
+                Key: {
+                    file_id: fileId
+                },
+                UpdateExpression: 'SET #status = :restored REMOVE deleted_at, status_before_delete',
+                ExpressionAttributeNames: {
+                    '#status': 'status'
+                },
+                ExpressionAttributeValues: {
+                    ':restored': restoredStatus,
+                    ':deleted': FileStatus.DELETED
+                },
+                // Another restore or the purge may have got there first
+                ConditionExpression: '#status = :deleted',
+                ReturnValues: 'ALL_OLD'
+            }));
+
+            const before = result.Attributes as FileMetadata;
+            await recordUsageChange(docClient, before, { ...before, status: restoredStatus }, logger);
+        } catch (error: any) {
+            if (error.name === 'ConditionalCheckFailedException') {
+                logger.warn('File left the trash during restore', { fileId });
+                return createErrorResponse(
+                    HTTP_STATUS.CONFLICT,
+                    ERROR_MESSAGES.FILE_NOT_DELETED,
+                    ['File was restored or purged by another request']
+                );
+            }
+            throw error;
+        }
+
+        logger.info('File restored', { fileId, status: restoredStatus });
+
+        const response: RestoreFileResponse = {
+            file_id: fileId,
+            message: 'File restored',
+            status: restoredStatus
+        };
+
+        // Its S3 event was skipped while it sat in the trash, so nothing else would process it
+        if (restoredStatus === FileStatus.UPLOADED) {
+            try {
+                const jobId = uuidv4();
+                await queueReprocessBatch(docClient, {
+                    job_id: jobId,
+                    batch_index: 0,
+                    file_ids: [fileId]
+                });
+                response.job_id = jobId;
+                logger.info('Restored file queued for processing', { fileId, jobId });
+            } catch (error) {
+                // The restore stands; POST /files/{file_id}/reprocess picks the file up later
+                logger.error('Failed to queue restored file for processing', error as Error);
+                response.message = 'File restored, but could not be queued for processing';
+            }
+        }
+
+        return createSuccessResponse<RestoreFileResponse>(response);
+
+    } catch (error) {
+        logger.error('Error restoring file', error as Error);
+        return createInternalError(error as Error);
+    }
+};
@@ -0,0 +1,193 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, BatchGetCommand, BatchGetCommandOutput } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { parseSearchQuery } from './utils/search-query';
+import { searchIndex } from './utils/search-index';
+import { encodeCursor, decodeCursor, CursorError } from './utils/cursor';
+import {
+  FileMetadata,
+  SearchHit,
+  SearchResponse,
+  SearchResultItem,
+  FileStatus,
+  isValidFileStatus,
+  SEARCH_INDEX_LIMITS
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'search',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+const CURSOR_SCOPE = 'search';
+
+const SEARCH_PARAMS = ['q', 'limit', 'cursor'];
+
+const RESULT_PROJECTION = 'file_id, file_name, upload_date, file_size, #status, content_type, processing_error';
+
+const BATCH_GET_SIZE = 100;
+
+// Files that exist in the index but shouldn't be shown
+const HIDDEN_STATUSES: string[] = [FileStatus.PENDING, FileStatus.DELETED];
+
+// Offset into the ranked results of the query the cursor was issued for
+interface SearchCursor {
+    offset: number;
+}
+
+/**
+ * Main Lambda handler for full-text search
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Search request received');
+
+    try {
+        const params = event.queryStringParameters || {};
+        const q = params.q?.trim();
+
+        if (!q) {
+            logger.warn('Missing q parameter');
+            return createMissingParameterError('q');
+        }
+
+        const { clauses, errors } = parseSearchQuery(q);
+
+        for (const name of Object.keys(params)) {
+            if (!SEARCH_PARAMS.includes(name)) {
+                errors.push(`Unknown query parameter: ${name}`);
+            }
+        }
+
+        let limit: number = SEARCH_INDEX_LIMITS.DEFAULT_PAGE_SIZE;
+        if (params.limit !== undefined) {
+            limit = Number(params.limit);
+            if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_INDEX_LIMITS.MAX_PAGE_SIZE) {
+                errors.push(`limit must be an integer between 1 and ${SEARCH_INDEX_LIMITS.MAX_PAGE_SIZE}`);
+            }
+        }
+
+        if (errors.length > 0) {
+            logger.warn('Invalid search request', { errors });
+            return createErrorResponse(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_SEARCH_QUERY, errors);
+        }
+
+        let offset = 0;
+        if (params.cursor) {
+            try {
+                offset = (await decodeCursor<SearchCursor>(params.cursor, CURSOR_SCOPE, { q })).offset;
+            } catch (error) {
+                if (error instanceof CursorError) {
+                    logger.warn('Rejected pagination cursor', { reason: error.message });
+                    return createErrorResponse(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_CURSOR, [error.message]);
+                }
+                throw error;
+            }
+        }
+
+        logger.info('Searching index', { clauses, offset, limit });
+
+        const hits = (await searchIndex(docClient, clauses)).slice(0, SEARCH_INDEX_LIMITS.MAX_CANDIDATES);
+        const records = await getFileRecords(hits.map(hit => hit.file_id));
+
+        // The index can briefly lag behind deletes, so check each hit against its record
+        const results: SearchResultItem[] = hits
+            .filter(hit => {
+                const record = records.get(hit.file_id);
+                return record && !HIDDEN_STATUSES.includes(record.status);
+            })
+            .map(hit => toResultItem(hit, records.get(hit.file_id)!));
+
+        const page = results.slice(offset, offset + limit);
+        const response: SearchResponse = {
+            query: q,
+            results: page,
+            total_count: results.length
+        };
+
+        if (offset + limit < results.length) {
+            response.next_cursor = await encodeCursor<SearchCursor>(CURSOR_SCOPE, { q }, { offset: offset + limit });
+        }
+
+        logger.info('Search completed', {
+            hits: hits.length,
+            matches: results.length,
+            returned: page.length,
+            hasNextCursor: !!response.next_cursor
+        });
+
+        return createSuccessResponse<SearchResponse>(response);
+
+    } catch (error) {
+        logger.error('Error searching files', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Load the listing fields for each file, keyed by file_id
+ */
+async function getFileRecords(fileIds: string[]): Promise<Map<string, FileMetadata>> {
+    const tableName = process.env.DYNAMODB_TABLE_NAME!;
+    const records = new Map<string, FileMetadata>();
+
+    for (let start = 0; start < fileIds.length; start += BATCH_GET_SIZE) {
+        let keys: Array<Record<string, any>> | undefined = fileIds
+            .slice(start, start + BATCH_GET_SIZE)
+            .map(fileId => ({ file_id: fileId }));
+
+        while (keys && keys.length > 0) {
+            const result: BatchGetCommandOutput = await docClient.send(new BatchGetCommand({
+                RequestItems: {
+                    [tableName]: {
+                        Keys: keys,
+                        ProjectionExpression: RESULT_PROJECTION,
+                        ExpressionAttributeNames: { '#status': 'status' }
+                    }
+                }
+            }));
+
+            for (const item of (result.Responses?.[tableName] || []) as FileMetadata[]) {
+                records.set(item.file_id, item);
+            }
+
+            keys = result.UnprocessedKeys?.[tableName]?.Keys;
+        }
+    }
+
+    return records;
+}
+
+function toResultItem(hit: SearchHit, record: FileMetadata): SearchResultItem {
+    return {
+        file_id: record.file_id,
+        file_name: record.file_name,
+        upload_date: record.upload_date,
+        file_size: record.file_size,
+        status: isValidFileStatus(record.status) ? record.status : FileStatus.UPLOADED,
+        content_type: record.content_type,
+        ...(record.processing_error ? { processing_error: record.processing_error } : {}),
+        score: hit.score,
+        matched_fields: hit.matched_fields
+    };
+}
@@ -0,0 +1,101 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createValidationError,
+  createInternalError
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { readUsageBuckets, USAGE_DIMENSIONS } from './utils/usage-stats';
+import {
+  UsageStatsResponse,
+  USAGE_STATS_LIMITS
+} from './types';
+
+// Initialize AWS clients
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'stats',
+    awsRegion: process.env.AWS_REGION,
+    dynamoTable: process.env.USAGE_STATS_TABLE_NAME
+});
+
+const STATS_PARAMS = ['days'];
+
+/**
+ * Main Lambda handler for the storage usage report
+ *
+ * Reads the counter items kept up to date by the upload and processing handlers,
+ * so the cost doesn't grow with the number of files.
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Usage stats request received');
+
+    try {
+        const params = event.queryStringParameters || {};
+        const errors: string[] = [];
+
+        for (const name of Object.keys(params)) {
+            if (!STATS_PARAMS.includes(name)) {
+                errors.push(`Unknown query parameter: ${name}`);
+            }
+        }
+
+        let days: number = USAGE_STATS_LIMITS.DEFAULT_DAYS;
+        if (params.days !== undefined) {
+            days = Number(params.days);
+            if (!Number.isInteger(days) || days < 1 || days > USAGE_STATS_LIMITS.MAX_DAYS) {
+                errors.push(`days must be an integer between 1 and ${USAGE_STATS_LIMITS.MAX_DAYS}`);
+            }
+        }
+
+        if (errors.length > 0) {
+            logger.warn('Invalid stats parameters', { errors });
+            return createValidationError(errors);
+        }
+
+        // Per-day buckets cover the last `days` days, today included
+        const firstDay = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+        const [byStatus, byFileType, byCategory, bySizeCategory, byDay, byMonth] = await Promise.all([
+            readUsageBuckets(docClient, USAGE_DIMENSIONS.STATUS),
+            readUsageBuckets(docClient, USAGE_DIMENSIONS.FILE_TYPE),
+            readUsageBuckets(docClient, USAGE_DIMENSIONS.CATEGORY),
+            readUsageBuckets(docClient, USAGE_DIMENSIONS.SIZE_CATEGORY),
+            readUsageBuckets(docClient, USAGE_DIMENSIONS.UPLOAD_DAY, firstDay),
+            readUsageBuckets(docClient, USAGE_DIMENSIONS.UPLOAD_MONTH)
+        ]);
+
+        // Every file has exactly one status, so the status buckets add up to the total
+        const response: UsageStatsResponse = {
+            totals: {
+                file_count: byStatus.reduce((sum, bucket) => sum + bucket.file_count, 0),
+                total_bytes: byStatus.reduce((sum, bucket) => sum + bucket.total_bytes, 0)
+            },
+            by_status: byStatus,
+            by_file_type: byFileType,
+            by_category: byCategory,
+            by_size_category: bySizeCategory,
+            by_day: byDay,
+            by_month: byMonth
+        };
+
+        logger.info('Usage stats retrieved', { ...response.totals, days });
+
+        return createSuccessResponse<UsageStatsResponse>(response);
+
+    } catch (error) {
+        logger.error('Error retrieving usage stats', error as Error);
+        return createInternalError(error as Error);
+    }
+};
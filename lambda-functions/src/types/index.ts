@@ -2,6 +2,8 @@
  * Shared types and interfaces for File Manager Service
  */
 
+import { Readable } from 'stream';
+
 // ===== API Gateway Types =====
 
 export interface APIResponse<T = any> {
@@ -35,7 +37,102 @@ export interface FileMetadata {
   extracted_estimated_pages?: number;
   extracted_estimated_lines?: number;
   extracted_format?: string;
+  extracted_image_width?: number;
+  extracted_image_height?: number;
+  extracted_image_bit_depth?: number;
+  extracted_image_color_space?: string;
+  extracted_image_frame_count?: number;
+  extracted_image_animated?: boolean;
+  extracted_exif_camera_make?: string;
+  extracted_exif_camera_model?: string;
+  extracted_exif_orientation?: number;
+  extracted_exif_capture_date?: string;
+  extracted_exif_has_gps?: boolean;
+  extracted_page_count?: number;
+  extracted_pdf_version?: string;
+  extracted_pdf_title?: string;
+  extracted_pdf_author?: string;
+  extracted_pdf_subject?: string;
+  extracted_pdf_creation_date?: string;
+  extracted_pdf_encrypted?: boolean;
+  extracted_pdf_has_text_layer?: boolean;
+  extracted_line_count?: number;
+  extracted_word_count?: number;
+  extracted_char_count?: number;
+  extracted_text_encoding?: TextEncoding;
+  extracted_text_has_bom?: boolean;
+  extracted_text_line_ending?: LineEnding;
+  extracted_csv_delimiter?: string;
+  extracted_csv_has_header?: boolean;
+  extracted_csv_column_count?: number;
+  extracted_csv_columns?: string[];
+  extracted_csv_column_types?: CsvColumnType[];
+  extracted_json_valid?: boolean;
+  extracted_json_type?: JsonValueType;
+  extracted_json_item_count?: number;
+  extracted_archive_entry_count?: number;
+  extracted_archive_uncompressed_size?: number;
+  extracted_archive_compression_ratio?: number;
+  extracted_archive_top_level_entries?: string[];
+  extracted_archive_suspected_bomb?: boolean;
+  extracted_archive_path_traversal?: boolean;
+  extracted_archive_listing_truncated?: boolean;
+  extracted_duration_seconds?: number;
+  extracted_bitrate?: number;
+  extracted_audio_codec?: string;
+  extracted_audio_sample_rate?: number;
+  extracted_audio_channels?: number;
+  extracted_audio_bit_depth?: number;
+  extracted_video_codec?: string;
+  extracted_video_width?: number;
+  extracted_video_height?: number;
+  extracted_video_frame_rate?: number;
+  extracted_media_title?: string;
+  extracted_media_artist?: string;
+  extracted_media_album?: string;
+  extracted_office_title?: string;
+  extracted_office_author?: string;
+  extracted_office_last_modified_by?: string;
+  extracted_office_created_date?: string;
+  extracted_office_modified_date?: string;
+  extracted_office_sheet_names?: string[];
+  extracted_office_sheet_count?: number;
+  extracted_office_slide_count?: number;
+  extracted_office_macro_enabled?: boolean;
   processing_timestamp?: string;
+  // Content type as declared by the client vs. sniffed from magic bytes
+  declared_content_type?: string;
+  detected_content_type?: string;
+  content_type_mismatch?: boolean;
+  // Multipart upload tracking (presigned multipart flow only)
+  multipart_upload_id?: string;
+  multipart_part_size?: number;
+  multipart_part_count?: number;
+  uploaded_parts?: number;
+  uploaded_bytes?: number;
+  upload_progress_date?: string;
+  // Duplicate detection
+  content_hash?: string;
+  dedupe_mode?: DedupeMode;
+  duplicate_of?: string;
+  // Processing state; attempts count every time the processor picked the file up
+  processing_started_at?: string;
+  processing_attempts?: number;
+  processing_error?: ProcessingError;
+  // Sequencer of the S3 event last processed, padded so later events compare greater
+  s3_event_sequencer?: string;
+  // PROCESSOR_VERSION of the run that last extracted metadata, or failed to
+  processor_version?: number;
+  // Last reprocess job that claimed the file, so a job never runs the same file twice
+  reprocess_job_id?: string;
+  // Outcome of every extractor that matched the file, keyed by extractor name
+  extractor_results?: Record<string, ExtractorResult>;
+  // Soft delete (trash)
+  deleted_at?: string;
+  status_before_delete?: FileStatus;
+  // Bumped on every client edit; exposed as the ETag for If-Match
+  version?: number;
+  modified_date?: string;
 }
 
 export interface FileListItem {
@@ -45,13 +142,23 @@ export interface FileListItem {
   file_size: number;
   status: FileStatus;
   content_type?: string;
+  deleted_at?: string;
+  processing_error?: ProcessingError;
+}
+
+// Why the processor left a file in the error status
+export interface ProcessingError {
+  code: ProcessingErrorCode;
+  message: string;
+  attempt_count: number;
 }
 
 // ===== Multipart Upload Types =====
 
 export interface ParsedMultipartData {
-  fileData: FileData | null;
+  files: FileData[];
   metadata: Record<string, string | number | boolean>;
+  dedupe?: string;
 }
 
 export interface MultipartPart {
@@ -61,6 +168,176 @@ export interface MultipartPart {
   data: Buffer;
 }
 
+// ===== Presigned Upload Types =====
+
+export interface InitiateUploadRequest {
+  file_name: string;
+  content_type?: string;
+  file_size: number;
+  metadata?: Record<string, string | number | boolean>;
+  multipart?: boolean;
+  dedupe?: DedupeMode;
+}
+
+// ===== List Query Types =====
+
+// Parsed and validated GET /files query parameters
+export interface ListFilesQuery {
+  limit: number;
+  status?: FileStatus;
+  file_type?: ExtractedFileType;
+  category?: ExtractedCategory;
+  content_type?: string;      // Exact type, or `type/*` for a whole family
+  uploaded_from?: string;     // Inclusive ISO 8601 bounds on upload_date
+  uploaded_to?: string;
+  min_size?: number;          // Inclusive bounds in bytes
+  max_size?: number;
+  metadata: Record<string, string>; // Client metadata equality, keyed by sanitized key
+  sort: ListSortField;
+  order: SortOrder;
+}
+
+// ===== Search Types =====
+
+// One clause of a parsed search query; every clause must match
+export interface SearchClause {
+  fields: string[];   // Index fields to look in: name, text, meta, or meta.<key>
+  terms: string[];    // More than one term is a phrase
+  prefix: boolean;    // The last term matches any token it starts
+}
+
+// One posting in the search index: where a token occurs in one field of one file
+export interface SearchIndexEntry {
+  term_bucket: string;  // `<field>#<first two characters of token>`
+  entry: string;        // `<token>#<file_id>`
+  file_id: string;
+  field: string;
+  token: string;
+  tf: number;
+  positions: number[];
+}
+
+export interface SearchHit {
+  file_id: string;
+  score: number;
+  matched_fields: string[];
+}
+
+export interface SearchResultItem extends FileListItem {
+  score: number;
+  matched_fields: string[];
+}
+
+// ===== Archive Types =====
+
+// One file or directory inside an uploaded archive
+export interface ArchiveEntry {
+  path: string;
+  size: number;               // Uncompressed bytes
+  compressed_size?: number;   // ZIP only
+  modified_date?: string;     // ISO 8601
+  is_directory: boolean;
+  link_target?: string;       // TAR symbolic and hard links
+}
+
+// A listed entry as stored, keyed by the file that owns the S3 object
+export interface ArchiveEntryRecord extends ArchiveEntry {
+  file_id: string;
+  entry_index: number;
+}
+
+export interface ArchiveEntriesResponse {
+  file_id: string;
+  entries: ArchiveEntry[];
+  total_count: number;        // Entries in the archive, listed or not
+  listing_truncated: boolean;
+  next_cursor?: string;
+}
+
+// ===== Reprocess Types =====
+
+// Files POST /admin/reprocess re-extracts; only reprocessable statuses are ever included
+export interface ReprocessFilter {
+  status?: FileStatus;
+  file_type?: ExtractedFileType;
+  uploaded_from?: string;     // Inclusive ISO 8601 bounds on upload_date
+  uploaded_to?: string;
+}
+
+// One queued batch of a reprocess job; inserting it triggers the reprocess worker
+export interface ReprocessBatch {
+  batch_id: string;           // job_id, batch_index and chunk_index, so batches spread over stream shards
+  job_id: string;
+  batch_index: number;
+  chunk_index?: number;       // Which of a listed page's file batches this is
+  created_at: string;
+  expires_at: number;         // TTL in epoch seconds
+  file_ids?: string[];        // Files to reprocess
+  filter?: ReprocessFilter;   // Set for the pages of a bulk job, which list files rather than process them
+  start_key?: Record<string, any>;
+}
+
+export interface ReprocessResponse {
+  job_id: string;
+  file_id?: string;
+  filter?: ReprocessFilter;
+}
+
+// ===== Usage Stats Types =====
+
+// One counter item: files and bytes currently in one bucket of one dimension
+export interface UsageCounter {
+  dimension: string;    // e.g. status, file_type, upload_day
+  value: string;        // e.g. processed, pdf, 2024-05-01
+  file_count: number;
+  total_bytes: number;
+  updated_at: string;
+}
+
+export interface UsageBucket {
+  value: string;
+  file_count: number;
+  total_bytes: number;
+}
+
+// Record fields that decide which counters a file is counted in
+export type UsageRecord = Pick<
+  FileMetadata,
+  'status' | 'file_size' | 'upload_date' | 'extracted_file_type' | 'extracted_category' | 'extracted_size_category'
+>;
+
+// ===== Metadata Update Types =====
+
+// JSON Merge Patch (RFC 7386) body for PATCH /metadata/{file_id}
+export interface UpdateMetadataRequest {
+  file_name?: string;
+  client_metadata?: Record<string, string | number | boolean | null> | null;
+}
+
+export interface PresignPartsRequest {
+  part_numbers: number[];
+}
+
+export interface UploadedPart {
+  part_number: number;
+  size: number;
+  etag: string;
+  last_modified?: string;
+}
+
+// ===== Idempotency Types =====
+
+export interface IdempotencyRecord {
+  idempotency_key: string;
+  payload_hash: string;
+  status: IdempotencyStatus;
+  created_at: string;
+  expires_at: number; // Epoch seconds, used as the DynamoDB TTL attribute
+  response_status_code?: number;
+  response_headers?: Record<string, string | number | boolean>;
+  response_body?: string;
+}
+
 // ===== Validation Types =====
 
 export interface ValidationResult {
@@ -80,11 +357,120 @@ export interface UploadResponse {
   metadata_fields_stored: number;
 }
 
+export interface BatchUploadResult {
+  file_name: string;
+  success: boolean;
+  file_id?: string;
+  s3_key?: string;
+  file_size?: number;
+  status_code?: number;
+  duplicate_of?: string;
+  error?: string;
+  details?: string[];
+}
+
+export interface BatchUploadResponse {
+  message: string;
+  total_files: number;
+  succeeded: number;
+  failed: number;
+  metadata_fields_stored: number;
+  results: BatchUploadResult[];
+}
+
+export interface InitiateUploadResponse {
+  file_id: string;
+  s3_key: string;
+  upload_method: 'PUT' | 'MULTIPART';
+  // Single PUT uploads
+  upload_url?: string;
+  upload_headers?: Record<string, string>;
+  expires_in?: number;
+  // Multipart uploads
+  upload_id?: string;
+  part_size?: number;
+  part_count?: number;
+}
+
+export interface PresignPartsResponse {
+  file_id: string;
+  upload_id: string;
+  parts: Array<{ part_number: number; upload_url: string }>;
+  expires_in: number;
+}
+
+export interface ListPartsResponse {
+  file_id: string;
+  upload_id: string;
+  part_size: number;
+  part_count: number;
+  parts: UploadedPart[];
+  uploaded_bytes: number;
+}
+
 export interface ListFilesResponse {
   files: FileListItem[];
   total_count: number;
   scanned_count?: number;
-  next_key?: string;
+  next_cursor?: string;  // Opaque; pass back as ?cursor= for the next page
+}
+
+export interface DuplicatesResponse {
+  file_id: string;
+  content_hash?: string;
+  duplicates: FileListItem[];
+  total_count: number;
+}
+
+export interface DownloadResponse {
+  file_id: string;
+  file_name: string;
+  download_url: string;
+  disposition: DownloadDisposition;
+  content_type: string;
+  file_size: number;
+  expires_in: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResultItem[];
+  total_count: number;
+  next_cursor?: string;
+}
+
+export interface UsageStatsResponse {
+  totals: {
+    file_count: number;
+    total_bytes: number;
+  };
+  by_status: UsageBucket[];
+  by_file_type: UsageBucket[];
+  by_category: UsageBucket[];
+  by_size_category: UsageBucket[];
+  by_day: UsageBucket[];
+  by_month: UsageBucket[];
+}
+
+export interface DeleteFileResponse {
+  file_id: string;
+  message: string;
+  deleted_at: string;
+  purge_after: string;
+}
+
+export interface RestoreFileResponse {
+  file_id: string;
+  message: string;
+  status: FileStatus;
+  // Reprocess job for a file that comes back unprocessed
+  job_id?: string;
+}
+
+export interface PurgeResult {
+  purged: number;
+  objects_deleted: number;
+  failed: number;
 }
 
 export interface MetadataResponse {
@@ -101,7 +487,98 @@ export interface ErrorResponse {
 
 // ===== Processing Types =====
 
-export interface ExtractedMetadata {
+// Read from image headers; any field the file doesn't carry is left out
+export interface ImageMetadata {
+  image_width?: number;
+  image_height?: number;
+  image_bit_depth?: number;         // Bits per channel (per pixel for indexed images)
+  image_color_space?: string;       // e.g. RGB, RGBA, Grayscale, Indexed, CMYK, YCbCr
+  image_frame_count?: number;
+  image_animated?: boolean;
+  exif_camera_make?: string;
+  exif_camera_model?: string;
+  exif_orientation?: number;        // EXIF orientation tag, 1-8
+  exif_capture_date?: string;       // DateTimeOriginal as ISO 8601 local time (no offset unless recorded)
+  exif_has_gps?: boolean;
+}
+
+export interface PdfMetadata {
+  page_count?: number;
+  pdf_version?: string;             // e.g. 1.7, from the header or the catalog's /Version
+  pdf_title?: string;
+  pdf_author?: string;
+  pdf_subject?: string;
+  pdf_creation_date?: string;       // ISO 8601, with the offset when recorded
+  pdf_encrypted?: boolean;
+  pdf_has_text_layer?: boolean;     // Text drawn on the first pages; false suggests a scan without OCR
+}
+
+export type TextEncoding = 'UTF-8' | 'UTF-16LE' | 'UTF-16BE' | 'ISO-8859-1';
+
+export type LineEnding = 'LF' | 'CRLF' | 'CR' | 'Mixed' | 'None';
+
+export type CsvColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'string' | 'empty';
+
+export type JsonValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+export interface TextMetadata {
+  line_count?: number;
+  word_count?: number;              // Runs of non-whitespace characters
+  char_count?: number;              // Unicode code points, excluding any byte order mark
+  text_encoding?: TextEncoding;     // ISO-8859-1 when the bytes aren't valid UTF-8
+  text_has_bom?: boolean;
+  text_line_ending?: LineEnding;
+  csv_delimiter?: string;
+  csv_has_header?: boolean;
+  csv_column_count?: number;
+  csv_columns?: string[];           // Header names, when there is a header row
+  csv_column_types?: CsvColumnType[];
+  json_valid?: boolean;
+  json_type?: JsonValueType;        // Only set for valid documents
+  json_item_count?: number;         // Keys of a top-level object or elements of a top-level array
+}
+
+export interface ArchiveMetadata {
+  archive_entry_count?: number;
+  archive_uncompressed_size?: number;   // Files only; left out when inflating stopped early
+  archive_compression_ratio?: number;   // Uncompressed size / file size
+  archive_top_level_entries?: string[]; // Directories end with /
+  archive_suspected_bomb?: boolean;     // Extreme expansion or ZIP entries sharing data
+  archive_path_traversal?: boolean;     // An entry or link target is absolute or climbs out with ..
+  archive_listing_truncated?: boolean;  // Not every entry could be listed
+}
+
+// Read from the docProps parts of Word, Excel and PowerPoint files; page_count and word_count are shared with PDF and text
+export interface OfficeMetadata extends Pick<PdfMetadata, 'page_count'>, Pick<TextMetadata, 'word_count'> {
+  office_title?: string;
+  office_author?: string;           // dc:creator
+  office_last_modified_by?: string;
+  office_created_date?: string;     // ISO 8601
+  office_modified_date?: string;
+  office_sheet_names?: string[];    // Excel, in workbook order
+  office_sheet_count?: number;
+  office_slide_count?: number;      // PowerPoint
+  office_macro_enabled?: boolean;   // A VBA project or macro-enabled variant such as .docm
+}
+
+// Read from audio and video container headers; the first audio and video track are described
+export interface MediaMetadata {
+  duration_seconds?: number;        // Rounded to the millisecond
+  bitrate?: number;                 // Bits per second over the whole file
+  audio_codec?: string;             // Container codec identifier, e.g. mp4a, A_OPUS, MP3, PCM
+  audio_sample_rate?: number;       // Hz
+  audio_channels?: number;
+  audio_bit_depth?: number;         // WAV and FLAC only
+  video_codec?: string;             // e.g. avc1, hvc1, V_VP9
+  video_width?: number;
+  video_height?: number;
+  video_frame_rate?: number;        // Frames per second, rounded to 3 decimals
+  media_title?: string;             // ID3 tags, FLAC Vorbis comments or the Matroska title
+  media_artist?: string;
+  media_album?: string;
+}
+
+export interface ExtractedMetadata extends ImageMetadata, PdfMetadata, TextMetadata, ArchiveMetadata, MediaMetadata, OfficeMetadata {
   file_size: number;
   content_type: string;
   file_extension: string;
@@ -114,13 +591,136 @@ export interface ExtractedMetadata {
   estimated_lines?: number;
 }
 
+// Fetches bytes of the object being processed beyond the leading bytes already read
+export type RangeReader = (offset: number, length: number, signal?: AbortSignal) => Promise<Buffer>;
+
+export interface ContentTypeDetection {
+  declared_content_type: string;
+  detected_content_type?: string;
+  content_type_mismatch: boolean;
+}
+
+// ===== Extractor Types =====
+
+// What the processor knows about a file by the time its extractors run
+export interface ExtractorContext {
+  fileName: string;
+  fileExtension: string;
+  fileSize: number;
+  declaredContentType: string;
+  detectedContentType?: string;     // Sniffed from the leading bytes, when recognised
+  fileType: ExtractedFileType;
+  category: ExtractedCategory;
+  header: Buffer;                   // Leading bytes already read from the object
+  readRange: RangeReader;           // Any other bytes of the same object version; fails once signal aborts
+  textMetadata?: TextMetadata;      // Filled while the object streamed past the analyzers
+  archiveMetadata?: ArchiveMetadata;
+  signal: AbortSignal;              // Aborted when the extractor runs out of time
+}
+
+/**
+ * Reads format-specific fields from the files it matches
+ *
+ * Every matching extractor runs, highest priority first. `stream` reads the whole
+ * object from S3 and only opens when first read, so extractors that only need the
+ * header or a few ranges cost nothing extra.
+ */
+export interface MetadataExtractor<T extends object = Record<string, any>> {
+  name: string;                     // Key of its results in extractor_results
+  version: number;                  // Bump when its fields change
+  priority?: number;                // Defaults to 0
+  timeoutMs?: number;               // Defaults to EXTRACTOR_LIMITS.DEFAULT_TIMEOUT_MS
+  matches(context: ExtractorContext): boolean;
+  extract(stream: Readable, context: ExtractorContext): Promise<T>;
+}
+
+export interface ExtractorResult {
+  status: ExtractorStatus;
+  version: number;
+  duration_ms: number;
+  fields?: Record<string, any>;     // Left out for built-in extractors, whose fields are extracted_* attributes
+  error?: string;
+}
+
+// ===== Upload Policy Types =====
+
+export interface UploadPolicy {
+  allowed_mime_types: string[];
+  denied_mime_types: string[];
+  allowed_extensions: string[];
+  denied_extensions: string[];
+  max_file_size: number;
+  size_limits: Record<string, number>;
+}
+
+export interface UploadPolicyResponse extends UploadPolicy {
+  // Hard caps of each upload flow, applied on top of the policy
+  upload_limits: {
+    direct: number;
+    presigned: number;
+    multipart: number;
+  };
+}
+
+export interface UploadPolicyDecision {
+  allowed: boolean;
+  status_code?: number;
+  reason?: string;
+  max_size?: number;
+}
+
 // ===== Enums and Constants =====
 
 export enum FileStatus {
+  PENDING = 'pending',
   UPLOADED = 'uploaded',
   PROCESSING = 'processing',
   PROCESSED = 'processed',
-  ERROR = 'error'
+  ERROR = 'error',
+  DELETED = 'deleted'
+}
+
+export enum ProcessingErrorCode {
+  OBJECT_NOT_FOUND = 'OBJECT_NOT_FOUND',    // The uploaded object was gone when the processor read it
+  OBJECT_CHANGED = 'OBJECT_CHANGED',        // Overwritten while being read
+  ACCESS_DENIED = 'ACCESS_DENIED',
+  DUPLICATE_CONTENT = 'DUPLICATE_CONTENT',  // Rejected by the upload's dedupe mode
+  UNSUPPORTED_FILE_TYPE = 'UNSUPPORTED_FILE_TYPE',  // Rejected by the upload policy
+  FILE_TOO_LARGE = 'FILE_TOO_LARGE',        // Over the upload policy's size limit for its type
+  PROCESSING_FAILED = 'PROCESSING_FAILED'
+}
+
+export enum ExtractorStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  TIMED_OUT = 'timed_out'
+}
+
+export enum DownloadDisposition {
+  ATTACHMENT = 'attachment',
+  INLINE = 'inline'
+}
+
+export enum IdempotencyStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed'
+}
+
+export enum DedupeMode {
+  REJECT = 'reject',  // Refuse content that is already stored
+  LINK = 'link',      // Create a record pointing at the existing object
+  ALLOW = 'allow'     // Store another copy
+}
+
+export enum ListSortField {
+  UPLOAD_DATE = 'upload_date',
+  FILE_SIZE = 'file_size',
+  FILE_NAME = 'file_name'
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc'
 }
 
 export enum ExtractedFileType {
@@ -234,23 +834,121 @@ export function isValidFileStatus(status: string): status is FileStatus {
   return Object.values(FileStatus).includes(status as FileStatus);
 }
 
+export function isValidDedupeMode(mode: string): mode is DedupeMode {
+  return Object.values(DedupeMode).includes(mode as DedupeMode);
+}
+
 export function isValidExtractedFileType(type: string): type is ExtractedFileType {
   return Object.values(ExtractedFileType).includes(type as ExtractedFileType);
 }
 
+export function isValidExtractedCategory(category: string): category is ExtractedCategory {
+  return Object.values(ExtractedCategory).includes(category as ExtractedCategory);
+}
+
 // ===== Constants =====
 
 export const FILE_SIZE_LIMITS = {
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
+  MAX_PRESIGNED_FILE_SIZE: 5 * 1024 * 1024 * 1024, // 5GB (S3 single PUT limit)
   SMALL_FILE_THRESHOLD: 1024 * 1024, // 1MB
   LARGE_FILE_THRESHOLD: 10 * 1024 * 1024, // 10MB
 } as const;
 
+export const LIST_FILES_LIMITS = {
+  DEFAULT_PAGE_SIZE: 100,
+  MAX_PAGE_SIZE: 100,
+  MAX_METADATA_FILTERS: 10,
+} as const;
+
+export const SEARCH_INDEX_LIMITS = {
+  MAX_TEXT_SOURCE_BYTES: 2 * 1024 * 1024, // Bytes of a text/PDF file read for indexing
+  MAX_TEXT_TERMS: 2000, // Distinct extracted-text tokens indexed per file
+  MAX_TOKEN_LENGTH: 64,
+  MAX_POSITIONS: 32, // Positions kept per token, used for phrase matching
+  MIN_PREFIX_LENGTH: 2,
+  MAX_QUERY_CLAUSES: 8,
+  MAX_ENTRIES_PER_TERM: 5000,
+  MAX_CANDIDATES: 500, // Top-scoring hits checked against the metadata table
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+// Relative weight of a match in each field; meta.<key> fields use the meta weight
+export const SEARCH_FIELD_WEIGHTS = {
+  name: 3,
+  meta: 2,
+  text: 1,
+} as const;
+
+export const USAGE_STATS_LIMITS = {
+  DEFAULT_DAYS: 30, // Days of per-day usage returned by GET /stats
+  MAX_DAYS: 366,
+} as const;
+
+export const METADATA_EXTRACTION_LIMITS = {
+  IMAGE_HEADER_BYTES: 1024 * 1024, // Enough for EXIF, ICC profiles and most GIF/WebP frame lists
+  MAX_STRING_LENGTH: 256, // Longest EXIF or document property value kept
+  RANGE_READ_BYTES: 256 * 1024, // Size of each ranged GET past the leading bytes
+  MAX_RANGE_READS: 16, // Ranged GETs allowed per file
+  MAX_PDF_OBJECT_BYTES: 4 * 1024 * 1024, // Largest PDF object, xref section or decoded stream parsed
+  PDF_TEXT_SAMPLE_PAGES: 3, // Leading pages checked for a text layer
+  TEXT_SAMPLE_BYTES: 256 * 1024, // Leading bytes of a CSV file used to infer its layout
+  CSV_SAMPLE_ROWS: 1000,
+  MAX_CSV_COLUMNS: 100,
+  MEDIA_HEADER_BYTES: 256 * 1024, // Leading bytes of audio and video files; the rest is fetched by range
+  MAX_MEDIA_BOX_BYTES: 16 * 1024 * 1024, // Largest MP4 moov box or Matroska element parsed
+  MAX_OFFICE_PART_BYTES: 4 * 1024 * 1024, // Largest inflated docProps or workbook part parsed
+  MAX_SHEET_NAMES: 100,
+} as const;
+
+export const ARCHIVE_LIMITS = {
+  MAX_LISTED_ENTRIES: 10000, // Entries stored for GET /files/{file_id}/archive-entries
+  MAX_TOP_LEVEL_ENTRIES: 50,
+  MAX_DIRECTORY_BYTES: 16 * 1024 * 1024, // Largest ZIP central directory read
+  MAX_INFLATED_BYTES: 4 * 1024 * 1024 * 1024, // Gzip output inflated before giving up on the rest
+  MAX_PATH_LENGTH: 1024,
+  BOMB_RATIO: 100, // Uncompressed / compressed size past which a large archive is suspect
+  BOMB_MIN_UNCOMPRESSED_BYTES: 256 * 1024 * 1024,
+  DEFAULT_PAGE_SIZE: 100,
+  MAX_PAGE_SIZE: 1000,
+} as const;
+
+export const BATCH_UPLOAD_LIMITS = {
+  MAX_FILES: 50,
+} as const;
+
 export const SUPPORTED_FILE_TYPES = {
-  IMAGES: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'],
-  DOCUMENTS: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
-  TEXT: ['text/plain', 'text/csv', 'application/json', 'text/xml'],
-  ARCHIVES: ['application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed'],
+  IMAGES: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml', 'image/bmp', 'image/tiff', 'image/heic', 'image/avif'],
+  DOCUMENTS: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/x-ole-storage',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/epub+zip',
+  ],
+  TEXT: ['text/plain', 'text/csv', 'text/markdown', 'application/json', 'text/xml'],
+  ARCHIVES: ['application/zip', 'application/x-rar-compressed', 'application/x-7z-compressed', 'application/gzip', 'application/x-tar', 'application/x-bzip2'],
+  VIDEO: ['video/mp4', 'video/quicktime', 'video/webm', 'video/x-matroska', 'video/x-msvideo', 'video/x-m4v', 'video/3gpp'],
+  AUDIO: ['audio/mpeg', 'audio/wav', 'audio/flac', 'audio/ogg', 'audio/aac', 'audio/mp4'],
+} as const;
+
+export const DENIED_FILE_TYPES = {
+  MIME_TYPES: [
+    'application/x-msdownload',
+    'application/x-executable',
+    'application/x-mach-binary',
+    'application/x-sh',
+    'application/x-bat',
+    'application/java-archive',
+  ],
+  EXTENSIONS: ['exe', 'dll', 'com', 'bat', 'cmd', 'scr', 'msi', 'ps1', 'sh', 'vbs', 'jar', 'app', 'elf'],
 } as const;
 
 export const S3_KEY_PATTERNS = {
@@ -259,9 +957,69 @@ export const S3_KEY_PATTERNS = {
   TEMP_PREFIX: 'temp/',
 } as const;
 
+export const PRESIGNED_URL_EXPIRY_SECONDS = {
+  UPLOAD: 15 * 60, // 15 minutes
+  UPLOAD_PART: 60 * 60, // 1 hour
+  DOWNLOAD: 5 * 60, // 5 minutes
+} as const;
+
+// Types a browser can safely render in place; everything else is always downloaded
+export const INLINE_PREVIEW_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/bmp',
+  'image/avif',
+  'video/mp4',
+  'video/webm',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/ogg',
+  'audio/mp4',
+] as const;
+
+export const MULTIPART_UPLOAD_LIMITS = {
+  MIN_PART_SIZE: 5 * 1024 * 1024, // 5MB (S3 minimum for all but the last part)
+  DEFAULT_PART_SIZE: 8 * 1024 * 1024, // 8MB
+  MAX_PARTS: 10000,
+  MAX_FILE_SIZE: 5 * 1024 * 1024 * 1024 * 1024, // 5TB
+  MAX_PARTS_PER_PRESIGN_REQUEST: 100,
+} as const;
+
+export const REPROCESS_LIMITS = {
+  BATCH_SIZE: 10, // Files re-extracted per reprocess worker invocation
+  SCAN_PAGE_SIZE: 500, // Records a bulk job reads per page while listing its files
+  JOB_RETENTION_DAYS: 7, // Queued batches are kept this long for inspection
+} as const;
+
+// Bump when extraction changes, so records analyzed by older code can be found and reprocessed
+export const PROCESSOR_VERSION = 2;
+
+export const EXTRACTOR_LIMITS = {
+  DEFAULT_TIMEOUT_MS: 60 * 1000,
+  MAX_RESULT_BYTES: 32 * 1024, // Serialized fields one extractor may store on the record
+  MAX_ERROR_LENGTH: 500,
+} as const;
+
+export const TRASH_RETENTION = {
+  DEFAULT_DAYS: 30,
+} as const;
+
+export const IDEMPOTENCY_LIMITS = {
+  MAX_KEY_LENGTH: 255,
+  TTL_SECONDS: 24 * 60 * 60, // 24 hours
+  IN_PROGRESS_TIMEOUT_SECONDS: 60, // Longer than the upload Lambda timeout
+} as const;
+
 export const DYNAMODB_ATTRIBUTES = {
   PARTITION_KEY: 'file_id',
   SORT_KEY: 'upload_date',
   GSI_STATUS: 'status-index',
   GSI_FILE_TYPE: 'file-type-index',
+  GSI_STATUS_SIZE: 'status-size-index',
+  GSI_STATUS_NAME: 'status-name-index',
+  GSI_CONTENT_HASH: 'content-hash-index',
 } as const;
@@ -0,0 +1,311 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { S3Client, HeadObjectCommand, CopyObjectCommand } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationError,
+  createNotFoundError,
+  createInternalError,
+  createMissingParameterError,
+  HTTP_STATUS,
+  ERROR_MESSAGES
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { getHeader, parseJsonBody } from './utils/request';
+import { mergeClientMetadata, validateFileName } from './utils/validation';
+import { getRecordVersion, parseIfMatchVersion, withVersionETag } from './utils/version';
+import { buildContentDisposition } from './utils/content-disposition';
+import { isObjectShared } from './utils/content-hash';
+import { indexFile } from './utils/search-index';
+import {
+  DownloadDisposition,
+  FileMetadata,
+  FileStatus,
+  MetadataResponse,
+  UpdateMetadataRequest,
+  FILE_SIZE_LIMITS
+} from './types';
+
+// Initialize AWS clients
+const s3Client = new S3Client({ region: process.env.AWS_REGION });
+const dynamoDbClient = new DynamoDBClient({ region: process.env.AWS_REGION });
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient);
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'update-metadata',
+    awsRegion: process.env.AWS_REGION,
+    s3Bucket: process.env.S3_BUCKET_NAME,
+    dynamoTable: process.env.DYNAMODB_TABLE_NAME
+});
+
+const PATCHABLE_FIELDS = ['file_name', 'client_metadata'];
+
+/**
+ * Main Lambda handler for editing client metadata and renaming files
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Metadata update request received');
+
+    try {
+        const fileId = event.pathParameters?.file_id;
+
+        if (!fileId) {
+            logger.warn('Missing file_id parameter');
+            return createMissingParameterError('file_id');
+        }
+
+        const ifMatch = getHeader(event, 'If-Match');
+        if (!ifMatch) {
+            logger.warn('Missing If-Match header', { fileId });
+            return createErrorResponse(
+                HTTP_STATUS.PRECONDITION_REQUIRED,
+                ERROR_MESSAGES.IF_MATCH_REQUIRED,
+                ['Send the ETag from GET /metadata/{file_id} as If-Match']
+            );
+        }
+
+        let patch: UpdateMetadataRequest;
+        try {
+            patch = parseJsonBody<UpdateMetadataRequest>(event);
+        } catch (parseError) {
+            logger.warn('Invalid request body', { error: (parseError as Error).message });
+            return createValidationError([(parseError as Error).message]);
+        }
+
+        const patchErrors = validatePatch(patch);
+        if (patchErrors.length > 0) {
+            logger.warn('Invalid metadata patch', { errors: patchErrors });
+            return createValidationError(patchErrors);
+        }
+
+        const result = await docClient.send(new GetCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            }
+        }));
+
+        if (!result.Item) {
+            logger.warn('File not found', { fileId });
+            return createNotFoundError('File');
+        }
+
+        const record = result.Item as FileMetadata;
+        const currentVersion = getRecordVersion(record);
+
+        if (parseIfMatchVersion(ifMatch) !== currentVersion) {
+            logger.info('If-Match does not match current version', { fileId, ifMatch, currentVersion });
+            return createVersionMismatchError(currentVersion);
+        }
+
+        if (record.status === FileStatus.PENDING || record.status === FileStatus.DELETED) {
+            logger.warn('Cannot edit file in current state', { fileId, status: record.status });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.FILE_NOT_EDITABLE,
+                [`File ${fileId} is ${record.status}`]
+            );
+        }
+
+        const updates: Partial<FileMetadata> = {};
+
+        // Names are stored trimmed, as at upload time
+        const fileName = patch.file_name?.trim();
+        if (fileName !== undefined && fileName !== record.file_name) {
+            updates.file_name = fileName;
+        }
+
+        if (patch.client_metadata !== undefined) {
+            const { errors, merged } = mergeClientMetadata(record.client_metadata || {}, patch.client_metadata);
+            if (errors.length > 0) {
+                logger.warn('Invalid client metadata patch', { errors });
+                return createValidationError(errors);
+            }
+            updates.client_metadata = merged;
+        }
+
+        const updated = await applyUpdate(fileId, currentVersion, updates);
+        if (!updated) {
+            logger.info('File changed during update', { fileId, expectedVersion: currentVersion });
+            return createVersionMismatchError();
+        }
+
+        logger.info('Metadata updated', {
+            fileId,
+            version: updated.version,
+            renamed: updates.file_name !== undefined,
+            metadataFields: Object.keys(updated.client_metadata || {}).length
+        });
+
+        if (updates.file_name !== undefined) {
+            await updateStoredFileName(updated, logger);
+        }
+
+        // Extracted text is unchanged, so only the name and metadata postings are rewritten
+        try {
+            await indexFile(docClient, updated);
+        } catch (error) {
+            logger.error('Failed to update search index', error as Error, { fileId });
+        }
+
+        return withVersionETag(
+            createSuccessResponse<MetadataResponse>({
+                file_id: fileId,
+                metadata: updated
+            }),
+            getRecordVersion(updated)
+        );
+
+    } catch (error) {
+        logger.error('Error updating metadata', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Check the shape of a merge patch before touching the record
+ */
+function validatePatch(patch: UpdateMetadataRequest): string[] {
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+        return ['Request body must be a JSON object'];
+    }
+
+    const unknownFields = Object.keys(patch).filter(key => !PATCHABLE_FIELDS.includes(key));
+    if (unknownFields.length > 0) {
+        return [`Only ${PATCHABLE_FIELDS.join(' and ')} can be changed; got ${unknownFields.join(', ')}`];
+    }
+
+    if (patch.file_name === undefined && patch.client_metadata === undefined) {
+        return [`Patch must include ${PATCHABLE_FIELDS.join(' or ')}`];
+    }
+
+    return patch.file_name !== undefined ? validateFileName(patch.file_name) : [];
+}
+
+/**
+ * Write the changes and bump the version, provided nobody else got there first
+ *
+ * Returns undefined if the version moved or the file left an editable state.
+ */
+async function applyUpdate(
+    fileId: string,
+    expectedVersion: number,
+    updates: Partial<FileMetadata>
+): Promise<FileMetadata | undefined> {
+    const setExpressions = ['version = :next_version', 'modified_date = :modified_date'];
+    const expressionValues: Record<string, any> = {
+        ':next_version': expectedVersion + 1,
+        ':modified_date': new Date().toISOString(),
+        ':expected_version': expectedVersion,
+        ':pending': FileStatus.PENDING,
+        ':deleted': FileStatus.DELETED
+    };
+
+    if (updates.file_name !== undefined) {
+        setExpressions.push('file_name = :file_name');
+        expressionValues[':file_name'] = updates.file_name;
+    }
+
+    if (updates.client_metadata !== undefined) {
+        setExpressions.push('client_metadata = :client_metadata');
+        expressionValues[':client_metadata'] = updates.client_metadata;
+    }
+
+    // Records written before versioning have no version attribute and count as version 1
+    const versionCondition = expectedVersion === 1 ?
+        '(attribute_not_exists(version) OR version = :expected_version)' :
+        'version = :expected_version';
+
+    try {
+        const result = await docClient.send(new UpdateCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            Key: {
+                file_id: fileId
+            },
+            UpdateExpression: `SET ${setExpressions.join(', ')}`,
+            ConditionExpression: `${versionCondition} AND NOT #status IN (:pending, :deleted)`,
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: expressionValues,
+            ReturnValues: 'ALL_NEW'
+        }));
+
+        return result.Attributes as FileMetadata;
+    } catch (error: any) {
+        if (error.name === 'ConditionalCheckFailedException') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Rewrite the S3 object's headers so direct reads of it carry the new name
+ *
+ * Done with an in-place copy, which the processor ignores. The record is already
+ * updated and downloads set their own Content-Disposition, so failures are logged
+ * rather than returned.
+ */
+async function updateStoredFileName(record: FileMetadata, logger: Logger): Promise<void> {
+    const bucket = process.env.S3_BUCKET_NAME!;
+    const fileLogger = logger.addContext({ fileId: record.file_id, s3Key: record.s3_key });
+
+    // CopyObject shares the single PUT size limit; bigger objects would need a multipart copy
+    if (record.file_size > FILE_SIZE_LIMITS.MAX_PRESIGNED_FILE_SIZE) {
+        fileLogger.info('Object too large to copy in place; keeping stored Content-Disposition');
+        return;
+    }
+
+    try {
+        // Linked records share the object, and its headers should not follow one record's name
+        if (await isObjectShared(docClient, record)) {
+            fileLogger.info('Object is shared with other files; keeping stored Content-Disposition');
+            return;
+        }
+
+        const head = await s3Client.send(new HeadObjectCommand({
+            Bucket: bucket,
+            Key: record.s3_key
+        }));
+
+        await s3Client.send(new CopyObjectCommand({
+            Bucket: bucket,
+            Key: record.s3_key,
+            CopySource: `${bucket}/${record.s3_key.split('/').map(encodeURIComponent).join('/')}`,
+            MetadataDirective: 'REPLACE',
+            ContentType: head.ContentType,
+            ContentEncoding: head.ContentEncoding,
+            ContentLanguage: head.ContentLanguage,
+            CacheControl: head.CacheControl,
+            ContentDisposition: buildContentDisposition(DownloadDisposition.ATTACHMENT, record.file_name),
+            Metadata: {
+                ...head.Metadata,
+                // S3 user metadata must be ASCII
+                'original-name': encodeURIComponent(record.file_name)
+            }
+        }));
+
+        fileLogger.info('Updated stored Content-Disposition');
+    } catch (error) {
+        fileLogger.error('Failed to update stored Content-Disposition', error as Error);
+    }
+}
+
+function createVersionMismatchError(currentVersion?: number): APIGatewayProxyResult {
+    return createErrorResponse(
+        HTTP_STATUS.PRECONDITION_FAILED,
+        ERROR_MESSAGES.VERSION_MISMATCH,
+        ['Fetch the latest metadata and reapply your changes'],
+        currentVersion !== undefined ? { current_version: currentVersion } : undefined
+    );
+}
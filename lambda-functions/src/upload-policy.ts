@@ -0,0 +1,52 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  createSuccessResponse,
+  createInternalError,
+} from './utils/responses';
+import { createLogger, Logger } from './utils/logger';
+import { loadUploadPolicy } from './utils/upload-policy';
+import { expandContentTypeAliases } from './utils/file-signature';
+import {
+  UploadPolicyResponse,
+  FILE_SIZE_LIMITS,
+  MULTIPART_UPLOAD_LIMITS
+} from './types';
+
+// Initialize logger with AWS resource context
+const baseLogger = createLogger({
+    functionName: 'upload-policy',
+    awsRegion: process.env.AWS_REGION
+});
+
+/**
+ * Main Lambda handler for publishing the upload policy so clients can pre-validate files
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const logger: Logger = baseLogger.addContext({
+        requestId: event.requestContext.requestId,
+        httpMethod: event.httpMethod,
+        path: event.path
+    });
+
+    logger.info('Upload policy request received');
+
+    try {
+        const policy = loadUploadPolicy();
+
+        return createSuccessResponse<UploadPolicyResponse>({
+            ...policy,
+            // The policy holds normalized types; browsers report whichever alias the OS knows
+            allowed_mime_types: expandContentTypeAliases(policy.allowed_mime_types),
+            denied_mime_types: expandContentTypeAliases(policy.denied_mime_types),
+            upload_limits: {
+                direct: FILE_SIZE_LIMITS.MAX_FILE_SIZE,
+                presigned: FILE_SIZE_LIMITS.MAX_PRESIGNED_FILE_SIZE,
+                multipart: MULTIPART_UPLOAD_LIMITS.MAX_FILE_SIZE
+            }
+        });
+
+    } catch (error) {
+        logger.error('Error loading upload policy', error as Error);
+        return createInternalError(error as Error);
+    }
+};
@@ -6,20 +6,42 @@ import { v4 as uuidv4 } from 'uuid';
 import { 
   createSuccessResponse, 
   createErrorResponse, 
-  createFileSizeError,
   createValidationError,
+  createUnsupportedMediaTypeError,
   createInternalError,
   HTTP_STATUS,
   ERROR_MESSAGES 
 } from './utils/responses';
 import { createLogger, Logger } from './utils/logger';
+import { validateMetadata } from './utils/validation';
+import { getHeader, getRawBody } from './utils/request';
+import { getMultipartBoundary, parseMultipartBody, MultipartParseError } from './utils/multipart-parser';
+import { detectFileType, isContentTypeMismatch, SIGNATURE_SNIFF_BYTES } from './utils/file-signature';
+import { loadUploadPolicy, evaluateUploadPolicy } from './utils/upload-policy';
+import { computeContentHash, findDuplicates, findOriginal } from './utils/content-hash';
+import { indexFile } from './utils/search-index';
+import { isTextSource, extractSearchText } from './utils/search-text';
+import { recordUsageChange } from './utils/usage-stats';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  validateIdempotencyKey,
+  computePayloadHash,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  createReplayResponse
+} from './utils/idempotency';
 import {
   FileData,
+  FileMetadata,
+  ContentTypeDetection,
   ParsedMultipartData,
-  MultipartPart,
-  ValidationResult,
-  UploadResponse,
+  BatchUploadResponse,
+  BatchUploadResult,
   FileStatus,
+  DedupeMode,
+  isValidDedupeMode,
+  BATCH_UPLOAD_LIMITS,
   FILE_SIZE_LIMITS,
   S3_KEY_PATTERNS
 } from './types';
@@ -37,6 +59,12 @@ const logger = createLogger({
     dynamoTable: process.env.DYNAMODB_TABLE_NAME
 });
 
+// Form field names that carry file content; everything else is metadata
+const FILE_PART_NAMES = ['file', 'files', 'files[]'];
+
+// Form field selecting what happens when uploaded content is already stored
+const DEDUPE_FIELD_NAME = 'dedupe';
+
 /**
  * Main Lambda handler for file upload
  */
@@ -51,47 +79,299 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     
     try {
         // Parse multipart form data
-        const { fileData, metadata } = await parseMultipartData(event);
-        
-        if (!fileData) {
-            requestLogger.warn('No file provided in request');
-            return createErrorResponse(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.FILE_NOT_PROVIDED);
+        const parsed = await parseMultipartData(event);
+
+        const idempotencyKey = getHeader(event, IDEMPOTENCY_KEY_HEADER)?.trim();
+        if (idempotencyKey === undefined) {
+            return await processUpload(parsed, requestLogger);
         }
 
-        // Validate and process metadata
-        const metadataValidation = validateMetadata(metadata);
-        if (!metadataValidation.isValid) {
-            requestLogger.warn('Invalid metadata format', { errors: metadataValidation.errors });
-            return createValidationError(metadataValidation.errors);
+        const keyErrors = validateIdempotencyKey(idempotencyKey);
+        if (keyErrors.length > 0) {
+            requestLogger.warn('Invalid idempotency key', { errors: keyErrors });
+            return createErrorResponse(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.INVALID_IDEMPOTENCY_KEY, keyErrors);
         }
 
-        // Validate file size (max 10MB)
-        if (fileData.content.length > FILE_SIZE_LIMITS.MAX_FILE_SIZE) {
-            requestLogger.warn('File too large', { 
-                actualSize: fileData.content.length,
-                maxSize: FILE_SIZE_LIMITS.MAX_FILE_SIZE 
-            });
-            return createFileSizeError(fileData.content.length, FILE_SIZE_LIMITS.MAX_FILE_SIZE);
+        return await processIdempotentUpload(idempotencyKey, parsed, requestLogger);
+
+    } catch (error) {
+        if (error instanceof MultipartParseError) {
+            requestLogger.warn('Invalid multipart request', { error: error.message });
+            return createErrorResponse(error.statusCode, ERROR_MESSAGES.INVALID_MULTIPART, [error.message]);
         }
+        requestLogger.error('Error uploading file', error as Error);
+        return createInternalError(error as Error);
+    }
+};
+
+/**
+ * Run an upload at most once per Idempotency-Key, replaying the recorded response for repeats
+ */
+async function processIdempotentUpload(
+    idempotencyKey: string,
+    parsed: ParsedMultipartData,
+    requestLogger: Logger
+): Promise<APIGatewayProxyResult> {
+    // Multipart boundaries change between retries, so hash what was parsed rather than the raw body
+    const payloadHash = computePayloadHash({
+        files: parsed.files.map(fileData => ({
+            file_name: fileData.filename,
+            content_type: fileData.contentType,
+            content_hash: computeContentHash(fileData.content)
+        })),
+        metadata: parsed.metadata,
+        dedupe: parsed.dedupe
+    });
+
+    const claim = await claimIdempotencyKey(docClient, idempotencyKey, payloadHash);
+
+    switch (claim.outcome) {
+        case 'completed':
+            requestLogger.info('Replaying response for idempotency key', { idempotencyKey });
+            return createReplayResponse(claim.record);
+        case 'mismatch':
+            requestLogger.warn('Idempotency key reused with a different payload', { idempotencyKey });
+            return createErrorResponse(
+                HTTP_STATUS.UNPROCESSABLE_ENTITY,
+                ERROR_MESSAGES.IDEMPOTENCY_KEY_REUSED,
+                ['Use a new Idempotency-Key for a different upload']
+            );
+        case 'in_progress':
+            requestLogger.warn('Idempotency key is in use by another request', { idempotencyKey });
+            return createErrorResponse(
+                HTTP_STATUS.CONFLICT,
+                ERROR_MESSAGES.IDEMPOTENT_REQUEST_IN_PROGRESS,
+                ['Retry once the original request has finished'],
+                { retryable: true }
+            );
+    }
+
+    let response: APIGatewayProxyResult;
+    try {
+        response = await processUpload(parsed, requestLogger);
+    } catch (error) {
+        await releaseIdempotencyKeyQuietly(idempotencyKey, requestLogger);
+        throw error;
+    }
+
+    // Server errors are worth retrying, so don't pin them to the key
+    if (response.statusCode >= HTTP_STATUS.INTERNAL_SERVER_ERROR) {
+        await releaseIdempotencyKeyQuietly(idempotencyKey, requestLogger);
+    } else {
+        await completeIdempotencyKey(docClient, idempotencyKey, response);
+    }
+
+    return response;
+}
+
+/**
+ * Validate a parsed upload request and store its files
+ */
+async function processUpload(
+    { files, metadata, dedupe }: ParsedMultipartData,
+    requestLogger: Logger
+): Promise<APIGatewayProxyResult> {
+    if (files.length === 0) {
+        requestLogger.warn('No file provided in request');
+        return createErrorResponse(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.FILE_NOT_PROVIDED);
+    }
+
+    if (files.length > BATCH_UPLOAD_LIMITS.MAX_FILES) {
+        requestLogger.warn('Too many files in batch', { fileCount: files.length });
+        return createErrorResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_MESSAGES.TOO_MANY_FILES,
+            [`Maximum ${BATCH_UPLOAD_LIMITS.MAX_FILES} files per request`]
+        );
+    }
+
+    // Validate and process metadata (shared by every file in the batch)
+    const metadataValidation = validateMetadata(metadata);
+    if (!metadataValidation.isValid) {
+        requestLogger.warn('Invalid metadata format', { errors: metadataValidation.errors });
+        return createValidationError(metadataValidation.errors);
+    }
+
+    const dedupeMode = dedupe ?? DedupeMode.ALLOW;
+    if (!isValidDedupeMode(dedupeMode)) {
+        requestLogger.warn('Invalid dedupe mode', { dedupeMode });
+        return createValidationError([`dedupe must be one of: ${Object.values(DedupeMode).join(', ')}`]);
+    }
+
+    requestLogger.info('Processing batch upload', { fileCount: files.length, dedupeMode });
+
+    // Each file succeeds or fails on its own
+    const results = await Promise.all(
+        files.map(fileData => uploadSingleFile(fileData, metadataValidation.cleanedMetadata, dedupeMode, requestLogger))
+    );
+
+    const failed = results.filter(result => !result.success).length;
+    const succeeded = results.length - failed;
+
+    requestLogger.info('Batch upload finished', { succeeded, failed });
+
+    // Nothing was stored and every file was refused by the policy: report it as a plain 415
+    if (results.every(result => result.status_code === HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE)) {
+        return createUnsupportedMediaTypeError(
+            results.flatMap(result => result.details || []),
+            { results }
+        );
+    }
+
+    if (results.every(result => result.status_code === HTTP_STATUS.CONFLICT)) {
+        return createErrorResponse(
+            HTTP_STATUS.CONFLICT,
+            ERROR_MESSAGES.DUPLICATE_FILE,
+            results.flatMap(result => result.details || []),
+            { results }
+        );
+    }
+
+    return createSuccessResponse<BatchUploadResponse>({
+        message: failed === 0 ?
+            `${succeeded} file(s) uploaded successfully` :
+            `${succeeded} of ${results.length} file(s) uploaded successfully`,
+        total_files: results.length,
+        succeeded,
+        failed,
+        metadata_fields_stored: Object.keys(metadataValidation.cleanedMetadata).length,
+        results
+    }, failed === 0 ? HTTP_STATUS.OK : HTTP_STATUS.MULTI_STATUS);
+}
+
+/**
+ * Release an idempotency key without masking the error that caused the release
+ */
+async function releaseIdempotencyKeyQuietly(idempotencyKey: string, requestLogger: Logger): Promise<void> {
+    try {
+        await releaseIdempotencyKey(docClient, idempotencyKey);
+    } catch (releaseError) {
+        requestLogger.error('Failed to release idempotency key', releaseError as Error, { idempotencyKey });
+    }
+}
 
-        // Generate unique file ID and S3 key
-        const fileId = uuidv4();
-        const s3Key = `${S3_KEY_PATTERNS.UPLOAD_PREFIX}${fileId}/${fileData.filename}`;
+/**
+ * Store and upload one file of a batch, reporting failure instead of throwing
+ */
+async function uploadSingleFile(
+    fileData: FileData,
+    clientMetadata: Record<string, string | number | boolean>,
+    dedupeMode: DedupeMode,
+    requestLogger: Logger
+): Promise<BatchUploadResult> {
+    // Validate file size (max 10MB)
+    if (fileData.content.length > FILE_SIZE_LIMITS.MAX_FILE_SIZE) {
+        requestLogger.warn('File too large', { 
+            filename: fileData.filename,
+            actualSize: fileData.content.length,
+            maxSize: FILE_SIZE_LIMITS.MAX_FILE_SIZE 
+        });
+        return {
+            file_name: fileData.filename,
+            success: false,
+            status_code: HTTP_STATUS.REQUEST_TOO_LONG,
+            error: ERROR_MESSAGES.FILE_TOO_LARGE,
+            details: [`Maximum file size is ${Math.round(FILE_SIZE_LIMITS.MAX_FILE_SIZE / 1024 / 1024)}MB`]
+        };
+    }
 
-        requestLogger.info('Processing file upload', { 
-            fileId, 
+    const contentDetection = detectContentType(fileData);
+    const policyDecision = evaluateUploadPolicy(loadUploadPolicy(), {
+        fileName: fileData.filename,
+        fileSize: fileData.content.length,
+        declaredContentType: fileData.contentType,
+        detectedContentType: contentDetection.detected_content_type
+    });
+
+    if (!policyDecision.allowed) {
+        requestLogger.warn('File rejected by upload policy', {
             filename: fileData.filename,
-            size: fileData.content.length,
-            contentType: fileData.contentType
+            contentType: fileData.contentType,
+            detectedContentType: contentDetection.detected_content_type,
+            reason: policyDecision.reason
         });
+        return {
+            file_name: fileData.filename,
+            success: false,
+            status_code: policyDecision.status_code,
+            error: policyDecision.status_code === HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE ?
+                ERROR_MESSAGES.UNSUPPORTED_FILE_TYPE :
+                ERROR_MESSAGES.FILE_TOO_LARGE,
+            details: [policyDecision.reason!]
+        };
+    }
 
+    // Generate unique file ID and S3 key
+    const fileId = uuidv4();
+    const s3Key = `${S3_KEY_PATTERNS.UPLOAD_PREFIX}${fileId}/${fileData.filename}`;
+    const contentHash = computeContentHash(fileData.content);
+
+    if (dedupeMode !== DedupeMode.ALLOW) {
+        try {
+            const original = findOriginal(await findDuplicates(docClient, contentHash));
+
+            if (original && dedupeMode === DedupeMode.REJECT) {
+                requestLogger.info('Duplicate content rejected', { filename: fileData.filename, duplicateOf: original.file_id });
+                return {
+                    file_name: fileData.filename,
+                    success: false,
+                    status_code: HTTP_STATUS.CONFLICT,
+                    duplicate_of: original.file_id,
+                    error: ERROR_MESSAGES.DUPLICATE_FILE,
+                    details: [`${fileData.filename} has the same content as ${original.file_name} (${original.file_id})`]
+                };
+            }
+
+            // A linked record is never processed itself, so it can only copy a finished original;
+            // anything else is stored as a normal upload and processed on its own
+            if (original && original.status !== FileStatus.PROCESSED) {
+                requestLogger.info('Original not processed yet, storing duplicate content as a copy', {
+                    filename: fileData.filename,
+                    duplicateOf: original.file_id,
+                    originalStatus: original.status
+                });
+            } else if (original) {
+                const linked = await storeLinkedRecord(fileId, fileData, original, clientMetadata, contentDetection, contentHash);
+                requestLogger.info('Duplicate content linked to existing file', { fileId, duplicateOf: original.file_id });
+                await recordUsageChange(docClient, undefined, linked, requestLogger);
+                await indexLinkedRecord(linked, fileData, requestLogger);
+                return {
+                    file_name: fileData.filename,
+                    success: true,
+                    file_id: fileId,
+                    s3_key: original.s3_key,
+                    file_size: fileData.content.length,
+                    duplicate_of: original.file_id
+                };
+            }
+        } catch (error) {
+            requestLogger.error('Error checking for duplicate content', error as Error, { fileId });
+            return {
+                file_name: fileData.filename,
+                success: false,
+                status_code: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+                error: ERROR_MESSAGES.UPLOAD_FAILED,
+                details: [(error as Error).message]
+            };
+        }
+    }
+
+    requestLogger.info('Processing file upload', { 
+        fileId, 
+        filename: fileData.filename,
+        size: fileData.content.length,
+        contentType: fileData.contentType
+    });
+
+    try {
         // Store metadata in DynamoDB FIRST (before S3 upload)
         // This prevents race condition with Processing Lambda
-        await storeMetadataInDynamoDBWithRetry(fileId, fileData, s3Key, metadataValidation.cleanedMetadata, requestLogger);
+        const stored = await storeMetadataInDynamoDBWithRetry(fileId, fileData, s3Key, clientMetadata, contentDetection, contentHash, requestLogger);
         
         try {
             // Upload file to S3 (this will trigger Processing Lambda)
-            await uploadFileToS3(fileData, s3Key, fileId, requestLogger);
+            await uploadFileToS3(fileData, s3Key, fileId, contentHash, requestLogger);
+            await recordUsageChange(docClient, undefined, stored, requestLogger);
         } catch (s3Error) {
             // If S3 upload fails, clean up DynamoDB record
             requestLogger.error('S3 upload failed, cleaning up DynamoDB record', s3Error, { fileId });
@@ -102,37 +382,44 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
             }
             throw s3Error; // Re-throw original error
         }
-
-        requestLogger.info('File uploaded successfully', { fileId });
-
-        return createSuccessResponse<UploadResponse>({
-            file_id: fileId,
-            message: 'File uploaded successfully',
-            s3_key: s3Key,
-            file_name: fileData.filename,
-            file_size: fileData.content.length,
-            metadata_fields_stored: Object.keys(metadataValidation.cleanedMetadata).length
-        });
-
     } catch (error) {
-        requestLogger.error('Error uploading file', error as Error);
-        return createInternalError(error as Error);
+        requestLogger.error('Error uploading file', error as Error, { fileId });
+        return {
+            file_name: fileData.filename,
+            success: false,
+            status_code: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+            error: ERROR_MESSAGES.UPLOAD_FAILED,
+            details: [(error as Error).message]
+        };
     }
-};
+
+    requestLogger.info('File uploaded successfully', { fileId });
+
+    return {
+        file_name: fileData.filename,
+        success: true,
+        file_id: fileId,
+        s3_key: s3Key,
+        file_size: fileData.content.length
+    };
+}
 
 /**
  * Upload file to S3 bucket
  */
-async function uploadFileToS3(fileData: FileData, s3Key: string, fileId: string, logger: any): Promise<void> {
+async function uploadFileToS3(fileData: FileData, s3Key: string, fileId: string, contentHash: string, logger: any): Promise<void> {
     const uploadParams = {
         Bucket: process.env.S3_BUCKET_NAME!,
         Key: s3Key,
         Body: fileData.content,
         ContentType: fileData.contentType,
         Metadata: {
-            'original-name': fileData.filename,
+            // S3 user metadata must be ASCII
+            'original-name': encodeURIComponent(fileData.filename),
             'file-id': fileId,
-            'upload-timestamp': new Date().toISOString()
+            'upload-timestamp': new Date().toISOString(),
+            // Lets the processor skip re-reading the whole object to hash it
+            'content-sha256': contentHash
         }
     };
 
@@ -146,9 +433,11 @@ async function storeMetadataInDynamoDB(
     fileId: string, 
     fileData: FileData, 
     s3Key: string, 
-    clientMetadata: Record<string, string | number | boolean>
-): Promise<void> {
-    const dbItem = {
+    clientMetadata: Record<string, string | number | boolean>,
+    contentDetection: ContentTypeDetection,
+    contentHash: string
+): Promise<FileMetadata> {
+    const dbItem: FileMetadata = {
         file_id: fileId,
         file_name: fileData.filename,
         content_type: fileData.contentType,
@@ -156,51 +445,118 @@ async function storeMetadataInDynamoDB(
         upload_date: new Date().toISOString(),
         file_size: fileData.content.length,
         status: FileStatus.UPLOADED,
-        client_metadata: clientMetadata
+        client_metadata: clientMetadata,
+        content_hash: contentHash,
+        ...contentDetection
     };
 
     await docClient.send(new PutCommand({
         TableName: process.env.DYNAMODB_TABLE_NAME!,
         Item: dbItem
     }));
+
+    return dbItem;
 }
 
 /**
- * Parse multipart form data from API Gateway event
+ * Store a record that shares an existing file's S3 object instead of uploading it again
+ *
+ * The processor never sees a linked file, so its extracted metadata is copied from the original,
+ * which must already be processed.
  */
-async function parseMultipartData(event: APIGatewayProxyEvent): Promise<ParsedMultipartData> {
-    const contentType = event.headers['content-type'] || event.headers['Content-Type'] || '';
-    
-    if (!contentType.includes('multipart/form-data')) {
-        throw new Error('Content-Type must be multipart/form-data');
+async function storeLinkedRecord(
+    fileId: string,
+    fileData: FileData,
+    original: FileMetadata,
+    clientMetadata: Record<string, string | number | boolean>,
+    contentDetection: ContentTypeDetection,
+    contentHash: string
+): Promise<FileMetadata> {
+    const extractedFields = Object.fromEntries(
+        Object.entries(original).filter(([key]) => key.startsWith('extracted_') || key === 'processing_timestamp')
+    );
+
+    const dbItem: FileMetadata = {
+        ...extractedFields,
+        file_id: fileId,
+        file_name: fileData.filename,
+        content_type: fileData.contentType,
+        s3_key: original.s3_key,
+        upload_date: new Date().toISOString(),
+        file_size: fileData.content.length,
+        status: FileStatus.PROCESSED,
+        client_metadata: clientMetadata,
+        content_hash: contentHash,
+        duplicate_of: original.file_id,
+        ...contentDetection
+    };
+
+    await docClient.send(new PutCommand({
+        TableName: process.env.DYNAMODB_TABLE_NAME!,
+        Item: dbItem
+    }));
+
+    return dbItem;
+}
+
+/**
+ * Index a linked record for search, since the processor never sees it
+ */
+async function indexLinkedRecord(record: FileMetadata, fileData: FileData, logger: Logger): Promise<void> {
+    try {
+        const fileType = record.extracted_file_type;
+        const text = fileType && isTextSource(fileType) ? extractSearchText(fileType, fileData.content) : undefined;
+        await indexFile(docClient, record, text);
+    } catch (error) {
+        logger.error('Failed to index linked file for search', error as Error, { fileId: record.file_id });
     }
+}
+
+/**
+ * Compare the part's declared Content-Type with the type sniffed from its bytes
+ */
+function detectContentType(fileData: FileData): ContentTypeDetection {
+    const detectedType = detectFileType(fileData.content.subarray(0, SIGNATURE_SNIFF_BYTES));
+    const detection: ContentTypeDetection = {
+        declared_content_type: fileData.contentType,
+        content_type_mismatch: isContentTypeMismatch(fileData.contentType, detectedType)
+    };
 
-    // Extract boundary from content-type header
-    const boundaryMatch = contentType.match(/boundary=([^;]+)/);
-    if (!boundaryMatch) {
-        throw new Error('No boundary found in Content-Type header');
+    if (detectedType) {
+        detection.detected_content_type = detectedType.mime;
     }
-    
-    const boundary = boundaryMatch[1];
-    const body = event.isBase64Encoded ? 
-        Buffer.from(event.body!, 'base64') : 
-        Buffer.from(event.body!, 'utf8');
 
-    const parts = parseMultipartBody(body, boundary);
+    return detection;
+}
+
+/**
+ * Parse multipart form data from API Gateway event
+ */
+async function parseMultipartData(event: APIGatewayProxyEvent): Promise<ParsedMultipartData> {
+    const contentType = getHeader(event, 'content-type') || '';
+    const boundary = getMultipartBoundary(contentType);
+
+    const parts = parseMultipartBody(getRawBody(event), boundary, {
+        maxFileSize: FILE_SIZE_LIMITS.MAX_FILE_SIZE
+    });
     
-    let fileData: FileData | null = null;
+    const files: FileData[] = [];
     const metadata: Record<string, string | number | boolean> = {};
+    let dedupe: string | undefined;
 
     for (const part of parts) {
         console.log(`Processing part: name=${part.name}, filename=${part.filename}`);
         
-        if (part.name === 'file') {
-            fileData = {
+        if (FILE_PART_NAMES.includes(part.name)) {
+            const fileData: FileData = {
                 filename: part.filename || 'unnamed_file',
                 contentType: part.contentType || 'application/octet-stream',
                 content: part.data
             };
+            files.push(fileData);
             console.log(`File data created: filename=${fileData.filename}, contentType=${fileData.contentType}, size=${fileData.content.length}`);
+        } else if (part.name === DEDUPE_FIELD_NAME) {
+            dedupe = part.data.toString('utf8').trim().toLowerCase();
         } else if (part.name && part.data) {
             // All other fields are treated as metadata
             const value = part.data.toString('utf8').trim();
@@ -218,166 +574,7 @@ async function parseMultipartData(event: APIGatewayProxyEvent): Promise<ParsedMu
         }
     }
 
-    return { fileData, metadata };
-}
-
-/**
- * Parse multipart body into parts
- */
-function parseMultipartBody(body: Buffer, boundary: string): MultipartPart[] {
-    const parts: MultipartPart[] = [];
-    const boundaryBuffer = Buffer.from(`--${boundary}`);
-    const endBoundaryBuffer = Buffer.from(`--${boundary}--`);
-    
-    let start = 0;
-    let end = body.indexOf(boundaryBuffer, start);
-    
-    while (end !== -1) {
-        if (start > 0) {
-            const partData = body.slice(start, end);
-            const part = parseMultipartPart(partData);
-            if (part) {
-                parts.push(part);
-            }
-        }
-        
-        start = end + boundaryBuffer.length;
-        
-        // Check for end boundary
-        if (body.indexOf(endBoundaryBuffer, start) === start) {
-            break;
-        }
-        
-        end = body.indexOf(boundaryBuffer, start);
-    }
-    
-    return parts;
-}
-
-/**
- * Parse individual multipart part
- */
-function parseMultipartPart(partData: Buffer): MultipartPart | null {
-    const headerEndIndex = partData.indexOf('\r\n\r\n');
-    if (headerEndIndex === -1) {
-        return null;
-    }
-    
-    const headerSection = partData.slice(0, headerEndIndex).toString('utf8');
-    const dataSection = partData.slice(headerEndIndex + 4);
-    
-    // Remove trailing \r\n
-    const data = dataSection.slice(0, -2);
-    
-    console.log('Parsing multipart header:', headerSection);
-    
-    // Parse Content-Disposition header with multiple patterns for better compatibility
-    let name: string | undefined;
-    let filename: string | undefined;
-    
-    // Pattern 1: Standard quoted format
-    let dispositionMatch = headerSection.match(/Content-Disposition:\s*form-data;\s*name="([^"]+)"(?:;\s*filename="([^"]+)")?/i);
-    
-    if (dispositionMatch) {
-        name = dispositionMatch[1];
-        filename = dispositionMatch[2];
-    } else {
-        // Pattern 2: Unquoted format
-        dispositionMatch = headerSection.match(/Content-Disposition:\s*form-data;\s*name=([^;,\s]+)(?:;\s*filename=([^;,\s]+))?/i);
-        if (dispositionMatch) {
-            name = dispositionMatch[1].replace(/"/g, '');
-            filename = dispositionMatch[2] ? dispositionMatch[2].replace(/"/g, '') : undefined;
-        } else {
-            // Pattern 3: Mixed format (name quoted, filename unquoted or vice versa)
-            const nameMatch = headerSection.match(/name=(?:"([^"]+)"|([^;,\s]+))/i);
-            const filenameMatch = headerSection.match(/filename=(?:"([^"]+)"|([^;,\s]+))/i);
-            
-            if (nameMatch) {
-                name = nameMatch[1] || nameMatch[2];
-                if (filenameMatch) {
-                    filename = filenameMatch[1] || filenameMatch[2];
-                }
-            }
-        }
-    }
-    
-    if (!name) {
-        console.log('Could not parse name from Content-Disposition header');
-        return null;
-    }
-    
-    // Parse Content-Type header
-    const contentTypeMatch = headerSection.match(/Content-Type:\s*([^\r\n]+)/i);
-    const contentType = contentTypeMatch ? contentTypeMatch[1].trim() : undefined;
-    
-    console.log(`Parsed part - name: ${name}, filename: ${filename}, contentType: ${contentType}`);
-    
-    return {
-        name: name.trim(),
-        filename: filename ? filename.trim() : undefined,
-        contentType,
-        data
-    };
-}
-
-/**
- * Validates metadata object to ensure all values are strings, numbers, or booleans
- */
-function validateMetadata(metadata: Record<string, string | number | boolean>): ValidationResult {
-    const errors: string[] = [];
-    const cleanedMetadata: Record<string, string | number | boolean> = {};
-    
-    // Check if metadata is an object
-    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
-        return {
-            isValid: true, // Empty metadata is valid
-            errors: [],
-            cleanedMetadata: {}
-        };
-    }
-    
-    // Validate each field
-    for (const [key, value] of Object.entries(metadata)) {
-        // Check key format
-        if (typeof key !== 'string' || key.trim() === '') {
-            errors.push(`Invalid key: "${key}" - keys must be non-empty strings`);
-            continue;
-        }
-        
-        // Sanitize key (remove special characters except underscore, convert to lowercase)
-        const sanitizedKey = key.replace(/[^a-zA-Z0-9_]/g, '_').toLowerCase();
-        
-        // Check value type
-        if (typeof value === 'string') {
-            const trimmedValue = value.trim();
-            if (trimmedValue === '') {
-                errors.push(`Empty string value for key: "${key}"`);
-                continue;
-            }
-            cleanedMetadata[sanitizedKey] = trimmedValue;
-        } else if (typeof value === 'number') {
-            if (!isFinite(value)) {
-                errors.push(`Invalid number value for key: "${key}" - must be a finite number`);
-                continue;
-            }
-            cleanedMetadata[sanitizedKey] = value;
-        } else if (typeof value === 'boolean') {
-            cleanedMetadata[sanitizedKey] = value;
-        } else {
-            errors.push(`Invalid value type for key: "${key}" - must be string, number, or boolean`);
-        }
-    }
-    
-    // Check for too many fields
-    if (Object.keys(metadata).length > 50) {
-        errors.push('Too many metadata fields - maximum 50 allowed');
-    }
-    
-    return {
-        isValid: errors.length === 0,
-        errors: errors,
-        cleanedMetadata: cleanedMetadata
-    };
+    return { files, metadata, dedupe };
 }
 
 /**
@@ -388,15 +585,17 @@ async function storeMetadataInDynamoDBWithRetry(
     fileData: FileData, 
     s3Key: string, 
     metadata: Record<string, any>,
+    contentDetection: ContentTypeDetection,
+    contentHash: string,
     logger: any
-): Promise<void> {
+): Promise<FileMetadata> {
     const maxRetries = 3;
     const baseDelay = 1000; // 1 second
     
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    // The last attempt either returns or throws
+    for (let attempt = 1; ; attempt++) {
         try {
-            await storeMetadataInDynamoDB(fileId, fileData, s3Key, metadata);
-            return; // Success
+            return await storeMetadataInDynamoDB(fileId, fileData, s3Key, metadata, contentDetection, contentHash);
         } catch (error: any) {
             logger.warn(`DynamoDB write attempt ${attempt} failed`, error, { fileId });
             
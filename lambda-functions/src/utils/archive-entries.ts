@@ -0,0 +1,73 @@
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { batchWriteItems } from './batch-write';
+import { ArchiveEntry, ArchiveEntryRecord } from '../types';
+
+/**
+ * Store a file's archive listing, dropping whatever was listed for it before
+ */
+export async function replaceArchiveEntries(
+    docClient: DynamoDBDocumentClient,
+    fileId: string,
+    entries: ArchiveEntry[]
+): Promise<void> {
+    await removeArchiveEntries(docClient, fileId);
+
+    const puts = entries.map((entry, index) => {
+        const item: ArchiveEntryRecord = { file_id: fileId, entry_index: index, ...entry };
+        return { PutRequest: { Item: item } };
+    });
+    await batchWriteItems(docClient, process.env.ARCHIVE_ENTRIES_TABLE_NAME!, puts);
+}
+
+/**
+ * One page of a file's listed entries, in archive order
+ */
+export async function listArchiveEntries(
+    docClient: DynamoDBDocumentClient,
+    fileId: string,
+    limit: number,
+    afterIndex?: number
+): Promise<{ entries: ArchiveEntryRecord[]; hasMore: boolean }> {
+    // One extra entry tells whether another page follows
+    const result = await docClient.send(new QueryCommand({
+        TableName: process.env.ARCHIVE_ENTRIES_TABLE_NAME!,
+        KeyConditionExpression: afterIndex === undefined ?
+            'file_id = :file_id' :
+            'file_id = :file_id AND entry_index > :after_index',
+        ExpressionAttributeValues: {
+            ':file_id': fileId,
+            ...(afterIndex === undefined ? {} : { ':after_index': afterIndex })
+        },
+        Limit: limit + 1
+    }));
+
+    const items = (result.Items || []) as ArchiveEntryRecord[];
+    return {
+        entries: items.slice(0, limit),
+        hasMore: items.length > limit
+    };
+}
+
+/**
+ * Delete every listed entry for a file
+ */
+export async function removeArchiveEntries(docClient: DynamoDBDocumentClient, fileId: string): Promise<void> {
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const page = await docClient.send(new QueryCommand({
+            TableName: process.env.ARCHIVE_ENTRIES_TABLE_NAME!,
+            KeyConditionExpression: 'file_id = :file_id',
+            ExpressionAttributeValues: {
+                ':file_id': fileId
+            },
+            ProjectionExpression: 'file_id, entry_index',
+            ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        const deletes = (page.Items || []).map(key => ({ DeleteRequest: { Key: key } }));
+        await batchWriteItems(docClient, process.env.ARCHIVE_ENTRIES_TABLE_NAME!, deletes);
+
+        exclusiveStartKey = page.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+}
@@ -0,0 +1,529 @@
+import { createGunzip, Gunzip } from 'zlib';
+import { normalizeContentType } from './file-signature';
+import { createObjectReader } from './range-reader';
+import { readZipDirectory, readZipEntry, decodeZipName, LOCAL_HEADER_BYTES } from './zip-directory';
+import { ArchiveEntry, ArchiveMetadata, RangeReader, ARCHIVE_LIMITS } from '../types';
+
+/**
+ * What an archive holds: summary fields for the file record and the listed entries
+ */
+export interface ArchiveInspection {
+    metadata: ArchiveMetadata;
+    entries: ArchiveEntry[];
+}
+
+/**
+ * Consumes a TAR or gzip file chunk by chunk, inflating it on the way when compressed
+ */
+export interface ArchiveAnalyzer {
+    update(chunk: Buffer): Promise<void>;
+    finish(): Promise<ArchiveInspection | undefined>;
+}
+
+interface EntryCollector {
+    add(entry: ArchiveEntry): void;
+    finish(fileSize: number, result: { truncated: boolean; overlapping?: boolean; inflatedBytes?: number }): ArchiveInspection;
+}
+
+const TAR_BLOCK_BYTES = 512;
+// GNU long names and pax headers past this size are skipped rather than buffered
+const MAX_TAR_EXTENSION_BYTES = 64 * 1024;
+
+const GZIP_FLAGS = {
+    FEXTRA: 0x04,
+    FNAME: 0x08,
+} as const;
+
+const STREAMED_ARCHIVE_EXTENSIONS = ['tar', 'gz', 'tgz'];
+const STREAMED_ARCHIVE_TYPES = ['application/x-tar', 'application/gzip', 'application/x-gzip', 'application/x-compressed-tar'];
+
+/**
+ * Whether the file is declared as a TAR or gzip, which are listed while streaming
+ */
+export function isStreamedArchive(contentType: string, fileExtension: string): boolean {
+    return STREAMED_ARCHIVE_EXTENSIONS.includes(fileExtension) ||
+        STREAMED_ARCHIVE_TYPES.includes(normalizeContentType(contentType));
+}
+
+/**
+ * List a ZIP file's entries from its central directory
+ *
+ * Only the end of the file and the directory are read, so entry data is never
+ * inflated. Returns undefined when no end of central directory record is found.
+ */
+export async function inspectZip(head: Buffer, fileSize: number, readRange: RangeReader): Promise<ArchiveInspection | undefined> {
+    const reader = createObjectReader(head, fileSize, readRange);
+    const directory = await readZipDirectory(reader);
+    if (!directory) {
+        return undefined;
+    }
+
+    const collector = createEntryCollector();
+    const spans: Array<{ start: number; end: number }> = [];
+
+    for (const zipEntry of directory.entries) {
+        const entry: ArchiveEntry = {
+            path: zipEntry.path,
+            size: zipEntry.isDirectory ? 0 : zipEntry.size,
+            compressed_size: zipEntry.compressedSize,
+            is_directory: zipEntry.isDirectory
+        };
+        if (zipEntry.modified) {
+            entry.modified_date = zipEntry.modified.toISOString();
+        }
+
+        // A symbolic link's target is its data, normally stored uncompressed
+        if (zipEntry.isSymlink && zipEntry.method === 0) {
+            const target = await readZipEntry(reader, zipEntry, ARCHIVE_LIMITS.MAX_PATH_LENGTH).catch(() => undefined);
+            if (target && target.length > 0) {
+                entry.link_target = decodeZipName(target, false);
+            }
+        }
+        collector.add(entry);
+
+        spans.push({
+            start: zipEntry.localOffset,
+            end: zipEntry.localOffset + LOCAL_HEADER_BYTES + zipEntry.nameLength + zipEntry.compressedSize
+        });
+    }
+
+    return collector.finish(fileSize, {
+        truncated: directory.truncated,
+        overlapping: hasOverlappingSpans(spans)
+    });
+}
+
+/**
+ * Start listing a TAR, a gzip-compressed TAR or a single gzip-compressed file
+ *
+ * Compressed data is inflated up to MAX_INFLATED_BYTES; past that the listing is
+ * marked truncated and the rest of the stream is ignored. finish() returns undefined
+ * when the content turned out to be neither.
+ */
+export function createArchiveAnalyzer(fileName: string, fileSize: number): ArchiveAnalyzer {
+    const tar = createTarParser();
+    let mode: 'pending' | 'gzip' | 'tar' = 'pending';
+    let gunzip: Gunzip | undefined;
+    let gzipHeader = Buffer.alloc(0);
+    let inflatedBytes = 0;
+    let inflateFailed = false;
+    let capped = false;
+
+    const startGunzip = (): Gunzip => {
+        const stream = createGunzip();
+        stream.on('data', (data: Buffer) => {
+            if (capped) {
+                return;
+            }
+            const room = ARCHIVE_LIMITS.MAX_INFLATED_BYTES - inflatedBytes;
+            const accepted = data.length > room ? data.subarray(0, room) : data;
+            inflatedBytes += accepted.length;
+            tar.update(accepted);
+            if (data.length > room) {
+                capped = true;
+                stream.destroy();
+            }
+        });
+        stream.on('error', () => {
+            inflateFailed = true;
+        });
+        return stream;
+    };
+
+    const canWrite = (): boolean => !!gunzip && !capped && !inflateFailed && !gunzip.destroyed;
+
+    return {
+        async update(chunk: Buffer): Promise<void> {
+            if (mode === 'pending') {
+                mode = chunk.length >= 2 && chunk[0] === 0x1f && chunk[1] === 0x8b ? 'gzip' : 'tar';
+                if (mode === 'gzip') {
+                    gunzip = startGunzip();
+                }
+            }
+
+            if (mode === 'tar') {
+                tar.update(chunk);
+                return;
+            }
+
+            if (gzipHeader.length < TAR_BLOCK_BYTES) {
+                gzipHeader = Buffer.concat([gzipHeader, chunk.subarray(0, TAR_BLOCK_BYTES - gzipHeader.length)]);
+            }
+            if (canWrite()) {
+                // Waiting for each chunk to be inflated keeps memory flat however large the file
+                await new Promise<void>(resolve => gunzip!.write(chunk, () => resolve()));
+            }
+        },
+
+        async finish(): Promise<ArchiveInspection | undefined> {
+            if (mode === 'gzip' && canWrite()) {
+                await new Promise<void>(resolve => {
+                    gunzip!.once('end', resolve);
+                    gunzip!.once('error', () => resolve());
+                    gunzip!.once('close', () => resolve());
+                    gunzip!.end();
+                });
+            }
+
+            const truncated = capped || inflateFailed;
+            const collector = tar.finish();
+            if (collector) {
+                return collector.finish(fileSize, {
+                    truncated: truncated || tar.isIncomplete(),
+                    inflatedBytes: mode === 'gzip' ? inflatedBytes : undefined
+                });
+            }
+            if (mode !== 'gzip') {
+                return undefined;
+            }
+
+            // Plain gzip of a single file
+            const single = createEntryCollector();
+            const entry: ArchiveEntry = {
+                path: getGzipFileName(gzipHeader) || fileName.replace(/\.gz$/i, '') || fileName,
+                size: inflatedBytes,
+                is_directory: false
+            };
+            const mtime = gzipHeader.length >= 8 ? gzipHeader.readUInt32LE(4) : 0;
+            if (mtime > 0) {
+                entry.modified_date = new Date(mtime * 1000).toISOString();
+            }
+            single.add(entry);
+
+            return single.finish(fileSize, { truncated, inflatedBytes });
+        }
+    };
+}
+
+/**
+ * Overlapping or shared local entries are how non-recursive ZIP bombs reach their ratio
+ */
+function hasOverlappingSpans(spans: Array<{ start: number; end: number }>): boolean {
+    const sorted = [...spans].sort((a, b) => a.start - b.start);
+    for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].start < sorted[i - 1].end) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * The original file name a gzip header may carry
+ */
+function getGzipFileName(header: Buffer): string | undefined {
+    if (header.length < 10 || !(header[3] & GZIP_FLAGS.FNAME)) {
+        return undefined;
+    }
+
+    let position = 10;
+    if (header[3] & GZIP_FLAGS.FEXTRA) {
+        if (position + 2 > header.length) {
+            return undefined;
+        }
+        position += 2 + header.readUInt16LE(position);
+    }
+
+    const end = header.indexOf(0, position);
+    if (end < 0) {
+        return undefined;
+    }
+
+    // Keep only the base name; a stored path says nothing about where the file goes
+    const name = header.toString('latin1', position, end).split(/[\\/]/).pop();
+    return name || undefined;
+}
+
+/**
+ * Walk TAR headers as bytes arrive, skipping over entry data
+ *
+ * finish() hands back the collected entries, or undefined when the first block
+ * isn't a valid header.
+ */
+function createTarParser(): {
+    update(chunk: Buffer): void;
+    finish(): EntryCollector | undefined;
+    isIncomplete(): boolean;
+} {
+    const collector = createEntryCollector();
+    let block = Buffer.alloc(TAR_BLOCK_BYTES);
+    let blockLength = 0;
+    let state: 'header' | 'data' | 'done' | 'invalid' = 'header';
+    let headersSeen = 0;
+    let skipRemaining = 0;
+
+    // Extension entries (GNU long names, pax headers) whose data applies to the next entry
+    let extension: { type: string; data: Buffer[]; length: number; keep: boolean } | undefined;
+    let longName: string | undefined;
+    let longLink: string | undefined;
+    let pax: Record<string, string> = {};
+
+    const readHeader = (header: Buffer): void => {
+        if (header.every(byte => byte === 0)) {
+            // Two zero blocks end the archive; one is enough to stop looking
+            state = headersSeen > 0 ? 'done' : 'invalid';
+            return;
+        }
+        if (!hasValidChecksum(header)) {
+            state = 'invalid';
+            return;
+        }
+        headersSeen++;
+
+        const type = String.fromCharCode(header[156] || 0x30);
+        const size = readTarNumber(header.subarray(124, 136));
+
+        if (type === 'L' || type === 'K' || type === 'x' || type === 'g') {
+            extension = { type, data: [], length: 0, keep: size <= MAX_TAR_EXTENSION_BYTES };
+            startData(size);
+            return;
+        }
+
+        const magic = header.toString('latin1', 257, 262);
+        const prefix = magic === 'ustar' ? readTarString(header.subarray(345, 500)) : '';
+        const name = readTarString(header.subarray(0, 100));
+        const path = pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+        const linkTarget = pax.linkpath ?? longLink ?? readTarString(header.subarray(157, 257));
+        const entrySize = pax.size !== undefined ? Number(pax.size) : size;
+        const mtime = pax.mtime !== undefined ? Number(pax.mtime) : readTarNumber(header.subarray(136, 148));
+
+        const isDirectory = type === '5' || path.endsWith('/');
+        const isLink = type === '1' || type === '2';
+        const hasData = type === '0' || type === '7' || type === '\0';
+
+        const entry: ArchiveEntry = {
+            path,
+            size: hasData ? entrySize : 0,
+            is_directory: isDirectory
+        };
+        if (mtime > 0 && isFinite(mtime)) {
+            entry.modified_date = new Date(mtime * 1000).toISOString();
+        }
+        if (isLink && linkTarget) {
+            entry.link_target = linkTarget;
+        }
+        collector.add(entry);
+
+        longName = undefined;
+        longLink = undefined;
+        pax = {};
+
+        // Hard links, directories and devices record a size but store no data
+        startData(isLink || isDirectory ? 0 : entrySize);
+    };
+
+    const startData = (size: number): void => {
+        const padded = Math.ceil(size / TAR_BLOCK_BYTES) * TAR_BLOCK_BYTES;
+        skipRemaining = padded;
+        if (padded > 0) {
+            state = 'data';
+        } else {
+            endExtension();
+        }
+    };
+
+    const endExtension = (): void => {
+        if (!extension) {
+            return;
+        }
+        if (extension.keep) {
+            const text = readTarString(Buffer.concat(extension.data, extension.length));
+            if (extension.type === 'L') {
+                longName = text;
+            } else if (extension.type === 'K') {
+                longLink = text;
+            } else if (extension.type === 'x') {
+                pax = parsePaxRecords(Buffer.concat(extension.data, extension.length));
+            }
+        }
+        extension = undefined;
+    };
+
+    return {
+        update(chunk: Buffer): void {
+            let position = 0;
+
+            while (position < chunk.length && (state === 'header' || state === 'data')) {
+                if (state === 'data') {
+                    const take = Math.min(skipRemaining, chunk.length - position);
+                    if (extension?.keep) {
+                        extension.data.push(Buffer.from(chunk.subarray(position, position + take)));
+                        extension.length += take;
+                    }
+                    skipRemaining -= take;
+                    position += take;
+                    if (skipRemaining === 0) {
+                        state = 'header';
+                        endExtension();
+                    }
+                    continue;
+                }
+
+                const take = Math.min(TAR_BLOCK_BYTES - blockLength, chunk.length - position);
+                chunk.copy(block, blockLength, position, position + take);
+                blockLength += take;
+                position += take;
+
+                if (blockLength === TAR_BLOCK_BYTES) {
+                    blockLength = 0;
+                    readHeader(block);
+                    block = Buffer.alloc(TAR_BLOCK_BYTES);
+                }
+            }
+        },
+
+        finish(): EntryCollector | undefined {
+            return headersSeen > 0 ? collector : undefined;
+        },
+
+        // Ended mid-entry or on a corrupt header rather than at the end-of-archive marker
+        isIncomplete(): boolean {
+            return state !== 'done';
+        }
+    };
+}
+
+function hasValidChecksum(header: Buffer): boolean {
+    const recorded = readTarNumber(header.subarray(148, 156));
+    let sum = 0;
+    for (let i = 0; i < TAR_BLOCK_BYTES; i++) {
+        sum += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+    return sum === recorded;
+}
+
+/**
+ * Octal, or big-endian base-256 when the high bit of the first byte is set (GNU, for large sizes)
+ */
+function readTarNumber(field: Buffer): number {
+    if (field[0] & 0x80) {
+        let value = field[0] & 0x7f;
+        for (let i = 1; i < field.length; i++) {
+            value = value * 256 + field[i];
+        }
+        return value;
+    }
+
+    const text = field.toString('latin1').replace(/\0.*$/s, '').trim();
+    return text ? parseInt(text, 8) || 0 : 0;
+}
+
+function readTarString(field: Buffer): string {
+    const end = field.indexOf(0);
+    return field.toString('utf8', 0, end < 0 ? field.length : end);
+}
+
+/**
+ * Pax extended headers are "<length> <key>=<value>\n" records
+ */
+function parsePaxRecords(data: Buffer): Record<string, string> {
+    const records: Record<string, string> = {};
+    let position = 0;
+
+    while (position < data.length) {
+        const space = data.indexOf(0x20, position);
+        if (space < 0) {
+            break;
+        }
+        const length = parseInt(data.toString('latin1', position, space), 10);
+        if (!length || position + length > data.length) {
+            break;
+        }
+
+        const record = data.toString('utf8', space + 1, position + length - 1);
+        const equals = record.indexOf('=');
+        if (equals > 0) {
+            records[record.slice(0, equals)] = record.slice(equals + 1);
+        }
+        position += length;
+    }
+
+    return records;
+}
+
+/**
+ * Tally entries as they are found, keeping the first MAX_LISTED_ENTRIES for the listing
+ */
+function createEntryCollector(): EntryCollector {
+    const entries: ArchiveEntry[] = [];
+    const topLevel = new Set<string>();
+    let count = 0;
+    let uncompressedSize = 0;
+    let pathTraversal = false;
+
+    return {
+        add(entry: ArchiveEntry): void {
+            count++;
+            uncompressedSize += entry.is_directory ? 0 : entry.size;
+
+            if (isTraversalPath(entry.path) || (entry.link_target !== undefined && escapesRoot(entry.path, entry.link_target))) {
+                pathTraversal = true;
+            }
+
+            const segments = entry.path.split(/[\\/]/).filter(segment => segment && segment !== '.');
+            if (segments.length > 0 && topLevel.size < ARCHIVE_LIMITS.MAX_TOP_LEVEL_ENTRIES) {
+                topLevel.add(segments.length > 1 || entry.is_directory ? `${segments[0]}/` : segments[0]);
+            }
+
+            if (entries.length < ARCHIVE_LIMITS.MAX_LISTED_ENTRIES) {
+                entries.push(entry.path.length > ARCHIVE_LIMITS.MAX_PATH_LENGTH ?
+                    { ...entry, path: entry.path.slice(0, ARCHIVE_LIMITS.MAX_PATH_LENGTH) } :
+                    entry);
+            }
+        },
+
+        finish(fileSize, result): ArchiveInspection {
+            const truncated = result.truncated || count > entries.length;
+
+            // Listed sizes are claims; what was actually inflated is the better measure when known
+            const expandedSize = Math.max(uncompressedSize, result.inflatedBytes ?? 0);
+            const ratio = fileSize > 0 ? expandedSize / fileSize : 0;
+
+            const metadata: ArchiveMetadata = {
+                archive_entry_count: count,
+                archive_top_level_entries: [...topLevel],
+                archive_suspected_bomb: !!result.overlapping ||
+                    (expandedSize >= ARCHIVE_LIMITS.BOMB_MIN_UNCOMPRESSED_BYTES && ratio > ARCHIVE_LIMITS.BOMB_RATIO),
+                archive_path_traversal: pathTraversal,
+                archive_listing_truncated: truncated
+            };
+            if (!result.truncated) {
+                metadata.archive_uncompressed_size = uncompressedSize;
+                if (fileSize > 0) {
+                    metadata.archive_compression_ratio = Math.round(uncompressedSize / fileSize * 100) / 100;
+                }
+            }
+
+            return { metadata, entries };
+        }
+    };
+}
+
+/**
+ * Absolute paths, drive letters and .. segments can all write outside the extraction directory
+ */
+function isTraversalPath(path: string): boolean {
+    return /^[\\/]/.test(path) || /^[A-Za-z]:/.test(path) || path.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Whether a link, resolved from the directory holding it, points outside the archive root
+ */
+function escapesRoot(path: string, target: string): boolean {
+    if (/^[\\/]/.test(target) || /^[A-Za-z]:/.test(target)) {
+        return true;
+    }
+
+    let depth = path.split(/[\\/]/).filter(segment => segment && segment !== '.').length - 1;
+    for (const segment of target.split(/[\\/]/)) {
+        if (segment === '..') {
+            depth--;
+            if (depth < 0) {
+                return true;
+            }
+        } else if (segment && segment !== '.') {
+            depth++;
+        }
+    }
+    return false;
+}
@@ -0,0 +1,36 @@
+import { DynamoDBDocumentClient, BatchWriteCommand, BatchWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+
+const BATCH_WRITE_SIZE = 25;
+const BATCH_WRITE_ATTEMPTS = 5;
+
+// A PutRequest or DeleteRequest with plain JavaScript values, as the document client takes them
+export type WriteRequest = NonNullable<BatchWriteCommandInput['RequestItems']>[string][number];
+
+/**
+ * Send put/delete requests in batches of 25, retrying unprocessed items with backoff
+ */
+export async function batchWriteItems(
+    docClient: DynamoDBDocumentClient,
+    tableName: string,
+    requests: WriteRequest[]
+): Promise<void> {
+    for (let start = 0; start < requests.length; start += BATCH_WRITE_SIZE) {
+        let pending = requests.slice(start, start + BATCH_WRITE_SIZE);
+
+        for (let attempt = 0; pending.length > 0; attempt++) {
+            if (attempt >= BATCH_WRITE_ATTEMPTS) {
+                throw new Error(`Batch write to ${tableName} left ${pending.length} requests unprocessed`);
+            }
+            if (attempt > 0) {
+                await new Promise(resolve => setTimeout(resolve, 50 * 2 ** attempt));
+            }
+
+            const result = await docClient.send(new BatchWriteCommand({
+                RequestItems: {
+                    [tableName]: pending
+                }
+            }));
+            pending = result.UnprocessedItems?.[tableName] || [];
+        }
+    }
+}
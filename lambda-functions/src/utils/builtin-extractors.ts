@@ -0,0 +1,96 @@
+import { extractImageMetadata } from './image-metadata';
+import { extractPdfMetadata } from './pdf-metadata';
+import { extractMediaMetadata } from './media-metadata';
+import { extractOfficeMetadata } from './office-metadata';
+import { isOfficeOpenXml, normalizeContentType } from './file-signature';
+import {
+  ExtractedFileType,
+  ExtractedMetadata,
+  MetadataExtractor
+} from '../types';
+
+type BuiltInExtractor = MetadataExtractor<Partial<ExtractedMetadata>>;
+
+const imageExtractor: BuiltInExtractor = {
+    name: 'image',
+    version: 1,
+    matches: context => context.fileType === ExtractedFileType.IMAGE,
+    extract: async (_stream, context) => {
+        const mime = context.detectedContentType ||
+            (context.fileExtension === 'svg' ? 'image/svg+xml' : normalizeContentType(context.declaredContentType));
+        return extractImageMetadata(context.header, mime);
+    }
+};
+
+const pdfExtractor: BuiltInExtractor = {
+    name: 'pdf',
+    version: 1,
+    matches: context => context.fileType === ExtractedFileType.PDF,
+    extract: async (_stream, context) => {
+        const metadata = await extractPdfMetadata(context.header, context.fileSize, context.readRange);
+
+        // Kept for older clients; only a size-based guess when the page tree couldn't be read
+        return {
+            ...metadata,
+            estimated_pages: metadata.page_count ?? Math.max(1, Math.ceil(context.fileSize / 50000))
+        };
+    }
+};
+
+const textExtractor: BuiltInExtractor = {
+    name: 'text',
+    version: 1,
+    matches: context => context.fileType === ExtractedFileType.TEXT,
+    extract: async (_stream, context) => {
+        // Only text the client declared as such was read in full
+        const metadata: Partial<ExtractedMetadata> = { ...context.textMetadata };
+
+        // Kept for older clients; only a size-based guess when the lines weren't counted
+        if (context.fileSize > 0) {
+            metadata.estimated_lines = metadata.line_count ?? Math.max(1, Math.ceil(context.fileSize / 50));
+        }
+        return metadata;
+    }
+};
+
+const mediaExtractor: BuiltInExtractor = {
+    name: 'media',
+    version: 1,
+    matches: context => context.fileType === ExtractedFileType.AUDIO || context.fileType === ExtractedFileType.VIDEO,
+    extract: async (_stream, context) => {
+        const mime = context.detectedContentType || normalizeContentType(context.declaredContentType);
+        return extractMediaMetadata(context.header, context.fileSize, mime, context.readRange);
+    }
+};
+
+// Only the ZIP-based formats are read; legacy OLE2 .doc/.xls/.ppt are left as classified
+const officeExtractor: BuiltInExtractor = {
+    name: 'office',
+    version: 1,
+    matches: context => context.fileType === ExtractedFileType.DOCUMENT &&
+        !!context.detectedContentType && isOfficeOpenXml(context.detectedContentType),
+    extract: async (_stream, context) =>
+        extractOfficeMetadata(context.header, context.fileSize, context.fileExtension, context.readRange)
+};
+
+// The listing itself was read while the object streamed by, or from the ZIP directory
+const archiveExtractor: BuiltInExtractor = {
+    name: 'archive',
+    version: 1,
+    matches: context => context.fileType === ExtractedFileType.ARCHIVE && !!context.archiveMetadata,
+    extract: async (_stream, context) => ({ ...context.archiveMetadata })
+};
+
+/**
+ * Extractors for the formats the service understands out of the box
+ *
+ * Their fields are stored as the top-level extracted_* attributes clients already read.
+ */
+export const BUILT_IN_EXTRACTORS: BuiltInExtractor[] = [
+    imageExtractor,
+    pdfExtractor,
+    textExtractor,
+    mediaExtractor,
+    officeExtractor,
+    archiveExtractor
+];
@@ -0,0 +1,21 @@
+import { DownloadDisposition } from '../types';
+
+/**
+ * Build a Content-Disposition header carrying the original file name (RFC 6266)
+ *
+ * Non-ASCII names go in `filename*`; `filename` gets an ASCII fallback for older clients.
+ */
+export function buildContentDisposition(disposition: DownloadDisposition, fileName: string): string {
+    const fallback = fileName
+        .normalize('NFKD')
+        .replace(/[^\x20-\x7e]/g, '')
+        .replace(/["\\]/g, '_')
+        .trim() || 'download';
+
+    return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeRfc5987(fileName)}`;
+}
+
+function encodeRfc5987(value: string): string {
+    return encodeURIComponent(value)
+        .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { FileMetadata, FileStatus, DYNAMODB_ATTRIBUTES } from '../types';
+
+// Records in these states hold content that is (or is about to be) stored
+const STORED_STATUSES: string[] = [FileStatus.UPLOADED, FileStatus.PROCESSING, FileStatus.PROCESSED];
+
+/**
+ * SHA-256 of a buffer as lowercase hex
+ */
+export function computeContentHash(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Read the leading bytes of a stream, optionally hashing the whole stream on the way
+ *
+ * Every chunk is also handed to onChunk when one is given, and the next chunk waits
+ * until onChunk settles. When neither a hash nor onChunk needs the rest, the stream
+ * is abandoned as soon as the header is read.
+ */
+export async function readStreamHeader(
+    stream: Readable,
+    headerBytes: number,
+    computeHash: boolean,
+    onChunk?: (chunk: Buffer) => void | Promise<void>
+): Promise<{ header: Buffer; contentHash?: string }> {
+    const hash = computeHash ? createHash('sha256') : undefined;
+    const headerChunks: Buffer[] = [];
+    let headerLength = 0;
+
+    for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+
+        if (headerLength < headerBytes) {
+            const needed = buffer.subarray(0, headerBytes - headerLength);
+            headerChunks.push(needed);
+            headerLength += needed.length;
+        }
+
+        await onChunk?.(buffer);
+
+        if (hash) {
+            hash.update(buffer);
+        } else if (!onChunk && headerLength >= headerBytes) {
+            stream.destroy();
+            break;
+        }
+    }
+
+    return {
+        header: Buffer.concat(headerChunks, headerLength),
+        contentHash: hash?.digest('hex')
+    };
+}
+
+/**
+ * Find stored files with the given content hash, oldest first
+ */
+export async function findDuplicates(
+    docClient: DynamoDBDocumentClient,
+    contentHash: string,
+    excludeFileId?: string
+): Promise<FileMetadata[]> {
+    const records = await findRecordsByContentHash(docClient, contentHash);
+    return records.filter(item => item.file_id !== excludeFileId && STORED_STATUSES.includes(item.status));
+}
+
+/**
+ * Find every record with the given content hash in any status, oldest first
+ */
+export async function findRecordsByContentHash(
+    docClient: DynamoDBDocumentClient,
+    contentHash: string
+): Promise<FileMetadata[]> {
+    const records: FileMetadata[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const result = await docClient.send(new QueryCommand({
+            TableName: process.env.DYNAMODB_TABLE_NAME!,
+            IndexName: DYNAMODB_ATTRIBUTES.GSI_CONTENT_HASH,
+            KeyConditionExpression: 'content_hash = :content_hash',
+            ExpressionAttributeValues: {
+                ':content_hash': contentHash
+            },
+            ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        records.push(...(result.Items || []) as FileMetadata[]);
+        exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return records;
+}
+
+/**
+ * Whether another record points at the same S3 object, as records linked by dedupe do
+ */
+export async function isObjectShared(docClient: DynamoDBDocumentClient, record: FileMetadata): Promise<boolean> {
+    if (!record.content_hash) {
+        return false;
+    }
+
+    const sharers = await findRecordsByContentHash(docClient, record.content_hash);
+    return sharers.some(other => other.file_id !== record.file_id && other.s3_key === record.s3_key);
+}
+
+/**
+ * Pick the record that owns the stored object; linked records point at it
+ */
+export function findOriginal(duplicates: FileMetadata[]): FileMetadata | undefined {
+    return duplicates.find(item => !item.duplicate_of) || duplicates[0];
+}
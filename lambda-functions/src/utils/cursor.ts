@@ -0,0 +1,110 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { computePayloadHash } from './idempotency';
+
+// Bump when the payload layout changes so old cursors are rejected cleanly
+const CURSOR_VERSION = 1;
+
+const secretsClient = new SecretsManagerClient({ region: process.env.AWS_REGION });
+
+// Read once per container; a failed read is tried again on the next request
+let signingKey: Promise<string> | undefined;
+
+/**
+ * A pagination cursor that was forged, corrupted, or reused with different parameters
+ */
+export class CursorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CursorError';
+    }
+}
+
+interface CursorPayload<T> {
+    v: number;      // Format version
+    s: string;      // Endpoint the cursor belongs to
+    q: unknown;     // Filters and sort the cursor was issued for
+    p: T;           // Position of the last item returned
+}
+
+/**
+ * Wrap a list position in an opaque, signed cursor
+ *
+ * The cursor is `<payload>.<signature>`, both base64url. `query` should hold every
+ * parameter that shapes the result set so the cursor can't be replayed against another.
+ */
+export async function encodeCursor<T>(scope: string, query: unknown, position: T): Promise<string> {
+    const payload: CursorPayload<T> = { v: CURSOR_VERSION, s: scope, q: query, p: position };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return `${encoded}.${await sign(encoded)}`;
+}
+
+/**
+ * Verify a cursor and return the position it carries
+ *
+ * Rejects with CursorError if the signature, version, endpoint, or query doesn't match.
+ */
+export async function decodeCursor<T>(cursor: string, scope: string, query: unknown): Promise<T> {
+    const [encoded, signature, ...rest] = cursor.split('.');
+
+    if (!encoded || !signature || rest.length > 0) {
+        throw new CursorError('cursor is malformed');
+    }
+
+    const expected = Buffer.from(await sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new CursorError('cursor signature is invalid');
+    }
+
+    let payload: CursorPayload<T>;
+    try {
+        payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+        throw new CursorError('cursor is malformed');
+    }
+
+    if (payload.v !== CURSOR_VERSION) {
+        throw new CursorError('cursor was issued by an older version of the API; start again from the first page');
+    }
+
+    if (payload.s !== scope) {
+        throw new CursorError('cursor belongs to a different endpoint');
+    }
+
+    if (computePayloadHash(payload.q) !== computePayloadHash(query)) {
+        throw new CursorError('cursor was issued for different filters or sort; start again from the first page');
+    }
+
+    return payload.p;
+}
+
+async function sign(encodedPayload: string): Promise<string> {
+    const key = await getSigningKey();
+    return createHmac('sha256', key).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * The HMAC key, read from Secrets Manager so it never sits in the function's configuration
+ */
+function getSigningKey(): Promise<string> {
+    if (!signingKey) {
+        const secretArn = process.env.CURSOR_SIGNING_SECRET_ARN;
+        if (!secretArn) {
+            return Promise.reject(new Error('CURSOR_SIGNING_SECRET_ARN is not configured'));
+        }
+
+        signingKey = secretsClient.send(new GetSecretValueCommand({ SecretId: secretArn })).then(result => {
+            if (!result.SecretString) {
+                throw new Error('Cursor signing secret has no value');
+            }
+            return result.SecretString;
+        });
+        signingKey.catch(() => {
+            signingKey = undefined;
+        });
+    }
+
+    return signingKey;
+}
@@ -0,0 +1,128 @@
+import { Readable } from 'stream';
+import { registerExtractor, runExtractors } from './extractor-registry';
+import { Logger } from './logger';
+import {
+  ExtractedCategory,
+  ExtractedFileType,
+  ExtractorContext,
+  ExtractorStatus,
+  RangeReader
+} from '../types';
+
+const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+// Built-in extractors don't match unknown files, so only those registered here run
+function createContext(fileName: string, readRange: RangeReader): Omit<ExtractorContext, 'signal'> {
+    return {
+        fileName,
+        fileExtension: 'bin',
+        fileSize: 1024,
+        declaredContentType: 'application/octet-stream',
+        fileType: ExtractedFileType.UNKNOWN,
+        category: ExtractedCategory.OTHER,
+        header: Buffer.alloc(0),
+        readRange
+    };
+}
+
+describe('runExtractors', () => {
+    it('records a throwing extractor as failed and runs the rest', async () => {
+        registerExtractor({
+            name: 'broken',
+            version: 1,
+            priority: 1,
+            matches: context => context.fileName === 'broken.bin',
+            extract: async () => {
+                throw new Error('cannot parse');
+            }
+        });
+        registerExtractor({
+            name: 'after-broken',
+            version: 3,
+            matches: context => context.fileName === 'broken.bin',
+            extract: async () => ({ pages: 2 })
+        });
+
+        const outcome = await runExtractors(createContext('broken.bin', jest.fn()), jest.fn(), () => false, logger);
+
+        expect(outcome.results['broken']).toMatchObject({ status: ExtractorStatus.FAILED, version: 1, error: 'cannot parse' });
+        expect(outcome.results['after-broken']).toMatchObject({ status: ExtractorStatus.SUCCEEDED, version: 3, fields: { pages: 2 } });
+    });
+
+    it('keeps each extractor\'s fields under its own name', async () => {
+        registerExtractor({
+            name: 'first-title',
+            version: 1,
+            matches: context => context.fileName === 'titled.bin',
+            extract: async () => ({ title: 'from first' })
+        });
+        registerExtractor({
+            name: 'second-title',
+            version: 1,
+            matches: context => context.fileName === 'titled.bin',
+            extract: async () => ({ title: 'from second' })
+        });
+
+        const outcome = await runExtractors(createContext('titled.bin', jest.fn()), jest.fn(), () => false, logger);
+
+        expect(outcome.results['first-title'].fields).toEqual({ title: 'from first' });
+        expect(outcome.results['second-title'].fields).toEqual({ title: 'from second' });
+        expect(outcome.fields).toEqual({});
+    });
+
+    it('cancels the reads of an extractor that runs out of time', async () => {
+        const signals: Array<AbortSignal | undefined> = [];
+        const readRange: RangeReader = (_offset, length, signal) => {
+            signals.push(signal);
+            return new Promise(resolve => setTimeout(() => resolve(Buffer.alloc(length)), 20));
+        };
+
+        let reads = 0;
+        registerExtractor({
+            name: 'slow-reader',
+            version: 1,
+            timeoutMs: 50,
+            matches: context => context.fileName === 'slow.bin',
+            extract: async (_stream, context) => {
+                for (;;) {
+                    await context.readRange(reads * 16, 16);
+                    reads++;
+                }
+            }
+        });
+
+        const outcome = await runExtractors(createContext('slow.bin', readRange), jest.fn(), () => false, logger);
+        const readsAtTimeout = reads;
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(outcome.results['slow-reader'].status).toBe(ExtractorStatus.TIMED_OUT);
+        expect(signals.every(signal => signal?.aborted)).toBe(true);
+        expect(reads).toBeLessThanOrEqual(readsAtTimeout + 1);
+    });
+
+    it('cancels the stream of an extractor that runs out of time', async () => {
+        let streamSignal: AbortSignal | undefined;
+        const openStream = async (signal?: AbortSignal): Promise<Readable> => {
+            streamSignal = signal;
+            return new Readable({ read() { /* never produces data */ } });
+        };
+
+        registerExtractor({
+            name: 'slow-stream',
+            version: 1,
+            timeoutMs: 50,
+            matches: context => context.fileName === 'stream.bin',
+            extract: async stream => {
+                for await (const _chunk of stream) {
+                    // Consumes nothing; the stream never ends on its own
+                }
+                return {};
+            }
+        });
+
+        const outcome = await runExtractors(createContext('stream.bin', jest.fn()), openStream, () => false, logger);
+
+        expect(outcome.results['slow-stream'].status).toBe(ExtractorStatus.TIMED_OUT);
+        expect(streamSignal?.aborted).toBe(true);
+    });
+});
@@ -0,0 +1,209 @@
+import { Readable } from 'stream';
+import { Logger } from './logger';
+import { BUILT_IN_EXTRACTORS } from './builtin-extractors';
+import { CUSTOM_EXTRACTORS } from '../extractors';
+import {
+  ExtractedMetadata,
+  ExtractorContext,
+  ExtractorResult,
+  ExtractorStatus,
+  MetadataExtractor,
+  EXTRACTOR_LIMITS
+} from '../types';
+
+// Names become attribute map keys, so they stay short and plain
+const EXTRACTOR_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,63}$/;
+
+interface RegisteredExtractor {
+    extractor: MetadataExtractor;
+    // Fields go to the top-level extracted_* attributes rather than the extractor's namespace
+    builtIn: boolean;
+}
+
+export interface ExtractionOutcome {
+    fields: Partial<ExtractedMetadata>;
+    results: Record<string, ExtractorResult>;
+}
+
+/**
+ * An extractor that is misconfigured; raised when it is registered, not when it runs
+ */
+export class ExtractorRegistrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExtractorRegistrationError';
+    }
+}
+
+const registry: RegisteredExtractor[] = [];
+
+/**
+ * Add an extractor for every file processed from now on
+ *
+ * Extractors listed in src/extractors are registered when this module loads.
+ */
+export function registerExtractor(extractor: MetadataExtractor): void {
+    addExtractor(extractor, false);
+}
+
+/**
+ * Run every extractor that matches the file, each on its own
+ *
+ * An extractor that throws or runs past its timeout is recorded as failed and the
+ * others carry on. Errors `isObjectError` accepts are about the object itself, which
+ * every extractor would hit too, so they are rethrown to fail the file.
+ */
+export async function runExtractors(
+    context: Omit<ExtractorContext, 'signal'>,
+    openStream: (signal?: AbortSignal) => Promise<Readable>,
+    isObjectError: (error: Error) => boolean,
+    logger: Logger
+): Promise<ExtractionOutcome> {
+    const outcome: ExtractionOutcome = { fields: {}, results: {} };
+
+    // Sorting a copy keeps registration order among equal priorities
+    const ordered = [...registry].sort((a, b) => (b.extractor.priority ?? 0) - (a.extractor.priority ?? 0));
+
+    for (const { extractor, builtIn } of ordered) {
+        const controller = new AbortController();
+        const extractorContext: ExtractorContext = {
+            ...context,
+            // Parsers read through this, so their loops stop at the next read once time runs out
+            readRange: async (offset, length) => {
+                controller.signal.throwIfAborted();
+                return context.readRange(offset, length, controller.signal);
+            },
+            signal: controller.signal
+        };
+        const started = Date.now();
+
+        let matched: boolean;
+        try {
+            matched = extractor.matches(extractorContext);
+        } catch (error) {
+            logger.warn('Extractor match check failed', { extractor: extractor.name, error: (error as Error).message });
+            matched = false;
+        }
+        if (!matched) {
+            continue;
+        }
+
+        const result: ExtractorResult = {
+            status: ExtractorStatus.SUCCEEDED,
+            version: extractor.version,
+            duration_ms: 0
+        };
+        const stream = createLazyStream(openStream, controller.signal);
+
+        try {
+            const fields = await runWithTimeout(
+                extractor.extract(stream, extractorContext),
+                extractor.timeoutMs ?? EXTRACTOR_LIMITS.DEFAULT_TIMEOUT_MS,
+                controller
+            );
+
+            if (builtIn) {
+                // Fields already set by a higher-priority extractor are kept
+                for (const [key, value] of Object.entries(fields)) {
+                    const field = key as keyof ExtractedMetadata;
+                    if (value !== undefined && outcome.fields[field] === undefined) {
+                        (outcome.fields as Record<string, unknown>)[field] = value;
+                    }
+                }
+            } else {
+                result.fields = toStorableFields(fields);
+            }
+        } catch (error) {
+            if (!controller.signal.aborted && isObjectError(error as Error)) {
+                throw error;
+            }
+            result.status = controller.signal.aborted ? ExtractorStatus.TIMED_OUT : ExtractorStatus.FAILED;
+            result.error = ((error as Error).message || String(error)).slice(0, EXTRACTOR_LIMITS.MAX_ERROR_LENGTH);
+            logger.warn('Extractor did not complete', { extractor: extractor.name, status: result.status, error: result.error });
+        } finally {
+            stream.destroy();
+        }
+
+        result.duration_ms = Date.now() - started;
+        outcome.results[extractor.name] = result;
+    }
+
+    return outcome;
+}
+
+function addExtractor(extractor: MetadataExtractor, builtIn: boolean): void {
+    if (!EXTRACTOR_NAME_PATTERN.test(extractor.name)) {
+        throw new ExtractorRegistrationError(
+            `Extractor name "${extractor.name}" must be lowercase letters, digits, - or _, starting with a letter`
+        );
+    }
+    if (registry.some(entry => entry.extractor.name === extractor.name)) {
+        throw new ExtractorRegistrationError(`An extractor named "${extractor.name}" is already registered`);
+    }
+    if (!Number.isInteger(extractor.version) || extractor.version < 1) {
+        throw new ExtractorRegistrationError(`Extractor "${extractor.name}" must have a positive integer version`);
+    }
+    if (extractor.timeoutMs !== undefined && !(extractor.timeoutMs > 0)) {
+        throw new ExtractorRegistrationError(`Extractor "${extractor.name}" must have a positive timeout`);
+    }
+
+    registry.push({ extractor, builtIn });
+}
+
+/**
+ * Settle with the extractor's result, or reject once the timeout passes
+ *
+ * A timed-out extractor can't be stopped, only told through its abort signal, so its
+ * eventual outcome is ignored.
+ */
+async function runWithTimeout<T>(running: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> {
+    running.catch(() => undefined);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error(`Timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+    });
+
+    try {
+        return await Promise.race([running, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * A stream over the whole object that only sends the GET when first read
+ *
+ * Aborting the signal cancels the GET and errors the stream at its next chunk.
+ */
+function createLazyStream(openStream: (signal?: AbortSignal) => Promise<Readable>, signal: AbortSignal): Readable {
+    return Readable.from((async function* () {
+        signal.throwIfAborted();
+        const body = await openStream(signal);
+        try {
+            for await (const chunk of body) {
+                signal.throwIfAborted();
+                yield chunk as Buffer;
+            }
+        } finally {
+            body.destroy();
+        }
+    })(), { objectMode: false });
+}
+
+/**
+ * Fields as DynamoDB can store them: JSON values only, and no larger than the limit
+ */
+function toStorableFields(fields: object): Record<string, any> {
+    const serialized = JSON.stringify(fields ?? {});
+    if (Buffer.byteLength(serialized) > EXTRACTOR_LIMITS.MAX_RESULT_BYTES) {
+        throw new Error(`Result is larger than ${EXTRACTOR_LIMITS.MAX_RESULT_BYTES} bytes`);
+    }
+    return JSON.parse(serialized);
+}
+
+BUILT_IN_EXTRACTORS.forEach(extractor => addExtractor(extractor, true));
+CUSTOM_EXTRACTORS.forEach(extractor => addExtractor(extractor, false));
@@ -0,0 +1,46 @@
+import { detectFileType } from './file-signature';
+
+/**
+ * A ZIP's local file headers and data, with every entry stored uncompressed
+ */
+function zipOf(entries: Array<[string, string]>): Buffer {
+    return Buffer.concat(entries.map(([name, content]) => {
+        const nameBytes = Buffer.from(name, 'utf8');
+        const data = Buffer.from(content, 'utf8');
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt32LE(data.length, 18);
+        header.writeUInt32LE(data.length, 22);
+        header.writeUInt16LE(nameBytes.length, 26);
+        return Buffer.concat([header, nameBytes, data]);
+    }));
+}
+
+describe('detectFileType for ZIP containers', () => {
+    it('recognises Office Open XML from its top-level folders', () => {
+        const docx = zipOf([['[Content_Types].xml', '<Types/>'], ['_rels/.rels', '<Relationships/>'], ['word/document.xml', '<w:document/>']]);
+        const xlsx = zipOf([['[Content_Types].xml', '<Types/>'], ['xl/workbook.xml', '<workbook/>']]);
+
+        expect(detectFileType(docx)?.extension).toBe('docx');
+        expect(detectFileType(xlsx)?.extension).toBe('xlsx');
+    });
+
+    it('recognises OpenDocument from its mimetype entry', () => {
+        const odt = zipOf([['mimetype', 'application/vnd.oasis.opendocument.text'], ['content.xml', '<office:document-content/>']]);
+
+        expect(detectFileType(odt)?.mime).toBe('application/vnd.oasis.opendocument.text');
+    });
+
+    it('keeps plain archives whose entry names only contain an Office folder name', () => {
+        const archive = zipOf([['password/notes.txt', 'hunter2'], ['axl/data.bin', 'x'], ['backup/ppt/slides.txt', 'deck']]);
+
+        expect(detectFileType(archive)?.mime).toBe('application/zip');
+    });
+
+    it('ignores Office folder names that only appear in entry contents', () => {
+        const archive = zipOf([['readme.txt', 'Unpack word/document.xml and xl/ yourself']]);
+
+        expect(detectFileType(archive)?.mime).toBe('application/zip');
+    });
+});
@@ -0,0 +1,380 @@
+import { readLocalEntries } from './zip-directory';
+import { ExtractedFileType, ExtractedCategory } from '../types';
+
+/**
+ * Result of sniffing a file's leading bytes
+ */
+export interface DetectedFileType {
+    mime: string;
+    extension: string;
+    format: string;
+    file_type: ExtractedFileType;
+    category: ExtractedCategory;
+}
+
+/**
+ * Number of leading bytes needed to recognise every supported signature
+ */
+export const SIGNATURE_SNIFF_BYTES = 4100;
+
+/**
+ * Identify a file from its magic bytes, returning null when no signature matches
+ */
+export function detectFileType(header: Buffer): DetectedFileType | null {
+    if (header.length === 0) {
+        return null;
+    }
+
+    // ===== Documents =====
+    if (startsWith(header, [0x25, 0x50, 0x44, 0x46, 0x2d])) { // %PDF-
+        return detected('application/pdf', 'pdf', 'PDF', ExtractedFileType.PDF, ExtractedCategory.DOCUMENT);
+    }
+
+    if (startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+        // OLE2 compound file: legacy .doc/.xls/.ppt share the same container
+        return detected('application/x-ole-storage', 'doc', 'Microsoft Office (legacy)', ExtractedFileType.DOCUMENT, ExtractedCategory.DOCUMENT);
+    }
+
+    // ===== Images =====
+    if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return detected('image/png', 'png', 'PNG', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWith(header, [0xff, 0xd8, 0xff])) {
+        return detected('image/jpeg', 'jpg', 'JPEG', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWithAscii(header, 'GIF87a') || startsWithAscii(header, 'GIF89a')) {
+        return detected('image/gif', 'gif', 'GIF', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWithAscii(header, 'RIFF') && asciiAt(header, 8, 4) === 'WEBP') {
+        return detected('image/webp', 'webp', 'WebP', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWith(header, [0x49, 0x49, 0x2a, 0x00]) || startsWith(header, [0x4d, 0x4d, 0x00, 0x2a])) {
+        return detected('image/tiff', 'tif', 'TIFF', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWithAscii(header, 'BM') && header.length >= 14 && header.readUInt32LE(6) === 0) {
+        return detected('image/bmp', 'bmp', 'BMP', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+
+    // ===== Audio / Video containers =====
+    if (startsWithAscii(header, 'RIFF') && asciiAt(header, 8, 4) === 'WAVE') {
+        return detected('audio/wav', 'wav', 'WAV', ExtractedFileType.AUDIO, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWithAscii(header, 'RIFF') && asciiAt(header, 8, 4) === 'AVI ') {
+        return detected('video/x-msvideo', 'avi', 'AVI', ExtractedFileType.VIDEO, ExtractedCategory.MEDIA);
+    }
+
+    if (asciiAt(header, 4, 4) === 'ftyp') {
+        return detectIsoMedia(asciiAt(header, 8, 4));
+    }
+
+    if (startsWith(header, [0x1a, 0x45, 0xdf, 0xa3])) {
+        // EBML: the DocType element tells WebM and Matroska apart
+        return header.subarray(0, 64).includes('webm') ?
+            detected('video/webm', 'webm', 'WebM', ExtractedFileType.VIDEO, ExtractedCategory.MEDIA) :
+            detected('video/x-matroska', 'mkv', 'Matroska', ExtractedFileType.VIDEO, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWithAscii(header, 'fLaC')) {
+        return detected('audio/flac', 'flac', 'FLAC', ExtractedFileType.AUDIO, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWithAscii(header, 'OggS')) {
+        return detected('audio/ogg', 'ogg', 'Ogg', ExtractedFileType.AUDIO, ExtractedCategory.MEDIA);
+    }
+
+    if (startsWithAscii(header, 'ID3') || isMpegAudioFrame(header)) {
+        return detected('audio/mpeg', 'mp3', 'MP3', ExtractedFileType.AUDIO, ExtractedCategory.MEDIA);
+    }
+
+    if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xf6) === 0xf0) {
+        return detected('audio/aac', 'aac', 'AAC', ExtractedFileType.AUDIO, ExtractedCategory.MEDIA);
+    }
+
+    // ===== Archives =====
+    if (startsWith(header, [0x50, 0x4b, 0x03, 0x04]) || startsWith(header, [0x50, 0x4b, 0x05, 0x06])) {
+        return detectZipContainer(header);
+    }
+
+    if (startsWith(header, [0x1f, 0x8b])) {
+        return detected('application/gzip', 'gz', 'GZIP', ExtractedFileType.ARCHIVE, ExtractedCategory.COMPRESSED);
+    }
+
+    if (startsWith(header, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+        return detected('application/x-7z-compressed', '7z', '7Z', ExtractedFileType.ARCHIVE, ExtractedCategory.COMPRESSED);
+    }
+
+    if (startsWithAscii(header, 'Rar!\x1a\x07')) {
+        return detected('application/x-rar-compressed', 'rar', 'RAR', ExtractedFileType.ARCHIVE, ExtractedCategory.COMPRESSED);
+    }
+
+    if (startsWithAscii(header, 'BZh')) {
+        return detected('application/x-bzip2', 'bz2', 'BZIP2', ExtractedFileType.ARCHIVE, ExtractedCategory.COMPRESSED);
+    }
+
+    if (asciiAt(header, 257, 5) === 'ustar') {
+        return detected('application/x-tar', 'tar', 'TAR', ExtractedFileType.ARCHIVE, ExtractedCategory.COMPRESSED);
+    }
+
+    // ===== Executables =====
+    if (startsWithAscii(header, 'MZ') && header.length >= 64) {
+        return detected('application/x-msdownload', 'exe', 'Windows Executable', ExtractedFileType.UNKNOWN, ExtractedCategory.OTHER);
+    }
+
+    if (startsWith(header, [0x7f, 0x45, 0x4c, 0x46])) {
+        return detected('application/x-executable', 'elf', 'ELF Executable', ExtractedFileType.UNKNOWN, ExtractedCategory.OTHER);
+    }
+
+    if (startsWith(header, [0xcf, 0xfa, 0xed, 0xfe]) || startsWith(header, [0xce, 0xfa, 0xed, 0xfe]) ||
+        startsWith(header, [0xfe, 0xed, 0xfa, 0xcf]) || startsWith(header, [0xfe, 0xed, 0xfa, 0xce])) {
+        return detected('application/x-mach-binary', 'macho', 'Mach-O Executable', ExtractedFileType.UNKNOWN, ExtractedCategory.OTHER);
+    }
+
+    // ===== Markup (text based, sniffed from the leading characters) =====
+    return detectMarkup(header);
+}
+
+/**
+ * Whether the declared content type contradicts the detected one
+ *
+ * A missing detection or a generic declared type is never a mismatch.
+ */
+export function isContentTypeMismatch(declaredContentType: string, detectedType: DetectedFileType | null): boolean {
+    if (!detectedType) {
+        return false;
+    }
+
+    const declared = normalizeContentType(declaredContentType);
+    if (!declared || declared === 'application/octet-stream' || declared === 'binary/octet-stream') {
+        return false;
+    }
+
+    const detectedMime = normalizeContentType(detectedType.mime);
+    if (declared === detectedMime) {
+        return false;
+    }
+
+    // Office documents are ZIP (OOXML) or OLE2 containers underneath
+    const declaredBase = OOXML_MACRO_ENABLED_TYPES[declared];
+    if (declaredBase && (detectedMime === declaredBase || detectedMime === 'application/zip')) {
+        return false;
+    }
+    if (detectedMime === 'application/zip' && OOXML_TYPES.includes(declared)) {
+        return false;
+    }
+    if (OOXML_TYPES.includes(detectedMime) && declared === 'application/zip') {
+        return false;
+    }
+    if (detectedMime === 'application/x-ole-storage' && LEGACY_OFFICE_TYPES.includes(declared)) {
+        return false;
+    }
+
+    // XML-based formats are often declared with their generic type
+    if (detectedMime === 'application/xml' && declared.endsWith('+xml')) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Whether a detected type is one of the ZIP-based Word, Excel or PowerPoint formats
+ */
+export function isOfficeOpenXml(mime: string): boolean {
+    return OOXML_TYPES.includes(normalizeContentType(mime));
+}
+
+/**
+ * Lower-case a content type, drop parameters and fold common aliases
+ */
+export function normalizeContentType(contentType: string): string {
+    const base = (contentType || '').split(';')[0].trim().toLowerCase();
+    return CONTENT_TYPE_ALIASES[base] || base;
+}
+
+/**
+ * Add every alias that normalizes to one of the given types, for clients that compare raw types
+ */
+export function expandContentTypeAliases(contentTypes: string[]): string[] {
+    const aliases = Object.keys(CONTENT_TYPE_ALIASES).filter(alias => contentTypes.includes(CONTENT_TYPE_ALIASES[alias]));
+    return Array.from(new Set([...contentTypes, ...aliases]));
+}
+
+const OOXML_TYPES: string[] = [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+// Macro-enabled variants, lower-cased, by the plain type their content is detected as
+const OOXML_MACRO_ENABLED_TYPES: Record<string, string> = {
+    'application/vnd.ms-word.document.macroenabled.12': OOXML_TYPES[0],
+    'application/vnd.ms-excel.sheet.macroenabled.12': OOXML_TYPES[1],
+    'application/vnd.ms-powerpoint.presentation.macroenabled.12': OOXML_TYPES[2],
+};
+
+const LEGACY_OFFICE_TYPES: string[] = [
+    'application/msword',
+    'application/vnd.ms-excel',
+    'application/vnd.ms-powerpoint',
+];
+
+const CONTENT_TYPE_ALIASES: Record<string, string> = {
+    'image/jpg': 'image/jpeg',
+    'image/pjpeg': 'image/jpeg',
+    'image/x-png': 'image/png',
+    'audio/mp3': 'audio/mpeg',
+    'audio/x-mp3': 'audio/mpeg',
+    'audio/mpeg3': 'audio/mpeg',
+    'audio/x-wav': 'audio/wav',
+    'audio/wave': 'audio/wav',
+    'audio/vnd.wave': 'audio/wav',
+    'audio/x-flac': 'audio/flac',
+    'audio/x-aac': 'audio/aac',
+    'audio/x-m4a': 'audio/mp4',
+    'video/avi': 'video/x-msvideo',
+    'video/msvideo': 'video/x-msvideo',
+    'application/x-zip-compressed': 'application/zip',
+    'application/x-zip': 'application/zip',
+    'application/x-gzip': 'application/gzip',
+    'application/x-tar-gz': 'application/gzip',
+    'application/vnd.rar': 'application/x-rar-compressed',
+    'application/x-rar': 'application/x-rar-compressed',
+    'application/x-pdf': 'application/pdf',
+    'text/xml': 'application/xml',
+    'application/x-msdos-program': 'application/x-msdownload',
+    'application/x-dosexec': 'application/x-msdownload',
+    'application/vnd.microsoft.portable-executable': 'application/x-msdownload',
+};
+
+function detected(
+    mime: string,
+    extension: string,
+    format: string,
+    fileType: ExtractedFileType,
+    category: ExtractedCategory
+): DetectedFileType {
+    return { mime, extension, format, file_type: fileType, category };
+}
+
+/**
+ * Distinguish ISO base media files (MP4, MOV, M4A, 3GP, HEIC) by major brand
+ */
+function detectIsoMedia(brand: string): DetectedFileType {
+    const trimmed = brand.trim();
+
+    if (trimmed === 'qt') {
+        return detected('video/quicktime', 'mov', 'QuickTime', ExtractedFileType.VIDEO, ExtractedCategory.MEDIA);
+    }
+    if (trimmed === 'M4A' || trimmed === 'M4B') {
+        return detected('audio/mp4', 'm4a', 'M4A', ExtractedFileType.AUDIO, ExtractedCategory.MEDIA);
+    }
+    if (trimmed === 'M4V') {
+        return detected('video/x-m4v', 'm4v', 'M4V', ExtractedFileType.VIDEO, ExtractedCategory.MEDIA);
+    }
+    if (trimmed.startsWith('3g')) {
+        return detected('video/3gpp', '3gp', '3GP', ExtractedFileType.VIDEO, ExtractedCategory.MEDIA);
+    }
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(trimmed)) {
+        return detected('image/heic', 'heic', 'HEIC', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+    if (trimmed === 'avif') {
+        return detected('image/avif', 'avif', 'AVIF', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+
+    return detected('video/mp4', 'mp4', 'MP4', ExtractedFileType.VIDEO, ExtractedCategory.MEDIA);
+}
+
+/**
+ * Recognise ZIP-based document formats from the entries near the start
+ */
+function detectZipContainer(header: Buffer): DetectedFileType {
+    const entries = readLocalEntries(header);
+
+    // OpenDocument stores its media type uncompressed as the first entry
+    const mimetype = entries[0]?.path === 'mimetype' ? entries[0].storedData?.toString('latin1') : undefined;
+    if (mimetype === 'application/vnd.oasis.opendocument.text') {
+        return detected('application/vnd.oasis.opendocument.text', 'odt', 'OpenDocument Text', ExtractedFileType.DOCUMENT, ExtractedCategory.DOCUMENT);
+    }
+    if (mimetype === 'application/vnd.oasis.opendocument.spreadsheet') {
+        return detected('application/vnd.oasis.opendocument.spreadsheet', 'ods', 'OpenDocument Spreadsheet', ExtractedFileType.DOCUMENT, ExtractedCategory.DOCUMENT);
+    }
+    if (mimetype === 'application/epub+zip') {
+        return detected('application/epub+zip', 'epub', 'EPUB', ExtractedFileType.DOCUMENT, ExtractedCategory.DOCUMENT);
+    }
+
+    // Office Open XML keeps each application's parts under its own top-level folder
+    const hasFolder = (folder: string) => entries.some(entry => entry.path.startsWith(folder));
+    if (hasFolder('word/')) {
+        return detected(OOXML_TYPES[0], 'docx', 'Word Document', ExtractedFileType.DOCUMENT, ExtractedCategory.DOCUMENT);
+    }
+    if (hasFolder('xl/')) {
+        return detected(OOXML_TYPES[1], 'xlsx', 'Excel Spreadsheet', ExtractedFileType.DOCUMENT, ExtractedCategory.DOCUMENT);
+    }
+    if (hasFolder('ppt/')) {
+        return detected(OOXML_TYPES[2], 'pptx', 'PowerPoint Presentation', ExtractedFileType.DOCUMENT, ExtractedCategory.DOCUMENT);
+    }
+
+    return detected('application/zip', 'zip', 'ZIP', ExtractedFileType.ARCHIVE, ExtractedCategory.COMPRESSED);
+}
+
+/**
+ * MPEG audio frame header: 11 sync bits, a valid version and a non-reserved layer
+ */
+function isMpegAudioFrame(header: Buffer): boolean {
+    if (header.length < 4 || header[0] !== 0xff || (header[1] & 0xe0) !== 0xe0) {
+        return false;
+    }
+
+    const version = (header[1] >> 3) & 0x03;
+    const layer = (header[1] >> 1) & 0x03;
+    const bitrateIndex = (header[2] >> 4) & 0x0f;
+
+    return version !== 0x01 && layer !== 0x00 && bitrateIndex !== 0x0f;
+}
+
+/**
+ * Sniff SVG, HTML and XML from the first non-whitespace characters
+ */
+function detectMarkup(header: Buffer): DetectedFileType | null {
+    let text = header.subarray(0, 1024).toString('utf8');
+    if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+    }
+    const trimmed = text.trimStart().toLowerCase();
+
+    if (trimmed.startsWith('<svg') || (trimmed.startsWith('<?xml') && trimmed.includes('<svg'))) {
+        return detected('image/svg+xml', 'svg', 'SVG', ExtractedFileType.IMAGE, ExtractedCategory.MEDIA);
+    }
+    if (trimmed.startsWith('<!doctype html') || trimmed.startsWith('<html')) {
+        return detected('text/html', 'html', 'HTML', ExtractedFileType.TEXT, ExtractedCategory.TEXT);
+    }
+    if (trimmed.startsWith('<?xml')) {
+        return detected('application/xml', 'xml', 'XML', ExtractedFileType.TEXT, ExtractedCategory.TEXT);
+    }
+
+    return null;
+}
+
+function startsWith(buffer: Buffer, bytes: number[]): boolean {
+    if (buffer.length < bytes.length) {
+        return false;
+    }
+    return bytes.every((byte, index) => buffer[index] === byte);
+}
+
+function startsWithAscii(buffer: Buffer, text: string): boolean {
+    return asciiAt(buffer, 0, text.length) === text;
+}
+
+function asciiAt(buffer: Buffer, offset: number, length: number): string {
+    if (buffer.length < offset + length) {
+        return '';
+    }
+    return buffer.toString('latin1', offset, offset + length);
+}
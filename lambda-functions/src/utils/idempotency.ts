@@ -0,0 +1,189 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { createHash } from 'crypto';
+import { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { IdempotencyRecord, IdempotencyStatus, IDEMPOTENCY_LIMITS } from '../types';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set on responses that were replayed from an earlier request
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Outcome of trying to reserve an idempotency key for the current request
+ */
+export type IdempotencyClaim =
+    | { outcome: 'claimed' }
+    | { outcome: 'completed'; record: IdempotencyRecord }
+    | { outcome: 'in_progress' }
+    | { outcome: 'mismatch' };
+
+/**
+ * Validate an Idempotency-Key header value
+ */
+export function validateIdempotencyKey(key: string): string[] {
+    const trimmed = key.trim();
+
+    if (trimmed === '') {
+        return ['Idempotency-Key must not be empty'];
+    }
+
+    if (trimmed.length > IDEMPOTENCY_LIMITS.MAX_KEY_LENGTH) {
+        return [`Idempotency-Key must be at most ${IDEMPOTENCY_LIMITS.MAX_KEY_LENGTH} characters`];
+    }
+
+    if (!/^[\x21-\x7e]+$/.test(trimmed)) {
+        return ['Idempotency-Key must contain only printable ASCII characters'];
+    }
+
+    return [];
+}
+
+/**
+ * Hash a request payload so repeats can be told apart from a reused key
+ *
+ * Object keys are sorted so the hash doesn't depend on field order.
+ */
+export function computePayloadHash(payload: unknown): string {
+    return createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
+
+/**
+ * Reserve a key for this request, or report what an earlier request with the same key did
+ */
+export async function claimIdempotencyKey(
+    docClient: DynamoDBDocumentClient,
+    key: string,
+    payloadHash: string
+): Promise<IdempotencyClaim> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - IDEMPOTENCY_LIMITS.IN_PROGRESS_TIMEOUT_SECONDS * 1000);
+
+    const record: IdempotencyRecord = {
+        idempotency_key: key,
+        payload_hash: payloadHash,
+        status: IdempotencyStatus.IN_PROGRESS,
+        created_at: now.toISOString(),
+        expires_at: Math.floor(now.getTime() / 1000) + IDEMPOTENCY_LIMITS.TTL_SECONDS
+    };
+
+    try {
+        await docClient.send(new PutCommand({
+            TableName: process.env.IDEMPOTENCY_TABLE_NAME!,
+            Item: record,
+            // Take over keys whose request died without completing or releasing them
+            ConditionExpression: 'attribute_not_exists(idempotency_key) OR ' +
+                '(#status = :in_progress AND created_at < :stale_before AND payload_hash = :payload_hash)',
+            ExpressionAttributeNames: {
+                '#status': 'status'
+            },
+            ExpressionAttributeValues: {
+                ':in_progress': IdempotencyStatus.IN_PROGRESS,
+                ':stale_before': staleBefore.toISOString(),
+                ':payload_hash': payloadHash
+            }
+        }));
+        return { outcome: 'claimed' };
+    } catch (error: any) {
+        if (error.name !== 'ConditionalCheckFailedException') {
+            throw error;
+        }
+    }
+
+    const result = await docClient.send(new GetCommand({
+        TableName: process.env.IDEMPOTENCY_TABLE_NAME!,
+        Key: {
+            idempotency_key: key
+        },
+        ConsistentRead: true
+    }));
+    const existing = result.Item as IdempotencyRecord | undefined;
+
+    // Released between our put and get; let the client retry
+    if (!existing) {
+        return { outcome: 'in_progress' };
+    }
+
+    if (existing.payload_hash !== payloadHash) {
+        return { outcome: 'mismatch' };
+    }
+
+    return existing.status === IdempotencyStatus.COMPLETED ?
+        { outcome: 'completed', record: existing } :
+        { outcome: 'in_progress' };
+}
+
+/**
+ * Record the final response for a key so repeats can replay it
+ */
+export async function completeIdempotencyKey(
+    docClient: DynamoDBDocumentClient,
+    key: string,
+    response: APIGatewayProxyResult
+): Promise<void> {
+    await docClient.send(new UpdateCommand({
+        TableName: process.env.IDEMPOTENCY_TABLE_NAME!,
+        Key: {
+            idempotency_key: key
+        },
+        UpdateExpression: 'SET #status = :completed, response_status_code = :status_code, ' +
+            'response_headers = :headers, response_body = :body',
+        ExpressionAttributeNames: {
+            '#status': 'status'
+        },
+        ExpressionAttributeValues: {
+            ':completed': IdempotencyStatus.COMPLETED,
+            ':status_code': response.statusCode,
+            ':headers': response.headers || {},
+            ':body': response.body
+        }
+    }));
+}
+
+/**
+ * Forget a key after a failure that the client should be able to retry
+ */
+export async function releaseIdempotencyKey(docClient: DynamoDBDocumentClient, key: string): Promise<void> {
+    await docClient.send(new DeleteCommand({
+        TableName: process.env.IDEMPOTENCY_TABLE_NAME!,
+        Key: {
+            idempotency_key: key
+        },
+        ConditionExpression: '#status = :in_progress',
+        ExpressionAttributeNames: {
+            '#status': 'status'
+        },
+        ExpressionAttributeValues: {
+            ':in_progress': IdempotencyStatus.IN_PROGRESS
+        }
+    }));
+}
+
+/**
+ * Rebuild the response recorded for a completed key
+ */
+export function createReplayResponse(record: IdempotencyRecord): APIGatewayProxyResult {
+    return {
+        statusCode: record.response_status_code!,
+        headers: {
+            ...record.response_headers,
+            [IDEMPOTENT_REPLAYED_HEADER]: 'true'
+        },
+        body: record.response_body!
+    };
+}
+
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,379 @@
+import { ImageMetadata, METADATA_EXTRACTION_LIMITS } from '../types';
+
+const PNG_COLOR_TYPES: Record<number, string> = {
+    0: 'Grayscale',
+    2: 'RGB',
+    3: 'Indexed',
+    4: 'Grayscale+Alpha',
+    6: 'RGBA',
+};
+
+const JPEG_COLOR_SPACES: Record<number, string> = {
+    1: 'Grayscale',
+    3: 'YCbCr',
+    4: 'CMYK',
+};
+
+// TIFF field types and their sizes in bytes
+const TIFF_TYPE_SIZES: Record<number, number> = {
+    1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+const EXIF_TAGS = {
+    MAKE: 0x010f,
+    MODEL: 0x0110,
+    ORIENTATION: 0x0112,
+    DATE_TIME: 0x0132,
+    EXIF_IFD: 0x8769,
+    GPS_IFD: 0x8825,
+    DATE_TIME_ORIGINAL: 0x9003,
+    OFFSET_TIME_ORIGINAL: 0x9011,
+} as const;
+
+type TiffEntries = Map<number, { type: number; count: number; valueOffset: number }>;
+
+/**
+ * Read dimensions, color details, animation and EXIF fields from an image's leading bytes
+ *
+ * Parsing is best effort: a truncated or malformed header yields whatever was read
+ * before the problem instead of an error.
+ */
+export function extractImageMetadata(header: Buffer, mime: string): ImageMetadata {
+    const metadata: ImageMetadata = {};
+
+    try {
+        switch (mime) {
+            case 'image/png':
+                parsePng(header, metadata);
+                break;
+            case 'image/jpeg':
+                parseJpeg(header, metadata);
+                break;
+            case 'image/gif':
+                parseGif(header, metadata);
+                break;
+            case 'image/webp':
+                parseWebp(header, metadata);
+                break;
+            case 'image/svg+xml':
+                parseSvg(header, metadata);
+                break;
+        }
+    } catch {
+        // Out-of-range reads on a truncated header; keep what we have
+    }
+
+    return metadata;
+}
+
+function parsePng(header: Buffer, metadata: ImageMetadata): void {
+    let offset = 8;
+
+    while (offset + 8 <= header.length) {
+        const length = header.readUInt32BE(offset);
+        const type = header.toString('latin1', offset + 4, offset + 8);
+        const data = offset + 8;
+
+        if (type === 'IHDR') {
+            metadata.image_width = header.readUInt32BE(data);
+            metadata.image_height = header.readUInt32BE(data + 4);
+            metadata.image_bit_depth = header[data + 8];
+            metadata.image_color_space = PNG_COLOR_TYPES[header[data + 9]];
+            metadata.image_frame_count = 1;
+            metadata.image_animated = false;
+        } else if (type === 'acTL') {
+            // APNG animation control: frame count comes before any image data
+            metadata.image_frame_count = header.readUInt32BE(data);
+            metadata.image_animated = metadata.image_frame_count > 1;
+        } else if (type === 'eXIf') {
+            parseTiffExif(header.subarray(data, data + length), metadata);
+        } else if (type === 'IDAT' || type === 'IEND') {
+            break;
+        }
+
+        offset = data + length + 4;
+    }
+}
+
+function parseJpeg(header: Buffer, metadata: ImageMetadata): void {
+    let offset = 2;
+
+    while (offset + 4 <= header.length) {
+        if (header[offset] !== 0xff) {
+            break;
+        }
+
+        const marker = header[offset + 1];
+
+        // Fill bytes and markers without a length
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            offset += 2;
+            continue;
+        }
+
+        const length = header.readUInt16BE(offset + 2);
+        const data = offset + 4;
+
+        // Start of scan: image data follows, nothing more to read
+        if (marker === 0xda) {
+            break;
+        }
+
+        if (marker === 0xe1 && header.toString('latin1', data, data + 6) === 'Exif\0\0') {
+            parseTiffExif(header.subarray(data + 6, offset + 2 + length), metadata);
+        }
+
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            metadata.image_bit_depth = header[data];
+            metadata.image_height = header.readUInt16BE(data + 1);
+            metadata.image_width = header.readUInt16BE(data + 3);
+            metadata.image_color_space = JPEG_COLOR_SPACES[header[data + 5]];
+            metadata.image_frame_count = 1;
+            metadata.image_animated = false;
+        }
+
+        offset += 2 + length;
+    }
+}
+
+function parseGif(header: Buffer, metadata: ImageMetadata): void {
+    metadata.image_width = header.readUInt16LE(6);
+    metadata.image_height = header.readUInt16LE(8);
+
+    const packed = header[10];
+    metadata.image_bit_depth = ((packed >> 4) & 0x07) + 1;
+    metadata.image_color_space = 'Indexed';
+
+    let offset = 13;
+    if (packed & 0x80) {
+        offset += 3 * (1 << ((packed & 0x07) + 1));
+    }
+
+    let frames = 0;
+    let looping = false;
+
+    while (offset < header.length) {
+        const block = header[offset];
+
+        if (block === 0x2c) {
+            // Image descriptor, optional local color table, LZW code size, then data sub-blocks
+            frames++;
+            const localPacked = header[offset + 9];
+            offset += 10;
+            if (localPacked & 0x80) {
+                offset += 3 * (1 << ((localPacked & 0x07) + 1));
+            }
+            offset = skipGifSubBlocks(header, offset + 1);
+        } else if (block === 0x21) {
+            const label = header[offset + 1];
+            if (label === 0xff && header.toString('latin1', offset + 3, offset + 14) === 'NETSCAPE2.0') {
+                looping = true;
+            }
+            offset = skipGifSubBlocks(header, offset + 2);
+        } else {
+            // Trailer (0x3B) or garbage
+            break;
+        }
+    }
+
+    if (frames > 0) {
+        metadata.image_frame_count = frames;
+        metadata.image_animated = frames > 1 || looping;
+    }
+}
+
+function skipGifSubBlocks(header: Buffer, offset: number): number {
+    while (offset < header.length) {
+        const size = header[offset];
+        offset += 1 + size;
+        if (size === 0) {
+            break;
+        }
+    }
+    return offset;
+}
+
+function parseWebp(header: Buffer, metadata: ImageMetadata): void {
+    let offset = 12;
+    let frames = 0;
+
+    metadata.image_bit_depth = 8;
+
+    while (offset + 8 <= header.length) {
+        const type = header.toString('latin1', offset, offset + 4);
+        const size = header.readUInt32LE(offset + 4);
+        const data = offset + 8;
+
+        if (type === 'VP8X') {
+            const flags = header[data];
+            metadata.image_width = header.readUIntLE(data + 4, 3) + 1;
+            metadata.image_height = header.readUIntLE(data + 7, 3) + 1;
+            metadata.image_color_space = flags & 0x10 ? 'RGBA' : 'RGB';
+            metadata.image_animated = (flags & 0x02) !== 0;
+        } else if (type === 'VP8 ' && metadata.image_width === undefined) {
+            // Lossy bitstream: 3-byte frame tag and 0x9d012a start code before the dimensions
+            metadata.image_width = header.readUInt16LE(data + 6) & 0x3fff;
+            metadata.image_height = header.readUInt16LE(data + 8) & 0x3fff;
+            metadata.image_color_space = 'RGB';
+        } else if (type === 'VP8L' && metadata.image_width === undefined) {
+            // Lossless bitstream: 14-bit width-1 and height-1 after the 0x2f signature, then an alpha bit
+            const bits = header.readUInt32LE(data + 1);
+            metadata.image_width = (bits & 0x3fff) + 1;
+            metadata.image_height = ((bits >> 14) & 0x3fff) + 1;
+            metadata.image_color_space = (bits >> 28) & 0x01 ? 'RGBA' : 'RGB';
+        } else if (type === 'ANMF') {
+            frames++;
+        } else if (type === 'EXIF') {
+            const exif = header.subarray(data, data + size);
+            parseTiffExif(exif.toString('latin1', 0, 6) === 'Exif\0\0' ? exif.subarray(6) : exif, metadata);
+        }
+
+        // Chunks are padded to an even size
+        offset = data + size + (size % 2);
+    }
+
+    metadata.image_frame_count = frames > 0 ? frames : 1;
+    if (metadata.image_animated === undefined) {
+        metadata.image_animated = frames > 1;
+    }
+}
+
+function parseSvg(header: Buffer, metadata: ImageMetadata): void {
+    const svgTag = /<svg\b[^>]*>/i.exec(header.toString('utf8'));
+    if (!svgTag) {
+        return;
+    }
+
+    const attribute = (name: string): string | undefined =>
+        new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(svgTag[0])?.[1];
+
+    // Only unitless or pixel sizes map to pixels; fall back to the viewBox otherwise
+    const toPixels = (value?: string): number | undefined => {
+        const match = value ? /^\s*([\d.]+)\s*(px)?\s*$/i.exec(value) : null;
+        return match ? Math.round(Number(match[1])) : undefined;
+    };
+
+    let width = toPixels(attribute('width'));
+    let height = toPixels(attribute('height'));
+
+    const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+    if (viewBox && viewBox.length === 4 && viewBox.every(value => isFinite(value))) {
+        width = width ?? Math.round(viewBox[2]);
+        height = height ?? Math.round(viewBox[3]);
+    }
+
+    if (width !== undefined && height !== undefined) {
+        metadata.image_width = width;
+        metadata.image_height = height;
+    }
+    metadata.image_color_space = 'RGB';
+    metadata.image_animated = /<(animate|animateTransform|animateMotion|set)\b/i.test(header.toString('utf8'));
+}
+
+/**
+ * Read camera, orientation, capture date and GPS presence from a TIFF-structured EXIF block
+ */
+function parseTiffExif(tiff: Buffer, metadata: ImageMetadata): void {
+    const byteOrder = tiff.toString('latin1', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+        return;
+    }
+    const littleEndian = byteOrder === 'II';
+    const readUInt16 = (offset: number) => littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+    const readUInt32 = (offset: number) => littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+    if (readUInt16(2) !== 42) {
+        return;
+    }
+
+    const readIfd = (offset: number): TiffEntries => {
+        const entries: TiffEntries = new Map();
+        if (offset < 8 || offset + 2 > tiff.length) {
+            return entries;
+        }
+
+        const count = readUInt16(offset);
+        for (let index = 0; index < count; index++) {
+            const entry = offset + 2 + index * 12;
+            if (entry + 12 > tiff.length) {
+                break;
+            }
+            const type = readUInt16(entry + 2);
+            const valueCount = readUInt32(entry + 4);
+            const valueSize = (TIFF_TYPE_SIZES[type] || 1) * valueCount;
+            entries.set(readUInt16(entry), {
+                type,
+                count: valueCount,
+                // Values of 4 bytes or less are stored in the entry itself
+                valueOffset: valueSize <= 4 ? entry + 8 : readUInt32(entry + 8)
+            });
+        }
+        return entries;
+    };
+
+    const readAscii = (entries: TiffEntries, tag: number): string | undefined => {
+        const entry = entries.get(tag);
+        if (!entry || entry.type !== 2 || entry.valueOffset + entry.count > tiff.length) {
+            return undefined;
+        }
+        const value = tiff
+            .toString('latin1', entry.valueOffset, entry.valueOffset + entry.count)
+            .replace(/\0.*$/s, '')
+            .trim();
+        return value ? value.slice(0, METADATA_EXTRACTION_LIMITS.MAX_STRING_LENGTH) : undefined;
+    };
+
+    const ifd0 = readIfd(readUInt32(4));
+
+    const make = readAscii(ifd0, EXIF_TAGS.MAKE);
+    const model = readAscii(ifd0, EXIF_TAGS.MODEL);
+    if (make) {
+        metadata.exif_camera_make = make;
+    }
+    if (model) {
+        metadata.exif_camera_model = model;
+    }
+
+    const orientation = ifd0.get(EXIF_TAGS.ORIENTATION);
+    if (orientation && orientation.type === 3) {
+        const value = readUInt16(orientation.valueOffset);
+        if (value >= 1 && value <= 8) {
+            metadata.exif_orientation = value;
+        }
+    }
+
+    const exifPointer = ifd0.get(EXIF_TAGS.EXIF_IFD);
+    const exifIfd = exifPointer ? readIfd(readUInt32(exifPointer.valueOffset)) : new Map() as TiffEntries;
+    const captureDate = toIsoDate(
+        readAscii(exifIfd, EXIF_TAGS.DATE_TIME_ORIGINAL) || readAscii(ifd0, EXIF_TAGS.DATE_TIME),
+        readAscii(exifIfd, EXIF_TAGS.OFFSET_TIME_ORIGINAL)
+    );
+    if (captureDate) {
+        metadata.exif_capture_date = captureDate;
+    }
+
+    // An empty GPS IFD is common; only count it when it holds coordinates
+    const gpsPointer = ifd0.get(EXIF_TAGS.GPS_IFD);
+    const gpsIfd = gpsPointer ? readIfd(readUInt32(gpsPointer.valueOffset)) : new Map() as TiffEntries;
+    metadata.exif_has_gps = gpsIfd.has(0x0002) && gpsIfd.has(0x0004);
+}
+
+/**
+ * Turn an EXIF "YYYY:MM:DD HH:MM:SS" timestamp into ISO 8601
+ */
+function toIsoDate(value: string | undefined, offset: string | undefined): string | undefined {
+    const match = value ? /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value) : null;
+    if (!match || match[1] === '0000') {
+        return undefined;
+    }
+
+    const [, year, month, day, hour, minute, second] = match;
+    const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
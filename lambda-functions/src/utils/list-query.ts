@@ -0,0 +1,182 @@
+import { sanitizeMetadataKey } from './validation';
+import {
+  ListFilesQuery,
+  ListSortField,
+  SortOrder,
+  FileStatus,
+  ExtractedFileType,
+  ExtractedCategory,
+  isValidFileStatus,
+  isValidExtractedFileType,
+  isValidExtractedCategory,
+  LIST_FILES_LIMITS
+} from '../types';
+
+// Client metadata filters are passed as `metadata.<key>=<value>`
+const METADATA_PARAM_PREFIX = 'metadata.';
+
+// Parameters handled outside the filter set
+const PAGINATION_PARAMS = ['limit', 'cursor'];
+
+const FILTER_PARAMS = [
+    'status', 'deleted', 'file_type', 'category', 'content_type',
+    'uploaded_from', 'uploaded_to', 'min_size', 'max_size', 'sort', 'order'
+];
+
+/**
+ * Parse GET /files query parameters, collecting every problem instead of ignoring bad values
+ */
+export function parseListFilesQuery(
+    params: Record<string, string | undefined>
+): { query: ListFilesQuery; errors: string[] } {
+    const errors: string[] = [];
+    const query: ListFilesQuery = {
+        limit: LIST_FILES_LIMITS.DEFAULT_PAGE_SIZE,
+        metadata: {},
+        sort: ListSortField.UPLOAD_DATE,
+        order: SortOrder.DESC
+    };
+
+    for (const [name, value] of Object.entries(params)) {
+        if (value === undefined) {
+            continue;
+        }
+
+        if (name.startsWith(METADATA_PARAM_PREFIX)) {
+            const key = name.slice(METADATA_PARAM_PREFIX.length);
+            if (key.trim() === '') {
+                errors.push(`${name} must name a metadata key`);
+            } else {
+                query.metadata[sanitizeMetadataKey(key)] = value;
+            }
+        } else if (!FILTER_PARAMS.includes(name) && !PAGINATION_PARAMS.includes(name)) {
+            errors.push(`Unknown query parameter: ${name}`);
+        }
+    }
+
+    if (Object.keys(query.metadata).length > LIST_FILES_LIMITS.MAX_METADATA_FILTERS) {
+        errors.push(`At most ${LIST_FILES_LIMITS.MAX_METADATA_FILTERS} metadata filters are allowed`);
+    }
+
+    if (params.limit !== undefined) {
+        const limit = Number(params.limit);
+        if (!Number.isInteger(limit) || limit < 1 || limit > LIST_FILES_LIMITS.MAX_PAGE_SIZE) {
+            errors.push(`limit must be an integer between 1 and ${LIST_FILES_LIMITS.MAX_PAGE_SIZE}`);
+        } else {
+            query.limit = limit;
+        }
+    }
+
+    // Deleted files only show up in the trash view
+    if (params.deleted !== undefined && params.deleted !== 'true' && params.deleted !== 'false') {
+        errors.push('deleted must be true or false');
+    }
+    const showDeleted = params.deleted === 'true';
+
+    if (params.status !== undefined) {
+        if (!isValidFileStatus(params.status)) {
+            errors.push(`status must be one of: ${Object.values(FileStatus).join(', ')}`);
+        } else if (showDeleted && params.status !== FileStatus.DELETED) {
+            errors.push('status cannot be combined with deleted=true');
+        } else {
+            query.status = params.status;
+        }
+    } else if (showDeleted) {
+        query.status = FileStatus.DELETED;
+    }
+
+    if (params.file_type !== undefined) {
+        if (isValidExtractedFileType(params.file_type)) {
+            query.file_type = params.file_type;
+        } else {
+            errors.push(`file_type must be one of: ${Object.values(ExtractedFileType).join(', ')}`);
+        }
+    }
+
+    if (params.category !== undefined) {
+        if (isValidExtractedCategory(params.category)) {
+            query.category = params.category;
+        } else {
+            errors.push(`category must be one of: ${Object.values(ExtractedCategory).join(', ')}`);
+        }
+    }
+
+    if (params.content_type !== undefined) {
+        const contentType = params.content_type.trim().toLowerCase();
+        if (/^[a-z0-9][a-z0-9!#$&^_.+-]*\/(\*|[a-z0-9][a-z0-9!#$&^_.+-]*)$/.test(contentType)) {
+            query.content_type = contentType;
+        } else {
+            errors.push('content_type must look like type/subtype or type/*');
+        }
+    }
+
+    query.uploaded_from = parseDateParam('uploaded_from', params.uploaded_from, errors, { bound: 'lower' });
+    query.uploaded_to = parseDateParam('uploaded_to', params.uploaded_to, errors, { bound: 'upper' });
+    if (query.uploaded_from && query.uploaded_to && query.uploaded_from > query.uploaded_to) {
+        errors.push('uploaded_from must not be after uploaded_to');
+    }
+
+    query.min_size = parseSizeParam('min_size', params.min_size, errors);
+    query.max_size = parseSizeParam('max_size', params.max_size, errors);
+    if (query.min_size !== undefined && query.max_size !== undefined && query.min_size > query.max_size) {
+        errors.push('min_size must not be greater than max_size');
+    }
+
+    if (params.sort !== undefined) {
+        if (Object.values(ListSortField).includes(params.sort as ListSortField)) {
+            query.sort = params.sort as ListSortField;
+        } else {
+            errors.push(`sort must be one of: ${Object.values(ListSortField).join(', ')}`);
+        }
+    }
+
+    if (params.order !== undefined) {
+        if (Object.values(SortOrder).includes(params.order as SortOrder)) {
+            query.order = params.order as SortOrder;
+        } else {
+            errors.push(`order must be one of: ${Object.values(SortOrder).join(', ')}`);
+        }
+    }
+
+    return { query, errors };
+}
+
+/**
+ * Normalize a date or timestamp parameter to the ISO form stored in upload_date
+ *
+ * A bare date as an upper bound covers that whole day.
+ */
+export function parseDateParam(
+    name: string,
+    value: string | undefined,
+    errors: string[],
+    options: { bound: 'lower' | 'upper' }
+): string | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const isBareDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const timestamp = Date.parse(isBareDate && options.bound === 'upper' ? `${value}T23:59:59.999Z` : value);
+
+    if (isNaN(timestamp)) {
+        errors.push(`${name} must be an ISO 8601 date or timestamp`);
+        return undefined;
+    }
+
+    return new Date(timestamp).toISOString();
+}
+
+function parseSizeParam(name: string, value: string | undefined, errors: string[]): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const size = Number(value);
+    if (value.trim() === '' || !Number.isSafeInteger(size) || size < 0) {
+        errors.push(`${name} must be a non-negative integer number of bytes`);
+        return undefined;
+    }
+
+    return size;
+}
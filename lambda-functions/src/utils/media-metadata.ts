@@ -0,0 +1,949 @@
+import { createObjectReader, ObjectReader } from './range-reader';
+import { MediaMetadata, RangeReader, METADATA_EXTRACTION_LIMITS } from '../types';
+
+type TagField = 'media_title' | 'media_artist' | 'media_album';
+
+interface MpegFrame {
+    codec: string;
+    bitrate: number;          // Bits per second
+    sampleRate: number;
+    channels: number;
+    samplesPerFrame: number;
+    length: number;
+    sideInfoLength: number;   // Bytes between the header and a Xing/Info tag
+}
+
+// Parsed Matroska element: id with its length marker, and where its data lies
+interface EbmlElement {
+    id: number;
+    dataStart: number;
+    dataEnd: number;
+    unknownSize: boolean;
+}
+
+// MPEG audio bitrates in kbps, by [MPEG-1 or not][layer] and bitrate index
+const MPEG_BITRATES: Record<string, number[]> = {
+    '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+// Sample rates by MPEG version bits (0 = 2.5, 2 = 2, 3 = 1) and rate index
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+    0: [11025, 12000, 8000],
+    2: [22050, 24000, 16000],
+    3: [44100, 48000, 32000],
+};
+
+// Bytes searched past the ID3 tag for the first audio frame
+const MPEG_SYNC_SEARCH_BYTES = 64 * 1024;
+
+const ID3_FRAMES: Record<string, TagField> = {
+    TIT2: 'media_title',
+    TPE1: 'media_artist',
+    TALB: 'media_album',
+    TT2: 'media_title',
+    TP1: 'media_artist',
+    TAL: 'media_album',
+};
+
+const VORBIS_COMMENTS: Record<string, TagField> = {
+    TITLE: 'media_title',
+    ARTIST: 'media_artist',
+    ALBUM: 'media_album',
+};
+
+const WAVE_FORMATS: Record<number, string> = {
+    0x0001: 'PCM',
+    0x0002: 'MS ADPCM',
+    0x0003: 'IEEE Float',
+    0x0006: 'A-law',
+    0x0007: 'mu-law',
+    0x0011: 'IMA ADPCM',
+    0x0055: 'MP3',
+};
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const FLAC_BLOCK_TYPES = {
+    STREAMINFO: 0,
+    VORBIS_COMMENT: 4,
+} as const;
+
+const EBML_IDS = {
+    HEADER: 0x1a45dfa3,
+    SEGMENT: 0x18538067,
+    SEEK_HEAD: 0x114d9b74,
+    SEEK: 0x4dbb,
+    SEEK_ID: 0x53ab,
+    SEEK_POSITION: 0x53ac,
+    INFO: 0x1549a966,
+    TIMECODE_SCALE: 0x2ad7b1,
+    DURATION: 0x4489,
+    TITLE: 0x7ba9,
+    TRACKS: 0x1654ae6b,
+    TRACK_ENTRY: 0xae,
+    TRACK_TYPE: 0x83,
+    CODEC_ID: 0x86,
+    DEFAULT_DURATION: 0x23e383,
+    VIDEO: 0xe0,
+    PIXEL_WIDTH: 0xb0,
+    PIXEL_HEIGHT: 0xba,
+    AUDIO: 0xe1,
+    SAMPLING_FREQUENCY: 0xb5,
+    CHANNELS: 0x9f,
+    BIT_DEPTH: 0x6264,
+    CLUSTER: 0x1f43b675,
+} as const;
+
+const MATROSKA_TRACK_TYPES = {
+    VIDEO: 1,
+    AUDIO: 2,
+} as const;
+
+// Longest element header: a 4-byte id and an 8-byte size
+const EBML_HEADER_BYTES = 12;
+
+/**
+ * Read duration, bitrate, stream details and tags from an audio or video container
+ *
+ * MP4/MOV, WebM/Matroska, MP3, WAV and FLAC are understood. Structures past the
+ * leading bytes, like a moov box at the end of an MP4, are fetched with ranged
+ * reads. Parsing is best effort: whatever was read before a problem is kept.
+ */
+export async function extractMediaMetadata(
+    head: Buffer,
+    fileSize: number,
+    mime: string,
+    readRange: RangeReader
+): Promise<MediaMetadata> {
+    const metadata: MediaMetadata = {};
+    const reader = createObjectReader(head, fileSize, readRange);
+
+    try {
+        switch (mime) {
+            case 'video/mp4':
+            case 'video/quicktime':
+            case 'video/x-m4v':
+            case 'video/3gpp':
+            case 'audio/mp4':
+                await parseIsoMedia(reader, metadata);
+                break;
+            case 'video/webm':
+            case 'video/x-matroska':
+            case 'audio/webm':
+                await parseMatroska(reader, metadata);
+                break;
+            case 'audio/mpeg':
+                await parseMp3(reader, metadata);
+                break;
+            case 'audio/wav':
+            case 'audio/x-wav':
+            case 'audio/wave':
+                await parseWav(reader, metadata);
+                break;
+            case 'audio/flac':
+            case 'audio/x-flac':
+                await parseFlac(reader, metadata);
+                break;
+        }
+    } catch {
+        // Out-of-range reads on a truncated file, or the ranged read limit; keep what we have
+    }
+
+    if (metadata.duration_seconds !== undefined && !(metadata.duration_seconds > 0 && isFinite(metadata.duration_seconds))) {
+        delete metadata.duration_seconds;
+    }
+    if (metadata.duration_seconds !== undefined) {
+        metadata.duration_seconds = round(metadata.duration_seconds, 3);
+        metadata.bitrate ??= Math.round(fileSize * 8 / metadata.duration_seconds);
+    }
+
+    return metadata;
+}
+
+// ===== MP4 / QuickTime =====
+
+/**
+ * Find the moov box among the top-level boxes and describe its first audio and video track
+ */
+async function parseIsoMedia(reader: ObjectReader, metadata: MediaMetadata): Promise<void> {
+    let moov: Buffer | undefined;
+    let offset = 0;
+
+    while (offset + 8 <= reader.size) {
+        const header = await reader.read(offset, 16);
+        const type = header.toString('latin1', 4, 8);
+        let size = header.readUInt32BE(0);
+        let headerSize = 8;
+
+        if (size === 1) {
+            size = Number(header.readBigUInt64BE(8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = reader.size - offset;
+        }
+        if (size < headerSize) {
+            return;
+        }
+
+        if (type === 'moov') {
+            if (size > METADATA_EXTRACTION_LIMITS.MAX_MEDIA_BOX_BYTES) {
+                return;
+            }
+            moov = await reader.read(offset + headerSize, size - headerSize);
+            break;
+        }
+        offset += size;
+    }
+
+    if (!moov) {
+        return;
+    }
+
+    const mvhd = findBox(moov, 0, moov.length, 'mvhd');
+    if (mvhd) {
+        const { timescale, duration } = readMediaHeader(moov, mvhd.start);
+        if (timescale > 0 && duration > 0) {
+            metadata.duration_seconds = duration / timescale;
+        }
+    }
+
+    forEachBox(moov, 0, moov.length, (type, start, end) => {
+        if (type === 'trak') {
+            parseTrack(moov!, start, end, metadata);
+        }
+    });
+}
+
+function parseTrack(data: Buffer, start: number, end: number, metadata: MediaMetadata): void {
+    const mdia = findBox(data, start, end, 'mdia');
+    if (!mdia) {
+        return;
+    }
+
+    const hdlr = findBox(data, mdia.start, mdia.end, 'hdlr');
+    const handler = hdlr ? data.toString('latin1', hdlr.start + 8, hdlr.start + 12) : '';
+    const isVideo = handler === 'vide' && metadata.video_codec === undefined;
+    const isAudio = handler === 'soun' && metadata.audio_codec === undefined;
+    if (!isVideo && !isAudio) {
+        return;
+    }
+
+    const mdhd = findBox(data, mdia.start, mdia.end, 'mdhd');
+    const { timescale, duration } = mdhd ? readMediaHeader(data, mdhd.start) : { timescale: 0, duration: 0 };
+
+    const minf = findBox(data, mdia.start, mdia.end, 'minf');
+    const stbl = minf && findBox(data, minf.start, minf.end, 'stbl');
+    const stsd = stbl && findBox(data, stbl.start, stbl.end, 'stsd');
+    if (!stbl || !stsd || data.readUInt32BE(stsd.start + 4) === 0) {
+        return;
+    }
+
+    // First sample entry: size, format fourcc, 6 reserved bytes and a data reference index
+    const entry = stsd.start + 8;
+    const codec = data.toString('latin1', entry + 4, entry + 8).trim();
+
+    if (isVideo) {
+        metadata.video_codec = codec;
+
+        // The track header has the display size; the sample entry the coded size
+        const tkhd = findBox(data, start, end, 'tkhd');
+        const displayOffset = tkhd ? tkhd.start + (data[tkhd.start] === 1 ? 88 : 76) : -1;
+        const width = tkhd ? data.readUInt32BE(displayOffset) >>> 16 : 0;
+        const height = tkhd ? data.readUInt32BE(displayOffset + 4) >>> 16 : 0;
+        metadata.video_width = width || data.readUInt16BE(entry + 32);
+        metadata.video_height = height || data.readUInt16BE(entry + 34);
+
+        const stts = findBox(data, stbl.start, stbl.end, 'stts');
+        if (stts && timescale > 0 && duration > 0) {
+            let samples = 0;
+            const count = data.readUInt32BE(stts.start + 4);
+            for (let i = 0; i < count && stts.start + 16 + i * 8 <= stts.end; i++) {
+                samples += data.readUInt32BE(stts.start + 8 + i * 8);
+            }
+            if (samples > 0) {
+                metadata.video_frame_rate = round(samples / (duration / timescale), 3);
+            }
+        }
+    } else {
+        metadata.audio_codec = codec;
+        metadata.audio_channels = data.readUInt16BE(entry + 24);
+
+        // Rates above 65535 Hz don't fit the 16.16 field; the media timescale is the rate then
+        const sampleRate = data.readUInt32BE(entry + 32) >>> 16;
+        metadata.audio_sample_rate = sampleRate || timescale;
+    }
+}
+
+/**
+ * Timescale and duration from an mvhd or mdhd box, whose layout depends on its version
+ */
+function readMediaHeader(data: Buffer, start: number): { timescale: number; duration: number } {
+    if (data[start] === 1) {
+        return {
+            timescale: data.readUInt32BE(start + 20),
+            duration: Number(data.readBigUInt64BE(start + 24))
+        };
+    }
+    return {
+        timescale: data.readUInt32BE(start + 12),
+        duration: data.readUInt32BE(start + 16)
+    };
+}
+
+function forEachBox(data: Buffer, start: number, end: number, visit: (type: string, start: number, end: number) => void): void {
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = data.readUInt32BE(offset);
+        let headerSize = 8;
+        if (size === 1) {
+            size = Number(data.readBigUInt64BE(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize || offset + size > end) {
+            return;
+        }
+
+        visit(data.toString('latin1', offset + 4, offset + 8), offset + headerSize, offset + size);
+        offset += size;
+    }
+}
+
+function findBox(data: Buffer, start: number, end: number, type: string): { start: number; end: number } | undefined {
+    let found: { start: number; end: number } | undefined;
+    forEachBox(data, start, end, (boxType, boxStart, boxEnd) => {
+        if (!found && boxType === type) {
+            found = { start: boxStart, end: boxEnd };
+        }
+    });
+    return found;
+}
+
+// ===== WebM / Matroska =====
+
+/**
+ * Walk the segment's top-level elements for Info and Tracks, following the SeekHead
+ * when they come after the first cluster
+ */
+async function parseMatroska(reader: ObjectReader, metadata: MediaMetadata): Promise<void> {
+    const header = await readEbmlElement(reader, 0);
+    if (!header || header.id !== EBML_IDS.HEADER) {
+        return;
+    }
+
+    const segment = await readEbmlElement(reader, header.dataEnd);
+    if (!segment || segment.id !== EBML_IDS.SEGMENT) {
+        return;
+    }
+    const segmentEnd = segment.unknownSize ? reader.size : Math.min(segment.dataEnd, reader.size);
+
+    const seekPositions = new Map<number, number>();
+    let info: EbmlElement | undefined;
+    let tracks: EbmlElement | undefined;
+    let offset = segment.dataStart;
+
+    while (offset < segmentEnd && (!info || !tracks)) {
+        const element = await readEbmlElement(reader, offset);
+        if (!element || element.unknownSize || element.id === EBML_IDS.CLUSTER) {
+            break;
+        }
+
+        if (element.id === EBML_IDS.INFO) {
+            info = element;
+        } else if (element.id === EBML_IDS.TRACKS) {
+            tracks = element;
+        } else if (element.id === EBML_IDS.SEEK_HEAD) {
+            const data = await readElementData(reader, element);
+            forEachEbmlChild(data, 0, data.length, (id, start, end) => {
+                if (id !== EBML_IDS.SEEK) {
+                    return;
+                }
+                let seekId = 0;
+                let position = -1;
+                forEachEbmlChild(data, start, end, (childId, childStart, childEnd) => {
+                    if (childId === EBML_IDS.SEEK_ID) {
+                        seekId = readUnsigned(data, childStart, childEnd);
+                    } else if (childId === EBML_IDS.SEEK_POSITION) {
+                        position = readUnsigned(data, childStart, childEnd);
+                    }
+                });
+                if (position >= 0) {
+                    seekPositions.set(seekId, segment.dataStart + position);
+                }
+            });
+        }
+
+        offset = element.dataEnd;
+    }
+
+    // Seek positions are relative to the start of the segment's data
+    if (!info && seekPositions.has(EBML_IDS.INFO)) {
+        info = await readEbmlElement(reader, seekPositions.get(EBML_IDS.INFO)!);
+    }
+    if (!tracks && seekPositions.has(EBML_IDS.TRACKS)) {
+        tracks = await readEbmlElement(reader, seekPositions.get(EBML_IDS.TRACKS)!);
+    }
+
+    if (info?.id === EBML_IDS.INFO) {
+        parseMatroskaInfo(await readElementData(reader, info), metadata);
+    }
+    if (tracks?.id === EBML_IDS.TRACKS) {
+        parseMatroskaTracks(await readElementData(reader, tracks), metadata);
+    }
+}
+
+function parseMatroskaInfo(data: Buffer, metadata: MediaMetadata): void {
+    let timecodeScale = 1000000;
+    let duration: number | undefined;
+
+    forEachEbmlChild(data, 0, data.length, (id, start, end) => {
+        if (id === EBML_IDS.TIMECODE_SCALE) {
+            timecodeScale = readUnsigned(data, start, end) || timecodeScale;
+        } else if (id === EBML_IDS.DURATION) {
+            duration = readFloat(data, start, end);
+        } else if (id === EBML_IDS.TITLE) {
+            setTag(metadata, 'media_title', data.toString('utf8', start, end));
+        }
+    });
+
+    // Duration is in timecode ticks, TimecodeScale nanoseconds each
+    if (duration !== undefined) {
+        metadata.duration_seconds = duration * timecodeScale / 1e9;
+    }
+}
+
+function parseMatroskaTracks(data: Buffer, metadata: MediaMetadata): void {
+    forEachEbmlChild(data, 0, data.length, (id, start, end) => {
+        if (id !== EBML_IDS.TRACK_ENTRY) {
+            return;
+        }
+
+        let type = 0;
+        let codec: string | undefined;
+        let defaultDuration = 0;
+        let video: { start: number; end: number } | undefined;
+        let audio: { start: number; end: number } | undefined;
+
+        forEachEbmlChild(data, start, end, (childId, childStart, childEnd) => {
+            switch (childId) {
+                case EBML_IDS.TRACK_TYPE:
+                    type = readUnsigned(data, childStart, childEnd);
+                    break;
+                case EBML_IDS.CODEC_ID:
+                    codec = data.toString('latin1', childStart, childEnd).replace(/\0+$/, '');
+                    break;
+                case EBML_IDS.DEFAULT_DURATION:
+                    defaultDuration = readUnsigned(data, childStart, childEnd);
+                    break;
+                case EBML_IDS.VIDEO:
+                    video = { start: childStart, end: childEnd };
+                    break;
+                case EBML_IDS.AUDIO:
+                    audio = { start: childStart, end: childEnd };
+                    break;
+            }
+        });
+
+        if (type === MATROSKA_TRACK_TYPES.VIDEO && metadata.video_codec === undefined) {
+            if (codec) {
+                metadata.video_codec = codec;
+            }
+            if (video) {
+                forEachEbmlChild(data, video.start, video.end, (childId, childStart, childEnd) => {
+                    if (childId === EBML_IDS.PIXEL_WIDTH) {
+                        metadata.video_width = readUnsigned(data, childStart, childEnd);
+                    } else if (childId === EBML_IDS.PIXEL_HEIGHT) {
+                        metadata.video_height = readUnsigned(data, childStart, childEnd);
+                    }
+                });
+            }
+            // Nanoseconds per frame
+            if (defaultDuration > 0) {
+                metadata.video_frame_rate = round(1e9 / defaultDuration, 3);
+            }
+        } else if (type === MATROSKA_TRACK_TYPES.AUDIO && metadata.audio_codec === undefined) {
+            if (codec) {
+                metadata.audio_codec = codec;
+            }
+            metadata.audio_channels = 1;
+            if (audio) {
+                forEachEbmlChild(data, audio.start, audio.end, (childId, childStart, childEnd) => {
+                    if (childId === EBML_IDS.SAMPLING_FREQUENCY) {
+                        metadata.audio_sample_rate = Math.round(readFloat(data, childStart, childEnd));
+                    } else if (childId === EBML_IDS.CHANNELS) {
+                        metadata.audio_channels = readUnsigned(data, childStart, childEnd);
+                    } else if (childId === EBML_IDS.BIT_DEPTH) {
+                        metadata.audio_bit_depth = readUnsigned(data, childStart, childEnd);
+                    }
+                });
+            }
+            // Matroska's default; the element is only written when it differs
+            metadata.audio_sample_rate ??= 8000;
+        }
+    });
+}
+
+async function readEbmlElement(reader: ObjectReader, offset: number): Promise<EbmlElement | undefined> {
+    const header = await reader.read(offset, EBML_HEADER_BYTES);
+    return parseEbmlHeader(header, 0, offset);
+}
+
+async function readElementData(reader: ObjectReader, element: EbmlElement): Promise<Buffer> {
+    const length = element.dataEnd - element.dataStart;
+    if (length > METADATA_EXTRACTION_LIMITS.MAX_MEDIA_BOX_BYTES) {
+        throw new Error('Matroska element too large');
+    }
+    return reader.read(element.dataStart, length);
+}
+
+/**
+ * Parse an element's id and size at position; base is the offset of data[0] in the file
+ */
+function parseEbmlHeader(data: Buffer, position: number, base: number = 0): EbmlElement | undefined {
+    const id = readVint(data, position, true);
+    if (!id || id.length > 4) {
+        return undefined;
+    }
+    const size = readVint(data, position + id.length, false);
+    if (!size) {
+        return undefined;
+    }
+
+    const dataStart = base + position + id.length + size.length;
+    return {
+        id: id.value,
+        dataStart,
+        dataEnd: size.unknown ? Infinity : dataStart + size.value,
+        unknownSize: size.unknown
+    };
+}
+
+function forEachEbmlChild(data: Buffer, start: number, end: number, visit: (id: number, start: number, end: number) => void): void {
+    let position = start;
+    while (position < end) {
+        const element = parseEbmlHeader(data, position);
+        if (!element || element.unknownSize || element.dataEnd > end) {
+            return;
+        }
+        visit(element.id, element.dataStart, element.dataEnd);
+        position = element.dataEnd;
+    }
+}
+
+/**
+ * EBML variable-length integer; ids keep their length marker, sizes drop it
+ */
+function readVint(data: Buffer, position: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | undefined {
+    if (position >= data.length || data[position] === 0) {
+        return undefined;
+    }
+
+    const first = data[position];
+    let length = 1;
+    let mask = 0x80;
+    while (!(first & mask)) {
+        mask >>= 1;
+        length++;
+    }
+    if (position + length > data.length) {
+        return undefined;
+    }
+
+    let value = keepMarker ? first : first & (mask - 1);
+    let allOnes = (first & (mask - 1)) === mask - 1;
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + data[position + i];
+        allOnes = allOnes && data[position + i] === 0xff;
+    }
+
+    return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUnsigned(data: Buffer, start: number, end: number): number {
+    let value = 0;
+    for (let i = start; i < end; i++) {
+        value = value * 256 + data[i];
+    }
+    return value;
+}
+
+function readFloat(data: Buffer, start: number, end: number): number {
+    if (end - start === 4) {
+        return data.readFloatBE(start);
+    }
+    if (end - start === 8) {
+        return data.readDoubleBE(start);
+    }
+    return 0;
+}
+
+// ===== MP3 =====
+
+/**
+ * Read ID3 tags, then the first frame header and any Xing/Info or VBRI tag behind it
+ *
+ * Without a frame count the stream is taken to be constant bitrate.
+ */
+async function parseMp3(reader: ObjectReader, metadata: MediaMetadata): Promise<void> {
+    let audioStart = 0;
+
+    const id3Header = await reader.read(0, 10);
+    if (id3Header.toString('latin1', 0, 3) === 'ID3') {
+        const hasFooter = (id3Header[5] & 0x10) !== 0;
+        const tagSize = 10 + readSyncsafe(id3Header, 6) + (hasFooter ? 10 : 0);
+        if (tagSize <= METADATA_EXTRACTION_LIMITS.MAX_MEDIA_BOX_BYTES) {
+            parseId3v2(await reader.read(0, tagSize), metadata);
+        }
+        audioStart = tagSize;
+    }
+
+    // ID3v1 sits in the last 128 bytes; its tags only fill gaps left by ID3v2
+    let audioEnd = reader.size;
+    if (reader.size >= audioStart + 128) {
+        const id3v1 = await reader.read(reader.size - 128, 128);
+        if (id3v1.toString('latin1', 0, 3) === 'TAG') {
+            audioEnd -= 128;
+            setTag(metadata, 'media_title', id3v1.toString('latin1', 3, 33));
+            setTag(metadata, 'media_artist', id3v1.toString('latin1', 33, 63));
+            setTag(metadata, 'media_album', id3v1.toString('latin1', 63, 93));
+        }
+    }
+
+    const data = await reader.read(audioStart, MPEG_SYNC_SEARCH_BYTES);
+    let frameOffset = -1;
+    let frame: MpegFrame | undefined;
+
+    for (let i = 0; i + 4 <= data.length; i++) {
+        const candidate = parseMpegFrame(data, i);
+        if (!candidate) {
+            continue;
+        }
+        // A second header right behind the first rules out a chance 0xFFE match
+        const next = i + candidate.length;
+        if (next + 4 <= data.length && !parseMpegFrame(data, next)) {
+            continue;
+        }
+        frameOffset = i;
+        frame = candidate;
+        break;
+    }
+
+    if (!frame) {
+        return;
+    }
+
+    metadata.audio_codec = frame.codec;
+    metadata.audio_sample_rate = frame.sampleRate;
+    metadata.audio_channels = frame.channels;
+
+    const audioBytes = audioEnd - audioStart - frameOffset;
+    const vbr = readVbrHeader(data, frameOffset, frame);
+
+    if (vbr?.frames) {
+        metadata.duration_seconds = vbr.frames * frame.samplesPerFrame / frame.sampleRate;
+        metadata.bitrate = Math.round((vbr.bytes || audioBytes) * 8 / metadata.duration_seconds);
+    } else {
+        metadata.duration_seconds = audioBytes * 8 / frame.bitrate;
+        metadata.bitrate = frame.bitrate;
+    }
+}
+
+function parseMpegFrame(data: Buffer, offset: number): MpegFrame | undefined {
+    if (offset + 4 > data.length || data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) {
+        return undefined;
+    }
+
+    const versionBits = (data[offset + 1] >> 3) & 0x03;
+    const layerBits = (data[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = data[offset + 2] >> 4;
+    const rateIndex = (data[offset + 2] >> 2) & 0x03;
+    const padding = (data[offset + 2] >> 1) & 0x01;
+    const channelMode = data[offset + 3] >> 6;
+
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+        return undefined;
+    }
+
+    const isMpeg1 = versionBits === 3;
+    const layer = 4 - layerBits;
+    const bitrate = MPEG_BITRATES[`${isMpeg1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+    const sampleRate = MPEG_SAMPLE_RATES[versionBits][rateIndex];
+    const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152;
+    const mono = channelMode === 3;
+
+    return {
+        codec: `MP${layer}`,
+        bitrate,
+        sampleRate,
+        channels: mono ? 1 : 2,
+        samplesPerFrame,
+        length: layer === 1 ?
+            (Math.floor(12 * bitrate / sampleRate) + padding) * 4 :
+            Math.floor(samplesPerFrame / 8 * bitrate / sampleRate) + padding,
+        sideInfoLength: isMpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17)
+    };
+}
+
+/**
+ * Frame and byte counts written by VBR encoders into the first frame
+ */
+function readVbrHeader(data: Buffer, frameOffset: number, frame: MpegFrame): { frames?: number; bytes?: number } | undefined {
+    const xing = frameOffset + 4 + frame.sideInfoLength;
+    const xingTag = data.toString('latin1', xing, xing + 4);
+    if ((xingTag === 'Xing' || xingTag === 'Info') && xing + 8 <= data.length) {
+        const flags = data.readUInt32BE(xing + 4);
+        let position = xing + 8;
+        const result: { frames?: number; bytes?: number } = {};
+        if (flags & 0x01 && position + 4 <= data.length) {
+            result.frames = data.readUInt32BE(position);
+            position += 4;
+        }
+        if (flags & 0x02 && position + 4 <= data.length) {
+            result.bytes = data.readUInt32BE(position);
+        }
+        return result;
+    }
+
+    const vbri = frameOffset + 4 + 32;
+    if (data.toString('latin1', vbri, vbri + 4) === 'VBRI' && vbri + 18 <= data.length) {
+        return {
+            bytes: data.readUInt32BE(vbri + 10),
+            frames: data.readUInt32BE(vbri + 14)
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Title, artist and album text frames from an ID3v2.2, 2.3 or 2.4 tag
+ */
+function parseId3v2(tag: Buffer, metadata: MediaMetadata): void {
+    const major = tag[3];
+    const flags = tag[5];
+    if (major < 2 || major > 4) {
+        return;
+    }
+
+    // Tag-wide unsynchronisation (before 2.4) stuffs a zero after every 0xFF
+    let body = tag.subarray(10);
+    if (flags & 0x80 && major < 4) {
+        body = removeUnsynchronisation(body);
+    }
+
+    let position = 0;
+    if (flags & 0x40 && major >= 3) {
+        position = major === 4 ? readSyncsafe(body, 0) : 4 + body.readUInt32BE(0);
+    }
+
+    const idLength = major === 2 ? 3 : 4;
+    const headerLength = major === 2 ? 6 : 10;
+
+    while (position + headerLength <= body.length) {
+        const id = body.toString('latin1', position, position + idLength);
+        if (!/^[A-Z0-9]+$/.test(id)) {
+            break; // Padding
+        }
+
+        const size = major === 2 ? body.readUIntBE(position + 3, 3) :
+            major === 4 ? readSyncsafe(body, position + 4) :
+            body.readUInt32BE(position + 4);
+        const frameFlags = major === 2 ? 0 : body[position + 9];
+        const frame = body.subarray(position + headerLength, position + headerLength + size);
+
+        // Compressed or encrypted frames are skipped
+        const unreadable = major === 4 ? (frameFlags & 0x0c) !== 0 : (frameFlags & 0xc0) !== 0;
+        const field = ID3_FRAMES[id];
+        if (field && !unreadable && frame.length > 1) {
+            setTag(metadata, field, decodeId3Text(frame));
+        }
+
+        position += headerLength + size;
+    }
+}
+
+/**
+ * Text frames start with an encoding byte; only the first of several values is kept
+ */
+function decodeId3Text(frame: Buffer): string {
+    const encoding = frame[0];
+    const data = frame.subarray(1);
+
+    let text: string;
+    switch (encoding) {
+        case 1: {
+            const bigEndian = data[0] === 0xfe && data[1] === 0xff;
+            const content = data[0] === 0xff || bigEndian ? data.subarray(2) : data;
+            text = bigEndian ? swapBytes(content).toString('utf16le') : content.toString('utf16le');
+            break;
+        }
+        case 2:
+            text = swapBytes(data).toString('utf16le');
+            break;
+        case 3:
+            text = data.toString('utf8');
+            break;
+        default:
+            text = data.toString('latin1');
+    }
+
+    return text.split('\0')[0];
+}
+
+function removeUnsynchronisation(data: Buffer): Buffer {
+    const output: number[] = [];
+    for (let i = 0; i < data.length; i++) {
+        output.push(data[i]);
+        if (data[i] === 0xff && data[i + 1] === 0x00) {
+            i++;
+        }
+    }
+    return Buffer.from(output);
+}
+
+function swapBytes(data: Buffer): Buffer {
+    const swapped = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+    return swapped.swap16();
+}
+
+function readSyncsafe(data: Buffer, offset: number): number {
+    return ((data[offset] & 0x7f) << 21) | ((data[offset + 1] & 0x7f) << 14) |
+        ((data[offset + 2] & 0x7f) << 7) | (data[offset + 3] & 0x7f);
+}
+
+// ===== WAV =====
+
+/**
+ * Walk the RIFF (or RF64) chunks for the format and the size of the sample data
+ */
+async function parseWav(reader: ObjectReader, metadata: MediaMetadata): Promise<void> {
+    const riff = await reader.read(0, 12);
+    const isRf64 = riff.toString('latin1', 0, 4) === 'RF64';
+
+    let byteRate = 0;
+    let ds64DataSize: number | undefined;
+    let dataSize: number | undefined;
+    let offset = 12;
+
+    while (offset + 8 <= reader.size && dataSize === undefined) {
+        const header = await reader.read(offset, 8);
+        const id = header.toString('latin1', 0, 4);
+        const size = header.readUInt32LE(4);
+
+        if (id === 'ds64' && isRf64) {
+            const body = await reader.read(offset + 8, 16);
+            ds64DataSize = Number(body.readBigUInt64LE(8));
+        } else if (id === 'fmt ') {
+            const body = await reader.read(offset + 8, Math.min(size, 40));
+            let formatTag = body.readUInt16LE(0);
+            if (formatTag === WAVE_FORMAT_EXTENSIBLE && body.length >= 26) {
+                formatTag = body.readUInt16LE(24);
+            }
+
+            metadata.audio_codec = WAVE_FORMATS[formatTag] || `0x${formatTag.toString(16).padStart(4, '0')}`;
+            metadata.audio_channels = body.readUInt16LE(2);
+            metadata.audio_sample_rate = body.readUInt32LE(4);
+            byteRate = body.readUInt32LE(8);
+            if (body.length >= 16) {
+                metadata.audio_bit_depth = body.readUInt16LE(14);
+            }
+        } else if (id === 'data') {
+            // Streamed files leave the size unset; RF64 moves it to ds64
+            const available = reader.size - offset - 8;
+            dataSize = Math.min(
+                isRf64 && size === 0xffffffff && ds64DataSize !== undefined ? ds64DataSize :
+                    size === 0 || size === 0xffffffff ? available : size,
+                available
+            );
+        }
+
+        offset += 8 + size + (size & 1);
+    }
+
+    if (byteRate > 0) {
+        metadata.bitrate = byteRate * 8;
+        if (dataSize !== undefined) {
+            metadata.duration_seconds = dataSize / byteRate;
+        }
+    }
+}
+
+// ===== FLAC =====
+
+/**
+ * Read STREAMINFO and Vorbis comments from the metadata blocks after the fLaC marker
+ */
+async function parseFlac(reader: ObjectReader, metadata: MediaMetadata): Promise<void> {
+    let offset = 4;
+
+    while (offset + 4 <= reader.size) {
+        const header = await reader.read(offset, 4);
+        const isLast = (header[0] & 0x80) !== 0;
+        const type = header[0] & 0x7f;
+        const length = header.readUIntBE(1, 3);
+
+        if (type === FLAC_BLOCK_TYPES.STREAMINFO && length >= 34) {
+            const block = await reader.read(offset + 4, 34);
+            const sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4);
+            const totalSamples = (block[13] & 0x0f) * 2 ** 32 + block.readUInt32BE(14);
+
+            metadata.audio_codec = 'FLAC';
+            metadata.audio_sample_rate = sampleRate;
+            metadata.audio_channels = ((block[12] >> 1) & 0x07) + 1;
+            metadata.audio_bit_depth = (((block[12] & 0x01) << 4) | (block[13] >> 4)) + 1;
+            if (sampleRate > 0 && totalSamples > 0) {
+                metadata.duration_seconds = totalSamples / sampleRate;
+            }
+        } else if (type === FLAC_BLOCK_TYPES.VORBIS_COMMENT && length <= METADATA_EXTRACTION_LIMITS.MAX_MEDIA_BOX_BYTES) {
+            parseVorbisComments(await reader.read(offset + 4, length), metadata);
+        }
+
+        if (isLast) {
+            break;
+        }
+        offset += 4 + length;
+    }
+}
+
+/**
+ * Little-endian length-prefixed vendor string, then KEY=value comments
+ */
+function parseVorbisComments(block: Buffer, metadata: MediaMetadata): void {
+    let position = 4 + block.readUInt32LE(0);
+    const count = block.readUInt32LE(position);
+    position += 4;
+
+    for (let i = 0; i < count && position + 4 <= block.length; i++) {
+        const length = block.readUInt32LE(position);
+        const comment = block.toString('utf8', position + 4, position + 4 + length);
+        position += 4 + length;
+
+        const equals = comment.indexOf('=');
+        const field = VORBIS_COMMENTS[comment.slice(0, equals).toUpperCase()];
+        if (equals > 0 && field) {
+            setTag(metadata, field, comment.slice(equals + 1));
+        }
+    }
+}
+
+// ===== Helpers =====
+
+/**
+ * Keep the first non-empty value seen for a tag, trimmed and capped
+ */
+function setTag(metadata: MediaMetadata, field: TagField, value: string): void {
+    const cleaned = value.replace(/\0/g, '').trim().slice(0, METADATA_EXTRACTION_LIMITS.MAX_STRING_LENGTH);
+    if (cleaned && !metadata[field]) {
+        metadata[field] = cleaned;
+    }
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
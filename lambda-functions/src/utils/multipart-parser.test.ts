@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  MultipartParser,
+  MultipartParseError,
+  getMultipartBoundary,
+  parseHeaderValue,
+  parseMultipartBody
+} from './multipart-parser';
+import { MultipartPart } from '../types';
+
+const FIXTURE_DIR = join(__dirname, '__fixtures__', 'multipart');
+
+/**
+ * A fixture is the request's Content-Type header, a blank line, then the body exactly as sent
+ */
+function loadFixture(name: string): { boundary: string; body: Buffer } {
+    const raw = readFileSync(join(FIXTURE_DIR, name));
+    const separator = raw.indexOf('\r\n\r\n');
+    const contentType = raw.subarray(0, separator).toString('utf8').replace(/^Content-Type:\s*/i, '');
+
+    return {
+        boundary: getMultipartBoundary(contentType),
+        body: raw.subarray(separator + 4)
+    };
+}
+
+/**
+ * Feed the body in fixed-size chunks, so boundaries and headers straddle chunk edges
+ */
+function parseInChunks(body: Buffer, boundary: string, chunkSize: number): MultipartPart[] {
+    const parts: MultipartPart[] = [];
+    let chunks: Buffer[] = [];
+
+    const parser = new MultipartParser(boundary, {
+        onPartBegin: () => {
+            chunks = [];
+        },
+        onPartData: (_part, chunk) => {
+            chunks.push(Buffer.from(chunk));
+        },
+        onPartEnd: (part) => {
+            parts.push({ name: part.name, filename: part.filename, contentType: part.contentType, data: Buffer.concat(chunks) });
+        }
+    });
+
+    for (let offset = 0; offset < body.length; offset += chunkSize) {
+        parser.write(body.subarray(offset, offset + chunkSize));
+    }
+    parser.end();
+
+    return parts;
+}
+
+interface ExpectedPart {
+    name: string;
+    filename?: string;
+    contentType?: string;
+    data: string | Buffer;
+}
+
+const FIXTURES: Record<string, ExpectedPart[]> = {
+    'chrome.http': [
+        {
+            name: 'file',
+            filename: 'report.pdf',
+            contentType: 'application/pdf',
+            data: Buffer.concat([Buffer.from('%PDF-1.4\r\n--not-a-boundary\r\n'), Buffer.from([...Array(256).keys()]), Buffer.from('\r\n%%EOF')])
+        },
+        { name: 'file', filename: 'notes 2024; final.txt', contentType: 'text/plain', data: 'line one\r\nline two\r\n' },
+        { name: 'metadata', data: '{"project":"demo"}' },
+        { name: 'dedupe', data: 'reject' }
+    ],
+    'firefox.http': [
+        { name: 'file', filename: 'résumé.txt', contentType: 'text/plain', data: 'Curriculum vitæ\n' },
+        { name: 'file', filename: '', contentType: 'application/octet-stream', data: '' }
+    ],
+    'edge-legacy.http': [
+        { name: 'file', filename: 'notes.txt', contentType: 'text/plain', data: 'from IE\r\n' }
+    ],
+    'curl.http': [
+        { name: 'file', filename: 'photo.png', contentType: 'image/png', data: Buffer.from('\x89PNG\r\n\x1a\n\x00\x00\x00\rIHDR', 'latin1') },
+        { name: 'file', filename: 'say "hi".txt', contentType: 'text/plain', data: 'hi' },
+        { name: 'metadata', data: '{"source":"curl"}' }
+    ],
+    'python-requests.http': [
+        { name: 'metadata', data: '{"source":"python"}' },
+        { name: 'file', filename: 'data.csv', data: 'a,b\r\n1,2\r\n' },
+        { name: 'file', filename: 'naïve.csv', data: 'x\n' }
+    ],
+    'bare-lf.http': [
+        { name: 'file', filename: 'unix.txt', contentType: 'text/plain', data: 'one\ntwo' }
+    ]
+};
+
+function toComparable(parts: MultipartPart[]) {
+    return parts.map(part => ({
+        name: part.name,
+        filename: part.filename,
+        contentType: part.contentType,
+        data: part.data.toString('hex')
+    }));
+}
+
+describe('parseMultipartBody', () => {
+    describe.each(Object.entries(FIXTURES))('%s', (fixture, expected) => {
+        const { boundary, body } = loadFixture(fixture);
+        const expectedParts = toComparable(expected.map(part => ({
+            ...part,
+            data: Buffer.isBuffer(part.data) ? part.data : Buffer.from(part.data, 'utf8')
+        })));
+
+        it('parses every part', () => {
+            expect(toComparable(parseMultipartBody(body, boundary))).toEqual(expectedParts);
+        });
+
+        it.each([1, 7, 64])('gives the same parts when streamed in %i-byte chunks', chunkSize => {
+            expect(toComparable(parseInChunks(body, boundary, chunkSize))).toEqual(expectedParts);
+        });
+    });
+
+    it('rejects a body that ends before the close delimiter', () => {
+        const { boundary, body } = loadFixture('curl.http');
+        expect(() => parseMultipartBody(body.subarray(0, body.length - 10), boundary)).toThrow(MultipartParseError);
+    });
+
+    it('enforces the maximum part count', () => {
+        const { boundary, body } = loadFixture('chrome.http');
+        expect(() => parseMultipartBody(body, boundary, { maxParts: 3 })).toThrow(/Too many parts/);
+    });
+
+    it('enforces the file and field size limits', () => {
+        const { boundary, body } = loadFixture('chrome.http');
+        expect(() => parseMultipartBody(body, boundary, { maxFileSize: 100 })).toThrow(/File part "file" exceeds/);
+        expect(() => parseMultipartBody(body, boundary, { maxFieldSize: 10 })).toThrow(/Field "metadata" exceeds/);
+    });
+});
+
+describe('parseHeaderValue', () => {
+    it('only unescapes quotes and backslashes inside quoted strings', () => {
+        expect(parseHeaderValue('form-data; filename="a \\"b\\" \\\\ c"').params.filename).toBe('a "b" \\ c');
+        expect(parseHeaderValue('form-data; filename="C:\\Users\\me\\a.txt"').params.filename).toBe('C:\\Users\\me\\a.txt');
+    });
+
+    it('keeps semicolons inside quoted strings', () => {
+        expect(parseHeaderValue('form-data; name="file"; filename="a; b.txt"').params).toEqual({ name: 'file', filename: 'a; b.txt' });
+    });
+
+    it('prefers the RFC 5987 form of a parameter', () => {
+        const { params } = parseHeaderValue('form-data; filename="fallback.txt"; filename*=UTF-8\'\'%E2%82%AC%20rates.txt');
+        expect(params.filename).toBe('€ rates.txt');
+    });
+});
@@ -0,0 +1,511 @@
+import { StatusCodes } from 'http-status-codes';
+import { MultipartPart } from '../types';
+
+/**
+ * Limits applied while parsing multipart/form-data bodies
+ */
+export interface MultipartLimits {
+    maxParts: number;
+    maxFileSize: number;
+    maxFieldSize: number;
+    maxHeaderSize: number;
+}
+
+export const DEFAULT_MULTIPART_LIMITS: MultipartLimits = {
+    maxParts: 100,
+    maxFileSize: 10 * 1024 * 1024, // 10MB
+    maxFieldSize: 64 * 1024, // 64KB
+    maxHeaderSize: 16 * 1024, // 16KB
+};
+
+/**
+ * Headers of a single part, available as soon as the part begins
+ */
+export interface MultipartPartHeaders {
+    name: string;
+    filename?: string;
+    contentType?: string;
+    headers: Record<string, string>;
+}
+
+/**
+ * Callbacks invoked by the streaming parser as parts are read
+ */
+export interface MultipartHandlers {
+    onPartBegin?: (part: MultipartPartHeaders) => void;
+    onPartData?: (part: MultipartPartHeaders, chunk: Buffer) => void;
+    onPartEnd?: (part: MultipartPartHeaders) => void;
+}
+
+/**
+ * Error raised for malformed or oversized multipart bodies
+ */
+export class MultipartParseError extends Error {
+    readonly statusCode: number;
+
+    constructor(message: string, statusCode: number = StatusCodes.BAD_REQUEST) {
+        super(message);
+        this.name = 'MultipartParseError';
+        this.statusCode = statusCode;
+    }
+}
+
+enum ParserState {
+    PREAMBLE,
+    AFTER_BOUNDARY,
+    HEADERS,
+    BODY,
+    EPILOGUE
+}
+
+/**
+ * Streaming multipart/form-data parser (RFC 7578)
+ *
+ * Feed chunks with write() and call end() once the body is exhausted. Only the
+ * bytes that might still be the start of a boundary are buffered between chunks.
+ */
+export class MultipartParser {
+    private readonly boundary: string;
+    private readonly limits: MultipartLimits;
+    private readonly handlers: MultipartHandlers;
+
+    private state: ParserState = ParserState.PREAMBLE;
+    private buffer: Buffer = Buffer.alloc(0);
+    private lineBreak = '\r\n';
+    private delimiter: Buffer;
+    private currentPart: MultipartPartHeaders | null = null;
+    private currentPartSize = 0;
+    private partCount = 0;
+
+    constructor(boundary: string, handlers: MultipartHandlers, limits: Partial<MultipartLimits> = {}) {
+        if (!boundary || boundary.length > 70) {
+            throw new MultipartParseError('Invalid multipart boundary');
+        }
+
+        this.boundary = boundary;
+        this.handlers = handlers;
+        this.limits = { ...DEFAULT_MULTIPART_LIMITS, ...limits };
+        this.delimiter = Buffer.from(`${this.lineBreak}--${boundary}`);
+    }
+
+    /**
+     * Consume the next chunk of the body
+     */
+    write(chunk: Buffer): void {
+        this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+        let progressed = true;
+        while (progressed && this.buffer.length > 0) {
+            switch (this.state) {
+                case ParserState.PREAMBLE:
+                    progressed = this.readPreamble();
+                    break;
+                case ParserState.AFTER_BOUNDARY:
+                    progressed = this.readAfterBoundary();
+                    break;
+                case ParserState.HEADERS:
+                    progressed = this.readHeaders();
+                    break;
+                case ParserState.BODY:
+                    progressed = this.readBody();
+                    break;
+                case ParserState.EPILOGUE:
+                    // Anything after the close delimiter is ignored
+                    this.buffer = Buffer.alloc(0);
+                    progressed = false;
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Signal the end of the body, failing if the close delimiter was never seen
+     */
+    end(): void {
+        if (this.state !== ParserState.EPILOGUE) {
+            throw new MultipartParseError('Unexpected end of multipart body');
+        }
+    }
+
+    private readPreamble(): boolean {
+        const opening = Buffer.from(`--${this.boundary}`);
+        let searchFrom = 0;
+
+        while (true) {
+            const index = this.buffer.indexOf(opening, searchFrom);
+            if (index === -1) {
+                // Keep enough bytes to recognise a boundary split across chunks
+                this.buffer = this.buffer.subarray(Math.max(0, this.buffer.length - opening.length - 1));
+                return false;
+            }
+
+            // The first boundary must start a line
+            if (index === 0 || this.buffer[index - 1] === 0x0a) {
+                this.buffer = this.buffer.subarray(index + opening.length);
+                this.state = ParserState.AFTER_BOUNDARY;
+                return true;
+            }
+
+            searchFrom = index + 1;
+        }
+    }
+
+    private readAfterBoundary(): boolean {
+        if (this.buffer.length < 2) {
+            return false;
+        }
+
+        if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+            this.state = ParserState.EPILOGUE;
+            this.buffer = Buffer.alloc(0);
+            return false;
+        }
+
+        // Skip optional transport padding before the line break
+        let index = 0;
+        while (index < this.buffer.length && (this.buffer[index] === 0x20 || this.buffer[index] === 0x09)) {
+            index++;
+        }
+
+        if (index >= this.buffer.length) {
+            return false;
+        }
+
+        if (this.buffer[index] === 0x0d) {
+            if (index + 1 >= this.buffer.length) {
+                return false;
+            }
+            if (this.buffer[index + 1] !== 0x0a) {
+                throw new MultipartParseError('Malformed multipart boundary line');
+            }
+            this.setLineBreak('\r\n');
+            this.buffer = this.buffer.subarray(index + 2);
+        } else if (this.buffer[index] === 0x0a) {
+            // Tolerate clients that use bare LF line endings throughout
+            this.setLineBreak('\n');
+            this.buffer = this.buffer.subarray(index + 1);
+        } else {
+            throw new MultipartParseError('Malformed multipart boundary line');
+        }
+
+        this.partCount++;
+        if (this.partCount > this.limits.maxParts) {
+            throw new MultipartParseError(
+                `Too many parts - maximum ${this.limits.maxParts} allowed`,
+                StatusCodes.REQUEST_TOO_LONG
+            );
+        }
+
+        this.state = ParserState.HEADERS;
+        return true;
+    }
+
+    private readHeaders(): boolean {
+        const terminator = Buffer.from(this.lineBreak + this.lineBreak);
+        let headerBlock: Buffer;
+
+        // A part with no headers starts directly with a blank line
+        if (this.buffer.indexOf(this.lineBreak) === 0) {
+            headerBlock = Buffer.alloc(0);
+            this.buffer = this.buffer.subarray(this.lineBreak.length);
+        } else {
+            const index = this.buffer.indexOf(terminator);
+            if (index === -1) {
+                if (this.buffer.length > this.limits.maxHeaderSize) {
+                    throw new MultipartParseError('Multipart part headers too large', StatusCodes.REQUEST_HEADER_FIELDS_TOO_LARGE);
+                }
+                return false;
+            }
+            if (index > this.limits.maxHeaderSize) {
+                throw new MultipartParseError('Multipart part headers too large', StatusCodes.REQUEST_HEADER_FIELDS_TOO_LARGE);
+            }
+            headerBlock = this.buffer.subarray(0, index);
+            this.buffer = this.buffer.subarray(index + terminator.length);
+        }
+
+        this.currentPart = buildPartHeaders(parseHeaderBlock(headerBlock.toString('utf8')));
+        this.currentPartSize = 0;
+        this.handlers.onPartBegin?.(this.currentPart);
+        this.state = ParserState.BODY;
+        return true;
+    }
+
+    private readBody(): boolean {
+        const index = this.buffer.indexOf(this.delimiter);
+
+        if (index === -1) {
+            // Everything except a possible partial delimiter at the tail is part data
+            const safeLength = this.buffer.length - (this.delimiter.length - 1);
+            if (safeLength > 0) {
+                this.emitData(this.buffer.subarray(0, safeLength));
+                this.buffer = this.buffer.subarray(safeLength);
+            }
+            return false;
+        }
+
+        if (index > 0) {
+            this.emitData(this.buffer.subarray(0, index));
+        }
+
+        this.handlers.onPartEnd?.(this.currentPart!);
+        this.currentPart = null;
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.state = ParserState.AFTER_BOUNDARY;
+        return true;
+    }
+
+    private emitData(chunk: Buffer): void {
+        const part = this.currentPart!;
+        this.currentPartSize += chunk.length;
+
+        const limit = part.filename !== undefined ? this.limits.maxFileSize : this.limits.maxFieldSize;
+        if (this.currentPartSize > limit) {
+            throw new MultipartParseError(
+                part.filename !== undefined ?
+                    `File part "${part.name}" exceeds the maximum size of ${limit} bytes` :
+                    `Field "${part.name}" exceeds the maximum size of ${limit} bytes`,
+                StatusCodes.REQUEST_TOO_LONG
+            );
+        }
+
+        this.handlers.onPartData?.(part, chunk);
+    }
+
+    private setLineBreak(lineBreak: string): void {
+        if (lineBreak !== this.lineBreak) {
+            this.lineBreak = lineBreak;
+            this.delimiter = Buffer.from(`${lineBreak}--${this.boundary}`);
+        }
+    }
+}
+
+/**
+ * Parse a complete multipart/form-data body into parts
+ */
+export function parseMultipartBody(
+    body: Buffer,
+    boundary: string,
+    limits: Partial<MultipartLimits> = {}
+): MultipartPart[] {
+    const parts: MultipartPart[] = [];
+    let chunks: Buffer[] = [];
+
+    const parser = new MultipartParser(boundary, {
+        onPartBegin: () => {
+            chunks = [];
+        },
+        onPartData: (_part, chunk) => {
+            chunks.push(chunk);
+        },
+        onPartEnd: (part) => {
+            parts.push({
+                name: part.name,
+                filename: part.filename,
+                contentType: part.contentType,
+                data: Buffer.concat(chunks)
+            });
+        }
+    }, limits);
+
+    parser.write(body);
+    parser.end();
+
+    return parts;
+}
+
+/**
+ * Extract the boundary parameter from a multipart/form-data Content-Type header
+ */
+export function getMultipartBoundary(contentType: string): string {
+    const { type, params } = parseHeaderValue(contentType);
+
+    if (type !== 'multipart/form-data') {
+        throw new MultipartParseError('Content-Type must be multipart/form-data', StatusCodes.UNSUPPORTED_MEDIA_TYPE);
+    }
+
+    if (!params.boundary) {
+        throw new MultipartParseError('No boundary found in Content-Type header');
+    }
+
+    return params.boundary;
+}
+
+/**
+ * Parse a header value of the form `token; key=value; key*=charset'lang'value`
+ *
+ * Quoted strings may contain semicolons and the escapes \" and \\; any other
+ * backslash is kept, since old IE and Edge send unescaped Windows paths as
+ * filenames. Extended (RFC 5987) parameters take precedence over their plain
+ * counterparts.
+ */
+export function parseHeaderValue(value: string): { type: string; params: Record<string, string> } {
+    const params: Record<string, string> = {};
+    const extended: Record<string, string> = {};
+
+    const semicolon = value.indexOf(';');
+    const type = (semicolon === -1 ? value : value.slice(0, semicolon)).trim().toLowerCase();
+    let position = semicolon === -1 ? value.length : semicolon + 1;
+
+    while (position < value.length) {
+        // Parameter name
+        while (position < value.length && /[\s;]/.test(value[position])) {
+            position++;
+        }
+        const nameStart = position;
+        while (position < value.length && value[position] !== '=' && value[position] !== ';') {
+            position++;
+        }
+        const name = value.slice(nameStart, position).trim().toLowerCase();
+
+        if (position >= value.length || value[position] === ';') {
+            continue;
+        }
+        position++; // skip '='
+
+        while (position < value.length && (value[position] === ' ' || value[position] === '\t')) {
+            position++;
+        }
+
+        // Parameter value, quoted or token
+        let paramValue = '';
+        if (value[position] === '"') {
+            position++;
+            while (position < value.length && value[position] !== '"') {
+                if (value[position] === '\\' && (value[position + 1] === '"' || value[position + 1] === '\\')) {
+                    position++;
+                }
+                paramValue += value[position];
+                position++;
+            }
+            position++; // skip closing quote
+            while (position < value.length && value[position] !== ';') {
+                position++;
+            }
+        } else {
+            const valueStart = position;
+            while (position < value.length && value[position] !== ';') {
+                position++;
+            }
+            paramValue = value.slice(valueStart, position).trim();
+        }
+
+        if (!name) {
+            continue;
+        }
+
+        if (name.endsWith('*')) {
+            const decoded = decodeExtendedValue(paramValue);
+            if (decoded !== undefined) {
+                extended[name.slice(0, -1)] = decoded;
+            }
+        } else if (!(name in params)) {
+            params[name] = paramValue;
+        }
+    }
+
+    return { type, params: { ...params, ...extended } };
+}
+
+/**
+ * Decode an RFC 5987 extended parameter value (charset'language'pct-encoded)
+ */
+function decodeExtendedValue(value: string): string | undefined {
+    const match = value.match(/^([^']*)'[^']*'(.*)$/);
+    if (!match) {
+        return undefined;
+    }
+
+    const charset = match[1].toLowerCase();
+    const bytes = percentDecode(match[2]);
+
+    if (charset === 'utf-8' || charset === '') {
+        return bytes.toString('utf8');
+    }
+    if (charset === 'iso-8859-1' || charset === 'latin1' || charset === 'us-ascii') {
+        return bytes.toString('latin1');
+    }
+
+    return undefined;
+}
+
+/**
+ * Percent-decode into raw bytes so multi-byte sequences survive
+ */
+function percentDecode(value: string): Buffer {
+    const bytes: number[] = [];
+
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === '%' && /^[0-9a-fA-F]{2}$/.test(value.slice(i + 1, i + 3))) {
+            bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+            i += 2;
+        } else {
+            bytes.push(...Buffer.from(value[i], 'utf8'));
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+/**
+ * Split a header block into a lower-cased header map, unfolding continuation lines
+ */
+function parseHeaderBlock(block: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    let lastName: string | undefined;
+
+    for (const line of block.split(/\r?\n/)) {
+        if (line === '') {
+            continue;
+        }
+
+        if ((line[0] === ' ' || line[0] === '\t') && lastName) {
+            headers[lastName] += ' ' + line.trim();
+            continue;
+        }
+
+        const colon = line.indexOf(':');
+        if (colon <= 0) {
+            throw new MultipartParseError(`Malformed multipart header: ${line.slice(0, 100)}`);
+        }
+
+        lastName = line.slice(0, colon).trim().toLowerCase();
+        headers[lastName] = line.slice(colon + 1).trim();
+    }
+
+    return headers;
+}
+
+/**
+ * Interpret the Content-Disposition and Content-Type headers of a part
+ */
+function buildPartHeaders(headers: Record<string, string>): MultipartPartHeaders {
+    const disposition = headers['content-disposition'];
+    if (!disposition) {
+        throw new MultipartParseError('Multipart part is missing Content-Disposition header');
+    }
+
+    const { type, params } = parseHeaderValue(disposition);
+    if (type !== 'form-data') {
+        throw new MultipartParseError(`Unsupported Content-Disposition type: ${type}`);
+    }
+
+    if (params.name === undefined) {
+        throw new MultipartParseError('Multipart part is missing a name');
+    }
+
+    return {
+        name: params.name.trim(),
+        filename: params.filename !== undefined ? getBaseName(params.filename) : undefined,
+        contentType: headers['content-type'] || undefined,
+        headers
+    };
+}
+
+/**
+ * Strip any client-side directory path from a submitted filename
+ */
+function getBaseName(filename: string): string {
+    const trimmed = filename.trim();
+    const lastSeparator = Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('\\'));
+    return lastSeparator === -1 ? trimmed : trimmed.slice(lastSeparator + 1);
+}
@@ -0,0 +1,76 @@
+import { S3Client, ListPartsCommand, ListPartsCommandOutput } from '@aws-sdk/client-s3';
+import { UploadedPart, MULTIPART_UPLOAD_LIMITS } from '../types';
+
+/**
+ * Pick a part size that keeps the upload within the S3 part count limit
+ */
+export function computePartSize(fileSize: number): number {
+    const minimumForCount = Math.ceil(fileSize / MULTIPART_UPLOAD_LIMITS.MAX_PARTS);
+    const megabyte = 1024 * 1024;
+
+    return Math.max(
+        MULTIPART_UPLOAD_LIMITS.DEFAULT_PART_SIZE,
+        Math.ceil(minimumForCount / megabyte) * megabyte
+    );
+}
+
+/**
+ * Number of parts needed for a file at the given part size
+ */
+export function computePartCount(fileSize: number, partSize: number): number {
+    return Math.max(1, Math.ceil(fileSize / partSize));
+}
+
+/**
+ * List every part S3 has received for a multipart upload, following pagination
+ */
+export async function listUploadedParts(
+    s3Client: S3Client,
+    bucket: string,
+    key: string,
+    uploadId: string
+): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = [];
+    let marker: string | undefined;
+
+    do {
+        const result: ListPartsCommandOutput = await s3Client.send(new ListPartsCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: marker
+        }));
+
+        for (const part of result.Parts || []) {
+            if (part.PartNumber === undefined || !part.ETag) {
+                continue;
+            }
+            parts.push({
+                part_number: part.PartNumber,
+                size: part.Size ?? 0,
+                etag: part.ETag,
+                last_modified: part.LastModified?.toISOString()
+            });
+        }
+
+        marker = result.IsTruncated ? result.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts.sort((a, b) => a.part_number - b.part_number);
+}
+
+/**
+ * Part numbers in 1..partCount that S3 has not received yet
+ */
+export function findMissingParts(parts: UploadedPart[], partCount: number): number[] {
+    const received = new Set(parts.map(part => part.part_number));
+    const missing: number[] = [];
+
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+        if (!received.has(partNumber)) {
+            missing.push(partNumber);
+        }
+    }
+
+    return missing;
+}
@@ -0,0 +1,193 @@
+import { OfficeMetadata, RangeReader, METADATA_EXTRACTION_LIMITS } from '../types';
+import { createObjectReader, ObjectReader } from './range-reader';
+import { readZipDirectory, readZipEntry, ZipDirectoryEntry } from './zip-directory';
+
+type OfficeTextField = 'office_title' | 'office_author' | 'office_last_modified_by';
+
+type OfficeDateField = 'office_created_date' | 'office_modified_date';
+
+// Lower-cased part names; OOXML part names compare case-insensitively
+const OFFICE_PARTS = {
+    CONTENT_TYPES: '[content_types].xml',
+    CORE_PROPERTIES: 'docprops/core.xml',
+    APP_PROPERTIES: 'docprops/app.xml',
+    WORD_DOCUMENT: 'word/document.xml',
+    WORKBOOK: 'xl/workbook.xml',
+    PRESENTATION: 'ppt/presentation.xml',
+} as const;
+
+// Elements of docProps/core.xml, by local name
+const CORE_TEXT_ELEMENTS: Record<string, OfficeTextField> = {
+    title: 'office_title',
+    creator: 'office_author',
+    lastModifiedBy: 'office_last_modified_by',
+};
+
+const CORE_DATE_ELEMENTS: Record<string, OfficeDateField> = {
+    created: 'office_created_date',
+    modified: 'office_modified_date',
+};
+
+const MACRO_ENABLED_EXTENSIONS = ['docm', 'dotm', 'xlsm', 'xltm', 'xlam', 'pptm', 'potm', 'ppsm', 'ppam'];
+
+const XML_ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\'',
+};
+
+/**
+ * Read document properties, counts and macro presence from a Word, Excel or PowerPoint file
+ *
+ * Only the ZIP central directory and the few small XML parts holding the values are
+ * read, with ranged reads past the leading bytes. Parsing is best effort: a field is
+ * left out when the part it comes from is missing or can't be read.
+ */
+export async function extractOfficeMetadata(
+    head: Buffer,
+    fileSize: number,
+    fileExtension: string,
+    readRange: RangeReader
+): Promise<OfficeMetadata> {
+    const metadata: OfficeMetadata = {};
+    const reader = createObjectReader(head, fileSize, readRange);
+
+    try {
+        const directory = await readZipDirectory(reader);
+        if (!directory) {
+            return metadata;
+        }
+
+        const entries = new Map<string, ZipDirectoryEntry>();
+        for (const entry of directory.entries) {
+            entries.set(entry.path.toLowerCase(), entry);
+        }
+        const paths = [...entries.keys()];
+
+        // A VBA project is what actually carries macros; the extension and content types only announce them
+        metadata.office_macro_enabled = MACRO_ENABLED_EXTENSIONS.includes(fileExtension) ||
+            paths.some(path => path.endsWith('/vbaproject.bin'));
+        if (!metadata.office_macro_enabled) {
+            const contentTypes = await readPart(reader, entries, OFFICE_PARTS.CONTENT_TYPES);
+            metadata.office_macro_enabled = !!contentTypes && /macroEnabled/i.test(contentTypes);
+        }
+
+        const core = await readPart(reader, entries, OFFICE_PARTS.CORE_PROPERTIES);
+        if (core) {
+            for (const [element, field] of Object.entries(CORE_TEXT_ELEMENTS)) {
+                const value = cleanString(readElementText(core, element) ?? '');
+                if (value) {
+                    metadata[field] = value;
+                }
+            }
+            for (const [element, field] of Object.entries(CORE_DATE_ELEMENTS)) {
+                const value = readElementText(core, element);
+                const date = value ? new Date(value.trim()) : undefined;
+                if (date && !isNaN(date.getTime())) {
+                    metadata[field] = date.toISOString();
+                }
+            }
+        }
+
+        const app = await readPart(reader, entries, OFFICE_PARTS.APP_PROPERTIES);
+
+        if (entries.has(OFFICE_PARTS.WORD_DOCUMENT)) {
+            // Word only refreshes these statistics when it saves the file
+            const pages = app ? readCount(app, 'Pages') : undefined;
+            const words = app ? readCount(app, 'Words') : undefined;
+            if (pages !== undefined) {
+                metadata.page_count = pages;
+            }
+            if (words !== undefined) {
+                metadata.word_count = words;
+            }
+
+        } else if (entries.has(OFFICE_PARTS.WORKBOOK)) {
+            const workbook = await readPart(reader, entries, OFFICE_PARTS.WORKBOOK);
+            const names = workbook ? readSheetNames(workbook) : [];
+            if (names.length > 0) {
+                metadata.office_sheet_count = names.length;
+                metadata.office_sheet_names = names.slice(0, METADATA_EXTRACTION_LIMITS.MAX_SHEET_NAMES);
+            } else {
+                metadata.office_sheet_count = paths.filter(path => /^xl\/(worksheets|chartsheets)\/[^/]+\.xml$/.test(path)).length;
+            }
+
+        } else if (entries.has(OFFICE_PARTS.PRESENTATION)) {
+            metadata.office_slide_count = (app ? readCount(app, 'Slides') : undefined) ??
+                paths.filter(path => /^ppt\/slides\/[^/]+\.xml$/.test(path)).length;
+        }
+    } catch {
+        // The ranged read limit or a truncated file; keep what was read before the problem
+    }
+
+    return metadata;
+}
+
+/**
+ * A part's XML as text, or undefined when it is missing, too large or unreadable
+ */
+async function readPart(reader: ObjectReader, entries: Map<string, ZipDirectoryEntry>, path: string): Promise<string | undefined> {
+    const entry = entries.get(path);
+    if (!entry) {
+        return undefined;
+    }
+
+    const data = await readZipEntry(reader, entry, METADATA_EXTRACTION_LIMITS.MAX_OFFICE_PART_BYTES);
+    return data?.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Text of the first element with the given local name, whatever namespace prefix it uses
+ */
+function readElementText(xml: string, localName: string): string | undefined {
+    const match = new RegExp(`<(?:[\\w.-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${localName}>`).exec(xml);
+    return match ? decodeXmlText(match[1]) : undefined;
+}
+
+function readCount(xml: string, localName: string): number | undefined {
+    const value = readElementText(xml, localName);
+    const count = value !== undefined && /^\s*\d+\s*$/.test(value) ? Number(value) : NaN;
+    return Number.isSafeInteger(count) ? count : undefined;
+}
+
+/**
+ * Sheet names in workbook order, from the sheet elements of xl/workbook.xml
+ */
+function readSheetNames(workbook: string): string[] {
+    const names: string[] = [];
+    const sheetPattern = /<(?:[\w.-]+:)?sheet\s[^>]*?\bname\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = sheetPattern.exec(workbook)) !== null) {
+        names.push(cleanString(decodeXmlText(match[1] ?? match[2])));
+    }
+    return names;
+}
+
+/**
+ * Resolve character references, the predefined entities and CDATA sections
+ */
+function decodeXmlText(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>|&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, cdata: string | undefined, entity: string | undefined) => {
+            if (cdata !== undefined) {
+                return cdata;
+            }
+            if (entity!.startsWith('#')) {
+                const code = entity!.startsWith('#x') || entity!.startsWith('#X') ?
+                    parseInt(entity!.slice(2), 16) :
+                    parseInt(entity!.slice(1), 10);
+                return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+            }
+            return XML_ENTITIES[entity!] ?? whole;
+        });
+}
+
+function cleanString(value: string): string {
+    return value
+        .replace(/[\0-\x1f\x7f]+/g, ' ')
+        .trim()
+        .slice(0, METADATA_EXTRACTION_LIMITS.MAX_STRING_LENGTH);
+}
@@ -0,0 +1,808 @@
+import { inflateSync, constants as zlibConstants } from 'zlib';
+import { PdfMetadata, RangeReader, METADATA_EXTRACTION_LIMITS } from '../types';
+import { createObjectReader, ObjectReader } from './range-reader';
+import { readLiteralString, decodePdfString } from './pdf-text';
+
+type PdfObject = null | boolean | number | string | PdfName | PdfRef | PdfObject[] | PdfDictionary;
+
+interface PdfName {
+    name: string;
+}
+
+interface PdfRef {
+    num: number;
+    generation: number;
+}
+
+type PdfDictionary = Map<string, PdfObject>;
+
+type XrefEntry =
+    | { type: 'free' }
+    | { type: 'offset'; offset: number }
+    | { type: 'compressed'; stream: number; index: number };
+
+interface Cursor {
+    text: string;
+    pos: number;
+}
+
+interface PdfDocument {
+    reader: ObjectReader;
+    xref: Map<number, XrefEntry>;
+    trailer: PdfDictionary;
+    objects: Map<number, PdfObject>;
+    // File offset where each stream object's data starts
+    streamOffsets: Map<PdfDictionary, number>;
+    objectStreams: Map<number, { text: string; offsets: number[] }>;
+}
+
+// The bytes read so far end inside the structure being parsed
+class TruncatedError extends Error {}
+
+const INITIAL_READ_BYTES = 4096;
+
+// startxref sits in the last few bytes, give or take trailing junk
+const STARTXREF_SEARCH_BYTES = 1024;
+
+const MAX_XREF_SECTIONS = 32;
+const MAX_REFERENCE_DEPTH = 16;
+const MAX_PAGE_TREE_DEPTH = 32;
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+const INFO_STRING_FIELDS = {
+    Title: 'pdf_title',
+    Author: 'pdf_author',
+    Subject: 'pdf_subject',
+} as const;
+
+/**
+ * Read page count, version, document info, encryption and text layer presence from a PDF
+ *
+ * Follows the cross-reference data from the end of the file, so objects past the
+ * leading bytes are fetched with ranged reads. Parsing is best effort: a field is
+ * left out when the structure it comes from can't be read.
+ */
+export async function extractPdfMetadata(head: Buffer, fileSize: number, readRange: RangeReader): Promise<PdfMetadata> {
+    const metadata: PdfMetadata = {};
+
+    const header = /%PDF-(\d\.\d)/.exec(head.toString('latin1', 0, 1024));
+    if (header) {
+        metadata.pdf_version = header[1];
+    }
+
+    let doc: PdfDocument | undefined;
+    try {
+        doc = await openDocument(createObjectReader(head, fileSize, readRange));
+    } catch {
+        // Broken or missing cross-reference data
+    }
+
+    if (doc) {
+        metadata.pdf_encrypted = doc.trailer.has('Encrypt');
+
+        try {
+            const catalog = await resolveDictionary(doc, doc.trailer.get('Root'));
+
+            // Incremental updates can raise the version without rewriting the header
+            const version = await resolve(doc, catalog.get('Version'));
+            if (isName(version) && /^\d\.\d$/.test(version.name) &&
+                (!metadata.pdf_version || Number(version.name) > Number(metadata.pdf_version))) {
+                metadata.pdf_version = version.name;
+            }
+
+            const pageTree = await resolveDictionary(doc, catalog.get('Pages'));
+            const count = await resolve(doc, pageTree.get('Count'));
+            if (typeof count === 'number' && Number.isInteger(count) && count >= 0) {
+                metadata.page_count = count;
+            }
+
+            // Strings and streams of encrypted files can't be read without the key
+            if (!metadata.pdf_encrypted) {
+                const hasText = await hasTextLayer(doc, pageTree);
+                if (hasText !== undefined) {
+                    metadata.pdf_has_text_layer = hasText;
+                }
+            }
+        } catch {
+            // Keep what was read before the problem
+        }
+
+        if (!metadata.pdf_encrypted) {
+            try {
+                Object.assign(metadata, await readDocumentInfo(doc));
+            } catch {
+                // Info dictionary is optional
+            }
+        }
+    }
+
+    if (metadata.page_count === undefined) {
+        const pageCount = countPageObjects(head, fileSize);
+        if (pageCount !== undefined) {
+            metadata.page_count = pageCount;
+        }
+    }
+
+    return metadata;
+}
+
+/**
+ * Load the cross-reference sections, newest first, and the trailer of the latest one
+ */
+async function openDocument(reader: ObjectReader): Promise<PdfDocument> {
+    // One read covers startxref and, usually, the last cross-reference section
+    const tailLength = Math.min(reader.size, METADATA_EXTRACTION_LIMITS.RANGE_READ_BYTES);
+    const tail = (await reader.read(reader.size - tailLength, tailLength))
+        .toString('latin1', Math.max(0, tailLength - STARTXREF_SEARCH_BYTES));
+
+    const startxref = [...tail.matchAll(/startxref\s+(\d+)/g)].pop();
+    if (!startxref) {
+        throw new Error('No startxref found');
+    }
+
+    const doc: PdfDocument = {
+        reader,
+        xref: new Map(),
+        trailer: new Map(),
+        objects: new Map(),
+        streamOffsets: new Map(),
+        objectStreams: new Map()
+    };
+
+    let trailer: PdfDictionary | undefined;
+    const pending = [Number(startxref[1])];
+    const visited = new Set<number>();
+
+    while (pending.length > 0 && visited.size < MAX_XREF_SECTIONS) {
+        const offset = pending.shift()!;
+        if (visited.has(offset)) {
+            continue;
+        }
+        visited.add(offset);
+
+        const sectionTrailer = await readXrefSection(doc, offset);
+        trailer = trailer || sectionTrailer;
+
+        // A hybrid file's cross-reference stream comes before the older sections
+        const xrefStream = sectionTrailer.get('XRefStm');
+        if (typeof xrefStream === 'number') {
+            pending.unshift(xrefStream);
+        }
+        const previous = sectionTrailer.get('Prev');
+        if (typeof previous === 'number') {
+            pending.push(previous);
+        }
+    }
+
+    if (!trailer) {
+        throw new Error('No trailer found');
+    }
+    doc.trailer = trailer;
+
+    return doc;
+}
+
+/**
+ * Add one section's entries to the table, keeping newer ones, and return its trailer
+ */
+async function readXrefSection(doc: PdfDocument, offset: number): Promise<PdfDictionary> {
+    const start = (await doc.reader.read(offset, 16)).toString('latin1');
+
+    if (start.trimStart().startsWith('xref')) {
+        return parseAt(doc.reader, offset, cursor => parseXrefTable(cursor, doc.xref));
+    }
+    return readXrefStream(doc, offset);
+}
+
+function parseXrefTable(cursor: Cursor, xref: Map<number, XrefEntry>): PdfDictionary {
+    skipWhitespace(cursor);
+    if (readToken(cursor) !== 'xref') {
+        throw new Error('Expected xref keyword');
+    }
+
+    for (;;) {
+        skipWhitespace(cursor);
+        if (peekToken(cursor) === 'trailer') {
+            readToken(cursor);
+            return expectDictionary(parseObject(cursor));
+        }
+
+        const first = readInteger(cursor);
+        const count = readInteger(cursor);
+
+        for (let index = 0; index < count; index++) {
+            const offset = readInteger(cursor);
+            readInteger(cursor); // Generation
+            const kind = readToken(cursor);
+
+            if (!xref.has(first + index)) {
+                xref.set(first + index, kind === 'n' ? { type: 'offset', offset } : { type: 'free' });
+            }
+        }
+    }
+}
+
+async function readXrefStream(doc: PdfDocument, offset: number): Promise<PdfDictionary> {
+    const dictionary = expectDictionary(await readIndirectObject(doc, offset));
+    const data = await readStream(doc, dictionary);
+
+    const widths = dictionary.get('W');
+    const size = dictionary.get('Size');
+    if (!Array.isArray(widths) || widths.length !== 3 || !widths.every(width => typeof width === 'number') ||
+        typeof size !== 'number') {
+        throw new Error('Malformed cross-reference stream');
+    }
+
+    const [typeWidth, fieldWidth, indexWidth] = widths as number[];
+    const entryLength = typeWidth + fieldWidth + indexWidth;
+    const subsections = dictionary.get('Index');
+    const ranges = Array.isArray(subsections) ? subsections.filter((value): value is number => typeof value === 'number') : [0, size];
+
+    let position = 0;
+    for (let range = 0; range + 1 < ranges.length; range += 2) {
+        for (let index = 0; index < ranges[range + 1] && position + entryLength <= data.length; index++) {
+            // The type field defaults to 1 when it has no bytes
+            const type = typeWidth ? readField(data, position, typeWidth) : 1;
+            const field = readField(data, position + typeWidth, fieldWidth);
+            const objectIndex = readField(data, position + typeWidth + fieldWidth, indexWidth);
+            position += entryLength;
+
+            const num = ranges[range] + index;
+            if (doc.xref.has(num)) {
+                continue;
+            }
+
+            if (type === 0) {
+                doc.xref.set(num, { type: 'free' });
+            } else if (type === 1) {
+                doc.xref.set(num, { type: 'offset', offset: field });
+            } else if (type === 2) {
+                doc.xref.set(num, { type: 'compressed', stream: field, index: objectIndex });
+            }
+        }
+    }
+
+    return dictionary;
+}
+
+function readField(data: Buffer, position: number, width: number): number {
+    let value = 0;
+    for (let index = 0; index < width; index++) {
+        value = value * 256 + data[position + index];
+    }
+    return value;
+}
+
+async function getObject(doc: PdfDocument, num: number): Promise<PdfObject> {
+    const cached = doc.objects.get(num);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    // Objects missing from the table are null
+    const entry = doc.xref.get(num);
+    let value: PdfObject = null;
+    if (entry?.type === 'offset') {
+        value = await readIndirectObject(doc, entry.offset);
+    } else if (entry?.type === 'compressed') {
+        value = await readCompressedObject(doc, entry.stream, entry.index);
+    }
+
+    doc.objects.set(num, value);
+    return value;
+}
+
+/**
+ * Parse the "num gen obj" object at an offset, noting where its stream data starts
+ */
+async function readIndirectObject(doc: PdfDocument, offset: number): Promise<PdfObject> {
+    return parseAt(doc.reader, offset, cursor => {
+        readInteger(cursor);
+        readInteger(cursor);
+        if (readToken(cursor) !== 'obj') {
+            throw new Error(`No object at offset ${offset}`);
+        }
+
+        const value = parseObject(cursor);
+
+        // Every object is followed by endobj or stream, so running out here means truncation
+        skipWhitespace(cursor);
+        if (cursor.pos + 'endstream'.length > cursor.text.length) {
+            throw new TruncatedError();
+        }
+
+        if (value instanceof Map && cursor.text.startsWith('stream', cursor.pos)) {
+            let dataStart = cursor.pos + 'stream'.length;
+            if (cursor.text[dataStart] === '\r') {
+                dataStart++;
+            }
+            if (cursor.text[dataStart] === '\n') {
+                dataStart++;
+            }
+            doc.streamOffsets.set(value, offset + dataStart);
+        }
+
+        return value;
+    });
+}
+
+/**
+ * Parse an object stored inside an object stream (PDF 1.5+)
+ */
+async function readCompressedObject(doc: PdfDocument, streamNum: number, index: number): Promise<PdfObject> {
+    let objectStream = doc.objectStreams.get(streamNum);
+
+    if (!objectStream) {
+        if (doc.xref.get(streamNum)?.type !== 'offset') {
+            throw new Error('Object stream is not stored directly');
+        }
+
+        const dictionary = expectDictionary(await getObject(doc, streamNum));
+        const first = await resolve(doc, dictionary.get('First'));
+        const count = await resolve(doc, dictionary.get('N'));
+        if (typeof first !== 'number' || typeof count !== 'number') {
+            throw new Error('Malformed object stream');
+        }
+
+        // The trailing space ends the last token
+        const text = (await readStream(doc, dictionary)).toString('latin1') + ' ';
+        const cursor: Cursor = { text: text.slice(0, first) + ' ', pos: 0 };
+        const offsets: number[] = [];
+        for (let entry = 0; entry < count; entry++) {
+            readInteger(cursor); // Object number
+            offsets.push(first + readInteger(cursor));
+        }
+
+        objectStream = { text, offsets };
+        doc.objectStreams.set(streamNum, objectStream);
+    }
+
+    if (index >= objectStream.offsets.length) {
+        throw new Error('Object index out of range');
+    }
+    return parseObject({ text: objectStream.text, pos: objectStream.offsets[index] });
+}
+
+async function readStream(doc: PdfDocument, dictionary: PdfDictionary): Promise<Buffer> {
+    const offset = doc.streamOffsets.get(dictionary);
+    const length = await resolve(doc, dictionary.get('Length'));
+
+    if (offset === undefined || typeof length !== 'number' || length < 0 ||
+        length > METADATA_EXTRACTION_LIMITS.MAX_PDF_OBJECT_BYTES) {
+        throw new Error('Unreadable stream');
+    }
+
+    return decodeStreamData(await doc.reader.read(offset, length), dictionary);
+}
+
+/**
+ * Undo the stream's filters; only FlateDecode, with or without a PNG predictor, is supported
+ */
+function decodeStreamData(data: Buffer, dictionary: PdfDictionary): Buffer {
+    const filter = dictionary.get('Filter');
+    const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+
+    if (filters.length === 0) {
+        return data;
+    }
+    if (filters.length !== 1 || !isName(filters[0]) || filters[0].name !== 'FlateDecode') {
+        throw new Error('Unsupported stream filter');
+    }
+
+    const inflated = inflateSync(data, {
+        finishFlush: zlibConstants.Z_SYNC_FLUSH,
+        maxOutputLength: METADATA_EXTRACTION_LIMITS.MAX_PDF_OBJECT_BYTES
+    });
+
+    const decodeParms = dictionary.get('DecodeParms');
+    const parms = Array.isArray(decodeParms) ? decodeParms[0] : decodeParms;
+    if (!(parms instanceof Map)) {
+        return inflated;
+    }
+
+    const number = (key: string, fallback: number): number => {
+        const value = parms.get(key);
+        return typeof value === 'number' ? value : fallback;
+    };
+
+    const predictor = number('Predictor', 1);
+    if (predictor < 10) {
+        if (predictor !== 1) {
+            throw new Error('Unsupported predictor');
+        }
+        return inflated;
+    }
+
+    const bitsPerPixel = number('Colors', 1) * number('BitsPerComponent', 8);
+    return undoPngPredictor(inflated, Math.ceil(number('Columns', 1) * bitsPerPixel / 8), Math.max(1, Math.ceil(bitsPerPixel / 8)));
+}
+
+/**
+ * Reverse PNG row filters, each row prefixed with its filter type byte
+ */
+function undoPngPredictor(data: Buffer, rowLength: number, bytesPerPixel: number): Buffer {
+    const rows = Math.floor(data.length / (rowLength + 1));
+    const output = Buffer.alloc(rows * rowLength);
+
+    for (let row = 0; row < rows; row++) {
+        const filterType = data[row * (rowLength + 1)];
+        const input = row * (rowLength + 1) + 1;
+        const start = row * rowLength;
+
+        for (let index = 0; index < rowLength; index++) {
+            const left = index >= bytesPerPixel ? output[start + index - bytesPerPixel] : 0;
+            const up = row > 0 ? output[start - rowLength + index] : 0;
+            const upLeft = row > 0 && index >= bytesPerPixel ? output[start - rowLength + index - bytesPerPixel] : 0;
+
+            let predicted = 0;
+            if (filterType === 1) {
+                predicted = left;
+            } else if (filterType === 2) {
+                predicted = up;
+            } else if (filterType === 3) {
+                predicted = Math.floor((left + up) / 2);
+            } else if (filterType === 4) {
+                const estimate = left + up - upLeft;
+                const distances = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+                predicted = distances[0] <= distances[1] && distances[0] <= distances[2] ? left :
+                    distances[1] <= distances[2] ? up : upLeft;
+            }
+
+            output[start + index] = (data[input + index] + predicted) & 0xff;
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Whether any of the first pages draws text, or undefined when there are no pages
+ */
+async function hasTextLayer(doc: PdfDocument, pageTree: PdfDictionary): Promise<boolean | undefined> {
+    const pages: Array<{ page: PdfDictionary; resources: PdfObject | undefined }> = [];
+    await collectPages(doc, pageTree, undefined, pages, 0);
+
+    if (pages.length === 0) {
+        return undefined;
+    }
+
+    for (const { page, resources } of pages) {
+        const contents = await resolve(doc, page.get('Contents'));
+        const streams = Array.isArray(contents) ? contents : contents ? [contents] : [];
+
+        for (const stream of streams) {
+            const content = await readStream(doc, await resolveDictionary(doc, stream));
+            if (drawsText(content.toString('latin1'))) {
+                return true;
+            }
+        }
+
+        // Some producers put the page's text in form XObjects
+        if (await formsDrawText(doc, resources)) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Gather the leading leaf pages with the resources each inherits
+ */
+async function collectPages(
+    doc: PdfDocument,
+    node: PdfDictionary,
+    inheritedResources: PdfObject | undefined,
+    pages: Array<{ page: PdfDictionary; resources: PdfObject | undefined }>,
+    depth: number
+): Promise<void> {
+    if (depth > MAX_PAGE_TREE_DEPTH) {
+        return;
+    }
+
+    const resources = node.get('Resources') ?? inheritedResources;
+    const kids = await resolve(doc, node.get('Kids'));
+
+    if (!Array.isArray(kids)) {
+        pages.push({ page: node, resources });
+        return;
+    }
+
+    for (const kid of kids) {
+        if (pages.length >= METADATA_EXTRACTION_LIMITS.PDF_TEXT_SAMPLE_PAGES) {
+            return;
+        }
+        await collectPages(doc, await resolveDictionary(doc, kid), resources, pages, depth + 1);
+    }
+}
+
+async function formsDrawText(doc: PdfDocument, resources: PdfObject | undefined): Promise<boolean> {
+    const resourceDictionary = await resolve(doc, resources);
+    const xobjects = resourceDictionary instanceof Map ? await resolve(doc, resourceDictionary.get('XObject')) : undefined;
+    if (!(xobjects instanceof Map)) {
+        return false;
+    }
+
+    for (const value of xobjects.values()) {
+        const xobject = await resolve(doc, value);
+        const subtype = xobject instanceof Map ? xobject.get('Subtype') : undefined;
+
+        if (xobject instanceof Map && isName(subtype) && subtype.name === 'Form' &&
+            drawsText((await readStream(doc, xobject)).toString('latin1'))) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Whether a content stream shows a string inside a text object
+ */
+function drawsText(content: string): boolean {
+    for (const block of content.matchAll(/\bBT\b([\s\S]*?)\bET\b/g)) {
+        if (/\bT[jJ]\b|['"]/.test(block[1])) {
+            return true;
+        }
+    }
+    return false;
+}
+
+async function readDocumentInfo(doc: PdfDocument): Promise<PdfMetadata> {
+    const fields: PdfMetadata = {};
+
+    if (!doc.trailer.has('Info')) {
+        return fields;
+    }
+
+    const info = await resolveDictionary(doc, doc.trailer.get('Info'));
+
+    for (const [key, field] of Object.entries(INFO_STRING_FIELDS)) {
+        const value = await resolve(doc, info.get(key));
+        const text = typeof value === 'string' ? cleanInfoString(value) : '';
+        if (text) {
+            fields[field] = text;
+        }
+    }
+
+    const creationDate = await resolve(doc, info.get('CreationDate'));
+    const isoDate = typeof creationDate === 'string' ? parsePdfDate(creationDate) : undefined;
+    if (isoDate) {
+        fields.pdf_creation_date = isoDate;
+    }
+
+    return fields;
+}
+
+function cleanInfoString(value: string): string {
+    return value
+        .replace(/[\0-\x1f\x7f]+/g, ' ')
+        .trim()
+        .slice(0, METADATA_EXTRACTION_LIMITS.MAX_STRING_LENGTH);
+}
+
+/**
+ * Convert a PDF date (D:YYYYMMDDHHmmSSOHH'mm') to ISO 8601, with the offset when one is given
+ */
+function parsePdfDate(value: string): string | undefined {
+    const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:(Z)|([+-])(\d{2})'?(\d{2})?'?)?/.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', utc, sign, offsetHours, offsetMinutes = '00'] = match;
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31 ||
+        Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) {
+        return undefined;
+    }
+
+    const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+    if (utc) {
+        return `${local}Z`;
+    }
+    return sign ? `${local}${sign}${offsetHours}:${offsetMinutes}` : local;
+}
+
+/**
+ * Count page objects by scanning, for files read whole whose cross-references are broken
+ */
+function countPageObjects(head: Buffer, fileSize: number): number | undefined {
+    if (head.length < fileSize) {
+        return undefined;
+    }
+
+    const count = (head.toString('latin1').match(/\/Type\s*\/Page(?![A-Za-z])/g) || []).length;
+    return count > 0 ? count : undefined;
+}
+
+async function resolve(doc: PdfDocument, value: PdfObject | undefined): Promise<PdfObject | undefined> {
+    for (let depth = 0; isRef(value); depth++) {
+        if (depth >= MAX_REFERENCE_DEPTH) {
+            throw new Error('Reference chain too deep');
+        }
+        value = await getObject(doc, value.num);
+    }
+    return value;
+}
+
+async function resolveDictionary(doc: PdfDocument, value: PdfObject | undefined): Promise<PdfDictionary> {
+    return expectDictionary(await resolve(doc, value));
+}
+
+function expectDictionary(value: PdfObject | undefined): PdfDictionary {
+    if (!(value instanceof Map)) {
+        throw new Error('Expected a dictionary');
+    }
+    return value;
+}
+
+function isName(value: PdfObject | undefined): value is PdfName {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Map) && 'name' in value;
+}
+
+function isRef(value: PdfObject | undefined): value is PdfRef {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Map) && 'num' in value;
+}
+
+/**
+ * Parse from an offset, reading more of the file while the parse runs off the end
+ */
+async function parseAt<T>(reader: ObjectReader, offset: number, parse: (cursor: Cursor) => T): Promise<T> {
+    for (let length = INITIAL_READ_BYTES; ; length *= 4) {
+        const data = await reader.read(offset, length);
+        try {
+            return parse({ text: data.toString('latin1'), pos: 0 });
+        } catch (error) {
+            const canReadMore = data.length === length && length < METADATA_EXTRACTION_LIMITS.MAX_PDF_OBJECT_BYTES;
+            if (!(error instanceof TruncatedError) || !canReadMore) {
+                throw error;
+            }
+        }
+    }
+}
+
+function parseObject(cursor: Cursor): PdfObject {
+    skipWhitespace(cursor);
+    const char = cursor.text[cursor.pos];
+
+    if (char === undefined) {
+        throw new TruncatedError();
+    }
+
+    if (char === '/') {
+        cursor.pos++;
+        return { name: readToken(cursor).replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+
+    if (char === '(') {
+        const literal = readLiteralString(cursor.text, cursor.pos + 1);
+        if (literal.end >= cursor.text.length) {
+            throw new TruncatedError();
+        }
+        cursor.pos = literal.end;
+        return literal.value;
+    }
+
+    if (char === '<') {
+        if (cursor.text[cursor.pos + 1] === '<') {
+            return parseDictionary(cursor);
+        }
+        const end = cursor.text.indexOf('>', cursor.pos);
+        if (end === -1) {
+            throw new TruncatedError();
+        }
+        const hex = cursor.text.slice(cursor.pos + 1, end).replace(/[^0-9a-fA-F]/g, '');
+        cursor.pos = end + 1;
+        return decodePdfString(Buffer.from(hex.length % 2 ? hex + '0' : hex, 'hex').toString('latin1'));
+    }
+
+    if (char === '[') {
+        cursor.pos++;
+        const items: PdfObject[] = [];
+        for (;;) {
+            skipWhitespace(cursor);
+            if (cursor.pos >= cursor.text.length) {
+                throw new TruncatedError();
+            }
+            if (cursor.text[cursor.pos] === ']') {
+                cursor.pos++;
+                return items;
+            }
+            items.push(parseObject(cursor));
+        }
+    }
+
+    const token = readToken(cursor);
+
+    if (/^\d+$/.test(token)) {
+        // "num gen R" is a reference
+        const reference = /^\s+(\d+)\s+R(?![^\0\t\n\f\r ()<>[\]{}/%])/.exec(cursor.text.slice(cursor.pos, cursor.pos + 32));
+        if (reference) {
+            cursor.pos += reference[0].length;
+            return { num: Number(token), generation: Number(reference[1]) };
+        }
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        return Number(token);
+    }
+    if (token === 'true' || token === 'false') {
+        return token === 'true';
+    }
+    if (token === 'null') {
+        return null;
+    }
+
+    throw new Error(`Unexpected token: ${token.slice(0, 20) || char}`);
+}
+
+function parseDictionary(cursor: Cursor): PdfDictionary {
+    cursor.pos += 2;
+    const dictionary: PdfDictionary = new Map();
+
+    for (;;) {
+        skipWhitespace(cursor);
+        if (cursor.pos + 1 >= cursor.text.length) {
+            throw new TruncatedError();
+        }
+        if (cursor.text.startsWith('>>', cursor.pos)) {
+            cursor.pos += 2;
+            return dictionary;
+        }
+
+        const key = parseObject(cursor);
+        if (!isName(key)) {
+            throw new Error('Dictionary key is not a name');
+        }
+        dictionary.set(key.name, parseObject(cursor));
+    }
+}
+
+function skipWhitespace(cursor: Cursor): void {
+    while (cursor.pos < cursor.text.length) {
+        const char = cursor.text[cursor.pos];
+
+        if (char === '%') {
+            while (cursor.pos < cursor.text.length && cursor.text[cursor.pos] !== '\r' && cursor.text[cursor.pos] !== '\n') {
+                cursor.pos++;
+            }
+        } else if (WHITESPACE.test(char)) {
+            cursor.pos++;
+        } else {
+            return;
+        }
+    }
+}
+
+/**
+ * Read a run of regular characters; one that reaches the end of the text may be cut off
+ */
+function readToken(cursor: Cursor): string {
+    skipWhitespace(cursor);
+    const start = cursor.pos;
+
+    while (cursor.pos < cursor.text.length && !WHITESPACE.test(cursor.text[cursor.pos]) && !DELIMITER.test(cursor.text[cursor.pos])) {
+        cursor.pos++;
+    }
+
+    if (cursor.pos >= cursor.text.length) {
+        throw new TruncatedError();
+    }
+    return cursor.text.slice(start, cursor.pos);
+}
+
+function peekToken(cursor: Cursor): string {
+    const start = cursor.pos;
+    const token = readToken(cursor);
+    cursor.pos = start;
+    return token;
+}
+
+function readInteger(cursor: Cursor): number {
+    const token = readToken(cursor);
+    if (!/^\d+$/.test(token)) {
+        throw new Error(`Expected an integer, found ${token.slice(0, 20)}`);
+    }
+    return Number(token);
+}
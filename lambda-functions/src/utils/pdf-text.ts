@@ -0,0 +1,212 @@
+import { inflateSync, constants as zlibConstants } from 'zlib';
+
+// A TJ kerning adjustment beyond this (thousandths of an em) is treated as a word gap
+const TJ_SPACE_THRESHOLD = 200;
+
+// Text positioning operators that start a new word or line
+const BREAK_OPERATORS = ['Td', 'TD', 'T*', 'Tm', '\'', '"'];
+
+// Streams that never hold page text
+const NON_TEXT_STREAM = /\/Subtype\s*\/(Image|Form|Type1C|CIDFontType0C|OpenType|XML)\b|\/Type\s*\/(XRef|ObjStm|Metadata)\b|\/Length[123]\b/;
+
+/**
+ * Pull the visible text out of a PDF, best effort
+ *
+ * Reads literal strings shown by Tj/TJ inside BT...ET blocks of uncompressed and
+ * FlateDecode content streams. Text drawn through hex strings or custom font
+ * encodings is skipped. The buffer may be a truncated prefix of the file.
+ */
+export function extractPdfText(pdf: Buffer, maxChars: number): string {
+    const source = pdf.toString('latin1');
+    const parts: string[] = [];
+    let length = 0;
+    let searchFrom = 0;
+
+    while (length < maxChars) {
+        const start = source.indexOf('stream', searchFrom);
+        if (start === -1) {
+            break;
+        }
+
+        let dataStart = start + 'stream'.length;
+        searchFrom = dataStart;
+
+        // 'endstream' contains 'stream' too
+        if (source.slice(start - 3, start) === 'end') {
+            continue;
+        }
+        if (source[dataStart] === '\r') {
+            dataStart++;
+        }
+        if (source[dataStart] !== '\n') {
+            continue;
+        }
+        dataStart++;
+
+        const end = source.indexOf('endstream', dataStart);
+        if (end === -1) {
+            break;
+        }
+        searchFrom = end + 'endstream'.length;
+
+        const dictionary = source.slice(Math.max(source.lastIndexOf('obj', start), 0), start);
+        const content = decodeStream(pdf.subarray(dataStart, end), dictionary);
+        if (content === null) {
+            continue;
+        }
+
+        const text = extractContentText(content);
+        if (text) {
+            parts.push(text);
+            length += text.length;
+        }
+    }
+
+    return parts.join('\n').slice(0, maxChars);
+}
+
+/**
+ * Decode a stream's bytes, or return null for streams that can't hold page text
+ */
+function decodeStream(data: Buffer, dictionary: string): string | null {
+    if (NON_TEXT_STREAM.test(dictionary)) {
+        return null;
+    }
+
+    const filterMatch = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dictionary);
+    const filters = filterMatch ? filterMatch[1].match(/\/\w+/g) || [] : [];
+
+    if (filters.length === 0) {
+        return data.toString('latin1');
+    }
+
+    if (filters.length !== 1 || filters[0] !== '/FlateDecode') {
+        return null;
+    }
+
+    try {
+        // Sync flush keeps whatever inflates cleanly from a cut-off stream
+        return inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH }).toString('latin1');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Join the strings shown in each text object of a content stream
+ */
+function extractContentText(content: string): string {
+    const lines: string[] = [];
+
+    for (const block of content.matchAll(/\bBT\b([\s\S]*?)\bET\b/g)) {
+        const text = readTextOperands(block[1]).replace(/\s+/g, ' ').trim();
+        if (text) {
+            lines.push(text);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function readTextOperands(block: string): string {
+    let text = '';
+    let inArray = false;
+    let position = 0;
+
+    while (position < block.length) {
+        const char = block[position];
+
+        if (char === '(') {
+            const literal = readLiteralString(block, position + 1);
+            text += literal.value;
+            position = literal.end;
+            continue;
+        }
+
+        if (char === '[' || char === ']') {
+            inArray = char === '[';
+            position++;
+            continue;
+        }
+
+        if (inArray && /[-+.\d]/.test(char)) {
+            const number = /^[-+]?\d*\.?\d+/.exec(block.slice(position, position + 16));
+            if (number) {
+                if (Number(number[0]) < -TJ_SPACE_THRESHOLD) {
+                    text += ' ';
+                }
+                position += number[0].length;
+                continue;
+            }
+        }
+
+        const operator = BREAK_OPERATORS.find(candidate => block.startsWith(candidate, position));
+        if (operator) {
+            text += ' ';
+            position += operator.length;
+            continue;
+        }
+
+        position++;
+    }
+
+    return text;
+}
+
+/**
+ * Read a PDF literal string starting just after its opening parenthesis
+ */
+export function readLiteralString(source: string, start: number): { value: string; end: number } {
+    let value = '';
+    let depth = 1;
+    let position = start;
+
+    while (position < source.length) {
+        const char = source[position++];
+
+        if (char === '\\') {
+            const next = source[position++];
+            if (next === undefined) {
+                break;
+            }
+
+            if (/[0-7]/.test(next)) {
+                const octal = /^[0-7]{1,3}/.exec(source.slice(position - 1, position + 2))![0];
+                value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+                position += octal.length - 1;
+            } else if (next === '\r' || next === '\n') {
+                // Line continuation
+                if (next === '\r' && source[position] === '\n') {
+                    position++;
+                }
+            } else {
+                value += { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }[next] ?? next;
+            }
+            continue;
+        }
+
+        if (char === '(') {
+            depth++;
+        } else if (char === ')' && --depth === 0) {
+            break;
+        }
+
+        value += char;
+    }
+
+    return { value: decodePdfString(value), end: position };
+}
+
+/**
+ * Literal strings are PDFDocEncoding (close enough to Latin-1) unless they start with a UTF-16BE BOM
+ */
+export function decodePdfString(value: string): string {
+    if (!value.startsWith('\xfe\xff')) {
+        return value;
+    }
+
+    const bytes = Buffer.from(value.slice(2), 'latin1');
+    const evenLength = bytes.length - (bytes.length % 2);
+
+    return Buffer.from(bytes.subarray(0, evenLength)).swap16().toString('utf16le');
+}
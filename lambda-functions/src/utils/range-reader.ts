@@ -0,0 +1,46 @@
+import { RangeReader, METADATA_EXTRACTION_LIMITS } from '../types';
+
+/**
+ * Random access to an object whose leading bytes are already in memory
+ */
+export interface ObjectReader {
+    size: number;
+    read(offset: number, length: number): Promise<Buffer>;
+}
+
+/**
+ * Serve reads from the leading bytes where possible and from cached ranged GETs otherwise
+ *
+ * Each GET fetches at least RANGE_READ_BYTES so neighbouring reads share it. Once
+ * MAX_RANGE_READS GETs have been made, further uncached reads throw.
+ */
+export function createObjectReader(head: Buffer, size: number, readRange: RangeReader): ObjectReader {
+    const chunks: Array<{ offset: number; data: Buffer }> = [{ offset: 0, data: head }];
+    let rangeReads = 0;
+
+    return {
+        size,
+        async read(offset: number, length: number): Promise<Buffer> {
+            const start = Math.max(0, offset);
+            const end = Math.min(start + length, size);
+            if (end <= start) {
+                return Buffer.alloc(0);
+            }
+
+            const cached = chunks.find(chunk => chunk.offset <= start && chunk.offset + chunk.data.length >= end);
+            if (cached) {
+                return cached.data.subarray(start - cached.offset, end - cached.offset);
+            }
+
+            if (++rangeReads > METADATA_EXTRACTION_LIMITS.MAX_RANGE_READS) {
+                throw new Error('Ranged read limit reached');
+            }
+
+            const fetchLength = Math.min(Math.max(end - start, METADATA_EXTRACTION_LIMITS.RANGE_READ_BYTES), size - start);
+            const data = await readRange(start, fetchLength);
+            chunks.push({ offset: start, data });
+
+            return data.subarray(0, end - start);
+        }
+    };
+}
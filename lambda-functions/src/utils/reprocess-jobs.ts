@@ -0,0 +1,98 @@
+import { DynamoDBDocumentClient, GetCommand, PutCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  ReprocessBatch,
+  ReprocessFilter,
+  FileStatus,
+  REPROCESS_LIMITS
+} from '../types';
+
+// Statuses a stored file can be reprocessed from; the others are mid-upload, mid-processing or deleted
+export const REPROCESSABLE_STATUSES: FileStatus[] = [FileStatus.UPLOADED, FileStatus.PROCESSED, FileStatus.ERROR];
+
+/**
+ * Queue one batch of a reprocess job for the worker
+ */
+export async function queueReprocessBatch(
+    docClient: DynamoDBDocumentClient,
+    batch: Omit<ReprocessBatch, 'batch_id' | 'created_at' | 'expires_at'>
+): Promise<void> {
+    const now = new Date();
+    const item: ReprocessBatch = {
+        ...batch,
+        batch_id: batch.chunk_index === undefined ?
+            `${batch.job_id}#${batch.batch_index}` :
+            `${batch.job_id}#${batch.batch_index}#${batch.chunk_index}`,
+        created_at: now.toISOString(),
+        expires_at: Math.floor(now.getTime() / 1000) + REPROCESS_LIMITS.JOB_RETENTION_DAYS * 24 * 60 * 60
+    };
+
+    await docClient.send(new PutCommand({
+        TableName: process.env.REPROCESS_JOBS_TABLE_NAME!,
+        Item: item,
+        // A retried request must not queue the same batch twice
+        ConditionExpression: 'attribute_not_exists(batch_id)'
+    }));
+}
+
+export async function getReprocessBatch(docClient: DynamoDBDocumentClient, batchId: string): Promise<ReprocessBatch | undefined> {
+    const result = await docClient.send(new GetCommand({
+        TableName: process.env.REPROCESS_JOBS_TABLE_NAME!,
+        Key: {
+            batch_id: batchId
+        }
+    }));
+    return result.Item as ReprocessBatch | undefined;
+}
+
+/**
+ * One page of the files a bulk job covers, with the key to read the page after it from
+ *
+ * Pages are read from the table in file_id order rather than from the status or file type
+ * index: the job itself moves files between statuses, and paging on a key that changes
+ * would read some files twice and miss others. Pages can come back empty when the
+ * filter drops every record read.
+ */
+export async function findReprocessPage(
+    docClient: DynamoDBDocumentClient,
+    filter: ReprocessFilter,
+    startKey?: Record<string, any>
+): Promise<{ fileIds: string[]; next?: Record<string, any> }> {
+    const statuses = filter.status ? [filter.status] : REPROCESSABLE_STATUSES;
+
+    const names: Record<string, string> = {
+        '#status': 'status'
+    };
+    const values: Record<string, any> = {};
+    const conditions = [`#status IN (${statuses.map((_, index) => `:status_${index}`).join(', ')})`];
+    statuses.forEach((status, index) => {
+        values[`:status_${index}`] = status;
+    });
+
+    if (filter.file_type) {
+        conditions.push('extracted_file_type = :file_type');
+        values[':file_type'] = filter.file_type;
+    }
+    if (filter.uploaded_from) {
+        conditions.push('upload_date >= :lower_bound');
+        values[':lower_bound'] = filter.uploaded_from;
+    }
+    if (filter.uploaded_to) {
+        conditions.push('upload_date <= :upper_bound');
+        values[':upper_bound'] = filter.uploaded_to;
+    }
+
+    const result = await docClient.send(new ScanCommand({
+        TableName: process.env.DYNAMODB_TABLE_NAME!,
+        FilterExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+        ProjectionExpression: 'file_id',
+        ExclusiveStartKey: startKey,
+        Limit: REPROCESS_LIMITS.SCAN_PAGE_SIZE
+    }));
+
+    return {
+        fileIds: (result.Items || []).map(item => item.file_id as string),
+        next: result.LastEvaluatedKey
+    };
+}
@@ -0,0 +1,47 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+/**
+ * Get a request header value regardless of header name casing
+ */
+export function getHeader(event: APIGatewayProxyEvent, name: string): string | undefined {
+    const headers = event.headers || {};
+    const lowerName = name.toLowerCase();
+
+    for (const [key, value] of Object.entries(headers)) {
+        if (key.toLowerCase() === lowerName && value !== undefined) {
+            return value;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Decode the raw request body into a Buffer
+ */
+export function getRawBody(event: APIGatewayProxyEvent): Buffer {
+    if (!event.body) {
+        return Buffer.alloc(0);
+    }
+
+    return event.isBase64Encoded ?
+        Buffer.from(event.body, 'base64') :
+        Buffer.from(event.body, 'utf8');
+}
+
+/**
+ * Parse a JSON request body, throwing if it is missing or malformed
+ */
+export function parseJsonBody<T = any>(event: APIGatewayProxyEvent): T {
+    const body = getRawBody(event).toString('utf8');
+
+    if (body.trim() === '') {
+        throw new Error('Request body is required');
+    }
+
+    try {
+        return JSON.parse(body) as T;
+    } catch {
+        throw new Error('Request body must be valid JSON');
+    }
+}
@@ -30,13 +30,33 @@ export function createSuccessResponse<T = any>(
     headers: {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-      'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,Idempotency-Key,If-Match',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
     },
     body: JSON.stringify(data),
   };
 }
 
+/**
+ * Create a redirect response (302 Found by default)
+ */
+export function createRedirectResponse(
+  location: string,
+  statusCode: number = StatusCodes.MOVED_TEMPORARILY
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Location': location,
+      'Cache-Control': 'no-store',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,Idempotency-Key,If-Match',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+    },
+    body: '',
+  };
+}
+
 /**
  * Create standardized error response
  */
@@ -64,8 +84,8 @@ export function createErrorResponse(
     headers: {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-      'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,Idempotency-Key,If-Match',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
     },
     body: JSON.stringify(responseBody),
   };
@@ -82,12 +102,37 @@ export { StatusCodes as HTTP_STATUS } from 'http-status-codes';
 export const ERROR_MESSAGES = {
   FILE_NOT_PROVIDED: 'No file provided in the request',
   FILE_TOO_LARGE: 'File too large',
+  UNSUPPORTED_FILE_TYPE: 'File type not allowed',
+  DUPLICATE_FILE: 'File already exists',
+  INVALID_IDEMPOTENCY_KEY: 'Invalid Idempotency-Key header',
+  FILE_ALREADY_DELETED: 'File is already deleted',
+  FILE_NOT_DELETED: 'File is not deleted',
+  FILE_NOT_DELETABLE: 'File cannot be deleted',
+  FILE_NOT_DOWNLOADABLE: 'File is not available for download',
+  FILE_FLAGGED: 'File has been flagged and cannot be downloaded',
+  FILE_NOT_EDITABLE: 'File cannot be modified in its current state',
+  FILE_NOT_REPROCESSABLE: 'File cannot be reprocessed in its current state',
+  ADMIN_ACCESS_REQUIRED: 'Admin credentials are required',
+  IF_MATCH_REQUIRED: 'If-Match header is required',
+  VERSION_MISMATCH: 'File has been modified since it was read',
+  IDEMPOTENCY_KEY_REUSED: 'Idempotency-Key was already used with a different request',
+  IDEMPOTENT_REQUEST_IN_PROGRESS: 'A request with this Idempotency-Key is still in progress',
+  TOO_MANY_FILES: 'Too many files',
+  UPLOAD_FAILED: 'Failed to upload file',
   INVALID_METADATA: 'Invalid metadata format',
+  INVALID_MULTIPART: 'Invalid multipart/form-data request',
+  INVALID_CURSOR: 'Invalid pagination cursor',
+  INVALID_SEARCH_QUERY: 'Invalid search query',
   FILE_NOT_FOUND: 'File not found',
   INTERNAL_ERROR: 'Internal server error',
   FAILED_TO_RETRIEVE_FILES: 'Failed to retrieve files',
   FAILED_TO_RETRIEVE_METADATA: 'Failed to retrieve metadata',
   MISSING_PARAMETER: 'Missing required parameter',
+  UPLOAD_NOT_COMPLETED: 'Upload has not been completed',
+  UPLOAD_NOT_PENDING: 'Upload is not pending',
+  NO_ACTIVE_MULTIPART_UPLOAD: 'No active multipart upload',
+  NOT_AN_ARCHIVE: 'File is not an archive',
+  MISSING_UPLOAD_PARTS: 'Multipart upload is missing parts',
 } as const;
 
 /**
@@ -105,6 +150,21 @@ export function createFileSizeError(actualSize: number, maxSize: number = 10 * 1
   );
 }
 
+/**
+ * Helper function for files rejected by the upload policy
+ */
+export function createUnsupportedMediaTypeError(
+  details: string[],
+  additionalData?: Record<string, any>
+): APIGatewayProxyResult {
+  return createErrorResponse(
+    StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+    ERROR_MESSAGES.UNSUPPORTED_FILE_TYPE,
+    details,
+    additionalData
+  );
+}
+
 /**
  * Helper function for validation errors
  */
@@ -0,0 +1,423 @@
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+  DeleteCommand
+} from '@aws-sdk/lib-dynamodb';
+import { batchWriteItems, WriteRequest } from './batch-write';
+import {
+  FileMetadata,
+  SearchClause,
+  SearchHit,
+  SearchIndexEntry,
+  SEARCH_INDEX_LIMITS,
+  SEARCH_FIELD_WEIGHTS
+} from '../types';
+
+export const SEARCH_FIELDS = {
+    NAME: 'name',
+    META: 'meta',
+    TEXT: 'text',
+} as const;
+
+// Unscoped query terms look in every field
+export const DEFAULT_SEARCH_FIELDS = [SEARCH_FIELDS.NAME, SEARCH_FIELDS.META, SEARCH_FIELDS.TEXT];
+
+// Field-scoped metadata, e.g. meta.project
+export const META_FIELD_PREFIX = `${SEARCH_FIELDS.META}.`;
+
+// Per-file record of what was indexed, so a reindex can remove stale postings
+const DOC_BUCKET_PREFIX = 'doc#';
+const DOC_ENTRY = 'doc';
+
+// Running count of indexed files, used for inverse document frequency
+const STATS_BUCKET = 'stats';
+const DOCUMENT_COUNT_ENTRY = 'documents';
+
+type FieldPostings = Map<string, number[]>;
+
+interface IndexedDocument {
+    term_bucket: string;
+    entry: string;
+    file_id: string;
+    fields: Record<string, string[]>;
+    indexed_at: string;
+}
+
+/**
+ * Split text into lowercase search tokens, dropping accents and punctuation
+ */
+export function tokenize(value: string): string[] {
+    return value
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token.length > 0 && token.length <= SEARCH_INDEX_LIMITS.MAX_TOKEN_LENGTH);
+}
+
+/**
+ * Index a file's name and client metadata, and its extracted text when given
+ *
+ * Passing no text keeps whatever text was indexed before, so metadata edits don't
+ * need the file contents.
+ */
+export async function indexFile(
+    docClient: DynamoDBDocumentClient,
+    record: FileMetadata,
+    text?: string
+): Promise<void> {
+    const previous = await getIndexedDocument(docClient, record.file_id);
+    const fields = buildFieldPostings(record);
+
+    if (text !== undefined) {
+        fields.set(SEARCH_FIELDS.TEXT, buildPostings(tokenize(text), SEARCH_INDEX_LIMITS.MAX_TEXT_TERMS));
+    }
+
+    // Fields we weren't given are left as they are
+    const replacedFields = new Set([
+        ...fields.keys(),
+        ...Object.keys(previous?.fields || {}).filter(field => field !== SEARCH_FIELDS.TEXT || text !== undefined)
+    ]);
+
+    const deletes: WriteRequest[] = [];
+    for (const field of replacedFields) {
+        const next = fields.get(field);
+        for (const token of previous?.fields[field] || []) {
+            if (!next?.has(token)) {
+                deletes.push({ DeleteRequest: { Key: entryKey(field, token, record.file_id) } });
+            }
+        }
+    }
+
+    const puts: WriteRequest[] = [];
+    for (const [field, postings] of fields) {
+        for (const [token, positions] of postings) {
+            const item: SearchIndexEntry = {
+                ...entryKey(field, token, record.file_id),
+                file_id: record.file_id,
+                field,
+                token,
+                tf: positions.length,
+                positions: positions.slice(0, SEARCH_INDEX_LIMITS.MAX_POSITIONS)
+            };
+            puts.push({ PutRequest: { Item: item } });
+        }
+    }
+
+    await batchWrite(docClient, [...deletes, ...puts]);
+
+    const indexedFields: Record<string, string[]> = {};
+    for (const field of Object.keys(previous?.fields || {})) {
+        if (!replacedFields.has(field)) {
+            indexedFields[field] = previous!.fields[field];
+        }
+    }
+    for (const [field, postings] of fields) {
+        if (postings.size > 0) {
+            indexedFields[field] = [...postings.keys()];
+        }
+    }
+
+    const document: IndexedDocument = {
+        term_bucket: `${DOC_BUCKET_PREFIX}${record.file_id}`,
+        entry: DOC_ENTRY,
+        file_id: record.file_id,
+        fields: indexedFields,
+        indexed_at: new Date().toISOString()
+    };
+
+    await batchWrite(docClient, [{ PutRequest: { Item: document } }]);
+
+    if (!previous) {
+        await adjustDocumentCount(docClient, 1);
+    }
+}
+
+/**
+ * Drop every posting for a file
+ */
+export async function removeFromSearchIndex(docClient: DynamoDBDocumentClient, fileId: string): Promise<void> {
+    const previous = await getIndexedDocument(docClient, fileId);
+    if (!previous) {
+        return;
+    }
+
+    const deletes = Object.entries(previous.fields).flatMap(([field, tokens]) =>
+        tokens.map(token => ({ DeleteRequest: { Key: entryKey(field, token, fileId) } }))
+    );
+    await batchWrite(docClient, deletes);
+
+    await docClient.send(new DeleteCommand({
+        TableName: process.env.SEARCH_INDEX_TABLE_NAME!,
+        Key: {
+            term_bucket: `${DOC_BUCKET_PREFIX}${fileId}`,
+            entry: DOC_ENTRY
+        }
+    }));
+
+    await adjustDocumentCount(docClient, -1);
+}
+
+/**
+ * Score every file matching all clauses, best first
+ *
+ * Each clause contributes field weight x (1 + ln tf) x idf for each field it matched in;
+ * phrases count occurrences of the whole phrase as their term frequency.
+ */
+export async function searchIndex(docClient: DynamoDBDocumentClient, clauses: SearchClause[]): Promise<SearchHit[]> {
+    const documentCount = await getDocumentCount(docClient);
+    let hits: Map<string, SearchHit> | undefined;
+
+    for (const clause of clauses) {
+        const clauseHits = await scoreClause(docClient, clause, documentCount);
+
+        if (!hits) {
+            hits = clauseHits;
+        } else {
+            const combined = new Map<string, SearchHit>();
+            for (const [fileId, hit] of clauseHits) {
+                const existing = hits.get(fileId);
+                if (existing) {
+                    combined.set(fileId, {
+                        file_id: fileId,
+                        score: existing.score + hit.score,
+                        matched_fields: [...new Set([...existing.matched_fields, ...hit.matched_fields])]
+                    });
+                }
+            }
+            hits = combined;
+        }
+
+        if (hits.size === 0) {
+            break;
+        }
+    }
+
+    return [...(hits?.values() || [])].sort((a, b) =>
+        b.score - a.score || (a.file_id < b.file_id ? -1 : a.file_id > b.file_id ? 1 : 0)
+    );
+}
+
+async function scoreClause(
+    docClient: DynamoDBDocumentClient,
+    clause: SearchClause,
+    documentCount: number
+): Promise<Map<string, SearchHit>> {
+    // entries[field][termIndex] -> postings for that term in that field
+    const entriesByField = new Map<string, SearchIndexEntry[][]>();
+    const filesPerTerm: Array<Set<string>> = clause.terms.map(() => new Set());
+
+    for (const field of clause.fields) {
+        const perTerm = await Promise.all(clause.terms.map((term, index) =>
+            findTermEntries(docClient, field, term, clause.prefix && index === clause.terms.length - 1)
+        ));
+        perTerm.forEach((entries, index) => entries.forEach(entry => filesPerTerm[index].add(entry.file_id)));
+        entriesByField.set(field, perTerm);
+    }
+
+    const idf = filesPerTerm.reduce((sum, files) =>
+        sum + (files.size > 0 ? Math.log(1 + Math.max(documentCount, files.size) / files.size) : 0), 0);
+
+    const hits = new Map<string, SearchHit>();
+
+    for (const [field, perTerm] of entriesByField) {
+        const frequencies = clause.terms.length === 1 ?
+            countTermMatches(perTerm[0]) :
+            countPhraseMatches(perTerm);
+        const weight = getFieldWeight(field);
+
+        for (const [fileId, frequency] of frequencies) {
+            const score = weight * (1 + Math.log(frequency)) * idf;
+            const hit = hits.get(fileId) || { file_id: fileId, score: 0, matched_fields: [] };
+            hit.score += score;
+            hit.matched_fields.push(field);
+            hits.set(fileId, hit);
+        }
+    }
+
+    return hits;
+}
+
+function countTermMatches(entries: SearchIndexEntry[]): Map<string, number> {
+    const frequencies = new Map<string, number>();
+    for (const entry of entries) {
+        frequencies.set(entry.file_id, (frequencies.get(entry.file_id) || 0) + entry.tf);
+    }
+    return frequencies;
+}
+
+/**
+ * Count, per file, how often the terms appear at consecutive positions
+ */
+function countPhraseMatches(perTerm: SearchIndexEntry[][]): Map<string, number> {
+    // positions[termIndex] file -> set of positions (prefix terms may match several tokens)
+    const positions = perTerm.map(entries => {
+        const byFile = new Map<string, Set<number>>();
+        for (const entry of entries) {
+            const set = byFile.get(entry.file_id) || new Set<number>();
+            entry.positions.forEach(position => set.add(position));
+            byFile.set(entry.file_id, set);
+        }
+        return byFile;
+    });
+
+    const frequencies = new Map<string, number>();
+    for (const [fileId, starts] of positions[0]) {
+        let count = 0;
+        for (const start of starts) {
+            if (positions.every((byFile, offset) => byFile.get(fileId)?.has(start + offset))) {
+                count++;
+            }
+        }
+        if (count > 0) {
+            frequencies.set(fileId, count);
+        }
+    }
+    return frequencies;
+}
+
+/**
+ * Read the postings for a token, or every token it starts when `prefix` is set
+ */
+async function findTermEntries(
+    docClient: DynamoDBDocumentClient,
+    field: string,
+    term: string,
+    prefix: boolean
+): Promise<SearchIndexEntry[]> {
+    const entries: SearchIndexEntry[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const result = await docClient.send(new QueryCommand({
+            TableName: process.env.SEARCH_INDEX_TABLE_NAME!,
+            KeyConditionExpression: 'term_bucket = :bucket AND begins_with(entry, :entry_prefix)',
+            ExpressionAttributeValues: {
+                ':bucket': termBucket(field, term),
+                ':entry_prefix': prefix ? term : `${term}#`
+            },
+            ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        entries.push(...(result.Items || []) as SearchIndexEntry[]);
+        exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey && entries.length < SEARCH_INDEX_LIMITS.MAX_ENTRIES_PER_TERM);
+
+    return entries;
+}
+
+/**
+ * Postings for the name and client metadata fields of a record
+ *
+ * Metadata values are indexed both under `meta` and under their own `meta.<key>`
+ * field. A gap between values keeps phrases from matching across two of them.
+ */
+function buildFieldPostings(record: FileMetadata): Map<string, FieldPostings> {
+    const fields = new Map<string, FieldPostings>();
+    fields.set(SEARCH_FIELDS.NAME, buildPostings(tokenize(record.file_name)));
+
+    const allMetaTokens: Array<string | null> = [];
+    for (const [key, value] of Object.entries(record.client_metadata || {})) {
+        const tokens = tokenize(String(value));
+        fields.set(`${META_FIELD_PREFIX}${key}`, buildPostings(tokens));
+        allMetaTokens.push(...tokens, null);
+    }
+    fields.set(SEARCH_FIELDS.META, buildPostings(allMetaTokens));
+
+    return fields;
+}
+
+/**
+ * Map each token to the positions it occurs at; null entries only advance the position
+ */
+function buildPostings(tokens: Array<string | null>, maxTerms: number = Infinity): FieldPostings {
+    const postings: FieldPostings = new Map();
+
+    tokens.forEach((token, position) => {
+        if (token === null) {
+            return;
+        }
+        const existing = postings.get(token);
+        if (existing) {
+            existing.push(position);
+        } else if (postings.size < maxTerms) {
+            postings.set(token, [position]);
+        }
+    });
+
+    return postings;
+}
+
+function getFieldWeight(field: string): number {
+    if (field === SEARCH_FIELDS.NAME) {
+        return SEARCH_FIELD_WEIGHTS.name;
+    }
+    if (field === SEARCH_FIELDS.TEXT) {
+        return SEARCH_FIELD_WEIGHTS.text;
+    }
+    return SEARCH_FIELD_WEIGHTS.meta;
+}
+
+function termBucket(field: string, token: string): string {
+    return `${field}#${token.slice(0, SEARCH_INDEX_LIMITS.MIN_PREFIX_LENGTH)}`;
+}
+
+function entryKey(field: string, token: string, fileId: string): { term_bucket: string; entry: string } {
+    return {
+        term_bucket: termBucket(field, token),
+        entry: `${token}#${fileId}`
+    };
+}
+
+async function getIndexedDocument(
+    docClient: DynamoDBDocumentClient,
+    fileId: string
+): Promise<IndexedDocument | undefined> {
+    const result = await docClient.send(new GetCommand({
+        TableName: process.env.SEARCH_INDEX_TABLE_NAME!,
+        Key: {
+            term_bucket: `${DOC_BUCKET_PREFIX}${fileId}`,
+            entry: DOC_ENTRY
+        }
+    }));
+
+    return result.Item as IndexedDocument | undefined;
+}
+
+async function getDocumentCount(docClient: DynamoDBDocumentClient): Promise<number> {
+    const result = await docClient.send(new GetCommand({
+        TableName: process.env.SEARCH_INDEX_TABLE_NAME!,
+        Key: {
+            term_bucket: STATS_BUCKET,
+            entry: DOCUMENT_COUNT_ENTRY
+        }
+    }));
+
+    return Math.max(1, result.Item?.count ?? 1);
+}
+
+async function adjustDocumentCount(docClient: DynamoDBDocumentClient, delta: number): Promise<void> {
+    await docClient.send(new UpdateCommand({
+        TableName: process.env.SEARCH_INDEX_TABLE_NAME!,
+        Key: {
+            term_bucket: STATS_BUCKET,
+            entry: DOCUMENT_COUNT_ENTRY
+        },
+        UpdateExpression: 'ADD #count :delta',
+        ExpressionAttributeNames: {
+            '#count': 'count'
+        },
+        ExpressionAttributeValues: {
+            ':delta': delta
+        }
+    }));
+}
+
+/**
+ * Write postings and documents to the search index table
+ */
+function batchWrite(docClient: DynamoDBDocumentClient, requests: WriteRequest[]): Promise<void> {
+    return batchWriteItems(docClient, process.env.SEARCH_INDEX_TABLE_NAME!, requests);
+}
@@ -0,0 +1,92 @@
+import { sanitizeMetadataKey } from './validation';
+import { tokenize, SEARCH_FIELDS, DEFAULT_SEARCH_FIELDS, META_FIELD_PREFIX } from './search-index';
+import { SearchClause, SEARCH_INDEX_LIMITS } from '../types';
+
+const FIELD_PATTERN = /^([a-z]+(?:\.[\p{L}\p{N}_-]+)?):(?=\S)/iu;
+
+/**
+ * Parse a search query into clauses that must all match
+ *
+ * Supported syntax:
+ * - `report` matches the token in the file name, metadata or extracted text
+ * - `rep*` matches any token starting with `rep`
+ * - `"quarterly report"` matches the words next to each other
+ * - `name:`, `text:`, `meta:` and `meta.<key>:` scope a word or phrase to one field
+ */
+export function parseSearchQuery(query: string): { clauses: SearchClause[]; errors: string[] } {
+    const clauses: SearchClause[] = [];
+    const errors: string[] = [];
+    let position = 0;
+
+    while (position < query.length) {
+        if (/\s/.test(query[position])) {
+            position++;
+            continue;
+        }
+
+        let fields: string[] = DEFAULT_SEARCH_FIELDS;
+        const fieldMatch = FIELD_PATTERN.exec(query.slice(position));
+        if (fieldMatch) {
+            const field = resolveField(fieldMatch[1]);
+            if (!field) {
+                errors.push(`Unknown search field "${fieldMatch[1]}" - use name:, text:, meta: or meta.<key>:`);
+            }
+            fields = field ? [field] : [];
+            position += fieldMatch[0].length;
+        }
+
+        let text: string;
+        let prefix = false;
+
+        if (query[position] === '"') {
+            const closing = query.indexOf('"', position + 1);
+            const end = closing === -1 ? query.length : closing;
+            text = query.slice(position + 1, end);
+            position = end + 1;
+        } else {
+            const match = /^\S+/.exec(query.slice(position))!;
+            text = match[0];
+            position += text.length;
+            if (text.endsWith('*')) {
+                prefix = true;
+                text = text.replace(/\*+$/, '');
+            }
+        }
+
+        const terms = tokenize(text);
+        if (terms.length === 0 || fields.length === 0) {
+            continue;
+        }
+
+        if (prefix && terms[terms.length - 1].length < SEARCH_INDEX_LIMITS.MIN_PREFIX_LENGTH) {
+            errors.push(`Prefix searches need at least ${SEARCH_INDEX_LIMITS.MIN_PREFIX_LENGTH} characters: "${text}*"`);
+            continue;
+        }
+
+        clauses.push({ fields, terms, prefix });
+    }
+
+    if (clauses.length > SEARCH_INDEX_LIMITS.MAX_QUERY_CLAUSES) {
+        errors.push(`Queries may have at most ${SEARCH_INDEX_LIMITS.MAX_QUERY_CLAUSES} terms or phrases`);
+    }
+
+    if (clauses.length === 0 && errors.length === 0) {
+        errors.push('Query must contain at least one word');
+    }
+
+    return { clauses, errors };
+}
+
+function resolveField(name: string): string | undefined {
+    const lower = name.toLowerCase();
+
+    if (lower === SEARCH_FIELDS.NAME || lower === SEARCH_FIELDS.TEXT || lower === SEARCH_FIELDS.META) {
+        return lower;
+    }
+
+    if (lower.startsWith(META_FIELD_PREFIX)) {
+        return `${META_FIELD_PREFIX}${sanitizeMetadataKey(name.slice(META_FIELD_PREFIX.length))}`;
+    }
+
+    return undefined;
+}
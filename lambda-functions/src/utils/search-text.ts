@@ -0,0 +1,27 @@
+import { extractPdfText } from './pdf-text';
+import { ExtractedFileType, SEARCH_INDEX_LIMITS } from '../types';
+
+/**
+ * Whether a file's contents are indexed for search, not just its name and metadata
+ */
+export function isTextSource(fileType: ExtractedFileType): boolean {
+    return fileType === ExtractedFileType.TEXT || fileType === ExtractedFileType.PDF;
+}
+
+/**
+ * Decode the start of a text or PDF file into plain text for the search index
+ */
+export function extractSearchText(fileType: ExtractedFileType, content: Buffer): string {
+    const source = content.subarray(0, SEARCH_INDEX_LIMITS.MAX_TEXT_SOURCE_BYTES);
+
+    if (fileType === ExtractedFileType.PDF) {
+        return extractPdfText(source, SEARCH_INDEX_LIMITS.MAX_TEXT_SOURCE_BYTES);
+    }
+
+    // UTF-16LE files carry a byte order mark; everything else is read as UTF-8
+    if (source[0] === 0xff && source[1] === 0xfe) {
+        return source.subarray(2).toString('utf16le');
+    }
+
+    return source.toString('utf8');
+}
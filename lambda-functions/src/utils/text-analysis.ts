@@ -0,0 +1,676 @@
+import { TextDecoder } from 'util';
+import { normalizeContentType } from './file-signature';
+import {
+  CsvColumnType,
+  JsonValueType,
+  LineEnding,
+  TextEncoding,
+  TextMetadata,
+  METADATA_EXTRACTION_LIMITS
+} from '../types';
+
+export type TextFormat = 'csv' | 'json';
+
+/**
+ * Consumes a text file chunk by chunk, so files of any size are counted exactly
+ */
+export interface TextAnalyzer {
+    update(chunk: Buffer): void;
+    finish(): TextMetadata;
+}
+
+interface JsonValidator {
+    write(text: string): void;
+    end(): { valid: boolean; type?: JsonValueType; itemCount?: number };
+}
+
+type JsonMode = 'value' | 'firstValue' | 'key' | 'firstKey' | 'colon' | 'afterValue' | 'string' | 'number' | 'literal' | 'done' | 'invalid';
+
+// Bytes looked at to pick the encoding of a file without a byte order mark
+const ENCODING_SNIFF_BYTES = 1024;
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Numbers and literals longer than this aren't plausible JSON tokens
+const MAX_JSON_TOKEN_LENGTH = 512;
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const BOOLEAN_PATTERN = /^(true|false|yes|no)$/i;
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?|\d{1,2}[/.]\d{1,2}[/.]\d{4})$/;
+const JSON_NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Which structured format, if any, a text file declares itself as
+ */
+export function getTextFormat(contentType: string, fileExtension: string): TextFormat | undefined {
+    const normalized = normalizeContentType(contentType);
+
+    if (fileExtension === 'csv' || fileExtension === 'tsv' ||
+        normalized === 'text/csv' || normalized === 'text/tab-separated-values') {
+        return 'csv';
+    }
+    if (fileExtension === 'json' || normalized === 'application/json' || normalized.endsWith('+json')) {
+        return 'json';
+    }
+
+    return undefined;
+}
+
+/**
+ * Count lines, words and characters, detect encoding and line endings, and check
+ * CSV layout or JSON validity for the given format
+ */
+export function createTextAnalyzer(format?: TextFormat): TextAnalyzer {
+    let pending: Buffer[] = [];
+    let pendingLength = 0;
+
+    let encoding: TextEncoding | undefined;
+    let hasBom = false;
+    let utf8Valid = true;
+    const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+    let oddByte: Buffer | undefined;
+
+    let byteCount = 0;
+    let continuationBytes = 0;
+    let surrogateUnits = 0;
+    let codeUnits = 0;
+
+    let lf = 0;
+    let crlf = 0;
+    let cr = 0;
+    let pendingCr = false;
+    let endsWithBreak = true;
+    let wordCount = 0;
+    let inWord = false;
+
+    const sample: Buffer[] = [];
+    let sampleLength = 0;
+    let sampleTruncated = false;
+
+    const json = format === 'json' ? createJsonValidator() : undefined;
+
+    const countText = (text: string) => {
+        for (let index = 0; index < text.length; index++) {
+            const code = text.charCodeAt(index);
+
+            if (pendingCr) {
+                pendingCr = false;
+                if (code === 10) {
+                    crlf++;
+                    continue;
+                }
+                cr++;
+            }
+
+            if (code === 13) {
+                pendingCr = true;
+            } else if (code === 10) {
+                lf++;
+            }
+
+            endsWithBreak = code === 10 || code === 13;
+
+            const isSpace = code === 32 || (code >= 9 && code <= 13);
+            if (!isSpace && !inWord) {
+                wordCount++;
+            }
+            inWord = !isSpace;
+
+            if (code >= 0xdc00 && code <= 0xdfff) {
+                surrogateUnits++;
+            }
+        }
+
+        codeUnits += text.length;
+        json?.write(text);
+    };
+
+    const keepSample = (bytes: Buffer) => {
+        if (format !== 'csv' || sampleTruncated) {
+            return;
+        }
+        const room = METADATA_EXTRACTION_LIMITS.TEXT_SAMPLE_BYTES - sampleLength;
+        sample.push(bytes.subarray(0, room));
+        sampleLength += Math.min(bytes.length, room);
+        sampleTruncated = bytes.length > room;
+    };
+
+    // Called with the byte order mark already removed
+    const consume = (chunk: Buffer) => {
+        keepSample(chunk);
+
+        if (encoding === 'UTF-16LE' || encoding === 'UTF-16BE') {
+            // Keep a trailing odd byte for the next chunk
+            let bytes = oddByte ? Buffer.concat([oddByte, chunk]) : chunk;
+            oddByte = bytes.length % 2 ? bytes.subarray(bytes.length - 1) : undefined;
+            bytes = bytes.subarray(0, bytes.length - (bytes.length % 2));
+            if (encoding === 'UTF-16BE') {
+                bytes = Buffer.from(bytes).swap16();
+            }
+            countText(bytes.toString('utf16le'));
+            return;
+        }
+
+        // UTF-8 and Latin-1 share ASCII, so lines and words can be counted on single bytes
+        byteCount += chunk.length;
+        for (const byte of chunk) {
+            if (byte >= 0x80 && byte <= 0xbf) {
+                continuationBytes++;
+            }
+        }
+        if (utf8Valid) {
+            try {
+                utf8Decoder.decode(chunk, { stream: true });
+            } catch {
+                utf8Valid = false;
+            }
+        }
+        countText(chunk.toString('latin1'));
+    };
+
+    const start = (head: Buffer) => {
+        const detected = detectEncoding(head);
+        encoding = detected.encoding;
+        hasBom = detected.bomLength > 0;
+        consume(head.subarray(detected.bomLength));
+    };
+
+    return {
+        update(chunk: Buffer): void {
+            if (encoding) {
+                consume(chunk);
+                return;
+            }
+
+            pending.push(chunk);
+            pendingLength += chunk.length;
+            if (pendingLength >= ENCODING_SNIFF_BYTES) {
+                start(Buffer.concat(pending, pendingLength));
+                pending = [];
+            }
+        },
+
+        finish(): TextMetadata {
+            if (!encoding) {
+                start(Buffer.concat(pending, pendingLength));
+                pending = [];
+            }
+
+            if (pendingCr) {
+                cr++;
+                pendingCr = false;
+            }
+
+            if (utf8Valid && encoding === 'UTF-8') {
+                try {
+                    utf8Decoder.decode();
+                } catch {
+                    utf8Valid = false;
+                }
+            }
+
+            const finalEncoding: TextEncoding = encoding === 'UTF-8' && !utf8Valid ? 'ISO-8859-1' : encoding!;
+            const breaks = lf + crlf + cr;
+
+            const metadata: TextMetadata = {
+                line_count: breaks + (endsWithBreak ? 0 : 1),
+                word_count: wordCount,
+                char_count: finalEncoding === 'UTF-8' ? byteCount - continuationBytes :
+                    finalEncoding === 'ISO-8859-1' ? byteCount : codeUnits - surrogateUnits,
+                text_encoding: finalEncoding,
+                text_has_bom: hasBom,
+                text_line_ending: getLineEnding(lf, crlf, cr)
+            };
+
+            if (format === 'csv') {
+                const sampleText = decodeSample(Buffer.concat(sample, sampleLength), finalEncoding);
+                Object.assign(metadata, analyzeCsv(sampleText, sampleTruncated));
+            }
+
+            if (json) {
+                const result = json.end();
+                metadata.json_valid = result.valid;
+                if (result.type) {
+                    metadata.json_type = result.type;
+                }
+                if (result.itemCount !== undefined) {
+                    metadata.json_item_count = result.itemCount;
+                }
+            }
+
+            return metadata;
+        }
+    };
+}
+
+/**
+ * Pick the encoding from a byte order mark, or from where the zero bytes fall for
+ * UTF-16 without one; anything else starts out as UTF-8
+ */
+function detectEncoding(head: Buffer): { encoding: TextEncoding; bomLength: number } {
+    if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) {
+        return { encoding: 'UTF-8', bomLength: 3 };
+    }
+    if (head[0] === 0xff && head[1] === 0xfe) {
+        return { encoding: 'UTF-16LE', bomLength: 2 };
+    }
+    if (head[0] === 0xfe && head[1] === 0xff) {
+        return { encoding: 'UTF-16BE', bomLength: 2 };
+    }
+
+    // Mostly-ASCII UTF-16 has a zero in every other byte
+    const length = Math.min(head.length, ENCODING_SNIFF_BYTES) & ~1;
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let index = 0; index < length; index++) {
+        if (head[index] === 0) {
+            if (index % 2) {
+                oddZeros++;
+            } else {
+                evenZeros++;
+            }
+        }
+    }
+
+    const pairs = length / 2;
+    if (pairs >= 2 && oddZeros > pairs / 2 && evenZeros < pairs / 20) {
+        return { encoding: 'UTF-16LE', bomLength: 0 };
+    }
+    if (pairs >= 2 && evenZeros > pairs / 2 && oddZeros < pairs / 20) {
+        return { encoding: 'UTF-16BE', bomLength: 0 };
+    }
+
+    return { encoding: 'UTF-8', bomLength: 0 };
+}
+
+function decodeSample(bytes: Buffer, encoding: TextEncoding): string {
+    switch (encoding) {
+        case 'UTF-16LE':
+            return bytes.toString('utf16le');
+        case 'UTF-16BE':
+            return Buffer.from(bytes.subarray(0, bytes.length & ~1)).swap16().toString('utf16le');
+        case 'ISO-8859-1':
+            return bytes.toString('latin1');
+        default:
+            return bytes.toString('utf8');
+    }
+}
+
+function getLineEnding(lf: number, crlf: number, cr: number): LineEnding {
+    const styles = [lf > 0, crlf > 0, cr > 0].filter(Boolean).length;
+
+    if (styles === 0) {
+        return 'None';
+    }
+    if (styles > 1) {
+        return 'Mixed';
+    }
+    return lf > 0 ? 'LF' : crlf > 0 ? 'CRLF' : 'CR';
+}
+
+/**
+ * Infer delimiter, header row and column types from the leading rows of a CSV file
+ */
+function analyzeCsv(text: string, truncated: boolean): TextMetadata {
+    let best: { delimiter: string; rows: string[][]; columns: number; consistency: number } | undefined;
+
+    for (const delimiter of CSV_DELIMITERS) {
+        const rows = parseCsvRows(text, delimiter, truncated);
+        const columns = mostCommon(rows.map(row => row.length));
+        const consistency = rows.length ? rows.filter(row => row.length === columns).length / rows.length : 0;
+
+        // The delimiter that splits most rows into the same number of fields wins
+        if (columns > 1 && (!best || consistency > best.consistency ||
+            (consistency === best.consistency && columns > best.columns))) {
+            best = { delimiter, rows, columns, consistency };
+        }
+    }
+
+    // No delimiter splits the rows, so it's a single column
+    if (!best) {
+        const rows = parseCsvRows(text, ',', truncated);
+        best = { delimiter: ',', rows, columns: rows.length ? 1 : 0, consistency: 1 };
+    }
+
+    const { delimiter, rows, columns } = best;
+    const hasHeader = detectHeaderRow(rows);
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+    const keptColumns = Math.min(columns, METADATA_EXTRACTION_LIMITS.MAX_CSV_COLUMNS);
+
+    const metadata: TextMetadata = {
+        csv_delimiter: delimiter,
+        csv_has_header: hasHeader,
+        csv_column_count: columns,
+        csv_column_types: getColumnTypes(dataRows, keptColumns)
+    };
+
+    if (hasHeader) {
+        metadata.csv_columns = rows[0]
+            .slice(0, keptColumns)
+            .map(name => name.trim().slice(0, METADATA_EXTRACTION_LIMITS.MAX_STRING_LENGTH));
+    }
+
+    return metadata;
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields that span delimiters and lines
+ */
+function parseCsvRows(text: string, delimiter: string, truncated: boolean): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let index = 0;
+
+    while (index < text.length && rows.length < METADATA_EXTRACTION_LIMITS.CSV_SAMPLE_ROWS) {
+        const char = text[index];
+
+        if (inQuotes) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index += 2;
+                continue;
+            }
+            if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') {
+                index++;
+            }
+            row.push(field);
+            if (row.length > 1 || row[0] !== '') {
+                rows.push(row);
+            }
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+
+        index++;
+    }
+
+    // The last row of a cut-off sample is probably incomplete
+    if (!truncated && index >= text.length && (row.length > 0 || field !== '')) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * A header row is all distinct text, over columns that either hold typed values or never repeat it
+ */
+function detectHeaderRow(rows: string[][]): boolean {
+    if (rows.length < 2) {
+        return false;
+    }
+
+    const [first, ...data] = rows;
+    const names = first.map(cell => cell.trim());
+
+    if (names.some(name => name === '' || getCellType(name) !== 'string') || new Set(names).size !== names.length) {
+        return false;
+    }
+
+    const types = getColumnTypes(data, names.length);
+    if (types.some(type => type !== 'string' && type !== 'empty')) {
+        return true;
+    }
+
+    return names.every((name, column) => !data.some(row => row[column]?.trim() === name));
+}
+
+function getColumnTypes(rows: string[][], columns: number): CsvColumnType[] {
+    const types: CsvColumnType[] = [];
+
+    for (let column = 0; column < columns; column++) {
+        let type: CsvColumnType = 'empty';
+
+        for (const row of rows) {
+            const cellType = getCellType((row[column] ?? '').trim());
+            if (cellType === 'empty' || cellType === type) {
+                continue;
+            }
+
+            if (type === 'empty') {
+                type = cellType;
+            } else if ((type === 'integer' && cellType === 'number') || (type === 'number' && cellType === 'integer')) {
+                type = 'number';
+            } else {
+                type = 'string';
+                break;
+            }
+        }
+
+        types.push(type);
+    }
+
+    return types;
+}
+
+function getCellType(value: string): CsvColumnType {
+    if (value === '') {
+        return 'empty';
+    }
+    if (INTEGER_PATTERN.test(value)) {
+        return 'integer';
+    }
+    if (NUMBER_PATTERN.test(value)) {
+        return 'number';
+    }
+    if (BOOLEAN_PATTERN.test(value)) {
+        return 'boolean';
+    }
+    if (DATE_PATTERN.test(value)) {
+        return 'date';
+    }
+    return 'string';
+}
+
+function mostCommon(values: number[]): number {
+    const counts = new Map<number, number>();
+    let best = 0;
+    let bestCount = 0;
+
+    for (const value of values) {
+        const count = (counts.get(value) || 0) + 1;
+        counts.set(value, count);
+        if (count > bestCount) {
+            best = value;
+            bestCount = count;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Check JSON syntax incrementally, tracking the top-level value's type and size
+ */
+function createJsonValidator(): JsonValidator {
+    const stack: Array<'{' | '['> = [];
+    let mode: JsonMode = 'value';
+    let rootType: JsonValueType | undefined;
+    let itemCount = 0;
+    let inKey = false;
+    let escape = 0; // 1 after a backslash, 2-5 while reading \uXXXX digits
+    let token = '';
+
+    // A value just ended; members of the top-level container are counted
+    const endValue = () => {
+        if (stack.length === 1) {
+            itemCount++;
+        }
+        mode = stack.length === 0 ? 'done' : 'afterValue';
+    };
+
+    const beginValue = (char: string) => {
+        const type: JsonValueType | undefined =
+            char === '{' ? 'object' :
+            char === '[' ? 'array' :
+            char === '"' ? 'string' :
+            char === '-' || (char >= '0' && char <= '9') ? 'number' :
+            char === 't' || char === 'f' ? 'boolean' :
+            char === 'n' ? 'null' : undefined;
+
+        if (!type) {
+            mode = 'invalid';
+            return;
+        }
+        if (!rootType) {
+            rootType = type;
+        }
+
+        if (type === 'object') {
+            stack.push('{');
+            mode = 'firstKey';
+        } else if (type === 'array') {
+            stack.push('[');
+            mode = 'firstValue';
+        } else if (type === 'string') {
+            inKey = false;
+            mode = 'string';
+        } else {
+            token = char;
+            mode = type === 'number' ? 'number' : 'literal';
+        }
+    };
+
+    const closeContainer = () => {
+        stack.pop();
+        endValue();
+    };
+
+    const finishToken = (): boolean => {
+        const valid = mode === 'number' ? JSON_NUMBER_PATTERN.test(token) :
+            token === 'true' || token === 'false' || token === 'null';
+        token = '';
+        if (valid) {
+            endValue();
+        } else {
+            mode = 'invalid';
+        }
+        return valid;
+    };
+
+    const readStructural = (char: string) => {
+        const top = stack[stack.length - 1];
+
+        switch (mode) {
+            case 'value':
+                beginValue(char);
+                break;
+            case 'firstValue':
+                if (char === ']') {
+                    closeContainer();
+                } else {
+                    beginValue(char);
+                }
+                break;
+            case 'firstKey':
+            case 'key':
+                if (char === '"') {
+                    inKey = true;
+                    mode = 'string';
+                } else if (char === '}' && mode === 'firstKey') {
+                    closeContainer();
+                } else {
+                    mode = 'invalid';
+                }
+                break;
+            case 'colon':
+                mode = char === ':' ? 'value' : 'invalid';
+                break;
+            case 'afterValue':
+                if (char === ',') {
+                    mode = top === '{' ? 'key' : 'value';
+                } else if ((char === '}' && top === '{') || (char === ']' && top === '[')) {
+                    closeContainer();
+                } else {
+                    mode = 'invalid';
+                }
+                break;
+            default:
+                // Anything after the top-level value
+                mode = 'invalid';
+        }
+    };
+
+    return {
+        write(text: string): void {
+            for (let index = 0; index < text.length && mode !== 'invalid'; index++) {
+                const char = text[index];
+
+                if (mode === 'string') {
+                    if (escape === 1) {
+                        escape = '"\\/bfnrt'.includes(char) ? 0 : char === 'u' ? 2 : -1;
+                    } else if (escape >= 2) {
+                        escape = !/[0-9a-fA-F]/.test(char) ? -1 : escape === 5 ? 0 : escape + 1;
+                    } else if (char === '\\') {
+                        escape = 1;
+                    } else if (char === '"') {
+                        if (inKey) {
+                            mode = 'colon';
+                        } else {
+                            endValue();
+                        }
+                    } else if (char < ' ') {
+                        escape = -1;
+                    }
+
+                    if (escape === -1) {
+                        mode = 'invalid';
+                    }
+                    continue;
+                }
+
+                if (mode === 'number' || mode === 'literal') {
+                    if (/[\w.+-]/.test(char)) {
+                        token += char;
+                        if (token.length > MAX_JSON_TOKEN_LENGTH) {
+                            mode = 'invalid';
+                        }
+                        continue;
+                    }
+                    if (!finishToken()) {
+                        continue;
+                    }
+                }
+
+                if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
+                    continue;
+                }
+
+                readStructural(char);
+            }
+        },
+
+        end() {
+            if (mode === 'number' || mode === 'literal') {
+                finishToken();
+            }
+
+            if (mode !== 'done') {
+                return { valid: false };
+            }
+
+            return {
+                valid: true,
+                type: rootType,
+                itemCount: rootType === 'object' || rootType === 'array' ? itemCount : undefined
+            };
+        }
+    };
+}
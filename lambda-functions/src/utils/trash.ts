@@ -0,0 +1,16 @@
+import { TRASH_RETENTION } from '../types';
+
+/**
+ * Days a deleted file stays restorable, from TRASH_RETENTION_DAYS or the default
+ */
+export function getTrashRetentionDays(): number {
+    const configured = Number(process.env.TRASH_RETENTION_DAYS);
+    return Number.isFinite(configured) && configured > 0 ? configured : TRASH_RETENTION.DEFAULT_DAYS;
+}
+
+/**
+ * When a file deleted at the given time becomes eligible for purging
+ */
+export function getPurgeAfter(deletedAt: string, retentionDays: number = getTrashRetentionDays()): string {
+    return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
@@ -0,0 +1,154 @@
+import { StatusCodes } from 'http-status-codes';
+import { normalizeContentType } from './file-signature';
+import {
+  UploadPolicy,
+  UploadPolicyDecision,
+  SUPPORTED_FILE_TYPES,
+  DENIED_FILE_TYPES,
+  MULTIPART_UPLOAD_LIMITS
+} from '../types';
+
+/**
+ * Policy used when no UPLOAD_POLICY override is configured
+ */
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+    allowed_mime_types: Object.values(SUPPORTED_FILE_TYPES).flat(),
+    denied_mime_types: [...DENIED_FILE_TYPES.MIME_TYPES],
+    allowed_extensions: [],
+    denied_extensions: [...DENIED_FILE_TYPES.EXTENSIONS],
+    max_file_size: MULTIPART_UPLOAD_LIMITS.MAX_FILE_SIZE,
+    size_limits: {},
+};
+
+/**
+ * Details of a file checked against the policy
+ */
+export interface UploadCandidate {
+    fileName: string;
+    fileSize: number;
+    declaredContentType: string;
+    detectedContentType?: string;
+}
+
+let cachedPolicy: UploadPolicy | null = null;
+
+/**
+ * Load the upload policy, merging the UPLOAD_POLICY environment variable (JSON) over the defaults
+ */
+export function loadUploadPolicy(): UploadPolicy {
+    if (cachedPolicy) {
+        return cachedPolicy;
+    }
+
+    const raw = process.env.UPLOAD_POLICY;
+    let overrides: Partial<UploadPolicy> = {};
+
+    if (raw && raw.trim() !== '') {
+        try {
+            overrides = JSON.parse(raw);
+        } catch {
+            throw new Error('UPLOAD_POLICY environment variable is not valid JSON');
+        }
+    }
+
+    const policy: UploadPolicy = { ...DEFAULT_UPLOAD_POLICY, ...overrides };
+
+    cachedPolicy = {
+        allowed_mime_types: policy.allowed_mime_types.map(normalizeMimePattern),
+        denied_mime_types: policy.denied_mime_types.map(normalizeMimePattern),
+        allowed_extensions: policy.allowed_extensions.map(normalizeExtension),
+        denied_extensions: policy.denied_extensions.map(normalizeExtension),
+        max_file_size: policy.max_file_size,
+        size_limits: Object.fromEntries(
+            Object.entries(policy.size_limits).map(([pattern, limit]) => [normalizeMimePattern(pattern), limit])
+        ),
+    };
+
+    return cachedPolicy;
+}
+
+/**
+ * Check a file against the policy
+ *
+ * The detected content type is trusted over the declared one when both are known;
+ * deny rules match either of them so a renamed executable is still caught.
+ */
+export function evaluateUploadPolicy(policy: UploadPolicy, candidate: UploadCandidate): UploadPolicyDecision {
+    const extension = getExtension(candidate.fileName);
+    const declared = normalizeContentType(candidate.declaredContentType);
+    const detected = candidate.detectedContentType ? normalizeContentType(candidate.detectedContentType) : undefined;
+    const effectiveType = detected || declared || 'application/octet-stream';
+
+    if (extension && policy.denied_extensions.includes(extension)) {
+        return reject(`Files with extension .${extension} are not allowed`);
+    }
+
+    for (const type of [declared, detected]) {
+        if (type && matchesAny(type, policy.denied_mime_types)) {
+            return reject(`Content type ${type} is not allowed`);
+        }
+    }
+
+    if (policy.allowed_mime_types.length > 0 && !matchesAny(effectiveType, policy.allowed_mime_types)) {
+        return reject(`Content type ${effectiveType} is not in the list of allowed types`);
+    }
+
+    if (policy.allowed_extensions.length > 0 && !policy.allowed_extensions.includes(extension)) {
+        return reject(extension ?
+            `Files with extension .${extension} are not allowed` :
+            'Files without an extension are not allowed');
+    }
+
+    const maxSize = getMaxFileSize(policy, effectiveType);
+    if (candidate.fileSize > maxSize) {
+        return {
+            allowed: false,
+            status_code: StatusCodes.REQUEST_TOO_LONG,
+            reason: `Maximum size for ${effectiveType} files is ${maxSize} bytes`,
+            max_size: maxSize
+        };
+    }
+
+    return { allowed: true, max_size: maxSize };
+}
+
+/**
+ * Size cap for a content type: exact match, then `type/*`, then the global maximum
+ */
+export function getMaxFileSize(policy: UploadPolicy, contentType: string): number {
+    const normalized = normalizeContentType(contentType);
+    const wildcard = `${normalized.split('/')[0]}/*`;
+
+    const limit = policy.size_limits[normalized] ?? policy.size_limits[wildcard];
+    return limit !== undefined ? Math.min(limit, policy.max_file_size) : policy.max_file_size;
+}
+
+function reject(reason: string): UploadPolicyDecision {
+    return {
+        allowed: false,
+        status_code: StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+        reason
+    };
+}
+
+function matchesAny(contentType: string, patterns: string[]): boolean {
+    const mediaType = contentType.split('/')[0];
+    return patterns.some(pattern =>
+        pattern === '*/*' ||
+        pattern === contentType ||
+        (pattern.endsWith('/*') && pattern.slice(0, -2) === mediaType)
+    );
+}
+
+function normalizeMimePattern(pattern: string): string {
+    return pattern.endsWith('/*') ? pattern.trim().toLowerCase() : normalizeContentType(pattern);
+}
+
+function normalizeExtension(extension: string): string {
+    return extension.trim().toLowerCase().replace(/^\./, '');
+}
+
+function getExtension(fileName: string): string {
+    const lastDot = fileName.lastIndexOf('.');
+    return lastDot > 0 ? fileName.slice(lastDot + 1).toLowerCase() : '';
+}
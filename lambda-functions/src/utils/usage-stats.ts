@@ -0,0 +1,145 @@
+import { DynamoDBDocumentClient, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from './logger';
+import { UsageBucket, UsageCounter, UsageRecord } from '../types';
+
+export const USAGE_DIMENSIONS = {
+    STATUS: 'status',
+    FILE_TYPE: 'file_type',
+    CATEGORY: 'category',
+    SIZE_CATEGORY: 'size_category',
+    UPLOAD_DAY: 'upload_day',
+    UPLOAD_MONTH: 'upload_month',
+} as const;
+
+interface CounterDelta {
+    dimension: string;
+    value: string;
+    count: number;
+    bytes: number;
+}
+
+/**
+ * Move a file's contribution from the counters of its old state to those of its new one
+ *
+ * Pass no `before` for a new record and no `after` for a removed one. Counters are
+ * best effort: a failure is logged and never fails the caller.
+ */
+export async function recordUsageChange(
+    docClient: DynamoDBDocumentClient,
+    before: UsageRecord | undefined,
+    after: UsageRecord | undefined,
+    logger: Logger
+): Promise<void> {
+    const deltas = new Map<string, CounterDelta>();
+
+    const apply = (record: UsageRecord, sign: number) => {
+        for (const [dimension, value] of getCounterBuckets(record)) {
+            const key = `${dimension}#${value}`;
+            const delta = deltas.get(key) || { dimension, value, count: 0, bytes: 0 };
+            delta.count += sign;
+            delta.bytes += sign * (record.file_size || 0);
+            deltas.set(key, delta);
+        }
+    };
+
+    if (before) {
+        apply(before, -1);
+    }
+    if (after) {
+        apply(after, 1);
+    }
+
+    const changed = [...deltas.values()].filter(delta => delta.count !== 0 || delta.bytes !== 0);
+    if (changed.length === 0) {
+        return;
+    }
+
+    const updatedAt = new Date().toISOString();
+
+    try {
+        // One transaction so a file is never half-moved between buckets
+        await docClient.send(new TransactWriteCommand({
+            TransactItems: changed.map(delta => ({
+                Update: {
+                    TableName: process.env.USAGE_STATS_TABLE_NAME!,
+                    Key: {
+                        dimension: delta.dimension,
+                        value: delta.value
+                    },
+                    UpdateExpression: 'ADD file_count :count, total_bytes :bytes SET updated_at = :updated_at',
+                    ExpressionAttributeValues: {
+                        ':count': delta.count,
+                        ':bytes': delta.bytes,
+                        ':updated_at': updatedAt
+                    }
+                }
+            }))
+        }));
+    } catch (error) {
+        logger.error('Failed to update usage counters', error as Error, { changes: changed });
+    }
+}
+
+/**
+ * Read the non-empty buckets of one dimension, optionally from a value onwards
+ */
+export async function readUsageBuckets(
+    docClient: DynamoDBDocumentClient,
+    dimension: string,
+    fromValue?: string
+): Promise<UsageBucket[]> {
+    const buckets: UsageBucket[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const result = await docClient.send(new QueryCommand({
+            TableName: process.env.USAGE_STATS_TABLE_NAME!,
+            KeyConditionExpression: fromValue ? '#dimension = :dimension AND #value >= :from' : '#dimension = :dimension',
+            ExpressionAttributeNames: {
+                '#dimension': 'dimension',
+                ...(fromValue ? { '#value': 'value' } : {})
+            },
+            ExpressionAttributeValues: {
+                ':dimension': dimension,
+                ...(fromValue ? { ':from': fromValue } : {})
+            },
+            ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        for (const item of (result.Items || []) as UsageCounter[]) {
+            // Buckets that emptied out stay behind at zero
+            if (item.file_count > 0) {
+                buckets.push({ value: item.value, file_count: item.file_count, total_bytes: item.total_bytes });
+            }
+        }
+
+        exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return buckets;
+}
+
+/**
+ * The (dimension, value) buckets a record is counted in
+ */
+function getCounterBuckets(record: UsageRecord): Array<[string, string]> {
+    const buckets: Array<[string, string]> = [[USAGE_DIMENSIONS.STATUS, record.status]];
+
+    // Unprocessed files have no extracted type yet
+    if (record.extracted_file_type) {
+        buckets.push([USAGE_DIMENSIONS.FILE_TYPE, record.extracted_file_type]);
+    }
+    if (record.extracted_category) {
+        buckets.push([USAGE_DIMENSIONS.CATEGORY, record.extracted_category]);
+    }
+    if (record.extracted_size_category) {
+        buckets.push([USAGE_DIMENSIONS.SIZE_CATEGORY, record.extracted_size_category]);
+    }
+
+    if (record.upload_date) {
+        buckets.push([USAGE_DIMENSIONS.UPLOAD_DAY, record.upload_date.slice(0, 10)]);
+        buckets.push([USAGE_DIMENSIONS.UPLOAD_MONTH, record.upload_date.slice(0, 7)]);
+    }
+
+    return buckets;
+}
@@ -0,0 +1,136 @@
+import { ValidationResult } from '../types';
+
+/**
+ * Maximum number of client metadata fields per file
+ */
+export const MAX_METADATA_FIELDS = 50;
+
+/**
+ * Validates metadata object to ensure all values are strings, numbers, or booleans
+ */
+export function validateMetadata(metadata: Record<string, string | number | boolean>): ValidationResult {
+    const errors: string[] = [];
+    const cleanedMetadata: Record<string, string | number | boolean> = {};
+
+    // Check if metadata is an object
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+        return {
+            isValid: true, // Empty metadata is valid
+            errors: [],
+            cleanedMetadata: {}
+        };
+    }
+
+    // Validate each field
+    for (const [key, value] of Object.entries(metadata)) {
+        // Check key format
+        if (typeof key !== 'string' || key.trim() === '') {
+            errors.push(`Invalid key: "${key}" - keys must be non-empty strings`);
+            continue;
+        }
+
+        // Sanitize key (remove special characters except underscore, convert to lowercase)
+        const sanitizedKey = sanitizeMetadataKey(key);
+
+        // Check value type
+        if (typeof value === 'string') {
+            const trimmedValue = value.trim();
+            if (trimmedValue === '') {
+                errors.push(`Empty string value for key: "${key}"`);
+                continue;
+            }
+            cleanedMetadata[sanitizedKey] = trimmedValue;
+        } else if (typeof value === 'number') {
+            if (!isFinite(value)) {
+                errors.push(`Invalid number value for key: "${key}" - must be a finite number`);
+                continue;
+            }
+            cleanedMetadata[sanitizedKey] = value;
+        } else if (typeof value === 'boolean') {
+            cleanedMetadata[sanitizedKey] = value;
+        } else {
+            errors.push(`Invalid value type for key: "${key}" - must be string, number, or boolean`);
+        }
+    }
+
+    // Check for too many fields
+    if (Object.keys(metadata).length > MAX_METADATA_FIELDS) {
+        errors.push(`Too many metadata fields - maximum ${MAX_METADATA_FIELDS} allowed`);
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors: errors,
+        cleanedMetadata: cleanedMetadata
+    };
+}
+
+/**
+ * Normalize a client metadata key to the stored form
+ */
+export function sanitizeMetadataKey(key: string): string {
+    return key.replace(/[^a-zA-Z0-9_]/g, '_').toLowerCase();
+}
+
+/**
+ * Validate a client-supplied file name
+ */
+export function validateFileName(fileName: unknown): string[] {
+    if (typeof fileName !== 'string' || fileName.trim() === '') {
+        return ['file_name must be a non-empty string'];
+    }
+    if (fileName.length > 255) {
+        return ['file_name must be at most 255 characters'];
+    }
+    if (/[\/\\\x00-\x1f]/.test(fileName)) {
+        return ['file_name must not contain path separators or control characters'];
+    }
+    return [];
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7386) to stored client metadata
+ *
+ * `null` removes a field, `null` for the whole patch clears everything; other values
+ * follow the same rules as metadata supplied at upload time.
+ */
+export function mergeClientMetadata(
+    current: Record<string, string | number | boolean>,
+    patch: unknown
+): { errors: string[]; merged: Record<string, string | number | boolean> } {
+    if (patch === null) {
+        return { errors: [], merged: {} };
+    }
+
+    if (typeof patch !== 'object' || Array.isArray(patch)) {
+        return { errors: ['client_metadata must be an object or null'], merged: current };
+    }
+
+    const removals: string[] = [];
+    const updates: Record<string, string | number | boolean> = {};
+
+    for (const [key, value] of Object.entries(patch as Record<string, unknown>)) {
+        if (value === null) {
+            removals.push(sanitizeMetadataKey(key));
+        } else {
+            updates[key] = value as string | number | boolean;
+        }
+    }
+
+    const validation = validateMetadata(updates);
+    if (!validation.isValid) {
+        return { errors: validation.errors, merged: current };
+    }
+
+    const merged = { ...current };
+    for (const key of removals) {
+        delete merged[key];
+    }
+    Object.assign(merged, validation.cleanedMetadata);
+
+    if (Object.keys(merged).length > MAX_METADATA_FIELDS) {
+        return { errors: [`Too many metadata fields - maximum ${MAX_METADATA_FIELDS} allowed`], merged: current };
+    }
+
+    return { errors: [], merged };
+}
@@ -0,0 +1,46 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { FileMetadata } from '../types';
+
+/**
+ * Current edit version of a record; records written before versioning count as 1
+ */
+export function getRecordVersion(record: FileMetadata): number {
+    return record.version ?? 1;
+}
+
+/**
+ * Strong ETag for a record version
+ */
+export function formatVersionETag(version: number): string {
+    return `"${version}"`;
+}
+
+/**
+ * Read the version out of an If-Match header, or undefined if it isn't one of ours
+ *
+ * Accepts a quoted or bare version number; weak validators are ignored since
+ * If-Match requires a strong comparison.
+ */
+export function parseIfMatchVersion(header: string): number | undefined {
+    const match = /^\s*"?(\d+)"?\s*$/.exec(header);
+    if (!match) {
+        return undefined;
+    }
+
+    const version = Number(match[1]);
+    return Number.isSafeInteger(version) && version > 0 ? version : undefined;
+}
+
+/**
+ * Attach the record version to a response as an ETag browsers are allowed to read
+ */
+export function withVersionETag(response: APIGatewayProxyResult, version: number): APIGatewayProxyResult {
+    return {
+        ...response,
+        headers: {
+            ...response.headers,
+            'ETag': formatVersionETag(version),
+            'Access-Control-Expose-Headers': 'ETag'
+        }
+    };
+}
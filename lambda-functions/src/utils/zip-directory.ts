@@ -0,0 +1,311 @@
+import { TextDecoder } from 'util';
+import { inflateRawSync } from 'zlib';
+import { ObjectReader } from './range-reader';
+import { ARCHIVE_LIMITS } from '../types';
+
+/**
+ * One file or directory as recorded in a ZIP central directory
+ */
+export interface ZipDirectoryEntry {
+    path: string;
+    method: number;
+    size: number;
+    compressedSize: number;
+    // Already corrected for any stub prepended to the archive
+    localOffset: number;
+    nameLength: number;
+    modified?: Date;
+    isDirectory: boolean;
+    isSymlink: boolean;
+}
+
+/**
+ * One entry as recorded in the local file headers at the start of a ZIP
+ */
+export interface ZipLocalEntry {
+    path: string;
+    // Set when the entry is stored uncompressed; cut short if the buffer ends first
+    storedData?: Buffer;
+}
+
+export interface ZipDirectory {
+    entries: ZipDirectoryEntry[];
+    // Fewer entries were read than the end of central directory record announces
+    truncated: boolean;
+}
+
+const ZIP_SIGNATURES = {
+    LOCAL_HEADER: 0x04034b50,
+    CENTRAL_HEADER: 0x02014b50,
+    END_OF_DIRECTORY: 0x06054b50,
+    ZIP64_END_OF_DIRECTORY: 0x06064b50,
+    ZIP64_LOCATOR: 0x07064b50,
+} as const;
+
+const ZIP_METHODS = {
+    STORED: 0,
+    DEFLATED: 8,
+} as const;
+
+// End of central directory record plus the longest comment it can carry
+const EOCD_SEARCH_BYTES = 22 + 0xffff;
+const CENTRAL_HEADER_BYTES = 46;
+export const LOCAL_HEADER_BYTES = 30;
+
+const ZIP_EXTRA_ZIP64 = 0x0001;
+const ZIP_EXTRA_TIMESTAMP = 0x5455;
+const ZIP_FLAG_UTF8 = 0x0800;
+const ZIP_FLAG_DATA_DESCRIPTOR = 0x0008;
+
+// Unix file type bits kept in the high half of a ZIP entry's external attributes
+const UNIX_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Read a ZIP file's central directory
+ *
+ * Only the end of the file and the directory itself are fetched. Returns undefined
+ * when no end of central directory record is found.
+ */
+export async function readZipDirectory(reader: ObjectReader): Promise<ZipDirectory | undefined> {
+    const fileSize = reader.size;
+    const tailLength = Math.min(fileSize, EOCD_SEARCH_BYTES);
+    const tail = await reader.read(fileSize - tailLength, tailLength);
+
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+        if (tail.readUInt32LE(i) === ZIP_SIGNATURES.END_OF_DIRECTORY) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) {
+        return undefined;
+    }
+    const eocdOffset = fileSize - tailLength + eocd;
+
+    let totalEntries = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    // Values that overflow the classic record live in the ZIP64 one, found through its locator
+    if (totalEntries === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+        const locator = await reader.read(eocdOffset - 20, 20);
+        if (locator.length === 20 && locator.readUInt32LE(0) === ZIP_SIGNATURES.ZIP64_LOCATOR) {
+            const record = await reader.read(Number(locator.readBigUInt64LE(8)), 56);
+            if (record.length === 56 && record.readUInt32LE(0) === ZIP_SIGNATURES.ZIP64_END_OF_DIRECTORY) {
+                totalEntries = Number(record.readBigUInt64LE(32));
+                directorySize = Number(record.readBigUInt64LE(40));
+                directoryOffset = Number(record.readBigUInt64LE(48));
+            }
+        }
+    }
+
+    // Self-extracting archives have a stub in front, which shifts every recorded offset
+    const shift = await findDirectoryShift(reader, directoryOffset, directorySize, eocdOffset);
+
+    const truncatedDirectory = directorySize > ARCHIVE_LIMITS.MAX_DIRECTORY_BYTES;
+    const directory = await reader.read(directoryOffset + shift, Math.min(directorySize, ARCHIVE_LIMITS.MAX_DIRECTORY_BYTES));
+
+    const entries: ZipDirectoryEntry[] = [];
+    let position = 0;
+
+    while (position + CENTRAL_HEADER_BYTES <= directory.length &&
+        directory.readUInt32LE(position) === ZIP_SIGNATURES.CENTRAL_HEADER) {
+        const flags = directory.readUInt16LE(position + 8);
+        const method = directory.readUInt16LE(position + 10);
+        const dosTime = directory.readUInt16LE(position + 12);
+        const dosDate = directory.readUInt16LE(position + 14);
+        let compressedSize = directory.readUInt32LE(position + 20);
+        let size = directory.readUInt32LE(position + 24);
+        const nameLength = directory.readUInt16LE(position + 28);
+        const extraLength = directory.readUInt16LE(position + 30);
+        const commentLength = directory.readUInt16LE(position + 32);
+        const externalAttributes = directory.readUInt32LE(position + 38);
+        let localOffset = directory.readUInt32LE(position + 42);
+
+        const nameStart = position + CENTRAL_HEADER_BYTES;
+        const extraStart = nameStart + nameLength;
+        const next = extraStart + extraLength + commentLength;
+        if (next > directory.length) {
+            break;
+        }
+
+        const path = decodeZipName(directory.subarray(nameStart, extraStart), (flags & ZIP_FLAG_UTF8) !== 0);
+        let modified: Date | undefined = parseDosDateTime(dosDate, dosTime);
+
+        forEachExtraField(directory.subarray(extraStart, extraStart + extraLength), (id, data) => {
+            if (id === ZIP_EXTRA_ZIP64) {
+                // Only the fields saturated in the fixed header are present, in this order
+                let offset = 0;
+                if (size === 0xffffffff && offset + 8 <= data.length) {
+                    size = Number(data.readBigUInt64LE(offset));
+                    offset += 8;
+                }
+                if (compressedSize === 0xffffffff && offset + 8 <= data.length) {
+                    compressedSize = Number(data.readBigUInt64LE(offset));
+                    offset += 8;
+                }
+                if (localOffset === 0xffffffff && offset + 8 <= data.length) {
+                    localOffset = Number(data.readBigUInt64LE(offset));
+                }
+            } else if (id === ZIP_EXTRA_TIMESTAMP && data.length >= 5 && (data[0] & 0x01)) {
+                modified = new Date(data.readUInt32LE(1) * 1000);
+            }
+        });
+
+        entries.push({
+            path,
+            method,
+            size,
+            compressedSize,
+            localOffset: localOffset + shift,
+            nameLength,
+            modified: modified && !isNaN(modified.getTime()) ? modified : undefined,
+            isDirectory: path.endsWith('/') || path.endsWith('\\'),
+            isSymlink: ((externalAttributes >>> 16) & UNIX_TYPE_MASK) === UNIX_SYMLINK
+        });
+        position = next;
+    }
+
+    return {
+        entries,
+        truncated: truncatedDirectory || entries.length < totalEntries
+    };
+}
+
+/**
+ * Read one entry's content, inflating it when deflated
+ *
+ * Returns undefined for entries larger than maxBytes, other compression methods
+ * and data that fails to inflate.
+ */
+export async function readZipEntry(reader: ObjectReader, entry: ZipDirectoryEntry, maxBytes: number): Promise<Buffer | undefined> {
+    if (entry.size > maxBytes || entry.compressedSize > maxBytes) {
+        return undefined;
+    }
+
+    const header = await reader.read(entry.localOffset, LOCAL_HEADER_BYTES);
+    if (header.length < LOCAL_HEADER_BYTES || header.readUInt32LE(0) !== ZIP_SIGNATURES.LOCAL_HEADER) {
+        return undefined;
+    }
+
+    // The local name and extra field can differ from the directory's copy, so their lengths come from here
+    const dataOffset = entry.localOffset + LOCAL_HEADER_BYTES + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await reader.read(dataOffset, entry.compressedSize);
+
+    if (entry.method === ZIP_METHODS.STORED) {
+        return data;
+    }
+    if (entry.method === ZIP_METHODS.DEFLATED) {
+        try {
+            return inflateRawSync(data, { maxOutputLength: maxBytes });
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Walk the local file headers at the start of a ZIP, as far as the buffer reaches
+ *
+ * Used to sniff a format from its first entries without the central directory. Stops
+ * at an entry whose sizes are only written after its data, as the next header can't
+ * be located then.
+ */
+export function readLocalEntries(buffer: Buffer): ZipLocalEntry[] {
+    const entries: ZipLocalEntry[] = [];
+    let offset = 0;
+
+    while (offset + LOCAL_HEADER_BYTES <= buffer.length && buffer.readUInt32LE(offset) === ZIP_SIGNATURES.LOCAL_HEADER) {
+        const flags = buffer.readUInt16LE(offset + 6);
+        const method = buffer.readUInt16LE(offset + 8);
+        const compressedSize = buffer.readUInt32LE(offset + 18);
+        const nameStart = offset + LOCAL_HEADER_BYTES;
+        const nameEnd = nameStart + buffer.readUInt16LE(offset + 26);
+        const dataStart = nameEnd + buffer.readUInt16LE(offset + 28);
+        if (nameEnd > buffer.length) {
+            break;
+        }
+
+        entries.push({
+            path: decodeZipName(buffer.subarray(nameStart, nameEnd), (flags & ZIP_FLAG_UTF8) !== 0),
+            ...(method === ZIP_METHODS.STORED ? { storedData: buffer.subarray(dataStart, dataStart + compressedSize) } : {})
+        });
+
+        if (flags & ZIP_FLAG_DATA_DESCRIPTOR) {
+            break;
+        }
+        offset = dataStart + compressedSize;
+    }
+
+    return entries;
+}
+
+/**
+ * Names are UTF-8 when flagged; unflagged names are often UTF-8 anyway, else a legacy code page
+ */
+export function decodeZipName(bytes: Buffer, utf8: boolean): string {
+    if (utf8) {
+        return bytes.toString('utf8');
+    }
+    try {
+        return utf8Decoder.decode(bytes);
+    } catch {
+        return bytes.toString('latin1');
+    }
+}
+
+/**
+ * Offset to add to recorded positions, non-zero when data was prepended to the archive
+ */
+async function findDirectoryShift(reader: ObjectReader, directoryOffset: number, directorySize: number, eocdOffset: number): Promise<number> {
+    const recorded = await reader.read(directoryOffset, 4);
+    if (recorded.length === 4 && recorded.readUInt32LE(0) === ZIP_SIGNATURES.CENTRAL_HEADER) {
+        return 0;
+    }
+
+    const actualOffset = eocdOffset - directorySize;
+    const actual = await reader.read(actualOffset, 4);
+    if (actualOffset > directoryOffset && actual.length === 4 && actual.readUInt32LE(0) === ZIP_SIGNATURES.CENTRAL_HEADER) {
+        return actualOffset - directoryOffset;
+    }
+
+    return 0;
+}
+
+function forEachExtraField(extra: Buffer, visit: (id: number, data: Buffer) => void): void {
+    let position = 0;
+    while (position + 4 <= extra.length) {
+        const id = extra.readUInt16LE(position);
+        const length = extra.readUInt16LE(position + 2);
+        if (position + 4 + length > extra.length) {
+            return;
+        }
+        visit(id, extra.subarray(position + 4, position + 4 + length));
+        position += 4 + length;
+    }
+}
+
+/**
+ * DOS timestamps carry no time zone, so they are read as UTC
+ */
+function parseDosDateTime(date: number, time: number): Date | undefined {
+    const month = (date >> 5) & 0x0f;
+    const day = date & 0x1f;
+    if (month < 1 || month > 12 || day < 1) {
+        return undefined;
+    }
+
+    return new Date(Date.UTC(
+        ((date >> 9) & 0x7f) + 1980,
+        month - 1,
+        day,
+        time >> 11,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+    ));
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Layout,
   Table,
@@ -7,12 +7,13 @@ import {
   Space,
   message,
   Tag,
-  Statistic,
   Card,
-  Row,
-  Col,
   Tooltip,
   Input,
+  Popconfirm,
+  Radio,
+  Select,
+  Spin,
 } from 'antd';
 import {
   PlusOutlined,
@@ -20,16 +21,22 @@ import {
   ReloadOutlined,
   FileOutlined,
   SearchOutlined,
+  DeleteOutlined,
+  UndoOutlined,
 } from '@ant-design/icons';
-import type { ColumnsType } from 'antd/es/table';
-import { fileApi, FileListItem } from './services/api';
+import type { ColumnsType, TableProps } from 'antd/es/table';
+import type { SortOrder } from 'antd/es/table/interface';
+import { fileApi, FileListItem, ListFilesQuery, SearchResultItem, UsageStatsResponse } from './services/api';
 import FileUploadModal from './components/FileUploadModal';
 import FileDetailsModal from './components/FileDetailsModal';
+import UsageStatsPanel from './components/UsageStatsPanel';
 import 'antd/dist/reset.css';
 
 const { Header, Content } = Layout;
 const { Title, Text } = Typography;
 
+const FILE_TYPES = ['pdf', 'image', 'text', 'video', 'audio', 'document', 'archive', 'unknown'];
+
 const App: React.FC = () => {
   const [files, setFiles] = useState<FileListItem[]>([]);
   const [loading, setLoading] = useState(false);
@@ -38,32 +45,132 @@ const App: React.FC = () => {
   const [detailsModalVisible, setDetailsModalVisible] = useState(false);
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
   const [searchText, setSearchText] = useState('');
+  const [searchQuery, setSearchQuery] = useState<string | undefined>();
+  const [showTrash, setShowTrash] = useState(false);
+  const [listQuery, setListQuery] = useState<ListFilesQuery>({});
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [stats, setStats] = useState<UsageStatsResponse | null>(null);
+  const [statsLoading, setStatsLoading] = useState(false);
 
   useEffect(() => {
-    fetchFiles();
+    fetchStats();
   }, []);
 
-  const fetchFiles = async () => {
+  // The trash only holds deleted files, so a status filter doesn't apply there
+  const buildListQuery = useCallback((): ListFilesQuery => ({
+    ...listQuery,
+    status: showTrash ? undefined : listQuery.status,
+    deleted: showTrash,
+  }), [listQuery, showTrash]);
+
+  const fetchFiles = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fileApi.listFiles(100);
-      setFiles(response.files);
-      setTotalCount(response.total_count);
+      if (searchQuery) {
+        const response = await fileApi.search(searchQuery);
+        setFiles(response.results);
+        setTotalCount(response.total_count);
+        setNextCursor(response.next_cursor);
+      } else {
+        const response = await fileApi.listFiles(buildListQuery());
+        setFiles(response.files);
+        setTotalCount(response.files.length);
+        setNextCursor(response.next_cursor);
+      }
     } catch (error: any) {
       console.error('Error fetching files:', error);
-      message.error('Failed to load files');
+      message.error(error.response?.data?.details?.[0] || 'Failed to load files');
     } finally {
       setLoading(false);
     }
+  }, [searchQuery, buildListQuery]);
+
+  const fetchStats = async () => {
+    try {
+      setStatsLoading(true);
+      setStats(await fileApi.getStats());
+    } catch (error: any) {
+      console.error('Error fetching usage stats:', error);
+    } finally {
+      setStatsLoading(false);
+    }
+  };
+
+  // Uploads, deletes and restores change the usage counters as well as the list
+  const refresh = () => {
+    fetchFiles();
+    fetchStats();
   };
 
+  const loadMoreFiles = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) return;
+    try {
+      setLoadingMore(true);
+      if (searchQuery) {
+        const response = await fileApi.search(searchQuery, nextCursor);
+        setFiles(prev => [...prev, ...response.results]);
+        setNextCursor(response.next_cursor);
+      } else {
+        const response = await fileApi.listFiles(buildListQuery(), nextCursor);
+        setFiles(prev => [...prev, ...response.files]);
+        setTotalCount(prev => prev + response.files.length);
+        setNextCursor(response.next_cursor);
+      }
+    } catch (error: any) {
+      console.error('Error loading more files:', error);
+      message.error(error.response?.data?.details?.[0] || 'Failed to load more files');
+      setNextCursor(undefined);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loading, loadingMore, searchQuery, buildListQuery]);
+
+  useEffect(() => {
+    fetchFiles();
+  }, [fetchFiles]);
+
+  // Load the next page once the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMoreFiles();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreFiles]);
+
   const handleViewDetails = (fileId: string) => {
     setSelectedFileId(fileId);
     setDetailsModalVisible(true);
   };
 
+  const handleDelete = async (fileId: string) => {
+    try {
+      const result = await fileApi.deleteFile(fileId);
+      message.success(`Moved to trash. It will be removed permanently after ${formatDate(result.purge_after)}`);
+      refresh();
+    } catch (error: any) {
+      console.error('Error deleting file:', error);
+      message.error(error.response?.data?.error || 'Failed to delete file');
+    }
+  };
+
+  const handleRestore = async (fileId: string) => {
+    try {
+      await fileApi.restoreFile(fileId);
+      message.success('File restored');
+      refresh();
+    } catch (error: any) {
+      console.error('Error restoring file:', error);
+      message.error(error.response?.data?.error || 'Failed to restore file');
+    }
+  };
+
   const handleUploadSuccess = () => {
-    fetchFiles(); // Refresh the list after successful upload
+    refresh(); // Refresh the list and stats after successful upload
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -82,6 +189,7 @@ const App: React.FC = () => {
     switch (status) {
       case 'processed': return 'green';
       case 'uploaded': return 'blue';
+      case 'pending': return 'gold';
       case 'processing': return 'orange';
       case 'error': return 'red';
       default: return 'default';
@@ -98,17 +206,41 @@ const App: React.FC = () => {
     return '📁';
   };
 
-  // Filter files based on search text
-  const filteredFiles = files.filter(file =>
-    file.file_name.toLowerCase().includes(searchText.toLowerCase()) ||
-    file.file_id.toLowerCase().includes(searchText.toLowerCase())
-  );
+  // Sorting and the status filter run on the server so they cover every file, not just those loaded
+  const handleTableChange: TableProps<FileListItem>['onChange'] = (_pagination, filters, sorter) => {
+    const activeSorter = Array.isArray(sorter) ? sorter[0] : sorter;
+    setListQuery(prev => ({
+      ...prev,
+      status: filters.status?.[0] as string | undefined,
+      sort: activeSorter?.order ? activeSorter.columnKey as ListFilesQuery['sort'] : undefined,
+      order: activeSorter?.order ? (activeSorter.order === 'ascend' ? 'asc' : 'desc') : undefined,
+    }));
+  };
+
+  const getSortOrder = (field: string): SortOrder => {
+    if (searchQuery) return null;
+    if ((listQuery.sort || 'upload_date') !== field) return null;
+    return listQuery.order === 'asc' ? 'ascend' : 'descend';
+  };
+
+  // Search results come back ranked, so sorting and filters are off while searching
+  const handleSearch = (value: string) => {
+    setSearchQuery(value.trim() || undefined);
+  };
+
+  const handleViewChange = (trash: boolean) => {
+    setShowTrash(trash);
+    setSearchText('');
+    setSearchQuery(undefined);
+  };
 
   const columns: ColumnsType<FileListItem> = [
     {
       title: 'File',
       dataIndex: 'file_name',
       key: 'file_name',
+      sorter: !searchQuery,
+      sortOrder: getSortOrder('file_name'),
       render: (text: string, record: FileListItem) => (
         <Space>
           <span style={{ fontSize: '16px' }}>
@@ -128,43 +260,91 @@ const App: React.FC = () => {
       dataIndex: 'file_size',
       key: 'file_size',
       render: (size: number) => formatFileSize(size),
-      sorter: (a, b) => a.file_size - b.file_size,
+      sorter: !searchQuery,
+      sortOrder: getSortOrder('file_size'),
     },
     {
       title: 'Status',
       dataIndex: 'status',
       key: 'status',
-      render: (status: string) => (
-        <Tag color={getStatusColor(status)}>{status}</Tag>
+      render: (status: string, record: FileListItem) => (
+        <Tooltip title={record.processing_error && `${record.processing_error.code}: ${record.processing_error.message}`}>
+          <Tag color={getStatusColor(status)}>{status}</Tag>
+        </Tooltip>
       ),
-      filters: [
+      filters: showTrash || searchQuery ? undefined : [
         { text: 'Processed', value: 'processed' },
         { text: 'Uploaded', value: 'uploaded' },
+        { text: 'Pending', value: 'pending' },
         { text: 'Processing', value: 'processing' },
         { text: 'Error', value: 'error' },
       ],
-      onFilter: (value, record) => record.status === value,
+      filterMultiple: false,
+      filteredValue: listQuery.status ? [listQuery.status] : null,
     },
     {
       title: 'Upload Date',
       dataIndex: 'upload_date',
       key: 'upload_date',
       render: (date: string) => formatDate(date),
-      sorter: (a, b) => new Date(a.upload_date).getTime() - new Date(b.upload_date).getTime(),
-      defaultSortOrder: 'descend',
+      sorter: !searchQuery,
+      sortOrder: getSortOrder('upload_date'),
     },
+    ...(searchQuery ? [{
+      title: 'Matched In',
+      key: 'matched_fields',
+      render: (_: unknown, record: FileListItem) => (
+        <Space size={4} wrap>
+          {(record as SearchResultItem).matched_fields?.map(field => <Tag key={field}>{field}</Tag>)}
+        </Space>
+      ),
+    }] : []),
+    ...(showTrash ? [{
+      title: 'Deleted',
+      dataIndex: 'deleted_at',
+      key: 'deleted_at',
+      render: (date: string) => formatDate(date),
+    }] : []),
     {
       title: 'Actions',
       key: 'actions',
       render: (_, record: FileListItem) => (
-        <Button
-          type="primary"
-          size="small"
-          icon={<EyeOutlined />}
-          onClick={() => handleViewDetails(record.file_id)}
-        >
-          View Details
-        </Button>
+        <Space>
+          <Button
+            type="primary"
+            size="small"
+            icon={<EyeOutlined />}
+            onClick={() => handleViewDetails(record.file_id)}
+          >
+            View Details
+          </Button>
+          {showTrash ? (
+            <Button
+              size="small"
+              icon={<UndoOutlined />}
+              onClick={() => handleRestore(record.file_id)}
+            >
+              Restore
+            </Button>
+          ) : (
+            <Popconfirm
+              title="Move this file to the trash?"
+              okText="Delete"
+              okButtonProps={{ danger: true }}
+              onConfirm={() => handleDelete(record.file_id)}
+              disabled={record.status === 'pending'}
+            >
+              <Button
+                danger
+                size="small"
+                icon={<DeleteOutlined />}
+                disabled={record.status === 'pending'}
+              >
+                Delete
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
       ),
     },
   ];
@@ -190,7 +370,7 @@ const App: React.FC = () => {
             <Tooltip title="Refresh">
               <Button
                 icon={<ReloadOutlined />}
-                onClick={fetchFiles}
+                onClick={refresh}
                 loading={loading}
               />
             </Tooltip>
@@ -199,66 +379,68 @@ const App: React.FC = () => {
       </Header>
 
       <Content style={{ padding: '24px' }}>
-        <Row gutter={[16, 16]} style={{ marginBottom: 24 }}>
-          <Col span={8}>
-            <Card>
-              <Statistic
-                title="Total Files"
-                value={totalCount}
-                prefix={<FileOutlined />}
-                valueStyle={{ color: '#1890ff' }}
-              />
-            </Card>
-          </Col>
-          <Col span={8}>
-            <Card>
-              <Statistic
-                title="Processed Files"
-                value={files.filter(f => f.status === 'processed').length}
-                valueStyle={{ color: '#52c41a' }}
-              />
-            </Card>
-          </Col>
-          <Col span={8}>
-            <Card>
-              <Statistic
-                title="Total Size"
-                value={formatFileSize(files.reduce((sum, file) => sum + file.file_size, 0))}
-                valueStyle={{ color: '#722ed1' }}
-              />
-            </Card>
-          </Col>
-        </Row>
+        <UsageStatsPanel stats={stats} loading={statsLoading} />
 
         <Card>
           <div style={{ marginBottom: 16, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-            <Title level={4} style={{ margin: 0 }}>
-              Files ({filteredFiles.length})
-            </Title>
-            <Input
-              placeholder="Search files..."
-              prefix={<SearchOutlined />}
-              value={searchText}
-              onChange={(e) => setSearchText(e.target.value)}
-              style={{ width: 300 }}
-              allowClear
-            />
+            <Space>
+              <Title level={4} style={{ margin: 0 }}>
+                {searchQuery ? 'Search Results' : showTrash ? 'Trash' : 'Files'} ({searchQuery ? totalCount : files.length})
+              </Title>
+              <Radio.Group
+                value={showTrash ? 'trash' : 'files'}
+                onChange={(e) => handleViewChange(e.target.value === 'trash')}
+                optionType="button"
+                options={[
+                  { label: 'Files', value: 'files' },
+                  { label: 'Trash', value: 'trash' },
+                ]}
+              />
+            </Space>
+            <Space>
+              <Select
+                placeholder="File type"
+                value={listQuery.file_type}
+                onChange={(value) => setListQuery(prev => ({ ...prev, file_type: value }))}
+                options={FILE_TYPES.map(type => ({ label: type, value: type }))}
+                style={{ width: 140 }}
+                disabled={!!searchQuery}
+                allowClear
+              />
+              {!showTrash && (
+                <Tooltip title='Prefix with name:, text: or meta.<key>: to search one field; "quotes" match a phrase; end a word with * to match its prefix'>
+                  <Input.Search
+                    placeholder="Search names, metadata and text..."
+                    value={searchText}
+                    onChange={(e) => {
+                      setSearchText(e.target.value);
+                      if (!e.target.value) setSearchQuery(undefined);
+                    }}
+                    onSearch={handleSearch}
+                    enterButton={<SearchOutlined />}
+                    style={{ width: 340 }}
+                    allowClear
+                  />
+                </Tooltip>
+              )}
+            </Space>
           </div>
           
           <Table
             columns={columns}
-            dataSource={filteredFiles}
+            dataSource={files}
             rowKey="file_id"
             loading={loading}
-            pagination={{
-              pageSize: 10,
-              showSizeChanger: true,
-              showQuickJumper: true,
-              showTotal: (total, range) =>
-                `${range[0]}-${range[1]} of ${total} files`,
-            }}
+            onChange={handleTableChange}
+            pagination={false}
             scroll={{ x: 800 }}
           />
+          <div ref={loadMoreRef} style={{ textAlign: 'center', padding: 16 }}>
+            {loadingMore && <Spin />}
+            {!nextCursor && files.length > 0 && (
+              <Text type="secondary">{searchQuery ? 'No more results' : 'All files loaded'}</Text>
+            )}
+          </div>
         </Card>
       </Content>
 
@@ -275,6 +457,7 @@ const App: React.FC = () => {
           setDetailsModalVisible(false);
           setSelectedFileId(null);
         }}
+        onChange={fetchFiles}
       />
     </Layout>
   );
@@ -10,14 +10,29 @@ import {
   Card,
   Row,
   Col,
+  Button,
+  Tooltip,
 } from 'antd';
 import {
   FileOutlined,
   CalendarOutlined,
   DatabaseOutlined,
   TagOutlined,
+  CopyOutlined,
+  DownloadOutlined,
+  EyeOutlined,
+  CloseOutlined,
+  PictureOutlined,
+  FilePdfOutlined,
+  FileTextOutlined,
+  FileWordOutlined,
+  FileZipOutlined,
+  FolderOutlined,
+  PlayCircleOutlined,
+  AppstoreOutlined,
+  SyncOutlined,
 } from '@ant-design/icons';
-import { fileApi, FileMetadata } from '../services/api';
+import { fileApi, ArchiveEntry, FileMetadata, FileListItem, MetadataPatch } from '../services/api';
 
 const { Text, Title } = Typography;
 
@@ -25,6 +40,7 @@ interface FileDetailsModalProps {
   visible: boolean;
   fileId: string | null;
   onCancel: () => void;
+  onChange?: () => void;
 }
 
 // Helper function for Object.entries compatibility
@@ -38,13 +54,37 @@ function getObjectEntries<T>(obj: Record<string, T>): Array<[string, T]> {
   return entries;
 }
 
+// Image, PDF, text, archive, media and Office fields get their own cards, so they're left out of the generic list
+const FORMATTED_FIELD_PREFIXES = [
+  'extracted_image_', 'extracted_exif_', 'extracted_pdf_', 'extracted_text_', 'extracted_csv_', 'extracted_json_',
+  'extracted_archive_', 'extracted_audio_', 'extracted_video_', 'extracted_media_', 'extracted_office_',
+];
+const FORMATTED_FIELDS = [
+  'extracted_page_count', 'extracted_line_count', 'extracted_word_count', 'extracted_char_count',
+  'extracted_duration_seconds', 'extracted_bitrate',
+];
+
+const DELIMITER_LABELS: Record<string, string> = { ',': 'Comma', ';': 'Semicolon', '\t': 'Tab', '|': 'Pipe' };
+
+const EXTRACTOR_STATUS_COLORS: Record<string, string> = { succeeded: 'green', failed: 'red', timed_out: 'orange' };
+
+const CHANNEL_LABELS: Record<number, string> = { 1: 'mono', 2: 'stereo' };
+
 const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
   visible,
   fileId,
   onCancel,
+  onChange,
 }) => {
   const [loading, setLoading] = useState(false);
   const [metadata, setMetadata] = useState<FileMetadata | null>(null);
+  const [etag, setEtag] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<FileListItem[]>([]);
+  const [archiveEntries, setArchiveEntries] = useState<ArchiveEntry[]>([]);
+  const [archiveCursor, setArchiveCursor] = useState<string | undefined>();
+  const [loadingEntries, setLoadingEntries] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [reprocessing, setReprocessing] = useState(false);
 
   useEffect(() => {
     if (visible && fileId) {
@@ -55,8 +95,13 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
   const fetchFileMetadata = async (id: string) => {
     try {
       setLoading(true);
-      const data = await fileApi.getFileMetadata(id);
+      const { metadata: data, etag: version } = await fileApi.getFileMetadataWithETag(id);
       setMetadata(data);
+      setEtag(version);
+      setDuplicates(data.content_hash ? (await fileApi.getFileDuplicates(id)).duplicates : []);
+      const entries = data.extracted_archive_entry_count ? await fileApi.getArchiveEntries(id) : undefined;
+      setArchiveEntries(entries?.entries || []);
+      setArchiveCursor(entries?.next_cursor);
     } catch (error: any) {
       console.error('Error fetching metadata:', error);
       message.error('Failed to load file metadata');
@@ -65,6 +110,127 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
     }
   };
 
+  const loadMoreArchiveEntries = async () => {
+    if (!metadata || !archiveCursor) return;
+    try {
+      setLoadingEntries(true);
+      const result = await fileApi.getArchiveEntries(metadata.file_id, archiveCursor);
+      setArchiveEntries(previous => [...previous, ...result.entries]);
+      setArchiveCursor(result.next_cursor);
+    } catch (error: any) {
+      console.error('Error fetching archive entries:', error);
+      message.error('Failed to load archive entries');
+    } finally {
+      setLoadingEntries(false);
+    }
+  };
+
+  const handleUpdate = async (patch: MetadataPatch) => {
+    if (!metadata || !etag) return;
+    try {
+      const result = await fileApi.updateMetadata(metadata.file_id, patch, etag);
+      setMetadata(result.metadata);
+      setEtag(result.etag);
+      message.success('File updated');
+      onChange?.();
+    } catch (error: any) {
+      console.error('Error updating metadata:', error);
+      if (error.response?.status === 412) {
+        message.warning('This file was changed elsewhere; showing the latest version');
+        fetchFileMetadata(metadata.file_id);
+        return;
+      }
+      message.error(error.response?.data?.details?.[0] || error.response?.data?.error || 'Update failed');
+    }
+  };
+
+  const handleRename = (fileName: string) => {
+    if (!metadata || fileName.trim() === '' || fileName === metadata.file_name) return;
+    handleUpdate({ file_name: fileName });
+  };
+
+  const handleDownload = async (inline: boolean) => {
+    if (!metadata) return;
+    try {
+      setDownloading(true);
+      const result = await fileApi.getDownloadUrl(metadata.file_id, inline);
+      if (inline && result.disposition !== 'inline') {
+        message.info('This file type cannot be previewed, downloading instead');
+      }
+      if (result.disposition === 'inline') {
+        window.open(result.download_url, '_blank', 'noopener');
+      } else {
+        window.location.href = result.download_url;
+      }
+    } catch (error: any) {
+      console.error('Error getting download URL:', error);
+      message.error(error.response?.data?.details?.[0] || error.response?.data?.error || 'Download failed');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleReprocess = async () => {
+    if (!metadata) return;
+    try {
+      setReprocessing(true);
+      await fileApi.reprocessFile(metadata.file_id);
+      message.success('File queued for reprocessing');
+      onChange?.();
+    } catch (error: any) {
+      console.error('Error reprocessing file:', error);
+      message.error(error.response?.data?.details?.[0] || error.response?.data?.error || 'Reprocess failed');
+    } finally {
+      setReprocessing(false);
+    }
+  };
+
+  // Mirrors the server's refusal rules so the buttons explain themselves
+  const getDownloadBlockReason = (data: FileMetadata): string | null => {
+    if (data.status === 'pending') return 'Upload has not been completed';
+    if (data.status === 'error') return 'File failed processing';
+    if (data.content_type_mismatch) return 'File contents do not match its declared type';
+    return null;
+  };
+
+  // Pending uploads and files in the trash can't be edited
+  const isEditable = (data: FileMetadata): boolean =>
+    data.status !== 'pending' && data.status !== 'deleted';
+
+  // Only stored files that aren't already being processed can be reprocessed
+  const isReprocessable = (data: FileMetadata): boolean =>
+    ['uploaded', 'processed', 'error'].includes(data.status);
+
+  const renderFooter = () => {
+    if (!metadata) return null;
+    const blockReason = getDownloadBlockReason(metadata);
+    return (
+      <>
+        {isReprocessable(metadata) && (
+          <Button icon={<SyncOutlined />} loading={reprocessing} onClick={handleReprocess}>
+            Reprocess
+          </Button>
+        )}{' '}
+        <Tooltip title={blockReason}>
+          <span>
+            <Button icon={<EyeOutlined />} disabled={!!blockReason} loading={downloading} onClick={() => handleDownload(true)}>
+              Preview
+            </Button>{' '}
+            <Button
+              type="primary"
+              icon={<DownloadOutlined />}
+              disabled={!!blockReason}
+              loading={downloading}
+              onClick={() => handleDownload(false)}
+            >
+              Download
+            </Button>
+          </span>
+        </Tooltip>
+      </>
+    );
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -81,6 +247,7 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
     switch (status) {
       case 'processed': return 'green';
       case 'uploaded': return 'blue';
+      case 'pending': return 'gold';
       case 'processing': return 'orange';
       case 'error': return 'red';
       default: return 'default';
@@ -98,17 +265,404 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
         {entries.map(([key, value]) => (
           <Col span={12} key={key}>
             <Text strong>{key}: </Text>
-            <Text>{String(value)}</Text>
+            <Text>{String(value)}</Text>{' '}
+            {metadata && isEditable(metadata) && (
+              <Tooltip title="Remove field">
+                <CloseOutlined
+                  style={{ fontSize: '10px', color: '#999' }}
+                  onClick={() => handleUpdate({ client_metadata: { [key]: null } })}
+                />
+              </Tooltip>
+            )}
           </Col>
         ))}
       </Row>
     );
   };
 
+  const isFormattedField = (key: string): boolean =>
+    FORMATTED_FIELDS.includes(key) || FORMATTED_FIELD_PREFIXES.some(prefix => key.startsWith(prefix));
+
+  const renderImageMetadata = (data: FileMetadata) => {
+    const fields: Array<[string, React.ReactNode]> = [];
+    if (data.extracted_image_width !== undefined && data.extracted_image_height !== undefined) {
+      fields.push(['Dimensions', `${data.extracted_image_width} × ${data.extracted_image_height}`]);
+    }
+    if (data.extracted_image_bit_depth !== undefined) {
+      fields.push(['Bit Depth', `${data.extracted_image_bit_depth}-bit`]);
+    }
+    if (data.extracted_image_color_space) {
+      fields.push(['Color Space', data.extracted_image_color_space]);
+    }
+    if (data.extracted_image_animated !== undefined) {
+      fields.push([
+        'Animated',
+        data.extracted_image_animated
+          ? `Yes${data.extracted_image_frame_count ? ` (${data.extracted_image_frame_count} frames)` : ''}`
+          : 'No',
+      ]);
+    }
+    if (data.extracted_exif_camera_make || data.extracted_exif_camera_model) {
+      fields.push([
+        'Camera',
+        [data.extracted_exif_camera_make, data.extracted_exif_camera_model].filter(Boolean).join(' '),
+      ]);
+    }
+    if (data.extracted_exif_orientation !== undefined) {
+      fields.push(['Orientation', String(data.extracted_exif_orientation)]);
+    }
+    if (data.extracted_exif_capture_date) {
+      fields.push(['Captured', formatDate(data.extracted_exif_capture_date)]);
+    }
+    if (data.extracted_exif_has_gps !== undefined) {
+      fields.push([
+        'GPS Location',
+        data.extracted_exif_has_gps ? <Tag color="orange">Embedded</Tag> : 'None',
+      ]);
+    }
+
+    if (fields.length === 0) return null;
+
+    return (
+      <Descriptions column={2} size="small">
+        {fields.map(([label, value]) => (
+          <Descriptions.Item label={label} key={label}>
+            {value}
+          </Descriptions.Item>
+        ))}
+      </Descriptions>
+    );
+  };
+
+  // Word files share the page and word counts, which the Office card shows instead
+  const isOfficeDocument = (data: FileMetadata): boolean => data.extracted_file_type === 'document';
+
+  const renderPdfMetadata = (data: FileMetadata) => {
+    if (isOfficeDocument(data)) return null;
+
+    const fields: Array<[string, React.ReactNode]> = [];
+    if (data.extracted_page_count !== undefined) {
+      fields.push(['Pages', data.extracted_page_count]);
+    }
+    if (data.extracted_pdf_version) {
+      fields.push(['PDF Version', data.extracted_pdf_version]);
+    }
+    if (data.extracted_pdf_title) {
+      fields.push(['Title', data.extracted_pdf_title]);
+    }
+    if (data.extracted_pdf_author) {
+      fields.push(['Author', data.extracted_pdf_author]);
+    }
+    if (data.extracted_pdf_subject) {
+      fields.push(['Subject', data.extracted_pdf_subject]);
+    }
+    if (data.extracted_pdf_creation_date) {
+      fields.push(['Created', formatDate(data.extracted_pdf_creation_date)]);
+    }
+    if (data.extracted_pdf_encrypted !== undefined) {
+      fields.push(['Encrypted', data.extracted_pdf_encrypted ? <Tag color="orange">Yes</Tag> : 'No']);
+    }
+    if (data.extracted_pdf_has_text_layer !== undefined) {
+      fields.push([
+        'Text Layer',
+        data.extracted_pdf_has_text_layer ? 'Yes' : <Tag color="gold">None (scanned?)</Tag>,
+      ]);
+    }
+
+    if (fields.length === 0) return null;
+
+    return (
+      <Descriptions column={2} size="small">
+        {fields.map(([label, value]) => (
+          <Descriptions.Item label={label} key={label}>
+            {value}
+          </Descriptions.Item>
+        ))}
+      </Descriptions>
+    );
+  };
+
+  const renderTextMetadata = (data: FileMetadata) => {
+    if (isOfficeDocument(data)) return null;
+
+    const fields: Array<[string, React.ReactNode]> = [];
+    if (data.extracted_line_count !== undefined) {
+      fields.push(['Lines', data.extracted_line_count.toLocaleString()]);
+    }
+    if (data.extracted_word_count !== undefined) {
+      fields.push(['Words', data.extracted_word_count.toLocaleString()]);
+    }
+    if (data.extracted_char_count !== undefined) {
+      fields.push(['Characters', data.extracted_char_count.toLocaleString()]);
+    }
+    if (data.extracted_text_encoding) {
+      fields.push(['Encoding', `${data.extracted_text_encoding}${data.extracted_text_has_bom ? ' (BOM)' : ''}`]);
+    }
+    if (data.extracted_text_line_ending) {
+      fields.push(['Line Endings', data.extracted_text_line_ending]);
+    }
+    if (data.extracted_csv_delimiter !== undefined) {
+      fields.push(['Delimiter', DELIMITER_LABELS[data.extracted_csv_delimiter] || data.extracted_csv_delimiter]);
+      fields.push(['Columns', `${data.extracted_csv_column_count ?? 0}${data.extracted_csv_has_header ? ', with header row' : ''}`]);
+    }
+    if (data.extracted_json_valid !== undefined) {
+      fields.push([
+        'JSON',
+        data.extracted_json_valid
+          ? `Valid ${data.extracted_json_type}${data.extracted_json_item_count !== undefined ? ` (${data.extracted_json_item_count} ${data.extracted_json_type === 'object' ? 'keys' : 'items'})` : ''}`
+          : <Tag color="red">Invalid</Tag>,
+      ]);
+    }
+
+    if (fields.length === 0) return null;
+
+    const columnTypes = data.extracted_csv_column_types || [];
+    return (
+      <>
+        <Descriptions column={2} size="small">
+          {fields.map(([label, value]) => (
+            <Descriptions.Item label={label} key={label}>
+              {value}
+            </Descriptions.Item>
+          ))}
+        </Descriptions>
+        {columnTypes.length > 0 && (
+          <div style={{ marginTop: 8 }}>
+            {columnTypes.map((type, index) => (
+              <Tag key={index} style={{ marginBottom: 4 }}>
+                {data.extracted_csv_columns?.[index] ?? `Column ${index + 1}`}: {type}
+              </Tag>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderOfficeMetadata = (data: FileMetadata) => {
+    if (!isOfficeDocument(data)) return null;
+
+    const fields: Array<[string, React.ReactNode]> = [];
+    if (data.extracted_office_title) {
+      fields.push(['Title', data.extracted_office_title]);
+    }
+    if (data.extracted_office_author) {
+      fields.push(['Author', data.extracted_office_author]);
+    }
+    if (data.extracted_office_last_modified_by) {
+      fields.push(['Last Modified By', data.extracted_office_last_modified_by]);
+    }
+    if (data.extracted_office_created_date) {
+      fields.push(['Created', formatDate(data.extracted_office_created_date)]);
+    }
+    if (data.extracted_office_modified_date) {
+      fields.push(['Modified', formatDate(data.extracted_office_modified_date)]);
+    }
+    if (data.extracted_page_count !== undefined) {
+      fields.push(['Pages', data.extracted_page_count.toLocaleString()]);
+    }
+    if (data.extracted_word_count !== undefined) {
+      fields.push(['Words', data.extracted_word_count.toLocaleString()]);
+    }
+    if (data.extracted_office_slide_count !== undefined) {
+      fields.push(['Slides', data.extracted_office_slide_count.toLocaleString()]);
+    }
+    if (data.extracted_office_sheet_count !== undefined) {
+      fields.push(['Sheets', data.extracted_office_sheet_count.toLocaleString()]);
+    }
+    if (data.extracted_office_macro_enabled !== undefined) {
+      fields.push([
+        'Macros',
+        data.extracted_office_macro_enabled ? <Tag color="red">Macro-enabled</Tag> : 'None',
+      ]);
+    }
+
+    if (fields.length === 0) return null;
+
+    const sheetNames = data.extracted_office_sheet_names || [];
+    return (
+      <>
+        <Descriptions column={2} size="small">
+          {fields.map(([label, value]) => (
+            <Descriptions.Item label={label} key={label}>
+              {value}
+            </Descriptions.Item>
+          ))}
+        </Descriptions>
+        {sheetNames.length > 0 && (
+          <div style={{ marginTop: 8 }}>
+            {sheetNames.map((name, index) => (
+              <Tag key={index} style={{ marginBottom: 4 }}>
+                {name}
+              </Tag>
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const formatDuration = (seconds: number): string => {
+    const total = Math.round(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+  };
+
+  const renderMediaMetadata = (data: FileMetadata) => {
+    const fields: Array<[string, React.ReactNode]> = [];
+    if (data.extracted_media_title) {
+      fields.push(['Title', data.extracted_media_title]);
+    }
+    if (data.extracted_media_artist) {
+      fields.push(['Artist', data.extracted_media_artist]);
+    }
+    if (data.extracted_media_album) {
+      fields.push(['Album', data.extracted_media_album]);
+    }
+    if (data.extracted_duration_seconds !== undefined) {
+      fields.push(['Duration', formatDuration(data.extracted_duration_seconds)]);
+    }
+    if (data.extracted_bitrate !== undefined) {
+      fields.push(['Bitrate', `${Math.round(data.extracted_bitrate / 1000)} kbps`]);
+    }
+    if (data.extracted_video_codec || data.extracted_video_width !== undefined) {
+      const details = [
+        data.extracted_video_width !== undefined && data.extracted_video_height !== undefined
+          ? `${data.extracted_video_width} × ${data.extracted_video_height}`
+          : null,
+        data.extracted_video_frame_rate !== undefined ? `${data.extracted_video_frame_rate} fps` : null,
+      ].filter(Boolean).join(', ');
+      fields.push(['Video', <>{data.extracted_video_codec && <Tag>{data.extracted_video_codec}</Tag>}{details}</>]);
+    }
+    if (data.extracted_audio_codec || data.extracted_audio_sample_rate !== undefined) {
+      const details = [
+        data.extracted_audio_sample_rate !== undefined ? `${data.extracted_audio_sample_rate} Hz` : null,
+        data.extracted_audio_channels !== undefined
+          ? CHANNEL_LABELS[data.extracted_audio_channels] || `${data.extracted_audio_channels} channels`
+          : null,
+        data.extracted_audio_bit_depth !== undefined ? `${data.extracted_audio_bit_depth}-bit` : null,
+      ].filter(Boolean).join(', ');
+      fields.push(['Audio', <>{data.extracted_audio_codec && <Tag>{data.extracted_audio_codec}</Tag>}{details}</>]);
+    }
+
+    if (fields.length === 0) return null;
+
+    return (
+      <Descriptions column={2} size="small">
+        {fields.map(([label, value]) => (
+          <Descriptions.Item label={label} key={label}>
+            {value}
+          </Descriptions.Item>
+        ))}
+      </Descriptions>
+    );
+  };
+
+  const renderArchiveMetadata = (data: FileMetadata) => {
+    if (data.extracted_archive_entry_count === undefined) return null;
+
+    const fields: Array<[string, React.ReactNode]> = [
+      ['Entries', data.extracted_archive_entry_count.toLocaleString()],
+    ];
+    if (data.extracted_archive_uncompressed_size !== undefined) {
+      fields.push(['Uncompressed Size', formatFileSize(data.extracted_archive_uncompressed_size)]);
+    }
+    if (data.extracted_archive_compression_ratio !== undefined) {
+      fields.push(['Compression Ratio', `${data.extracted_archive_compression_ratio}×`]);
+    }
+
+    const warnings: React.ReactNode[] = [];
+    if (data.extracted_archive_suspected_bomb) {
+      warnings.push(<Tag color="red" key="bomb">Suspected zip bomb</Tag>);
+    }
+    if (data.extracted_archive_path_traversal) {
+      warnings.push(<Tag color="red" key="traversal">Paths escape the extraction folder</Tag>);
+    }
+    if (data.extracted_archive_listing_truncated) {
+      warnings.push(<Tag color="gold" key="truncated">Listing incomplete</Tag>);
+    }
+
+    const topLevel = data.extracted_archive_top_level_entries || [];
+    return (
+      <>
+        <Descriptions column={2} size="small">
+          {fields.map(([label, value]) => (
+            <Descriptions.Item label={label} key={label}>
+              {value}
+            </Descriptions.Item>
+          ))}
+          {warnings.length > 0 && (
+            <Descriptions.Item label="Warnings" span={2}>
+              {warnings}
+            </Descriptions.Item>
+          )}
+        </Descriptions>
+        {topLevel.length > 0 && (
+          <div style={{ marginTop: 8 }}>
+            {topLevel.map(name => (
+              <Tag key={name} icon={name.endsWith('/') ? <FolderOutlined /> : <FileOutlined />} style={{ marginBottom: 4 }}>
+                {name}
+              </Tag>
+            ))}
+          </div>
+        )}
+        {archiveEntries.length > 0 && (
+          <div style={{ marginTop: 8, maxHeight: 240, overflowY: 'auto' }}>
+            {archiveEntries.map((entry, index) => (
+              <div key={index}>
+                <Text code style={{ fontSize: '12px' }}>{entry.path}</Text>{' '}
+                {entry.link_target ? (
+                  <Text type="secondary">→ {entry.link_target}</Text>
+                ) : !entry.is_directory && (
+                  <Text type="secondary">{formatFileSize(entry.size)}</Text>
+                )}
+              </div>
+            ))}
+            {archiveCursor && (
+              <Button size="small" type="link" loading={loadingEntries} onClick={loadMoreArchiveEntries}>
+                Load more
+              </Button>
+            )}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const renderExtractorResults = (data: FileMetadata) => {
+    const results = data.extractor_results ? getObjectEntries(data.extractor_results) : [];
+    if (results.length === 0) return null;
+
+    return (
+      <div>
+        {results.map(([name, result]) => (
+          <div key={name} style={{ marginBottom: 8 }}>
+            <Tooltip title={result.error}>
+              <Tag color={EXTRACTOR_STATUS_COLORS[result.status]}>{name} v{result.version}</Tag>
+            </Tooltip>
+            <Text type="secondary">{result.status.replace('_', ' ')} in {result.duration_ms} ms</Text>
+            {result.fields && Object.keys(result.fields).length > 0 && (
+              <Row gutter={[16, 8]} style={{ marginTop: 4 }}>
+                {getObjectEntries(result.fields).map(([key, value]) => (
+                  <Col span={12} key={key}>
+                    <Text strong>{key.replace(/_/g, ' ')}: </Text>
+                    <Text>{typeof value === 'object' ? JSON.stringify(value) : String(value)}</Text>
+                  </Col>
+                ))}
+              </Row>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const renderExtractedMetadata = (data: FileMetadata) => {
     const allEntries = getObjectEntries(data);
     const extractedFields = allEntries
-      .filter(([key]) => key.startsWith('extracted_'))
+      .filter(([key]) => key.startsWith('extracted_') && !isFormattedField(key))
       .map(([key, value]) => ({
         key: key.replace('extracted_', '').replace(/_/g, ' '),
         value: String(value)
@@ -140,7 +694,7 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
       }
       open={visible}
       onCancel={onCancel}
-      footer={null}
+      footer={renderFooter()}
       width={800}
     >
       {loading ? (
@@ -152,19 +706,31 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
           <Card size="small" style={{ marginBottom: 16 }}>
             <Descriptions column={2} size="small">
               <Descriptions.Item label="File Name" span={2}>
-                <Text strong>{metadata.file_name}</Text>
+                <Text strong editable={isEditable(metadata) ? { onChange: handleRename } : false}>
+                  {metadata.file_name}
+                </Text>
               </Descriptions.Item>
               <Descriptions.Item label="File ID">
                 <Text code>{metadata.file_id}</Text>
               </Descriptions.Item>
               <Descriptions.Item label="Status">
                 <Tag color={getStatusColor(metadata.status)}>{metadata.status}</Tag>
+                {metadata.processing_error && (
+                  <Tooltip title={`Attempt ${metadata.processing_error.attempt_count}`}>
+                    <Text type="danger">
+                      {metadata.processing_error.code}: {metadata.processing_error.message}
+                    </Text>
+                  </Tooltip>
+                )}
               </Descriptions.Item>
               <Descriptions.Item label="File Size">
                 {formatFileSize(metadata.file_size)}
               </Descriptions.Item>
               <Descriptions.Item label="Content Type">
                 <Tag>{metadata.content_type}</Tag>
+                {metadata.content_type_mismatch && (
+                  <Tag color="red">Detected: {metadata.detected_content_type}</Tag>
+                )}
               </Descriptions.Item>
               <Descriptions.Item label="Upload Date" span={2}>
                 <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
@@ -172,17 +738,35 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
                   {formatDate(metadata.upload_date)}
                 </div>
               </Descriptions.Item>
+              {metadata.deleted_at && (
+                <Descriptions.Item label="Deleted" span={2}>
+                  {formatDate(metadata.deleted_at)}
+                </Descriptions.Item>
+              )}
               {metadata.processing_date && (
                 <Descriptions.Item label="Processing Date" span={2}>
                   <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
                     <CalendarOutlined />
                     {formatDate(metadata.processing_date)}
+                    {metadata.processor_version !== undefined && (
+                      <Tag style={{ marginLeft: 8 }}>Processor v{metadata.processor_version}</Tag>
+                    )}
                   </div>
                 </Descriptions.Item>
               )}
               <Descriptions.Item label="S3 Key" span={2}>
                 <Text code style={{ fontSize: '12px' }}>{metadata.s3_key}</Text>
               </Descriptions.Item>
+              {metadata.content_hash && (
+                <Descriptions.Item label="SHA-256" span={2}>
+                  <Text code copyable style={{ fontSize: '12px' }}>{metadata.content_hash}</Text>
+                </Descriptions.Item>
+              )}
+              {metadata.duplicate_of && (
+                <Descriptions.Item label="Duplicate Of" span={2}>
+                  <Text code>{metadata.duplicate_of}</Text>
+                </Descriptions.Item>
+              )}
             </Descriptions>
           </Card>
 
@@ -210,6 +794,132 @@ const FileDetailsModal: React.FC<FileDetailsModalProps> = ({
           >
             {renderExtractedMetadata(metadata)}
           </Card>
+
+          {renderImageMetadata(metadata) && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <PictureOutlined />
+                  <span>Image</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {renderImageMetadata(metadata)}
+            </Card>
+          )}
+
+          {renderPdfMetadata(metadata) && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <FilePdfOutlined />
+                  <span>PDF</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {renderPdfMetadata(metadata)}
+            </Card>
+          )}
+
+          {renderTextMetadata(metadata) && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <FileTextOutlined />
+                  <span>Text</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {renderTextMetadata(metadata)}
+            </Card>
+          )}
+
+          {renderOfficeMetadata(metadata) && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <FileWordOutlined />
+                  <span>Office Document</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {renderOfficeMetadata(metadata)}
+            </Card>
+          )}
+
+          {renderMediaMetadata(metadata) && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <PlayCircleOutlined />
+                  <span>Media</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {renderMediaMetadata(metadata)}
+            </Card>
+          )}
+
+          {renderArchiveMetadata(metadata) && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <FileZipOutlined />
+                  <span>Archive</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {renderArchiveMetadata(metadata)}
+            </Card>
+          )}
+
+          {renderExtractorResults(metadata) && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <AppstoreOutlined />
+                  <span>Extractors</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {renderExtractorResults(metadata)}
+            </Card>
+          )}
+
+          {duplicates.length > 0 && (
+            <Card
+              size="small"
+              title={
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <CopyOutlined />
+                  <span>Files With Identical Content ({duplicates.length})</span>
+                </div>
+              }
+              style={{ marginTop: 16 }}
+            >
+              {duplicates.map(duplicate => (
+                <div key={duplicate.file_id}>
+                  <Text strong>{duplicate.file_name}</Text>{' '}
+                  <Text type="secondary">{formatDate(duplicate.upload_date)}</Text>{' '}
+                  <Text code style={{ fontSize: '12px' }}>{duplicate.file_id}</Text>
+                </div>
+              ))}
+            </Card>
+          )}
         </div>
       ) : (
         <div style={{ textAlign: 'center', padding: '40px 0' }}>
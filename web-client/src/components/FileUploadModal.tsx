@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Modal,
   Form,
@@ -10,10 +10,11 @@ import {
   InputNumber,
   Select,
   Switch,
+  Progress,
 } from 'antd';
-import { UploadOutlined, PlusOutlined, MinusCircleOutlined } from '@ant-design/icons';
+import { UploadOutlined, PlusOutlined, MinusCircleOutlined, FolderOpenOutlined } from '@ant-design/icons';
 import type { UploadFile, UploadProps } from 'antd/es/upload/interface';
-import { fileApi } from '../services/api';
+import { fileApi, checkUploadPolicy, UploadPolicy, DedupeMode } from '../services/api';
 
 interface FileUploadModalProps {
   visible: boolean;
@@ -29,6 +30,18 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
   const [form] = Form.useForm();
   const [uploading, setUploading] = useState(false);
   const [fileList, setFileList] = useState<UploadFile[]>([]);
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
+  const [uploadPolicy, setUploadPolicy] = useState<UploadPolicy | null>(null);
+
+  useEffect(() => {
+    if (!visible || uploadPolicy) {
+      return;
+    }
+    // Without the policy the server still validates; this only enables early feedback
+    fileApi.getUploadPolicy()
+      .then(setUploadPolicy)
+      .catch((error) => console.warn('Could not load upload policy:', error));
+  }, [visible, uploadPolicy]);
 
   const handleUpload = async () => {
     try {
@@ -41,25 +54,20 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
 
       setUploading(true);
       
-      // Extract file with proper validation
-      const uploadFile = fileList[0];
-      const file = uploadFile.originFileObj || uploadFile as any;
-      
-      if (!file) {
-        message.error('No file selected or file is invalid');
-        setUploading(false);
-        return;
-      }
+      // Extract files with proper validation, keeping each one's list entry
+      const selected: Array<{ uid: string; file: File }> = [];
+      for (const uploadFile of fileList) {
+        const file = uploadFile.originFileObj || uploadFile as any;
 
-      // Ensure we have a proper File object
-      if (!(file instanceof File)) {
-        message.error('Invalid file object');
-        setUploading(false);
-        return;
+        // Ensure we have a proper File object
+        if (!file || !(file instanceof File)) {
+          message.error('Invalid file object');
+          setUploading(false);
+          return;
+        }
+        selected.push({ uid: uploadFile.uid, file });
       }
 
-      console.log('Uploading file:', file.name, 'Size:', file.size, 'Type:', file.type);
-      
       const metadata: Record<string, any> = {};
       
       // Process custom metadata fields
@@ -79,9 +87,51 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
       if (values.priority !== undefined) metadata.priority = values.priority;
       if (values.is_public !== undefined) metadata.is_public = values.is_public;
 
-      const result = await fileApi.uploadFile(file, metadata);
-      
-      message.success(`File uploaded successfully! File ID: ${result.file_id}`);
+      const dedupe: DedupeMode = values.dedupe;
+
+      setUploadPercent(0);
+
+      if (selected.length === 1) {
+        const result = await fileApi.uploadFile(selected[0].file, metadata, setUploadPercent, dedupe);
+        message.success(`File uploaded successfully! File ID: ${result.file_id}`);
+      } else {
+        // Each file goes straight to S3 on its own presigned URL, so a folder isn't held to
+        // the POST /upload file count or request body limits
+        const totalBytes = selected.reduce((sum, { file }) => sum + file.size, 0);
+        const uploadOne = (file: File, bytesBefore: number) =>
+          fileApi.uploadFile(file, metadata, (percent) => {
+            if (totalBytes > 0) {
+              setUploadPercent(Math.round(((bytesBefore + (file.size * percent) / 100) / totalBytes) * 100));
+            }
+          }, dedupe);
+
+        let doneBytes = 0;
+        const uploaded = new Set<string>();
+        const failures: string[] = [];
+
+        for (const { uid, file } of selected) {
+          try {
+            await uploadOne(file, doneBytes);
+            uploaded.add(uid);
+          } catch (error: any) {
+            console.error('Upload error:', file.name, error);
+            failures.push(`${file.name} (${error.response?.data?.error || error.message})`);
+          }
+          doneBytes += file.size;
+        }
+
+        if (failures.length > 0) {
+          // Only the failed files stay selected, so uploading again retries just those
+          setFileList(prev => prev.filter(f => !uploaded.has(f.uid)));
+          message.warning(`${uploaded.size} of ${selected.length} files uploaded. Failed: ${failures.join(', ')}`);
+          if (uploaded.size > 0) {
+            onSuccess();
+          }
+          return;
+        }
+
+        message.success(`${selected.length} files uploaded successfully`);
+      }
       
       // Reset form and close modal
       form.resetFields();
@@ -94,29 +144,36 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
       message.error(error.response?.data?.error || 'Upload failed');
     } finally {
       setUploading(false);
+      setUploadPercent(null);
     }
   };
 
   const uploadProps: UploadProps = {
     fileList,
+    multiple: true,
     beforeUpload: (file) => {
       console.log('File selected:', file.name, 'Size:', file.size, 'Type:', file.type);
+
+      const rejection = uploadPolicy && checkUploadPolicy(file, uploadPolicy);
+      if (rejection) {
+        message.error(`${file.name}: ${rejection}`);
+        return Upload.LIST_IGNORE;
+      }
       
       // Create proper UploadFile object with originFileObj
       const uploadFile: UploadFile = {
-        uid: file.name + Date.now(),
-        name: file.name,
+        uid: file.uid,
+        name: file.webkitRelativePath || file.name,
         status: 'done',
         originFileObj: file,
       };
       
-      setFileList([uploadFile]);
+      setFileList(prev => [...prev, uploadFile]);
       return false; // Prevent automatic upload
     },
-    onRemove: () => {
-      setFileList([]);
+    onRemove: (removed) => {
+      setFileList(prev => prev.filter(f => f.uid !== removed.uid));
     },
-    maxCount: 1,
   };
 
   const handleCancel = () => {
@@ -140,22 +197,35 @@ const FileUploadModal: React.FC<FileUploadModalProps> = ({
           loading={uploading}
           onClick={handleUpload}
         >
-          Upload File
+          {fileList.length > 1 ? `Upload ${fileList.length} Files` : 'Upload File'}
         </Button>,
       ]}
       width={600}
     >
       <Form form={form} layout="vertical">
-        <Form.Item
-          name="file"
-          label="Select File"
-          rules={[{ required: true, message: 'Please select a file' }]}
-        >
+        <Form.Item label="Select Files" required>
+          <div style={{ marginBottom: 8 }}>
+            <Upload {...uploadProps} directory showUploadList={false}>
+              <Button icon={<FolderOpenOutlined />}>Select Folder</Button>
+            </Upload>
+          </div>
           <Upload {...uploadProps}>
-            <Button icon={<UploadOutlined />}>Select File</Button>
+            <Button icon={<UploadOutlined />}>Select Files</Button>
           </Upload>
         </Form.Item>
 
+        {uploadPercent !== null && (
+          <Progress percent={uploadPercent} status="active" style={{ marginBottom: 16 }} />
+        )}
+
+        <Form.Item name="dedupe" label="If Content Already Exists" initialValue="allow">
+          <Select>
+            <Select.Option value="allow">Upload another copy</Select.Option>
+            <Select.Option value="link">Link to the existing file</Select.Option>
+            <Select.Option value="reject">Reject the upload</Select.Option>
+          </Select>
+        </Form.Item>
+
         <Form.Item name="author" label="Author">
           <Input placeholder="Enter author name" />
         </Form.Item>
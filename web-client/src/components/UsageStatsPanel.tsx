@@ -0,0 +1,180 @@
+import React from 'react';
+import {
+  Card,
+  Row,
+  Col,
+  Statistic,
+  Progress,
+  Space,
+  Tag,
+  Tooltip,
+  Typography,
+  Empty,
+} from 'antd';
+import {
+  FileOutlined,
+  DatabaseOutlined,
+  CheckCircleOutlined,
+  DeleteOutlined,
+} from '@ant-design/icons';
+import { UsageBucket, UsageStatsResponse } from '../services/api';
+
+const { Text } = Typography;
+
+interface UsageStatsPanelProps {
+  stats: UsageStatsResponse | null;
+  loading: boolean;
+}
+
+const UsageStatsPanel: React.FC<UsageStatsPanelProps> = ({ stats, loading }) => {
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const findBucket = (buckets: UsageBucket[] | undefined, value: string): UsageBucket | undefined =>
+    buckets?.find(bucket => bucket.value === value);
+
+  // Largest consumers first, each bar relative to the total bytes
+  const renderBreakdown = (buckets: UsageBucket[] | undefined) => {
+    if (!buckets || buckets.length === 0) {
+      return <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No data yet" />;
+    }
+    const totalBytes = buckets.reduce((sum, bucket) => sum + bucket.total_bytes, 0);
+    return (
+      <Space direction="vertical" style={{ width: '100%' }} size={4}>
+        {[...buckets]
+          .sort((a, b) => b.total_bytes - a.total_bytes)
+          .map(bucket => (
+            <div key={bucket.value}>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Text>{bucket.value}</Text>
+                <Text type="secondary">
+                  {bucket.file_count} files · {formatFileSize(bucket.total_bytes)}
+                </Text>
+              </div>
+              <Progress
+                percent={totalBytes > 0 ? Math.round((bucket.total_bytes / totalBytes) * 100) : 0}
+                size="small"
+                showInfo={false}
+              />
+            </div>
+          ))}
+      </Space>
+    );
+  };
+
+  // One bar per day with uploads, scaled to the busiest day
+  const renderDailyUploads = (buckets: UsageBucket[] | undefined) => {
+    if (!buckets || buckets.length === 0) {
+      return <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No uploads in the last 30 days" />;
+    }
+    const maxCount = Math.max(...buckets.map(bucket => bucket.file_count));
+    return (
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 4, height: 120 }}>
+        {buckets.map(bucket => (
+          <Tooltip
+            key={bucket.value}
+            title={`${bucket.value}: ${bucket.file_count} files, ${formatFileSize(bucket.total_bytes)}`}
+          >
+            <div
+              style={{
+                flex: 1,
+                minWidth: 4,
+                height: `${Math.max(4, (bucket.file_count / maxCount) * 100)}%`,
+                background: '#1890ff',
+                borderRadius: 2,
+              }}
+            />
+          </Tooltip>
+        ))}
+      </div>
+    );
+  };
+
+  const processed = findBucket(stats?.by_status, 'processed');
+  const trash = findBucket(stats?.by_status, 'deleted');
+
+  return (
+    <>
+      <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+        <Col span={6}>
+          <Card loading={loading}>
+            <Statistic
+              title="Total Files"
+              value={stats?.totals.file_count ?? 0}
+              prefix={<FileOutlined />}
+              valueStyle={{ color: '#1890ff' }}
+            />
+          </Card>
+        </Col>
+        <Col span={6}>
+          <Card loading={loading}>
+            <Statistic
+              title="Total Size"
+              value={formatFileSize(stats?.totals.total_bytes ?? 0)}
+              prefix={<DatabaseOutlined />}
+              valueStyle={{ color: '#722ed1' }}
+            />
+          </Card>
+        </Col>
+        <Col span={6}>
+          <Card loading={loading}>
+            <Statistic
+              title="Processed Files"
+              value={processed?.file_count ?? 0}
+              prefix={<CheckCircleOutlined />}
+              valueStyle={{ color: '#52c41a' }}
+            />
+          </Card>
+        </Col>
+        <Col span={6}>
+          <Card loading={loading}>
+            <Statistic
+              title="In Trash"
+              value={trash?.file_count ?? 0}
+              suffix={trash ? <Text type="secondary" style={{ fontSize: 14 }}>({formatFileSize(trash.total_bytes)})</Text> : undefined}
+              prefix={<DeleteOutlined />}
+              valueStyle={{ color: '#fa541c' }}
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      <Row gutter={[16, 16]} style={{ marginBottom: 24 }}>
+        <Col span={8}>
+          <Card title="Storage by File Type" size="small" loading={loading}>
+            {renderBreakdown(stats?.by_file_type)}
+          </Card>
+        </Col>
+        <Col span={8}>
+          <Card title="Storage by Category" size="small" loading={loading}>
+            {renderBreakdown(stats?.by_category)}
+            <Space size={[4, 4]} wrap style={{ marginTop: 12 }}>
+              {stats?.by_size_category.map(bucket => (
+                <Tag key={bucket.value}>{bucket.value}: {bucket.file_count}</Tag>
+              ))}
+            </Space>
+          </Card>
+        </Col>
+        <Col span={8}>
+          <Card title="Uploads, Last 30 Days" size="small" loading={loading}>
+            {renderDailyUploads(stats?.by_day)}
+            <Space size={[4, 4]} wrap style={{ marginTop: 12 }}>
+              {stats?.by_month.slice(-6).map(bucket => (
+                <Tooltip key={bucket.value} title={formatFileSize(bucket.total_bytes)}>
+                  <Tag color="blue">{bucket.value}: {bucket.file_count}</Tag>
+                </Tooltip>
+              ))}
+            </Space>
+          </Card>
+        </Col>
+      </Row>
+    </>
+  );
+};
+
+export default UsageStatsPanel;
@@ -16,6 +16,23 @@ export interface FileListItem {
   file_size: number;
   status: string;
   content_type?: string;
+  deleted_at?: string;
+  processing_error?: ProcessingError;
+}
+
+export interface ProcessingError {
+  code: string;
+  message: string;
+  attempt_count: number;
+}
+
+// Outcome of one extractor; fields are only stored for extractors added outside the core set
+export interface ExtractorResult {
+  status: 'succeeded' | 'failed' | 'timed_out';
+  version: number;
+  duration_ms: number;
+  fields?: Record<string, any>;
+  error?: string;
 }
 
 export interface FileMetadata {
@@ -27,13 +44,204 @@ export interface FileMetadata {
   file_size: number;
   status: string;
   client_metadata?: Record<string, any>;
+  declared_content_type?: string;
+  detected_content_type?: string;
+  content_type_mismatch?: boolean;
+  content_hash?: string;
+  duplicate_of?: string;
+  processing_started_at?: string;
+  processing_attempts?: number;
+  processing_error?: ProcessingError;
+  processor_version?: number;
+  extractor_results?: Record<string, ExtractorResult>;
+  deleted_at?: string;
+  version?: number;
+  modified_date?: string;
+  extracted_image_width?: number;
+  extracted_image_height?: number;
+  extracted_image_bit_depth?: number;
+  extracted_image_color_space?: string;
+  extracted_image_frame_count?: number;
+  extracted_image_animated?: boolean;
+  extracted_exif_camera_make?: string;
+  extracted_exif_camera_model?: string;
+  extracted_exif_orientation?: number;
+  extracted_exif_capture_date?: string;
+  extracted_exif_has_gps?: boolean;
+  extracted_page_count?: number;
+  extracted_pdf_version?: string;
+  extracted_pdf_title?: string;
+  extracted_pdf_author?: string;
+  extracted_pdf_subject?: string;
+  extracted_pdf_creation_date?: string;
+  extracted_pdf_encrypted?: boolean;
+  extracted_pdf_has_text_layer?: boolean;
+  extracted_line_count?: number;
+  extracted_word_count?: number;
+  extracted_char_count?: number;
+  extracted_text_encoding?: string;
+  extracted_text_has_bom?: boolean;
+  extracted_text_line_ending?: string;
+  extracted_csv_delimiter?: string;
+  extracted_csv_has_header?: boolean;
+  extracted_csv_column_count?: number;
+  extracted_csv_columns?: string[];
+  extracted_csv_column_types?: string[];
+  extracted_json_valid?: boolean;
+  extracted_json_type?: string;
+  extracted_json_item_count?: number;
+  extracted_archive_entry_count?: number;
+  extracted_archive_uncompressed_size?: number;
+  extracted_archive_compression_ratio?: number;
+  extracted_archive_top_level_entries?: string[];
+  extracted_archive_suspected_bomb?: boolean;
+  extracted_archive_path_traversal?: boolean;
+  extracted_archive_listing_truncated?: boolean;
+  extracted_duration_seconds?: number;
+  extracted_bitrate?: number;
+  extracted_audio_codec?: string;
+  extracted_audio_sample_rate?: number;
+  extracted_audio_channels?: number;
+  extracted_audio_bit_depth?: number;
+  extracted_video_codec?: string;
+  extracted_video_width?: number;
+  extracted_video_height?: number;
+  extracted_video_frame_rate?: number;
+  extracted_media_title?: string;
+  extracted_media_artist?: string;
+  extracted_media_album?: string;
+  extracted_office_title?: string;
+  extracted_office_author?: string;
+  extracted_office_last_modified_by?: string;
+  extracted_office_created_date?: string;
+  extracted_office_modified_date?: string;
+  extracted_office_sheet_names?: string[];
+  extracted_office_sheet_count?: number;
+  extracted_office_slide_count?: number;
+  extracted_office_macro_enabled?: boolean;
   [key: string]: any; // For extracted metadata fields
 }
 
+export interface VersionedFileMetadata {
+  metadata: FileMetadata;
+  // Send back as If-Match when updating
+  etag: string;
+}
+
+// JSON Merge Patch for PATCH /metadata/{file_id}; null removes a field
+export interface MetadataPatch {
+  file_name?: string;
+  client_metadata?: Record<string, string | number | boolean | null> | null;
+}
+
+// What the server does when the uploaded content is already stored
+export type DedupeMode = 'reject' | 'link' | 'allow';
+
+export interface DownloadResponse {
+  file_id: string;
+  file_name: string;
+  download_url: string;
+  disposition: 'attachment' | 'inline';
+  content_type: string;
+  file_size: number;
+  expires_in: number;
+}
+
+export interface DuplicatesResponse {
+  file_id: string;
+  content_hash?: string;
+  duplicates: FileListItem[];
+  total_count: number;
+}
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  compressed_size?: number;
+  modified_date?: string;
+  is_directory: boolean;
+  link_target?: string;
+}
+
+export interface ArchiveEntriesResponse {
+  file_id: string;
+  entries: ArchiveEntry[];
+  total_count: number;
+  listing_truncated: boolean;
+  next_cursor?: string;
+}
+
+export interface DeleteFileResponse {
+  file_id: string;
+  message: string;
+  deleted_at: string;
+  purge_after: string;
+}
+
+export interface RestoreFileResponse {
+  file_id: string;
+  message: string;
+  status: string;
+  job_id?: string;
+}
+
+export interface ReprocessResponse {
+  job_id: string;
+  file_id?: string;
+}
+
+// Server-side filters and sort for GET /files
+export interface ListFilesQuery {
+  limit?: number;
+  deleted?: boolean;
+  status?: string;
+  file_type?: string;
+  category?: string;
+  content_type?: string;
+  uploaded_from?: string;
+  uploaded_to?: string;
+  min_size?: number;
+  max_size?: number;
+  metadata?: Record<string, string>;
+  sort?: 'upload_date' | 'file_size' | 'file_name';
+  order?: 'asc' | 'desc';
+}
+
 export interface ListFilesResponse {
   files: FileListItem[];
   total_count: number;
-  next_key?: string;
+  next_cursor?: string;
+}
+
+export interface SearchResultItem extends FileListItem {
+  score: number;
+  matched_fields: string[];
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResultItem[];
+  total_count: number;
+  next_cursor?: string;
+}
+
+export interface UsageBucket {
+  value: string;
+  file_count: number;
+  total_bytes: number;
+}
+
+export interface UsageStatsResponse {
+  totals: {
+    file_count: number;
+    total_bytes: number;
+  };
+  by_status: UsageBucket[];
+  by_file_type: UsageBucket[];
+  by_category: UsageBucket[];
+  by_size_category: UsageBucket[];
+  by_day: UsageBucket[];
+  by_month: UsageBucket[];
 }
 
 export interface UploadResponse {
@@ -45,6 +253,133 @@ export interface UploadResponse {
   metadata_fields_stored: number;
 }
 
+export interface InitiateUploadResponse {
+  file_id: string;
+  s3_key: string;
+  upload_method: 'PUT' | 'MULTIPART';
+  upload_url?: string;
+  upload_headers?: Record<string, string>;
+  expires_in?: number;
+  upload_id?: string;
+  part_size?: number;
+  part_count?: number;
+}
+
+export interface UploadedPart {
+  part_number: number;
+  size: number;
+  etag: string;
+  last_modified?: string;
+}
+
+export interface ListPartsResponse {
+  file_id: string;
+  upload_id: string;
+  part_size: number;
+  part_count: number;
+  parts: UploadedPart[];
+  uploaded_bytes: number;
+}
+
+export interface PresignPartsResponse {
+  file_id: string;
+  upload_id: string;
+  parts: Array<{ part_number: number; upload_url: string }>;
+  expires_in: number;
+}
+
+export interface UploadPolicy {
+  allowed_mime_types: string[];
+  denied_mime_types: string[];
+  allowed_extensions: string[];
+  denied_extensions: string[];
+  max_file_size: number;
+  size_limits: Record<string, number>;
+  upload_limits: {
+    direct: number;
+    presigned: number;
+    multipart: number;
+  };
+}
+
+// Files above this size are sent as resumable S3 multipart uploads
+const MULTIPART_THRESHOLD = 64 * 1024 * 1024; // 64MB
+const PART_BATCH_SIZE = 10;
+const PART_MAX_ATTEMPTS = 4;
+const RESUME_KEY_PREFIX = 'file-manager:multipart:';
+
+// Identify a local file well enough to resume its upload after a reload
+function getResumeKey(file: File): string {
+  return `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Upload a single part, retrying transient failures with exponential backoff
+async function uploadPartWithRetry(url: string, body: Blob, onPartProgress: (loaded: number) => void): Promise<void> {
+  for (let attempt = 1; attempt <= PART_MAX_ATTEMPTS; attempt++) {
+    try {
+      await axios.put(url, body, {
+        timeout: 0,
+        onUploadProgress: (event) => onPartProgress(event.loaded),
+      });
+      return;
+    } catch (error) {
+      onPartProgress(0);
+      if (attempt === PART_MAX_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`Part upload attempt ${attempt} failed, retrying`, error);
+      await sleep(1000 * Math.pow(2, attempt - 1));
+    }
+  }
+}
+
+function matchesMimePattern(contentType: string, patterns: string[]): boolean {
+  const mediaType = contentType.split('/')[0];
+  return patterns.some(pattern =>
+    pattern === '*/*' ||
+    pattern === contentType ||
+    (pattern.endsWith('/*') && pattern.slice(0, -2) === mediaType)
+  );
+}
+
+// Pre-validate a file against the server's upload policy; returns the reason it would be rejected.
+// The server re-checks the actual bytes, so this only saves a round trip for obvious mismatches.
+export function checkUploadPolicy(file: File, policy: UploadPolicy): string | null {
+  const lastDot = file.name.lastIndexOf('.');
+  const extension = lastDot > 0 ? file.name.slice(lastDot + 1).toLowerCase() : '';
+  const contentType = file.type.split(';')[0].trim().toLowerCase();
+
+  if (extension && policy.denied_extensions.includes(extension)) {
+    return `Files with extension .${extension} are not allowed`;
+  }
+
+  if (policy.allowed_extensions.length > 0 && !policy.allowed_extensions.includes(extension)) {
+    return extension ? `Files with extension .${extension} are not allowed` : 'Files without an extension are not allowed';
+  }
+
+  // Browsers leave the type empty when they don't recognise the file; let the server decide
+  if (contentType) {
+    if (matchesMimePattern(contentType, policy.denied_mime_types)) {
+      return `Content type ${contentType} is not allowed`;
+    }
+    if (policy.allowed_mime_types.length > 0 && !matchesMimePattern(contentType, policy.allowed_mime_types)) {
+      return `Content type ${contentType} is not in the list of allowed types`;
+    }
+  }
+
+  const typeLimit = policy.size_limits[contentType] ?? policy.size_limits[`${contentType.split('/')[0]}/*`];
+  const maxSize = typeLimit !== undefined ? Math.min(typeLimit, policy.max_file_size) : policy.max_file_size;
+  if (file.size > maxSize) {
+    return `Maximum size for this file type is ${Math.round(maxSize / 1024 / 1024)}MB`;
+  }
+
+  return null;
+}
+
 // Helper function for Object.entries compatibility
 function getObjectEntries<T>(obj: Record<string, T>): Array<[string, T]> {
   const keys = Object.keys(obj);
@@ -58,9 +393,34 @@ function getObjectEntries<T>(obj: Record<string, T>): Array<[string, T]> {
 
 // API Functions
 export const fileApi = {
-  // List all files
-  async listFiles(limit: number = 100): Promise<ListFilesResponse> {
-    const response = await api.get(`/files?limit=${limit}`);
+  // List files matching the query; `deleted: true` lists the trash. Pass the previous
+  // response's next_cursor with the same query to get the next page.
+  async listFiles(query: ListFilesQuery = {}, cursor?: string): Promise<ListFilesResponse> {
+    const { metadata, deleted, ...filters } = query;
+    const params: Record<string, string | number> = { limit: 100 };
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params[key] = value;
+    });
+    if (deleted) params.deleted = 'true';
+    if (cursor) params.cursor = cursor;
+    Object.entries(metadata || {}).forEach(([key, value]) => {
+      params[`metadata.${key}`] = value;
+    });
+    const response = await api.get('/files', { params });
+    return response.data;
+  },
+
+  // Full-text search over names, custom metadata and document text, best match first
+  async search(q: string, cursor?: string): Promise<SearchResponse> {
+    const params: Record<string, string | number> = { q, limit: 50 };
+    if (cursor) params.cursor = cursor;
+    const response = await api.get('/search', { params });
+    return response.data;
+  },
+
+  // File counts and bytes by status, type, size class and upload day/month
+  async getStats(days?: number): Promise<UsageStatsResponse> {
+    const response = await api.get('/stats', { params: days ? { days } : {} });
     return response.data;
   },
 
@@ -70,8 +430,27 @@ export const fileApi = {
     return response.data.metadata;
   },
 
+  // Get file metadata along with the ETag needed to edit it
+  async getFileMetadataWithETag(fileId: string): Promise<VersionedFileMetadata> {
+    const response = await api.get(`/metadata/${fileId}`);
+    return { metadata: response.data.metadata, etag: response.headers.etag };
+  },
+
+  // Rename a file or change its custom metadata; fails with 412 if someone else edited it first
+  async updateMetadata(fileId: string, patch: MetadataPatch, etag: string): Promise<VersionedFileMetadata> {
+    const response = await api.patch(`/metadata/${fileId}`, patch, {
+      headers: { 'Content-Type': 'application/merge-patch+json', 'If-Match': etag },
+    });
+    return { metadata: response.data.metadata, etag: response.headers.etag };
+  },
+
   // Upload file
-  async uploadFile(file: File, metadata: Record<string, any> = {}): Promise<UploadResponse> {
+  async uploadFile(
+    file: File,
+    metadata: Record<string, any> = {},
+    onProgress?: (percent: number) => void,
+    dedupe?: DedupeMode
+  ): Promise<UploadResponse> {
     // Validate file object
     if (!file) {
       throw new Error('No file provided');
@@ -87,37 +466,194 @@ export const fileApi = {
     
     console.log('Uploading file:', file.name, 'Size:', file.size, 'Type:', file.type);
     
-    const formData = new FormData();
-    formData.append('file', file, file.name); // Explicitly set filename
-    
-    // Add metadata fields using compatible approach
+    // Keep only metadata fields that carry a value
+    const cleanedMetadata: Record<string, any> = {};
     const metadataEntries = getObjectEntries(metadata);
     for (let i = 0; i < metadataEntries.length; i++) {
       const [key, value] = metadataEntries[i];
       if (value !== undefined && value !== null && value !== '') {
-        formData.append(key, String(value));
+        cleanedMetadata[key] = value;
         console.log(`Added metadata: ${key} = ${value}`);
       }
     }
 
-    // Debug: Log FormData contents
-    console.log('FormData contents:');
-    for (const [key, value] of formData.entries()) {
-      if (value instanceof File) {
-        console.log(`${key}: File(name="${value.name}", size=${value.size}, type="${value.type}")`);
-      } else {
-        console.log(`${key}: ${value}`);
-      }
+    if (file.size > MULTIPART_THRESHOLD) {
+      return fileApi.uploadFileMultipart(file, cleanedMetadata, onProgress, dedupe);
     }
 
-    const response = await api.post('/upload', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
+    // Step 1: create the file record and get a presigned S3 URL
+    const initiateResponse = await api.post<InitiateUploadResponse>('/uploads/initiate', {
+      file_name: file.name,
+      content_type: file.type || 'application/octet-stream',
+      file_size: file.size,
+      metadata: cleanedMetadata,
+      dedupe,
+    });
+    const upload = initiateResponse.data;
+
+    // Step 2: send the bytes straight to S3, bypassing the API Gateway body limit
+    await axios.put(upload.upload_url!, file, {
+      headers: upload.upload_headers,
+      timeout: 0,
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
       },
     });
+
+    // Step 3: confirm the object landed so the record leaves the pending state
+    const completeResponse = await api.post<UploadResponse>(`/uploads/${upload.file_id}/complete`);
     
+    return completeResponse.data;
+  },
+
+  // Upload a large file in parts, resuming from the last confirmed part if interrupted
+  async uploadFileMultipart(
+    file: File,
+    metadata: Record<string, any> = {},
+    onProgress?: (percent: number) => void,
+    dedupe?: DedupeMode
+  ): Promise<UploadResponse> {
+    const resumeKey = getResumeKey(file);
+    let fileId = localStorage.getItem(resumeKey);
+    let progress: ListPartsResponse | null = null;
+
+    if (fileId) {
+      try {
+        progress = await fileApi.listUploadParts(fileId);
+        console.log(`Resuming upload ${fileId}: ${progress.parts.length}/${progress.part_count} parts already uploaded`);
+      } catch (error) {
+        console.warn('Stored upload can no longer be resumed, starting over', error);
+        localStorage.removeItem(resumeKey);
+        fileId = null;
+      }
+    }
+
+    if (!fileId || !progress) {
+      const initiateResponse = await api.post<InitiateUploadResponse>('/uploads/initiate', {
+        file_name: file.name,
+        content_type: file.type || 'application/octet-stream',
+        file_size: file.size,
+        metadata,
+        multipart: true,
+        dedupe,
+      });
+      const upload = initiateResponse.data;
+      fileId = upload.file_id;
+      localStorage.setItem(resumeKey, fileId);
+      progress = {
+        file_id: fileId,
+        upload_id: upload.upload_id!,
+        part_size: upload.part_size!,
+        part_count: upload.part_count!,
+        parts: [],
+        uploaded_bytes: 0,
+      };
+    }
+
+    const { part_size: partSize, part_count: partCount } = progress;
+    const completedParts = new Set(progress.parts.map(part => part.part_number));
+    let confirmedBytes = progress.uploaded_bytes;
+
+    const reportProgress = (inFlightBytes: number) => {
+      if (onProgress && file.size > 0) {
+        onProgress(Math.min(100, Math.round(((confirmedBytes + inFlightBytes) / file.size) * 100)));
+      }
+    };
+    reportProgress(0);
+
+    const missingParts: number[] = [];
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (!completedParts.has(partNumber)) {
+        missingParts.push(partNumber);
+      }
+    }
+
+    for (let i = 0; i < missingParts.length; i += PART_BATCH_SIZE) {
+      const batch = missingParts.slice(i, i + PART_BATCH_SIZE);
+      const presigned = await fileApi.presignUploadParts(fileId, batch);
+
+      for (const part of presigned.parts) {
+        const start = (part.part_number - 1) * partSize;
+        const blob = file.slice(start, Math.min(start + partSize, file.size));
+        await uploadPartWithRetry(part.upload_url, blob, reportProgress);
+        confirmedBytes += blob.size;
+        reportProgress(0);
+      }
+
+      // Checkpoint progress on the server after every batch
+      await fileApi.listUploadParts(fileId);
+    }
+
+    const completeResponse = await api.post<UploadResponse>(`/uploads/${fileId}/complete`);
+    localStorage.removeItem(resumeKey);
+
+    return completeResponse.data;
+  },
+
+  // List parts already received for a multipart upload
+  async listUploadParts(fileId: string): Promise<ListPartsResponse> {
+    const response = await api.get(`/uploads/${fileId}/parts`);
+    return response.data;
+  },
+
+  // Get presigned URLs for multipart upload parts
+  async presignUploadParts(fileId: string, partNumbers: number[]): Promise<PresignPartsResponse> {
+    const response = await api.post(`/uploads/${fileId}/parts`, { part_numbers: partNumbers });
+    return response.data;
+  },
+
+  // Get a short-lived download URL; inline asks for an in-browser preview where the type allows it
+  async getDownloadUrl(fileId: string, inline: boolean = false): Promise<DownloadResponse> {
+    const response = await api.get(`/files/${fileId}/download`, {
+      params: { disposition: inline ? 'inline' : 'attachment' },
+    });
     return response.data;
   },
+
+  // List other files with the same content
+  async getFileDuplicates(fileId: string): Promise<DuplicatesResponse> {
+    const response = await api.get(`/files/${fileId}/duplicates`);
+    return response.data;
+  },
+
+  // List the entries inside an archive, one page at a time
+  async getArchiveEntries(fileId: string, cursor?: string): Promise<ArchiveEntriesResponse> {
+    const response = await api.get(`/files/${fileId}/archive-entries`, {
+      params: cursor ? { cursor } : undefined,
+    });
+    return response.data;
+  },
+
+  // Get the file type and size policy enforced on uploads
+  async getUploadPolicy(): Promise<UploadPolicy> {
+    const response = await api.get('/config/upload-policy');
+    return response.data;
+  },
+
+  // Move a file to the trash
+  async deleteFile(fileId: string): Promise<DeleteFileResponse> {
+    const response = await api.delete(`/files/${fileId}`);
+    return response.data;
+  },
+
+  // Take a file back out of the trash
+  async restoreFile(fileId: string): Promise<RestoreFileResponse> {
+    const response = await api.post(`/files/${fileId}/restore`);
+    return response.data;
+  },
+
+  // Queue a stored file for metadata re-extraction
+  async reprocessFile(fileId: string): Promise<ReprocessResponse> {
+    const response = await api.post(`/files/${fileId}/reprocess`);
+    return response.data;
+  },
+
+  // Abandon a pending upload
+  async abortUpload(fileId: string): Promise<void> {
+    await api.delete(`/uploads/${fileId}`);
+  },
 };
 
 export default api;